@@ -0,0 +1,79 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/comparators.circom";
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "./merkleProof.circom";
+
+/*
+ * Holder Inclusion ZK Circuit
+ * Proves: the wallet has a leaf in the holder snapshot tree with
+ *         balance >= threshold
+ * Without revealing: the balance or the leaf's position
+ *
+ * Private inputs:
+ *   - balance: The wallet's balance in the snapshot, in the mint's base units
+ *   - identityCommitment: The wallet's anonymous identity commitment, or 0
+ *   - pathElements: Sibling hashes from the leaf up to the root
+ *   - pathIndices: 0 if the node is a left child at that level, 1 if right
+ *
+ * Public inputs:
+ *   - threshold: Minimum required balance in base units (e.g., 10000000000)
+ *   - root: Merkle root published by the holder-snapshot function
+ *   - walletHash: SHA-256 of the sender's wallet address, truncated to 248 bits
+ *   - nonce: Single-use value issued by the proof-nonce function
+ *
+ * Leaves are Poseidon(walletHash, balance, identityCommitment) and inner nodes
+ * Poseidon(left, right), so the leaf ties the balance to the sending wallet.
+ * rln.circom proves membership in the same tree without revealing
+ * the wallet. Public signals keep the layout of tokenBalance.circom with the
+ * root in place of the commitment: [valid, threshold, root, walletHash, nonce].
+ */
+
+template HolderInclusion(levels) {
+    // Private inputs
+    signal input balance;
+    signal input identityCommitment;
+    signal input pathElements[levels];
+    signal input pathIndices[levels];
+
+    // Public inputs
+    signal input threshold;
+    signal input root;
+    signal input walletHash;
+    signal input nonce;
+
+    // Output signal (1 if valid, constraint fails otherwise)
+    signal output valid;
+
+    // 1. Hash the leaf
+    component leaf = Poseidon(3);
+    leaf.inputs[0] <== walletHash;
+    leaf.inputs[1] <== balance;
+    leaf.inputs[2] <== identityCommitment;
+
+    // 2. Walk up to the root
+    component merkle = MerkleRoot(levels);
+    merkle.leaf <== leaf.out;
+    for (var i = 0; i < levels; i++) {
+        merkle.pathElements[i] <== pathElements[i];
+        merkle.pathIndices[i] <== pathIndices[i];
+    }
+    root === merkle.root;
+
+    // 3. Check that balance >= threshold
+    component gte = GreaterEqThan(64); // SPL amounts are u64 base units
+    gte.in[0] <== balance;
+    gte.in[1] <== threshold;
+
+    // 4. Output must be 1 (true)
+    gte.out === 1;
+    valid <== 1;
+
+    // 5. Constrain the nonce so a proof can't be re-used with another one
+    //    (walletHash is already bound through the leaf)
+    signal nonceSquare;
+    nonceSquare <== nonce * nonce;
+}
+
+// Must match HOLDER_TREE_DEPTH in supabase/functions/_shared/holderSnapshot.ts
+component main {public [threshold, root, walletHash, nonce]} = HolderInclusion(20);
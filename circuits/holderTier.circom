@@ -0,0 +1,109 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/bitify.circom";
+include "../node_modules/circomlib/circuits/comparators.circom";
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "./merkleProof.circom";
+
+/*
+ * Holder Tier ZK Circuit
+ * Proves: what holderInclusion.circom proves, and that the balance falls in
+ *         tier `tier`, i.e. exactly `tier` of the nonzero tierBounds are
+ *         <= balance
+ * Without revealing: the balance or the leaf's position
+ *
+ * Private inputs:
+ *   - balance: The wallet's balance in the snapshot, in the mint's base units
+ *   - identityCommitment: The wallet's anonymous identity commitment, or 0
+ *   - pathElements: Sibling hashes from the leaf up to the root
+ *   - pathIndices: 0 if the node is a left child at that level, 1 if right
+ *
+ * Public inputs:
+ *   - threshold: Minimum required balance in base units
+ *   - root: Merkle root published by the holder-snapshot function
+ *   - walletHash: SHA-256 of the sender's wallet address, truncated to 248 bits
+ *   - nonce: Single-use value issued by the proof-nonce function
+ *   - tier: 0 below the lowest tier, otherwise the tier's position (1-3)
+ *   - tierBounds: Lowest balance of each tier in base units, ascending;
+ *     unused slots are 0
+ *
+ * The tier is a public input rather than an output so the first five
+ * signals keep the holderInclusion layout. send-message checks tierBounds
+ * against holder_tiers.
+ *
+ * Public signals:
+ *   [valid, threshold, root, walletHash, nonce, tier, tierBounds[0..2]]
+ */
+
+template HolderTier(levels, tiers) {
+    // Private inputs
+    signal input balance;
+    signal input identityCommitment;
+    signal input pathElements[levels];
+    signal input pathIndices[levels];
+
+    // Public inputs
+    signal input threshold;
+    signal input root;
+    signal input walletHash;
+    signal input nonce;
+    signal input tier;
+    signal input tierBounds[tiers];
+
+    // Output signal (1 if valid, constraint fails otherwise)
+    signal output valid;
+
+    // 1. Hash the leaf
+    component leaf = Poseidon(3);
+    leaf.inputs[0] <== walletHash;
+    leaf.inputs[1] <== balance;
+    leaf.inputs[2] <== identityCommitment;
+
+    // 2. Walk up to the root
+    component merkle = MerkleRoot(levels);
+    merkle.leaf <== leaf.out;
+    for (var i = 0; i < levels; i++) {
+        merkle.pathElements[i] <== pathElements[i];
+        merkle.pathIndices[i] <== pathIndices[i];
+    }
+    root === merkle.root;
+
+    // 3. Check that balance >= threshold
+    component gte = GreaterEqThan(64); // SPL amounts are u64 base units
+    gte.in[0] <== balance;
+    gte.in[1] <== threshold;
+    gte.out === 1;
+
+    // 4. Count the tiers the balance reaches; range-check the bounds so
+    //    the comparisons can't wrap around the field
+    component boundBits[tiers];
+    component reached[tiers];
+    component unused[tiers];
+    signal counted[tiers];
+    var count = 0;
+    for (var i = 0; i < tiers; i++) {
+        boundBits[i] = Num2Bits(64);
+        boundBits[i].in <== tierBounds[i];
+
+        reached[i] = GreaterEqThan(64);
+        reached[i].in[0] <== balance;
+        reached[i].in[1] <== tierBounds[i];
+
+        unused[i] = IsZero();
+        unused[i].in <== tierBounds[i];
+
+        counted[i] <== reached[i].out * (1 - unused[i].out);
+        count += counted[i];
+    }
+
+    tier === count;
+    valid <== 1;
+
+    // 5. Constrain the nonce so a proof can't be re-used with another one
+    //    (walletHash is already bound through the leaf)
+    signal nonceSquare;
+    nonceSquare <== nonce * nonce;
+}
+
+// Must match HOLDER_TREE_DEPTH and HOLDER_TIER_SLOTS in supabase/functions/_shared
+component main {public [threshold, root, walletHash, nonce, tier, tierBounds]} = HolderTier(20, 3);
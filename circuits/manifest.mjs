@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+
+// Records a circuit's artifacts in public/zkp/manifest.json
+//
+// Usage: node circuits/manifest.mjs <circuit>
+//
+// The browser refuses to prove with files that don't match these hashes
+// (src/lib/zkArtifacts.ts), so run this after every build of the circuit.
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+const PUBLIC_DIR = 'public/zkp';
+const BUILD_DIR = 'circuits/build';
+const MANIFEST_FILE = `${PUBLIC_DIR}/manifest.json`;
+
+const circuit = process.argv[2];
+if (!circuit) {
+  console.error('Usage: node circuits/manifest.mjs <circuit>');
+  process.exit(1);
+}
+
+const sha256 = (file) => createHash('sha256').update(readFileSync(file)).digest('hex');
+
+function artifact(fileName) {
+  const file = `${PUBLIC_DIR}/${fileName}`;
+  const data = readFileSync(file);
+  return {
+    path: `/zkp/${fileName}`,
+    sha256: createHash('sha256').update(data).digest('hex'),
+    size: data.length,
+  };
+}
+
+const manifest = existsSync(MANIFEST_FILE)
+  ? JSON.parse(readFileSync(MANIFEST_FILE, 'utf8'))
+  : { version: 1, circuits: {} };
+
+manifest.circuits[circuit] = {
+  version: sha256(`${BUILD_DIR}/${circuit}.r1cs`),
+  wasm: artifact(`${circuit}.wasm`),
+  zkey: artifact(`${circuit}_final.zkey`),
+  vkey: artifact(`${circuit}_verification_key.json`),
+};
+
+writeFileSync(MANIFEST_FILE, JSON.stringify(manifest, null, 2) + '\n');
+console.log(`📜 ${MANIFEST_FILE}: ${circuit} ${manifest.circuits[circuit].version.slice(0, 16)}...`);
@@ -0,0 +1,50 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/poseidon.circom";
+
+/*
+ * Poseidon Merkle path helpers shared by the holder snapshot circuits.
+ * Inner nodes are Poseidon(left, right), as built by the holder-snapshot
+ * function.
+ */
+
+// Orders (in, sibling) as (left, right) according to s
+template PathSelector() {
+    signal input in;
+    signal input sibling;
+    signal input s;
+    signal output left;
+    signal output right;
+
+    s * (1 - s) === 0;
+
+    left <== (sibling - in) * s + in;
+    right <== (in - sibling) * s + sibling;
+}
+
+// Root of the tree containing `leaf` at the position given by pathIndices
+template MerkleRoot(levels) {
+    signal input leaf;
+    signal input pathElements[levels];
+    signal input pathIndices[levels];
+    signal output root;
+
+    component selectors[levels];
+    component hashers[levels];
+    signal levelHashes[levels + 1];
+    levelHashes[0] <== leaf;
+
+    for (var i = 0; i < levels; i++) {
+        selectors[i] = PathSelector();
+        selectors[i].in <== levelHashes[i];
+        selectors[i].sibling <== pathElements[i];
+        selectors[i].s <== pathIndices[i];
+
+        hashers[i] = Poseidon(2);
+        hashers[i].inputs[0] <== selectors[i].left;
+        hashers[i].inputs[1] <== selectors[i].right;
+        levelHashes[i + 1] <== hashers[i].out;
+    }
+
+    root <== levelHashes[levels];
+}
@@ -0,0 +1,151 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/bitify.circom";
+include "../node_modules/circomlib/circuits/comparators.circom";
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "./merkleProof.circom";
+
+/*
+ * Multi-Mint Inclusion ZK Circuit
+ * Proves: the wallet has a leaf in a multi-mint holder snapshot tree whose
+ *         balances meet the token rule, either
+ *           mode 0 (weighted): sum(weights[i] * balances[i]) >= threshold
+ *           mode 1 (any-of):   balances[i] >= thresholds[i] for some i
+ *                              with thresholds[i] != 0
+ * Without revealing: the balances or the leaf's position
+ *
+ * Private inputs:
+ *   - balances: The wallet's balance of each mint in the snapshot, in base
+ *     units; unused slots are 0
+ *   - identityCommitment: The wallet's anonymous identity commitment, or 0
+ *   - pathElements: Sibling hashes from the leaf up to the root
+ *   - pathIndices: 0 if the node is a left child at that level, 1 if right
+ *
+ * Public inputs:
+ *   - mode: 0 for weighted, 1 for any-of
+ *   - weights: Multiplier on each mint's base units (weighted rules)
+ *   - thresholds: Each mint's own threshold, 0 to skip it (any-of rules)
+ *   - threshold: Minimum weighted sum (weighted rules)
+ *   - root: Merkle root published by the holder-snapshot function
+ *   - walletHash: SHA-256 of the sender's wallet address, truncated to 248 bits
+ *   - nonce: Single-use value issued by the proof-nonce function
+ *
+ * Leaves are Poseidon(walletHash, Poseidon(balances), identityCommitment),
+ * so the slot holderInclusion.circom uses for the balance holds the
+ * commitment to all of them. The rule is public so send-message can check
+ * it against token_requirements; the snapshot fixes which mint is in which
+ * slot.
+ *
+ * Public signals:
+ *   [valid, mode, weights[0..3], thresholds[0..3], threshold, root, walletHash, nonce]
+ */
+
+template MultiMintInclusion(levels, mints) {
+    // Private inputs
+    signal input balances[mints];
+    signal input identityCommitment;
+    signal input pathElements[levels];
+    signal input pathIndices[levels];
+
+    // Public inputs
+    signal input mode;
+    signal input weights[mints];
+    signal input thresholds[mints];
+    signal input threshold;
+    signal input root;
+    signal input walletHash;
+    signal input nonce;
+
+    // Output signal (1 if valid, constraint fails otherwise)
+    signal output valid;
+
+    // 1. Hash the leaf
+    component balancesHash = Poseidon(mints);
+    for (var i = 0; i < mints; i++) {
+        balancesHash.inputs[i] <== balances[i];
+    }
+
+    component leaf = Poseidon(3);
+    leaf.inputs[0] <== walletHash;
+    leaf.inputs[1] <== balancesHash.out;
+    leaf.inputs[2] <== identityCommitment;
+
+    // 2. Walk up to the root
+    component merkle = MerkleRoot(levels);
+    merkle.leaf <== leaf.out;
+    for (var i = 0; i < levels; i++) {
+        merkle.pathElements[i] <== pathElements[i];
+        merkle.pathIndices[i] <== pathIndices[i];
+    }
+    root === merkle.root;
+
+    // 3. Range-check everything the comparisons use, so nothing wraps
+    //    around the field: SPL amounts are u64, weights u32
+    component balanceBits[mints];
+    component weightBits[mints];
+    component thresholdBits[mints];
+    for (var i = 0; i < mints; i++) {
+        balanceBits[i] = Num2Bits(64);
+        balanceBits[i].in <== balances[i];
+        weightBits[i] = Num2Bits(32);
+        weightBits[i].in <== weights[i];
+        thresholdBits[i] = Num2Bits(64);
+        thresholdBits[i].in <== thresholds[i];
+    }
+
+    // Four 96-bit products sum to less than 2^98
+    component sumThresholdBits = Num2Bits(98);
+    sumThresholdBits.in <== threshold;
+
+    // 4. Weighted: sum(weights[i] * balances[i]) >= threshold
+    signal weighted[mints];
+    var sum = 0;
+    for (var i = 0; i < mints; i++) {
+        weighted[i] <== weights[i] * balances[i];
+        sum += weighted[i];
+    }
+
+    component weightedGte = GreaterEqThan(98);
+    weightedGte.in[0] <== sum;
+    weightedGte.in[1] <== threshold;
+
+    // 5. Any-of: some mint with a nonzero threshold meets it
+    component anyGte[mints];
+    component skipped[mints];
+    signal met[mints];
+    var metCount = 0;
+    for (var i = 0; i < mints; i++) {
+        anyGte[i] = GreaterEqThan(64);
+        anyGte[i].in[0] <== balances[i];
+        anyGte[i].in[1] <== thresholds[i];
+
+        skipped[i] = IsZero();
+        skipped[i].in <== thresholds[i];
+
+        met[i] <== anyGte[i].out * (1 - skipped[i].out);
+        metCount += met[i];
+    }
+
+    component noneMet = IsZero();
+    noneMet.in <== metCount;
+
+    // 6. The rule's mode picks which check must hold
+    mode * (mode - 1) === 0;
+
+    signal anyMet;
+    anyMet <== 1 - noneMet.out;
+
+    signal ruleMet;
+    ruleMet <== weightedGte.out + mode * (anyMet - weightedGte.out);
+
+    ruleMet === 1;
+    valid <== 1;
+
+    // 7. Constrain the nonce so a proof can't be re-used with another one
+    //    (walletHash is already bound through the leaf)
+    signal nonceSquare;
+    nonceSquare <== nonce * nonce;
+}
+
+// Must match HOLDER_TREE_DEPTH and MULTI_MINT_SLOTS in supabase/functions/_shared
+component main {public [mode, weights, thresholds, threshold, root, walletHash, nonce]} = MultiMintInclusion(20, 4);
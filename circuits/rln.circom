@@ -0,0 +1,117 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/comparators.circom";
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "./merkleProof.circom";
+
+/*
+ * Rate-Limiting Nullifier (RLN) ZK Circuit
+ * Proves: some holder in the snapshot tree with balance >= threshold
+ *         knows the identity secret behind their leaf's identityCommitment,
+ *         and is sending message number messageId < messageLimit this epoch
+ * Without revealing: which wallet, its balance or its leaf position
+ *
+ * Each message reveals one point (signalHash, shareY) on the line
+ *   y = identitySecret + a1 * x,  a1 = Poseidon(identitySecret, externalNullifier, messageId)
+ * Two messages with the same messageId in one epoch share a1, so anyone
+ * holding both points can recover identitySecret. Sending more than
+ * messageLimit messages per epoch forces a repeated messageId.
+ *
+ * Private inputs:
+ *   - identitySecret: Secret derived from the member's encryption identity
+ *   - walletHash: SHA-256 of the member's wallet address, truncated to 248 bits
+ *   - balance: The wallet's balance in the snapshot, in the mint's base units
+ *   - pathElements / pathIndices: Merkle path of the leaf, as in holderInclusion
+ *   - messageId: Which of the epoch's messageLimit slots this message uses
+ *
+ * Public inputs:
+ *   - threshold: Minimum required balance in base units (e.g., 10000000000)
+ *   - root: Merkle root published by the holder-snapshot function
+ *   - externalNullifier: Hash of the room and epoch being posted to
+ *   - signalHash: Hash of the message ciphertext, the share's x coordinate
+ *   - messageLimit: Messages allowed per member, room and epoch
+ *
+ * Outputs:
+ *   - nullifier: Poseidon(identitySecret, externalNullifier), the same for
+ *     every message one member sends to one room in one epoch
+ *   - shareY: identitySecret + a1 * signalHash
+ *   - rlnNullifier: Poseidon(a1), the same for two messages in one slot
+ *
+ * Public signals:
+ *   [nullifier, shareY, rlnNullifier, threshold, root, externalNullifier, signalHash, messageLimit]
+ */
+template RLN(levels, limitBits) {
+    // Private inputs
+    signal input identitySecret;
+    signal input walletHash;
+    signal input balance;
+    signal input pathElements[levels];
+    signal input pathIndices[levels];
+    signal input messageId;
+
+    // Public inputs
+    signal input threshold;
+    signal input root;
+    signal input externalNullifier;
+    signal input signalHash;
+    signal input messageLimit;
+
+    signal output nullifier;
+    signal output shareY;
+    signal output rlnNullifier;
+
+    // 1. The leaf must carry the commitment to our identity secret
+    component commitment = Poseidon(1);
+    commitment.inputs[0] <== identitySecret;
+
+    component leaf = Poseidon(3);
+    leaf.inputs[0] <== walletHash;
+    leaf.inputs[1] <== balance;
+    leaf.inputs[2] <== commitment.out;
+
+    // 2. Walk up to the root
+    component merkle = MerkleRoot(levels);
+    merkle.leaf <== leaf.out;
+    for (var i = 0; i < levels; i++) {
+        merkle.pathElements[i] <== pathElements[i];
+        merkle.pathIndices[i] <== pathIndices[i];
+    }
+    root === merkle.root;
+
+    // 3. Check that balance >= threshold
+    component gte = GreaterEqThan(64); // SPL amounts are u64 base units
+    gte.in[0] <== balance;
+    gte.in[1] <== threshold;
+    gte.out === 1;
+
+    // 4. Check that messageId < messageLimit (both must fit in limitBits)
+    component messageIdBits = Num2Bits(limitBits);
+    messageIdBits.in <== messageId;
+    component limitBitsCheck = Num2Bits(limitBits);
+    limitBitsCheck.in <== messageLimit;
+
+    component inLimit = LessThan(limitBits);
+    inLimit.in[0] <== messageId;
+    inLimit.in[1] <== messageLimit;
+    inLimit.out === 1;
+
+    // 5. Per-room, per-epoch nullifier (the sender's pseudonym)
+    component nullifierHasher = Poseidon(2);
+    nullifierHasher.inputs[0] <== identitySecret;
+    nullifierHasher.inputs[1] <== externalNullifier;
+    nullifier <== nullifierHasher.out;
+
+    // 6. Shamir share of identitySecret on this slot's line
+    component a1 = Poseidon(3);
+    a1.inputs[0] <== identitySecret;
+    a1.inputs[1] <== externalNullifier;
+    a1.inputs[2] <== messageId;
+    shareY <== identitySecret + a1.out * signalHash;
+
+    component rlnNullifierHasher = Poseidon(1);
+    rlnNullifierHasher.inputs[0] <== a1.out;
+    rlnNullifier <== rlnNullifierHasher.out;
+}
+
+// Must match HOLDER_TREE_DEPTH in supabase/functions/_shared/holderSnapshot.ts
+component main {public [threshold, root, externalNullifier, signalHash, messageLimit]} = RLN(20, 16);
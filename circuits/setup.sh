@@ -2,10 +2,25 @@
 
 # ZK Circuit Setup Script
 # This compiles the Circom circuit and generates proving/verification keys
+#
+# Usage: ./circuits/setup.sh [--ceremony] [circuit] [ptau power]
+#   --ceremony  stop at the initial zkey, to open a multi-party trusted setup
+#               ceremony with from the admin dashboard instead of contributing here
+#   circuit     defaults to holderInclusion, the circuit messages are proven with
+#   ptau power  log2 of the largest supported constraint count (default 14)
 
 set -e
 
-CIRCUIT_NAME="tokenBalance"
+CEREMONY=false
+if [ "$1" = "--ceremony" ]; then
+    CEREMONY=true
+    shift
+fi
+
+CIRCUIT_NAME="${1:-holderInclusion}"
+PTAU_POWER="${2:-14}"
+PTAU_FILE="powersOfTau28_hez_final_${PTAU_POWER}.ptau"
+VKEY_FILE="${CIRCUIT_NAME}_verification_key.json"
 CIRCUIT_DIR="circuits"
 BUILD_DIR="circuits/build"
 PUBLIC_DIR="public/zkp"
@@ -24,18 +39,33 @@ circom2 $CIRCUIT_DIR/$CIRCUIT_NAME.circom --r1cs --wasm --sym -o $BUILD_DIR
 
 echo "📥 Downloading Powers of Tau (Phase 1 trusted setup)..."
 # Using Hermez's ceremony (perpetual powers of tau)
-if [ ! -f $BUILD_DIR/powersOfTau28_hez_final_12.ptau ]; then
-    wget -O $BUILD_DIR/powersOfTau28_hez_final_12.ptau \
-        https://hermez.s3-eu-west-1.amazonaws.com/powersOfTau28_hez_final_12.ptau
+if [ ! -f $BUILD_DIR/$PTAU_FILE ]; then
+    wget -O $BUILD_DIR/$PTAU_FILE \
+        https://hermez.s3-eu-west-1.amazonaws.com/$PTAU_FILE
 fi
 
 echo "🔑 Generating proving key (Phase 2)..."
 # Generate zkey (proving key) from Powers of Tau
 npx snarkjs groth16 setup \
     $BUILD_DIR/$CIRCUIT_NAME.r1cs \
-    $BUILD_DIR/powersOfTau28_hez_final_12.ptau \
+    $BUILD_DIR/$PTAU_FILE \
     $BUILD_DIR/${CIRCUIT_NAME}_0000.zkey
 
+if [ "$CEREMONY" = true ]; then
+    echo "✅ Ceremony files ready!"
+    echo ""
+    echo "Open a ceremony in the admin dashboard (Trusted Setup Ceremony) with:"
+    echo "  - $BUILD_DIR/$CIRCUIT_NAME.r1cs"
+    echo "  - $BUILD_DIR/${CIRCUIT_NAME}_js/${CIRCUIT_NAME}.wasm"
+    echo "  - $BUILD_DIR/${CIRCUIT_NAME}_0000.zkey"
+    echo "  - Powers of Tau URL: https://hermez.s3-eu-west-1.amazonaws.com/$PTAU_FILE"
+    echo ""
+    echo "Once it is finalized, copy the wasm and the ceremony's final zkey and"
+    echo "verification key into $PUBLIC_DIR as ${CIRCUIT_NAME}_final.zkey and"
+    echo "$VKEY_FILE, run node $CIRCUIT_DIR/manifest.mjs $CIRCUIT_NAME and activate it."
+    exit 0
+fi
+
 echo "🎲 Adding random beacon for extra security..."
 # Add random contribution (you can add more contributions for production)
 npx snarkjs zkey contribute \
@@ -47,20 +77,24 @@ npx snarkjs zkey contribute \
 echo "📋 Exporting verification key..."
 npx snarkjs zkey export verificationkey \
     $BUILD_DIR/${CIRCUIT_NAME}_final.zkey \
-    $BUILD_DIR/verification_key.json
+    $BUILD_DIR/$VKEY_FILE
 
 echo "📂 Copying files to public directory..."
 # Copy WASM and final zkey to public directory for browser access
 cp $BUILD_DIR/${CIRCUIT_NAME}_js/${CIRCUIT_NAME}.wasm $PUBLIC_DIR/
 cp $BUILD_DIR/${CIRCUIT_NAME}_final.zkey $PUBLIC_DIR/
-cp $BUILD_DIR/verification_key.json $PUBLIC_DIR/
+cp $BUILD_DIR/$VKEY_FILE $PUBLIC_DIR/
+
+echo "📜 Pinning artifact hashes in the manifest..."
+node $CIRCUIT_DIR/manifest.mjs $CIRCUIT_NAME
 
 echo "✅ Setup complete!"
 echo ""
 echo "Generated files:"
 echo "  - $PUBLIC_DIR/${CIRCUIT_NAME}.wasm (circuit WASM)"
 echo "  - $PUBLIC_DIR/${CIRCUIT_NAME}_final.zkey (proving key)"
-echo "  - $PUBLIC_DIR/verification_key.json (verification key)"
+echo "  - $PUBLIC_DIR/$VKEY_FILE (verification key)"
+echo "  - $PUBLIC_DIR/manifest.json (artifact hashes)"
 echo ""
 echo "⚠️  IMPORTANT: Add these files to git LFS or host separately!"
 echo "   The .zkey file is typically 5-50MB depending on circuit size."
@@ -15,6 +15,11 @@ include "../node_modules/circomlib/circuits/poseidon.circom";
  * Public inputs:
  *   - threshold: Minimum required balance (e.g., 10000)
  *   - commitment: Poseidon(actualBalance, salt) - proves same balance used
+ *   - walletHash: SHA-256 of the sender's wallet address, truncated to 248 bits
+ *   - nonce: Single-use value issued by the proof-nonce function
+ *
+ * walletHash and nonce bind the proof to one wallet and one message, so
+ * send-message can reject proofs pasted from another wallet or replayed.
  */
 template TokenBalance() {
     // Private inputs
@@ -24,6 +29,8 @@ template TokenBalance() {
     // Public inputs
     signal input threshold;
     signal input commitment;
+    signal input walletHash;
+    signal input nonce;
     
     // Output signal (1 if valid, constraint fails otherwise)
     signal output valid;
@@ -42,6 +49,13 @@ template TokenBalance() {
     // 3. Output must be 1 (true)
     gte.out === 1;
     valid <== 1;
+
+    // 4. Constrain the binding inputs so a proof can't be re-used with other values
+    //    (a public input that appears in no constraint isn't bound by Groth16)
+    signal walletHashSquare;
+    signal nonceSquare;
+    walletHashSquare <== walletHash * walletHash;
+    nonceSquare <== nonce * nonce;
 }
 
-component main {public [threshold, commitment]} = TokenBalance();
+component main {public [threshold, commitment, walletHash, nonce]} = TokenBalance();
@@ -10,6 +10,7 @@ import Chat from "./pages/Chat";
 import About from "./pages/About";
 import Admin from "./pages/Admin";
 import OnChain from "./pages/OnChain";
+import Ceremony from "./pages/Ceremony";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,6 +29,7 @@ const App = () => (
             <Route path="/about" element={<About />} />
             <Route path="/admin" element={<Admin />} />
             <Route path="/on-chain" element={<OnChain />} />
+            <Route path="/ceremony" element={<Ceremony />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ANON_EPOCH_MS,
+  ANON_MESSAGE_LIMIT,
+  AnonymousIdentity,
+  AnonymousStatus,
+  getAnonymousStatus,
+  registerAnonymousIdentity,
+} from "@/lib/anonymous";
+
+interface AnonymousPanelProps {
+  walletAddress: string;
+  anonIdentity: AnonymousIdentity | null;
+  signMessage: (message: string) => Promise<Uint8Array>;
+  unlocking: boolean;
+  onUnlock: () => void;
+}
+
+const AnonymousPanel = ({ walletAddress, anonIdentity, signMessage, unlocking, onUnlock }: AnonymousPanelProps) => {
+  const [status, setStatus] = useState<AnonymousStatus | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const loadStatus = useCallback(async () => {
+    if (!anonIdentity) {
+      setStatus(null);
+      return;
+    }
+    try {
+      setStatus(await getAnonymousStatus(walletAddress, anonIdentity));
+    } catch (error) {
+      console.error('Error reading anonymous identity status:', error);
+      setStatus(null);
+    }
+  }, [walletAddress, anonIdentity]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleRegister = async () => {
+    if (!anonIdentity) return;
+
+    setBusy(true);
+    try {
+      await registerAnonymousIdentity(walletAddress, anonIdentity, signMessage);
+      toast({
+        title: "Anonymous Identity Registered ✅",
+        description: "You can post anonymously once the next holder snapshot includes it",
+      });
+    } catch (error) {
+      console.error('Anonymous identity registration failed:', error);
+      toast({
+        title: "Registration Failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+      loadStatus();
+    }
+  };
+
+  if (!anonIdentity) {
+    return (
+      <div className="border-2 border-primary bg-card/30 p-4 mb-4 font-mono text-sm flex gap-2 items-center">
+        <span className="text-muted-foreground flex-1">
+          <span className="text-accent">&gt;</span> Unlock your keys to derive your anonymous identity.
+        </span>
+        <Button variant="terminal" onClick={onUnlock} disabled={unlocking}>
+          {unlocking ? "[UNLOCKING...]" : "[UNLOCK KEYS]"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-2 border-primary bg-card/30 p-4 mb-4 font-mono text-sm space-y-3">
+      <div className="text-accent">
+        &gt; Anonymous identity: {!status ? "checking..." : !status.registered ? "not registered" : status.inSnapshot ? "active" : "waiting for the next holder snapshot"}
+      </div>
+
+      {status && !status.registered && (
+        <div className="flex gap-2 items-center">
+          <span className="text-muted-foreground flex-1">
+            Register once so holder snapshots include your identity commitment.
+          </span>
+          <Button variant="terminal" onClick={handleRegister} disabled={busy}>
+            {busy ? "[REGISTERING...]" : "[REGISTER]"}
+          </Button>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Messages here show a pseudonym instead of your wallet. It stays the same for {ANON_EPOCH_MS / 60000} minutes, then changes. Attachments and Solana logging are off in this room.
+      </p>
+      <p className="text-xs text-muted-foreground">
+        You can send {ANON_MESSAGE_LIMIT} messages per epoch. Going over the limit (for example from two devices at once) reveals your anonymous identity to the server and bans it.
+      </p>
+    </div>
+  );
+};
+
+export default AnonymousPanel;
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { AttachmentRef, formatBytes, getAttachmentUrl, isInlineImage } from "@/lib/attachments";
+
+interface AttachmentPreviewProps {
+  attachment: AttachmentRef;
+}
+
+// Decrypts in the browser; raster images are shown inline, anything else as a download link
+const AttachmentPreview = ({ attachment }: AttachmentPreviewProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isImage = isInlineImage(attachment);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAttachmentUrl(attachment)
+      .then((objectUrl) => {
+        if (!cancelled) setUrl(objectUrl);
+      })
+      .catch((err) => {
+        console.error('Error loading attachment:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load attachment");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment]);
+
+  const label = `${attachment.name} (${formatBytes(attachment.size)})`;
+
+  if (error) {
+    return (
+      <div className="text-destructive text-xs font-mono">
+        ⚠️ {label}: {error}
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div className="text-muted-foreground text-xs font-mono">
+        <span className="text-accent">&gt;</span> Decrypting {label}...
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-xs font-mono">
+      {isImage && (
+        <img src={url} alt={attachment.name} className="max-h-64 max-w-full border border-primary/50 mb-1" />
+      )}
+      <a href={url} download={attachment.name} className="text-accent hover:underline">
+        [📎 {label}]
+      </a>
+    </div>
+  );
+};
+
+export default AttachmentPreview;
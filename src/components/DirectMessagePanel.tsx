@@ -0,0 +1,180 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useDirectMessages } from "@/hooks/useDirectMessages";
+import { MemberIdentity } from "@/lib/keyring";
+
+interface DirectMessagePanelProps {
+  identity: MemberIdentity | null;
+  signMessage: (message: string) => Promise<Uint8Array>;
+  unlocking: boolean;
+  onUnlock: () => void;
+}
+
+const formatWalletAddress = (address: string) => {
+  return `${address.substring(0, 4)}...${address.substring(address.length - 4)}`;
+};
+
+const formatTime = (timestamp: string) => {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const DirectMessagePanel = ({ identity, signMessage, unlocking, onUnlock }: DirectMessagePanelProps) => {
+  const [recipientInput, setRecipientInput] = useState("");
+  const [peerWallet, setPeerWallet] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [sending, setSending] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const { messages, loading, connected, error, connect, sendDirectMessage } =
+    useDirectMessages(identity, peerWallet, signMessage);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const handleOpenConversation = () => {
+    const recipient = recipientInput.trim();
+    if (!recipient) return;
+    if (recipient === identity?.walletAddress) {
+      toast({
+        title: "Invalid Recipient",
+        description: "You can't message your own wallet",
+        variant: "destructive",
+      });
+      return;
+    }
+    setPeerWallet(recipient);
+  };
+
+  const handleSend = async () => {
+    if (!message.trim() || !peerWallet) return;
+
+    setSending(true);
+    try {
+      await sendDirectMessage(message);
+      setMessage("");
+    } catch (err) {
+      console.error('Failed to send direct message:', err);
+      toast({
+        title: "Failed to Send",
+        description: err instanceof Error ? err.message : "Could not send message. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!identity) {
+    return (
+      <div className="flex-1 border-2 border-primary bg-card/30 p-4 mb-4 font-mono text-sm flex items-center justify-between gap-2">
+        <span className="text-muted-foreground">
+          <span className="text-accent">&gt;</span> Direct messages use your encryption key. Unlock it first.
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-accent hover:text-accent h-auto p-0 text-xs"
+          onClick={onUnlock}
+          disabled={unlocking}
+        >
+          {unlocking ? "[UNLOCKING...]" : "[UNLOCK KEYS]"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex-1 border-2 border-primary bg-card/30 p-4 overflow-y-auto mb-4 space-y-4 font-mono text-sm">
+        <div className="flex gap-2">
+          <Input
+            value={recipientInput}
+            onChange={(e) => setRecipientInput(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleOpenConversation()}
+            placeholder="recipient wallet address"
+            className="bg-input border-primary font-mono text-foreground placeholder:text-muted-foreground"
+          />
+          <Button variant="terminal" onClick={handleOpenConversation}>
+            [OPEN]
+          </Button>
+        </div>
+
+        {!connected ? (
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className={error ? "text-destructive" : "text-muted-foreground"}>
+              <span className="text-accent">&gt;</span> {error ?? "Sign once to open a wallet session for direct messages."}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-accent hover:text-accent h-auto p-0 text-xs"
+              onClick={connect}
+            >
+              [CONNECT]
+            </Button>
+          </div>
+        ) : !peerWallet ? (
+          <div className="text-muted-foreground text-center">
+            <span className="text-accent">&gt;</span> Enter a wallet address to start a conversation.
+          </div>
+        ) : loading ? (
+          <div className="text-primary text-center">
+            <span className="text-accent">&gt;</span> Loading messages...
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="text-muted-foreground text-center">
+            <span className="text-accent">&gt;</span> No messages with {formatWalletAddress(peerWallet)} yet.
+          </div>
+        ) : (
+          messages.map((msg) => (
+            <div key={msg.id} className="border border-primary/50 p-3 bg-background/50">
+              <div className="text-primary mb-2">
+                [{formatTime(msg.created_at)}] &lt;
+                {msg.sender_wallet === identity.walletAddress ? "you" : formatWalletAddress(msg.sender_wallet)}
+                &gt;
+              </div>
+              <div className="text-foreground">{msg.decryptedContent}</div>
+            </div>
+          ))
+        )}
+
+        <div ref={messagesEndRef} />
+      </div>
+
+      <div className="border-2 border-primary bg-card/50 p-4">
+        <div className="flex gap-2">
+          <div className="flex-1 relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-accent font-mono">&gt;</span>
+            <Input
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSend()}
+              placeholder={peerWallet ? `message ${formatWalletAddress(peerWallet)}` : "open a conversation first"}
+              className="pl-8 bg-input border-primary font-mono text-foreground placeholder:text-muted-foreground"
+              disabled={sending || !peerWallet || !connected}
+            />
+          </div>
+          <Button
+            variant="terminal"
+            onClick={handleSend}
+            disabled={sending || !peerWallet || !connected}
+          >
+            [SEND]
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground mt-2 font-mono">
+          <span className="text-accent">&gt;</span> Direct messages are end-to-end encrypted with a Double Ratchet • Only you and the recipient can read them
+        </p>
+      </div>
+    </>
+  );
+};
+
+export default DirectMessagePanel;
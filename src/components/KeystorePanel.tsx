@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { restoreRoomKeys } from "@/lib/keyring";
+import {
+  KeystoreStatus,
+  MIN_PASSPHRASE_LENGTH,
+  countRecords,
+  exportKeystoreBackup,
+  getKeystoreStatus,
+  importKeystoreBackup,
+  setKeystorePassphrase,
+  subscribeKeystore,
+} from "@/lib/keystore";
+
+interface KeystorePanelProps {
+  walletAddress: string;
+  unlocking: boolean;
+  onUnlock: () => void;
+  onUnlockWithPassphrase: (passphrase: string) => Promise<void>;
+}
+
+const KeystorePanel = ({ walletAddress, unlocking, onUnlock, onUnlockWithPassphrase }: KeystorePanelProps) => {
+  const [status, setStatus] = useState<KeystoreStatus | null>(null);
+  const [recordCount, setRecordCount] = useState(0);
+  const [passphrase, setPassphrase] = useState("");
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const next = await getKeystoreStatus(walletAddress);
+      setStatus(next);
+      setRecordCount(next.unlocked ? await countRecords() : 0);
+    } catch (error) {
+      console.error('Error reading keystore:', error);
+      setStatus(null);
+    }
+  }, [walletAddress]);
+
+  useEffect(() => {
+    loadStatus();
+    return subscribeKeystore(loadStatus);
+  }, [loadStatus]);
+
+  const runAction = async (action: () => Promise<void>, successTitle: string) => {
+    setBusy(true);
+    try {
+      await action();
+      setPassphrase("");
+      toast({ title: successTitle });
+    } catch (error) {
+      console.error('Keystore action failed:', error);
+      toast({
+        title: "Keystore Action Failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+      loadStatus();
+    }
+  };
+
+  const handleExport = () => {
+    runAction(async () => {
+      const backup = await exportKeystoreBackup(passphrase);
+      const url = URL.createObjectURL(backup);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `snark-keys-${walletAddress.slice(0, 8)}-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    }, "Backup Exported ✅");
+  };
+
+  const handleImport = () => {
+    if (!backupFile) return;
+
+    runAction(async () => {
+      await importKeystoreBackup(backupFile, passphrase);
+      await restoreRoomKeys();
+      setBackupFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }, "Backup Imported ✅");
+  };
+
+  const passphraseInput = (placeholder: string) => (
+    <Input
+      type="password"
+      value={passphrase}
+      onChange={(e) => setPassphrase(e.target.value)}
+      placeholder={placeholder}
+      className="bg-input border-primary font-mono text-foreground placeholder:text-muted-foreground"
+      disabled={busy}
+    />
+  );
+
+  const passphraseTooShort = passphrase.length < MIN_PASSPHRASE_LENGTH;
+
+  if (!status) {
+    return (
+      <div className="border-2 border-primary bg-card/30 p-4 mb-4 font-mono text-sm text-destructive">
+        <span className="text-accent">&gt;</span> Local keystore unavailable in this browser. Keys will not be saved.
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-2 border-primary bg-card/30 p-4 mb-4 font-mono text-sm space-y-3">
+      <div className="text-accent">
+        &gt; Local keystore: {status.unlocked ? `unlocked • ${recordCount} saved records` : status.exists ? "locked" : "not created yet"}
+        {status.exists && ` • passphrase ${status.hasPassphrase ? "set" : "not set"}`}
+      </div>
+
+      {!status.unlocked && (
+        <div className="space-y-2">
+          <div className="flex gap-2 items-center">
+            <span className="text-muted-foreground flex-1">
+              Sign with your wallet to open (or create) your keystore.
+            </span>
+            <Button variant="terminal" onClick={onUnlock} disabled={unlocking}>
+              {unlocking ? "[UNLOCKING...]" : "[UNLOCK KEYS]"}
+            </Button>
+          </div>
+          {status.hasPassphrase && (
+            <div className="flex gap-2">
+              {passphraseInput("keystore passphrase")}
+              <Button
+                variant="terminal"
+                onClick={() => runAction(() => onUnlockWithPassphrase(passphrase), "Keystore Unlocked ✅")}
+                disabled={busy || !passphrase}
+              >
+                [OPEN]
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {status.unlocked && (
+        <>
+          <div className="flex gap-2">
+            {passphraseInput(`passphrase (min ${MIN_PASSPHRASE_LENGTH} characters)`)}
+            <Button
+              variant="terminal"
+              onClick={() => runAction(() => setKeystorePassphrase(passphrase), "Passphrase Saved ✅")}
+              disabled={busy || passphraseTooShort}
+            >
+              [SET PASSPHRASE]
+            </Button>
+            <Button variant="terminal" onClick={handleExport} disabled={busy || passphraseTooShort}>
+              [EXPORT BACKUP]
+            </Button>
+          </div>
+
+          <div className="flex gap-2 items-center border-t border-primary/50 pt-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => setBackupFile(e.target.files?.[0] ?? null)}
+            />
+            <Button
+              variant="ghost"
+              className="text-accent hover:text-accent"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy}
+            >
+              [{backupFile ? backupFile.name : "CHOOSE BACKUP"}]
+            </Button>
+            <Button variant="terminal" onClick={handleImport} disabled={busy || !backupFile || !passphrase}>
+              [IMPORT BACKUP]
+            </Button>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Backups are encrypted with the passphrase above. Import them after unlocking on another device to read your history there.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default KeystorePanel;
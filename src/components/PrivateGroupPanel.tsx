@@ -0,0 +1,231 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MAX_GROUP_MEMBERS,
+  PrivateGroup,
+  addGroupMember,
+  createGroup,
+  getGroupMembers,
+  getMyGroups,
+  removeGroupMember,
+} from "@/lib/privateGroups";
+
+interface PrivateGroupPanelProps {
+  walletAddress: string;
+  signMessage: (message: string) => Promise<Uint8Array>;
+  selectedGroup: PrivateGroup | null;
+  onSelectGroup: (group: PrivateGroup | null) => void;
+}
+
+const formatWalletAddress = (address: string) => {
+  return `${address.substring(0, 4)}...${address.substring(address.length - 4)}`;
+};
+
+const PrivateGroupPanel = ({ walletAddress, signMessage, selectedGroup, onSelectGroup }: PrivateGroupPanelProps) => {
+  const [groups, setGroups] = useState<PrivateGroup[]>([]);
+  const [members, setMembers] = useState<string[]>([]);
+  const [groupName, setGroupName] = useState("");
+  const [memberList, setMemberList] = useState("");
+  const [newMember, setNewMember] = useState("");
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const isOwner = selectedGroup?.owner_wallet === walletAddress;
+
+  const loadGroups = useCallback(async () => {
+    const myGroups = await getMyGroups(walletAddress);
+    setGroups(myGroups);
+    if (selectedGroup && !myGroups.some((group) => group.id === selectedGroup.id)) {
+      onSelectGroup(null);
+    }
+  }, [walletAddress, selectedGroup, onSelectGroup]);
+
+  const loadMembers = useCallback(async () => {
+    if (!selectedGroup) {
+      setMembers([]);
+      return;
+    }
+    try {
+      setMembers(await getGroupMembers(selectedGroup.id));
+    } catch (error) {
+      console.error('Error loading group members:', error);
+    }
+  }, [selectedGroup]);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  // Membership changes made elsewhere (e.g. we were added or removed)
+  useEffect(() => {
+    const channel = supabase
+      .channel(`private-group-members-${walletAddress}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'private_group_members' },
+        () => {
+          loadGroups();
+          loadMembers();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [walletAddress, loadGroups, loadMembers]);
+
+  const runAction = async (action: () => Promise<void>, successTitle: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: successTitle });
+    } catch (error) {
+      console.error('Group action failed:', error);
+      toast({
+        title: "Group Action Failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    const name = groupName.trim();
+    if (!name) return;
+
+    const initialMembers = memberList
+      .split(/[\s,]+/)
+      .map((member) => member.trim())
+      .filter(Boolean);
+
+    runAction(async () => {
+      const group = await createGroup(name, initialMembers, walletAddress, signMessage);
+      setGroupName("");
+      setMemberList("");
+      await loadGroups();
+      onSelectGroup(group);
+    }, "Group Created ✅");
+  };
+
+  const handleAdd = () => {
+    const member = newMember.trim();
+    if (!selectedGroup || !member) return;
+
+    runAction(async () => {
+      setMembers(await addGroupMember(selectedGroup.id, member, walletAddress, signMessage));
+      setNewMember("");
+    }, "Member Added ✅");
+  };
+
+  const handleRemove = (member: string) => {
+    if (!selectedGroup) return;
+
+    runAction(async () => {
+      const remaining = await removeGroupMember(selectedGroup.id, member, walletAddress, signMessage);
+      if (member === walletAddress) {
+        onSelectGroup(null);
+        await loadGroups();
+      } else {
+        setMembers(remaining);
+      }
+    }, member === walletAddress ? "Left Group" : "Member Removed");
+  };
+
+  return (
+    <div className="border-2 border-primary bg-card/30 p-4 mb-4 font-mono text-sm space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {groups.length === 0 ? (
+          <span className="text-muted-foreground">
+            <span className="text-accent">&gt;</span> You are not in any private groups yet.
+          </span>
+        ) : (
+          groups.map((group) => (
+            <Button
+              key={group.id}
+              variant="ghost"
+              size="sm"
+              className={selectedGroup?.id === group.id ? "text-primary" : "text-muted-foreground hover:text-primary"}
+              onClick={() => onSelectGroup(group)}
+            >
+              [{group.name}]
+            </Button>
+          ))
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={groupName}
+          onChange={(e) => setGroupName(e.target.value)}
+          placeholder="new group name"
+          className="bg-input border-primary font-mono text-foreground placeholder:text-muted-foreground"
+          disabled={busy}
+        />
+        <Input
+          value={memberList}
+          onChange={(e) => setMemberList(e.target.value)}
+          placeholder={`member wallets, comma separated (max ${MAX_GROUP_MEMBERS})`}
+          className="bg-input border-primary font-mono text-foreground placeholder:text-muted-foreground"
+          disabled={busy}
+        />
+        <Button variant="terminal" onClick={handleCreate} disabled={busy || !groupName.trim()}>
+          [CREATE]
+        </Button>
+      </div>
+
+      {selectedGroup && (
+        <div className="border-t border-primary/50 pt-3 space-y-2">
+          <div className="text-accent">
+            &gt; {selectedGroup.name} • {members.length}/{MAX_GROUP_MEMBERS} members
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+            {members.map((member) => (
+              <span key={member} className="text-muted-foreground">
+                {member === walletAddress ? "you" : formatWalletAddress(member)}
+                {member === selectedGroup.owner_wallet && " (owner)"}
+                {member !== selectedGroup.owner_wallet && (isOwner || member === walletAddress) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive h-auto p-0 pl-1 text-xs"
+                    onClick={() => handleRemove(member)}
+                    disabled={busy}
+                  >
+                    {member === walletAddress ? "[LEAVE]" : "[REMOVE]"}
+                  </Button>
+                )}
+              </span>
+            ))}
+          </div>
+          {isOwner && (
+            <div className="flex gap-2">
+              <Input
+                value={newMember}
+                onChange={(e) => setNewMember(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+                placeholder="add member wallet"
+                className="bg-input border-primary font-mono text-foreground placeholder:text-muted-foreground"
+                disabled={busy}
+              />
+              <Button variant="terminal" onClick={handleAdd} disabled={busy || !newMember.trim()}>
+                [ADD]
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrivateGroupPanel;
@@ -1,37 +1,55 @@
 import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { ProofStage } from "@/lib/prover";
+import { formatBytes } from "@/lib/attachments";
 
 interface ProofAnimationProps {
   type: "generate" | "verify" | "blockchain";
+  // Drives the "generate" animation; the other types play on a timer
+  stage?: ProofStage | null;
+  download?: { loaded: number; total: number } | null;
+  onCancel?: () => void;
   onComplete?: () => void;
 }
 
-const ProofAnimation = ({ type, onComplete }: ProofAnimationProps) => {
+const proofStages: { stage: ProofStage; text: string }[] = [
+  { stage: "snapshot", text: "> reading holder snapshot..." },
+  { stage: "artifacts", text: "> loading circuit artifacts..." },
+  { stage: "witness", text: "> computing witness..." },
+  { stage: "proving", text: "> generating proof..." },
+  { stage: "verifying", text: "> verifying proof locally..." },
+  { stage: "done", text: "> proof complete ✅ secret never left browser 🔒" },
+];
+
+const timedStages = {
+  verify: [
+    { text: "> verifying proof...", progress: 50 },
+    { text: "> checking cryptographic signature...", progress: 85 },
+    { text: "proof validation: ✅ success", progress: 100 },
+  ],
+  blockchain: [
+    { text: "> preparing transaction...", progress: 25 },
+    { text: "> sending to Solana Mainnet...", progress: 85 },
+    { text: "> transaction confirmed ✅", progress: 100 },
+    { text: "> hash: 5H3fT9k9AB2c8Fd...", progress: 100 },
+  ],
+};
+
+const renderProgressBar = (progress: number) => {
+  const filled = Math.floor((progress / 100) * 25);
+  const empty = 25 - filled;
+  return `[${"▓".repeat(filled)}${"░".repeat(empty)}] ${progress}%`;
+};
+
+const ProofAnimation = ({ type, stage: proofStage, download, onCancel, onComplete }: ProofAnimationProps) => {
   const [progress, setProgress] = useState(0);
   const [stage, setStage] = useState(0);
 
-  const stages = {
-    generate: [
-      { text: "> compiling zk circuit...", progress: 40 },
-      { text: "> generating proof...", progress: 80 },
-      { text: "> proof complete ✅", progress: 100 },
-      { text: "> secret never left browser 🔒", progress: 100 },
-    ],
-    verify: [
-      { text: "> verifying proof...", progress: 50 },
-      { text: "> checking cryptographic signature...", progress: 85 },
-      { text: "proof validation: ✅ success", progress: 100 },
-    ],
-    blockchain: [
-      { text: "> preparing transaction...", progress: 25 },
-      { text: "> sending to Solana Mainnet...", progress: 85 },
-      { text: "> transaction confirmed ✅", progress: 100 },
-      { text: "> hash: 5H3fT9k9AB2c8Fd...", progress: 100 },
-    ],
-  };
-
-  const currentStages = stages[type];
+  const currentStages = type === "generate" ? null : timedStages[type];
 
   useEffect(() => {
+    if (!currentStages) return;
+
     if (stage >= currentStages.length) {
       onComplete?.();
       return;
@@ -57,11 +75,37 @@ const ProofAnimation = ({ type, onComplete }: ProofAnimationProps) => {
     return () => clearInterval(interval);
   }, [stage, currentStages, onComplete]);
 
-  const renderProgressBar = () => {
-    const filled = Math.floor((progress / 100) * 25);
-    const empty = 25 - filled;
-    return `[${"▓".repeat(filled)}${"░".repeat(empty)}] ${progress}%`;
-  };
+  if (!currentStages) {
+    const current = Math.max(0, proofStages.findIndex((s) => s.stage === proofStage));
+    const done = proofStages[current].stage === "done";
+
+    return (
+      <div className="font-mono space-y-2 text-xs md:text-sm">
+        {proofStages.slice(0, current + 1).map((s, i) => (
+          <div key={s.stage} className={i === current ? "terminal-glow" : ""}>
+            <div className={i < current ? "text-muted-foreground" : "text-primary"}>{s.text}</div>
+            {i === current && !done && (
+              <div className="text-accent mt-1">
+                {s.stage === "artifacts" && download && download.total > 0
+                  ? `${renderProgressBar(Math.round((download.loaded / download.total) * 100))} ${formatBytes(download.loaded)}/${formatBytes(download.total)}`
+                  : renderProgressBar(Math.round((current / (proofStages.length - 1)) * 100))}
+              </div>
+            )}
+          </div>
+        ))}
+        {onCancel && !done && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive hover:text-destructive h-auto p-0 text-xs"
+            onClick={onCancel}
+          >
+            [CANCEL]
+          </Button>
+        )}
+      </div>
+    );
+  }
 
   return (
     <div className="font-mono space-y-2 text-xs md:text-sm">
@@ -69,7 +113,7 @@ const ProofAnimation = ({ type, onComplete }: ProofAnimationProps) => {
         <div key={i} className={i === stage ? "terminal-glow" : ""}>
           <div className="text-primary">{s.text}</div>
           {i === stage && s.progress < 100 && (
-            <div className="text-accent mt-1">{renderProgressBar()}</div>
+            <div className="text-accent mt-1">{renderProgressBar(progress)}</div>
           )}
         </div>
       ))}
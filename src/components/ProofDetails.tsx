@@ -4,20 +4,44 @@ interface ProofDetailsProps {
   proofData: {
     proof: any;
     publicInputs: any;
+    circuit_id?: string; // registry id, e.g. holderInclusion@<vkey hash>; missing on older messages
   };
   verified: boolean;
   timestamp: string;
   walletAddress: string;
   blockchainTxHash?: string | null;
+  holderTier?: string | null; // recorded by send-message after checking the tier proof
+  verificationMethod?: string | null; // native, external or structural; null on older messages
 }
 
+const METHOD_LABELS: Record<string, string> = {
+  native: "Groth16 pairing check on the server",
+  external: "external verifier",
+  structural: "public signals only - no cryptographic check completed",
+};
+
+// What actually ran, for messages without a successful pairing check
+const verificationSummary = (verified: boolean, method?: string | null) => {
+  if (!method) return "How this proof was checked was not recorded";
+  if (method === "native" || method === "external") return `Proof failed the ${METHOD_LABELS[method]}`;
+  return `${verified ? "Accepted" : "Checked"} on ${METHOD_LABELS[method] ?? method}`;
+};
+
+// The circuit part of a registry id (see circuitIdOf in src/lib/zkArtifacts.ts)
+const circuitLabel = (circuitId?: string) => (circuitId ? `${circuitId.split("@")[0]}.circom` : "not recorded");
+
 const ProofDetails = ({ 
   proofData, 
   verified, 
   timestamp, 
   walletAddress,
-  blockchainTxHash 
+  blockchainTxHash,
+  holderTier,
+  verificationMethod
 }: ProofDetailsProps) => {
+  // Only a pairing check counts; structural checks and unrecorded methods don't
+  const cryptographicallyVerified = verified && (verificationMethod === "native" || verificationMethod === "external");
+
   const formatTimestamp = (ts: string) => {
     return new Date(ts).toLocaleString();
   };
@@ -51,6 +75,20 @@ const ProofDetails = ({
           </span>
         </div>
 
+        {verificationMethod && (
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground">Checked By:</span>
+            <span className="text-foreground">{METHOD_LABELS[verificationMethod] ?? verificationMethod}</span>
+          </div>
+        )}
+
+        {holderTier && (
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground">Holder Tier:</span>
+            <span className="text-accent">{holderTier.toUpperCase()}</span>
+          </div>
+        )}
+
         <div className="flex items-start gap-2">
           <Clock className="w-3 h-3 text-muted-foreground mt-0.5" />
           <div>
@@ -113,7 +151,7 @@ const ProofDetails = ({
             </div>
           ))}
           {/* Hint when commitment equals a small constant like 10000 */}
-          {String((proofData as any)?.publicInputs?.commitment) === '10000' && (
+          {String(proofData?.publicInputs?.commitment) === '10000' && (
             <div className="text-[10px] text-muted-foreground mt-1">
               Note: This circuit build exposes [valid, threshold] as public signals. Commitment shown here is derived client-side and should be unique per message.
             </div>
@@ -132,7 +170,7 @@ const ProofDetails = ({
       {/* Technical Info */}
       <div className="border-t border-accent/30 pt-2 space-y-1">
         <div className="text-muted-foreground text-[10px]">
-          <div>Circuit: tokenBalance.circom (Circom)</div>
+          <div>Circuit: {circuitLabel(proofData?.circuit_id)} (Circom)</div>
           <div>Proving System: Groth16 (bn128 curve)</div>
           <div>Algorithm: Zero-Knowledge Succinct Non-Interactive Argument of Knowledge</div>
           <div>Security: Cryptographic proof without revealing secret balance</div>
@@ -146,7 +184,12 @@ const ProofDetails = ({
           <li>✓ Sender owns the wallet address</li>
           <li>✓ Message was authorized by wallet holder</li>
           <li>✓ Proof generated without revealing private key</li>
-          <li>✓ Cryptographic verification completed successfully</li>
+          {cryptographicallyVerified ? (
+            <li>✓ Cryptographic verification completed successfully ({METHOD_LABELS[verificationMethod!]})</li>
+          ) : (
+            <li className="text-destructive">⚠ {verificationSummary(verified, verificationMethod)}</li>
+          )}
+          {holderTier && <li>✓ Balance is within the {holderTier} tier's range, without revealing it</li>}
         </ul>
       </div>
     </div>
@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MemberIdentity } from '@/lib/keyring';
+import { getCachedWalletSession, getWalletSession, restoreWalletSession } from '@/lib/walletSession';
+import {
+  DirectMessageRow,
+  conversationId,
+  decryptDirectMessage,
+  encryptDirectMessage,
+  getDirectMessageStore,
+} from '@/lib/directMessages';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface DecryptedDirectMessage extends DirectMessageRow {
+  decryptedContent: string;
+}
+
+export const useDirectMessages = (
+  identity: MemberIdentity | null,
+  peerWallet: string | null,
+  signMessage: (message: string) => Promise<Uint8Array>
+) => {
+  const [messages, setMessages] = useState<DecryptedDirectMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [connected, setConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ratchet state must advance one message at a time, in order
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  const walletAddress = identity?.walletAddress ?? null;
+
+  const enqueue = useCallback(<T,>(task: () => Promise<T>): Promise<T> => {
+    const next = queueRef.current.then(task, task);
+    queueRef.current = next.catch(() => undefined);
+    return next;
+  }, []);
+
+  const connect = useCallback(async () => {
+    if (!walletAddress) return;
+    setError(null);
+    try {
+      await getWalletSession(walletAddress, signMessage);
+      setConnected(true);
+    } catch (err) {
+      console.error('❌ Error starting wallet session:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start wallet session');
+    }
+  }, [walletAddress, signMessage]);
+
+  useEffect(() => {
+    if (!walletAddress) {
+      setConnected(false);
+      return;
+    }
+
+    let cancelled = false;
+    restoreWalletSession(walletAddress).then((session) => {
+      if (!cancelled) setConnected(!!session);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [walletAddress]);
+
+  useEffect(() => {
+    setMessages([]);
+    if (!identity || !peerWallet || !connected) return;
+
+    const session = getCachedWalletSession(identity.walletAddress);
+    if (!session) {
+      setConnected(false);
+      return;
+    }
+
+    const conversation = conversationId(identity.walletAddress, peerWallet);
+    let cancelled = false;
+
+    const fetchMessages = async () => {
+      setLoading(true);
+      const { data, error: fetchError } = await session.client
+        .from('direct_messages')
+        .select('*')
+        .eq('conversation_id', conversation)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) {
+        console.error('Error fetching direct messages:', fetchError);
+        setError('Failed to load direct messages');
+      } else {
+        const decrypted = await enqueue(async () => {
+          const result: DecryptedDirectMessage[] = [];
+          for (const row of (data || []) as unknown as DirectMessageRow[]) {
+            result.push({ ...row, decryptedContent: await decryptDirectMessage(identity, row) });
+          }
+          return result;
+        });
+        if (!cancelled) setMessages(decrypted);
+      }
+      setLoading(false);
+    };
+
+    fetchMessages();
+
+    const channel = session.client
+      .channel(`direct-messages-${conversation}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'direct_messages',
+          filter: `conversation_id=eq.${conversation}`,
+        },
+        async (payload) => {
+          const row = payload.new as DirectMessageRow;
+          const decryptedContent = await enqueue(() => decryptDirectMessage(identity, row));
+          if (cancelled) return;
+          setMessages((current) =>
+            current.some((msg) => msg.id === row.id)
+              ? current
+              : [...current, { ...row, decryptedContent }]
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      session.client.removeChannel(channel);
+    };
+  }, [identity, peerWallet, connected, enqueue]);
+
+  const sendDirectMessage = async (plaintext: string) => {
+    if (!identity || !peerWallet) {
+      throw new Error('Pick a recipient first');
+    }
+
+    const session = await getWalletSession(identity.walletAddress, signMessage);
+
+    const { data, error: insertError } = await enqueue(async () => {
+      const { header, ciphertext } = await encryptDirectMessage(identity, peerWallet, plaintext);
+      return session.client
+        .from('direct_messages')
+        .insert({
+          conversation_id: conversationId(identity.walletAddress, peerWallet),
+          sender_wallet: identity.walletAddress,
+          recipient_wallet: peerWallet,
+          header: header as unknown as Json,
+          ciphertext,
+        })
+        .select()
+        .single();
+    });
+
+    if (insertError || !data) {
+      console.error('Error sending direct message:', insertError);
+      throw new Error('Failed to send direct message');
+    }
+
+    // Our own ratchet can't decrypt what we sent, so keep the plaintext locally
+    await getDirectMessageStore().putPlaintext(data.id, plaintext);
+    const row = data as unknown as DirectMessageRow;
+    setMessages((current) =>
+      current.some((msg) => msg.id === row.id)
+        ? current.map((msg) => (msg.id === row.id ? { ...msg, decryptedContent: plaintext } : msg))
+        : [...current, { ...row, decryptedContent: plaintext }]
+    );
+  };
+
+  return {
+    messages,
+    loading,
+    connected,
+    error,
+    connect,
+    sendDirectMessage,
+  };
+};
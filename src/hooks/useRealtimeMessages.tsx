@@ -1,33 +1,83 @@
 import { useState, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { encryptMessage, decryptMessage, generateMessageHash } from '@/lib/encryption';
-import { createMemoTransaction, signAndSendTransaction } from '@/lib/solana';
+import { MessagePayload, encryptMessage, decryptMessagePayload, generateMessageCommitment } from '@/lib/encryption';
+import { createMemoTransaction, messageMemo, signAndSendTransaction } from '@/lib/solana';
 import { toast } from '@/components/ui/use-toast';
+import { DEFAULT_ROOM_ID } from '@/lib/keyring';
+import { getGroupRecipients, parseGroupRoomId } from '@/lib/privateGroups';
+import { SignatureStatus, messageSigningPayload, verifyMessageSignature } from '@/lib/messageSignature';
+import { AttachmentRef } from '@/lib/attachments';
+import { AnonymousIdentity, keyRoomId, proveAnonymousMessage } from '@/lib/anonymous';
+import { ProofOptions } from '@/lib/prover';
+import { SendMessageError } from '@/lib/proofErrors';
 
 interface Message {
   id: string;
-  wallet_address: string;
+  room_id: string;
+  wallet_address: string | null;
+  nullifier: string | null;
   encrypted_content: string;
   proof_data: any;
   verified: boolean;
+  verification_method: string | null; // native, external or structural; null on older messages
+  quarantined: boolean;
+  holder_tier: string | null;
   blockchain_tx_hash: string | null;
+  author_signature: string | null;
+  signed_at: number | null;
   created_at: string;
 }
 
 export interface DecryptedMessage extends Message {
   decryptedContent: string;
+  attachments: AttachmentRef[];
+  signatureStatus: SignatureStatus;
 }
 
-export const useRealtimeMessages = () => {
+export const useRealtimeMessages = (roomId: string = DEFAULT_ROOM_ID, keyringVersion = 0) => {
+  // Anonymous rooms are encrypted with the lobby key
+  const keyRoom = keyRoomId(roomId);
   const [messages, setMessages] = useState<DecryptedMessage[]>([]);
   const [loading, setLoading] = useState(true);
   const pendingTxRef = useRef<Record<string, string>>({});
+  const messagesRef = useRef<DecryptedMessage[]>([]);
+  messagesRef.current = messages;
+
+  // Re-decrypt the feed whenever room keys are added to the keyring
+  useEffect(() => {
+    if (keyringVersion === 0) return;
+
+    let cancelled = false;
+    const redecrypt = async () => {
+      const decrypted = new Map<string, MessagePayload>();
+      for (const msg of messagesRef.current) {
+        decrypted.set(msg.id, await decryptMessagePayload(msg.encrypted_content, keyRoom));
+      }
+      if (!cancelled) {
+        setMessages((latest) =>
+          latest.map((msg) => {
+            const payload = decrypted.get(msg.id);
+            return payload
+              ? { ...msg, decryptedContent: payload.text, attachments: payload.attachments }
+              : msg;
+          })
+        );
+      }
+    };
+
+    redecrypt();
+    return () => {
+      cancelled = true;
+    };
+  }, [keyringVersion, keyRoom]);
+
   useEffect(() => {
     // Fetch initial messages
     const fetchMessages = async () => {
       const { data, error } = await supabase
         .from('messages')
         .select('*')
+        .eq('room_id', roomId)
         .order('created_at', { ascending: true });
 
       if (error) {
@@ -35,10 +85,15 @@ export const useRealtimeMessages = () => {
       } else {
         // Decrypt all messages
         const decryptedMessages = await Promise.all(
-          (data || []).map(async (msg) => ({
-            ...msg,
-            decryptedContent: await decryptMessage(msg.encrypted_content),
-          }))
+          (data || []).map(async (msg) => {
+            const payload = await decryptMessagePayload(msg.encrypted_content, keyRoom);
+            return {
+              ...msg,
+              decryptedContent: payload.text,
+              attachments: payload.attachments,
+              signatureStatus: await verifyMessageSignature(msg),
+            };
+          })
         );
         setMessages(decryptedMessages);
       }
@@ -49,18 +104,23 @@ export const useRealtimeMessages = () => {
 
     // Subscribe to real-time updates
     const channel = supabase
-      .channel('messages-channel')
+      .channel(`messages-channel-${roomId}`)
       .on(
         'postgres_changes',
         {
           event: 'INSERT',
           schema: 'public',
           table: 'messages',
+          filter: `room_id=eq.${roomId}`,
         },
         async (payload) => {
           console.log('New message received:', payload);
           const newMessage = payload.new as Message;
-          const decryptedContent = await decryptMessage(newMessage.encrypted_content);
+          const { text: decryptedContent, attachments } = await decryptMessagePayload(
+            newMessage.encrypted_content,
+            keyRoom
+          );
+          const signatureStatus = await verifyMessageSignature(newMessage);
 
           // Merge any pending optimistic tx hash if exists
           let blockchain_tx_hash = newMessage.blockchain_tx_hash;
@@ -72,7 +132,7 @@ export const useRealtimeMessages = () => {
 
           setMessages((current) => [
             ...current, 
-            { ...newMessage, blockchain_tx_hash, decryptedContent }
+            { ...newMessage, blockchain_tx_hash, decryptedContent, attachments, signatureStatus }
           ]);
         }
       )
@@ -82,11 +142,16 @@ export const useRealtimeMessages = () => {
           event: 'UPDATE',
           schema: 'public',
           table: 'messages',
+          filter: `room_id=eq.${roomId}`,
         },
         async (payload) => {
           console.log('Message updated:', payload);
           const updatedMessage = payload.new as Message;
-          const decryptedContent = await decryptMessage(updatedMessage.encrypted_content);
+          const { text: decryptedContent, attachments } = await decryptMessagePayload(
+            updatedMessage.encrypted_content,
+            keyRoom
+          );
+          const signatureStatus = await verifyMessageSignature(updatedMessage);
 
           // Ensure we merge any pending tx if backend update missed
           let blockchain_tx_hash = updatedMessage.blockchain_tx_hash;
@@ -99,7 +164,7 @@ export const useRealtimeMessages = () => {
           setMessages((current) =>
             current.map((msg) =>
               msg.id === updatedMessage.id 
-                ? { ...updatedMessage, blockchain_tx_hash, decryptedContent } 
+                ? { ...updatedMessage, blockchain_tx_hash, decryptedContent, attachments, signatureStatus } 
                 : msg
             )
           );
@@ -110,12 +175,13 @@ export const useRealtimeMessages = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
+  }, [roomId, keyRoom]);
 
   const sendMessage = async (
     wallet: any,
     plainTextMessage: string,
-    proofData: any
+    proofData: any,
+    attachments: AttachmentRef[] = []
   ) => {
     if (!wallet || !wallet.publicKey) {
       throw new Error('Wallet not connected');
@@ -124,18 +190,26 @@ export const useRealtimeMessages = () => {
     try {
       const walletAddress = wallet.publicKey.toString();
       
-      // 1. Encrypt the message
+      // 1. Encrypt the message (private groups: to the current members only)
       console.log('Encrypting message...');
-      const encryptedContent = await encryptMessage(plainTextMessage);
+      const groupId = parseGroupRoomId(roomId);
+      const recipients = groupId ? await getGroupRecipients(groupId) : undefined;
+      const encryptedContent = await encryptMessage(plainTextMessage, roomId, recipients, attachments);
       
-      // 2. Create signature for authentication
+      // 2. Sign the exact ciphertext, room, timestamp and proof
       console.log('Creating signature...');
       toast({
         title: 'Step 1/2: Sign to authenticate',
         description: "Phantom will show a 'Sign Message' prompt.",
       });
       const timestamp = Date.now();
-      const authMessage = `SNARK:${walletAddress}:${timestamp}`;
+      const authMessage = await messageSigningPayload({
+        walletAddress,
+        roomId,
+        timestamp,
+        encryptedContent,
+        proofData,
+      });
       const encodedMessage = new TextEncoder().encode(authMessage);
       const signatureObj = await (wallet as any).signMessage(encodedMessage, 'utf8');
 
@@ -149,6 +223,7 @@ export const useRealtimeMessages = () => {
       const response = await supabase.functions.invoke('send-message', {
         body: {
           walletAddress,
+          roomId,
           encryptedContent,
           proofData,
           signature,
@@ -157,16 +232,40 @@ export const useRealtimeMessages = () => {
       });
 
       if (response.error) {
-        throw response.error;
+        const details = await response.error.context?.json?.().catch(() => null);
+        throw new SendMessageError(details?.error ?? 'Failed to send message', details?.code ?? null);
       }
 
       // 4. Log to Solana blockchain
       const raw = response.data as any;
-      const messageId: string | undefined = raw?.message?.id;
+      const stored = raw?.message;
+      const messageId: string | undefined = stored?.id;
+
+      // Held for admin review: not shown in the room, so not logged on-chain either
+      if (stored?.quarantined) {
+        return { quarantined: true };
+      }
+
+      // The memo carries the server's commitment; recompute it from the stored row first
+      const commitment = stored?.commitment_salt
+        ? await generateMessageCommitment(stored.encrypted_content, stored.id, stored.commitment_salt)
+        : null;
+
+      if (!messageId || !commitment || commitment !== stored.message_commitment) {
+        console.warn('⚠️ Message commitment missing or mismatched, skipping blockchain logging', {
+          messageId,
+          commitment,
+          expected: stored?.message_commitment,
+        });
+        toast({
+          title: 'Blockchain logging skipped',
+          description: 'The stored message commitment could not be verified',
+          variant: 'destructive',
+        });
+        return;
+      }
 
-      // Build memo text regardless, so we can still attempt TX even if ID missing
-      const messageHash = generateMessageHash(plainTextMessage);
-      const memoText = `SNARK:${messageHash}:${messageId ?? 'noid'}:${Date.now()}`;
+      const memoText = messageMemo(commitment, messageId);
 
       toast({
         title: 'Step 2/2: Approve blockchain transaction',
@@ -208,7 +307,6 @@ export const useRealtimeMessages = () => {
             const logResponse = await supabase.functions.invoke('log-to-solana', {
               body: {
                 messageId,
-                messageHash,
                 transactionSignature: txSignature,
               },
             });
@@ -259,9 +357,51 @@ export const useRealtimeMessages = () => {
     }
   };
 
+  /**
+   * Post to an anonymous room: encrypt, prove membership over the ciphertext
+   * and send without a wallet address, signature or Solana memo
+   */
+  const sendAnonymousMessage = async (
+    walletAddress: string,
+    anonIdentity: AnonymousIdentity,
+    plainTextMessage: string,
+    proofOptions?: ProofOptions
+  ) => {
+    try {
+      const encryptedContent = await encryptMessage(plainTextMessage, keyRoom);
+      const { proofData, epoch } = await proveAnonymousMessage(walletAddress, anonIdentity, roomId, encryptedContent, proofOptions);
+      const [nullifier, , , threshold, root] = proofData.publicSignals;
+
+      const response = await supabase.functions.invoke('send-message', {
+        body: {
+          roomId,
+          encryptedContent,
+          proofData: {
+            proof: proofData.proof,
+            publicSignals: proofData.publicSignals,
+            publicInputs: { threshold, root, nullifier, epoch },
+            circuit_id: proofData.circuit_id,
+          },
+          epoch,
+        },
+      });
+
+      if (response.error) {
+        const details = await response.error.context?.json?.().catch(() => null);
+        throw new SendMessageError(details?.error ?? 'Failed to send anonymous message', details?.code ?? null);
+      }
+
+      return { quarantined: response.data?.message?.quarantined === true };
+    } catch (error) {
+      console.error('Error sending anonymous message:', error);
+      throw error;
+    }
+  };
+
   return {
     messages,
     loading,
     sendMessage,
+    sendAnonymousMessage,
   };
 };
@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  MemberIdentity,
+  DEFAULT_ROOM_ID,
+  clearKeyring,
+  deriveMemberIdentity,
+  dropCurrentRoomKey,
+  getCurrentRoomKey,
+  restoreRoomKeys,
+  setActiveIdentity,
+  subscribeKeyring,
+} from '@/lib/keyring';
+import { registerMemberKey, reportAccessLost, requestRoomKeys } from '@/lib/roomKeys';
+import { lockKeystore, unlockKeystore, unlockKeystoreWithPassphrase } from '@/lib/keystore';
+import { persistDirectMessagesInKeystore, resetDirectMessageStore } from '@/lib/directMessages';
+
+interface RoomKeysResult {
+  identity: MemberIdentity | null;
+  ready: boolean;
+  unlocking: boolean;
+  error: string | null;
+  epoch: number | null;
+  keyringVersion: number;
+  unlock: () => Promise<void>;
+  unlockWithPassphrase: (passphrase: string) => Promise<void>;
+}
+
+// Keys saved in the keystore are available again as soon as it opens
+async function loadFromKeystore(): Promise<void> {
+  persistDirectMessagesInKeystore();
+  const restored = await restoreRoomKeys();
+  console.log(`🗝️ Local keystore unlocked (${restored} saved room keys)`);
+}
+
+export const useRoomKeys = (
+  walletAddress: string | null,
+  signMessage: (message: string) => Promise<Uint8Array>,
+  hasAccess: boolean,
+  roomId: string = DEFAULT_ROOM_ID
+): RoomKeysResult => {
+  const [identity, setIdentity] = useState<MemberIdentity | null>(null);
+  const [ready, setReady] = useState(false);
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [epoch, setEpoch] = useState<number | null>(null);
+  const [keyringVersion, setKeyringVersion] = useState(0);
+  const hadAccessRef = useRef(false);
+
+  // Bump a version counter whenever keys are added so consumers can re-decrypt
+  useEffect(() => subscribeKeyring(() => setKeyringVersion((v) => v + 1)), []);
+
+  // Keys belong to the wallet that unlocked them
+  useEffect(() => {
+    setIdentity(null);
+    setReady(false);
+    setError(null);
+    setEpoch(null);
+    hadAccessRef.current = false;
+    clearKeyring();
+    lockKeystore();
+    resetDirectMessageStore();
+  }, [walletAddress]);
+
+  // When the room moves to a new epoch, stop encrypting to the old key
+  useEffect(() => {
+    const channel = supabase
+      .channel(`room-keys-${roomId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'room_keys',
+          filter: `room_id=eq.${roomId}`,
+        },
+        (payload) => {
+          const newEpoch = (payload.new as { epoch: number }).epoch;
+          console.log('🔄 Room key rotated to epoch', newEpoch);
+          if (getCurrentRoomKey(roomId)) {
+            dropCurrentRoomKey(roomId);
+            setReady(false);
+            setError(`Room key rotated to epoch ${newEpoch}. Unlock again to keep chatting.`);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId]);
+
+  // useTokenBalance noticed this wallet dropped below the threshold
+  useEffect(() => {
+    if (!walletAddress) return;
+
+    if (hasAccess) {
+      hadAccessRef.current = true;
+      return;
+    }
+
+    if (hadAccessRef.current) {
+      hadAccessRef.current = false;
+      dropCurrentRoomKey(roomId);
+      setReady(false);
+      setError('Your balance dropped below the threshold. Older epochs stay readable.');
+      reportAccessLost(walletAddress);
+    }
+  }, [hasAccess, walletAddress, roomId]);
+
+  const unlock = useCallback(async () => {
+    if (!walletAddress) return;
+
+    setUnlocking(true);
+    setError(null);
+    try {
+      console.log('🔑 Deriving member encryption identity...');
+      const memberIdentity = identity ?? (await deriveMemberIdentity(walletAddress, signMessage));
+      await registerMemberKey(memberIdentity, signMessage);
+      setIdentity(memberIdentity);
+      setActiveIdentity(memberIdentity);
+
+      try {
+        await unlockKeystore(memberIdentity);
+        await loadFromKeystore();
+      } catch (keystoreError) {
+        // Without IndexedDB (e.g. private browsing) keys just don't persist
+        console.warn('⚠️ Local keystore unavailable:', keystoreError);
+      }
+
+      const currentKeyId = await requestRoomKeys(roomId, memberIdentity, signMessage);
+      const current = getCurrentRoomKey(roomId);
+
+      if (currentKeyId && current) {
+        setReady(true);
+        setEpoch(current.epoch);
+        console.log(`✅ Room keys unlocked: epoch ${current.epoch} (${currentKeyId})`);
+      } else {
+        setError('No room key could be unwrapped for this wallet');
+      }
+    } catch (err) {
+      console.error('❌ Error unlocking room keys:', err);
+      setError(err instanceof Error ? err.message : 'Failed to unlock room keys');
+    } finally {
+      setUnlocking(false);
+    }
+  }, [walletAddress, signMessage, roomId, identity]);
+
+  // Reads saved history without a wallet signature; sending still needs unlock()
+  const unlockWithPassphrase = useCallback(async (passphrase: string) => {
+    if (!walletAddress) return;
+    await unlockKeystoreWithPassphrase(walletAddress, passphrase);
+    await loadFromKeystore();
+  }, [walletAddress]);
+
+  return {
+    identity,
+    ready,
+    unlocking,
+    error,
+    epoch,
+    keyringVersion,
+    unlock,
+    unlockWithPassphrase,
+  };
+};
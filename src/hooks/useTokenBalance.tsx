@@ -3,16 +3,19 @@ import { Connection, PublicKey } from '@solana/web3.js';
 import { checkTokenGating } from '@/lib/tokenGating';
 
 interface TokenBalanceResult {
-  balance: number | null;
-  required: number | null;
+  // Base units; format with formatTokenAmount and `decimals`
+  balance: bigint | null;
+  required: bigint | null;
+  decimals: number;
   hasAccess: boolean;
   loading: boolean;
   refresh: () => Promise<void>;
 }
 
 export const useTokenBalance = (walletAddress: string | null): TokenBalanceResult => {
-  const [balance, setBalance] = useState<number | null>(null);
-  const [required, setRequired] = useState<number | null>(null);
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [required, setRequired] = useState<bigint | null>(null);
+  const [decimals, setDecimals] = useState(0);
   const [hasAccess, setHasAccess] = useState(false);
   const [loading, setLoading] = useState(true);
 
@@ -31,6 +34,7 @@ export const useTokenBalance = (walletAddress: string | null): TokenBalanceResul
       
       setBalance(result.balance);
       setRequired(result.required);
+      setDecimals(result.decimals);
       setHasAccess(result.allowed);
       
       console.log(`✅ Balance updated: ${result.balance}/${result.required} (Access: ${result.allowed})`);
@@ -102,6 +106,7 @@ export const useTokenBalance = (walletAddress: string | null): TokenBalanceResul
   return {
     balance,
     required,
+    decimals,
     hasAccess,
     loading,
     refresh: checkBalance,
@@ -14,60 +14,968 @@ export type Database = {
   }
   public: {
     Tables: {
+      anon_ban_scopes: {
+        Row: {
+          created_at: string
+          epoch: number
+          external_nullifier: string
+          room_id: string
+        }
+        Insert: {
+          created_at?: string
+          epoch: number
+          external_nullifier: string
+          room_id: string
+        }
+        Update: {
+          created_at?: string
+          epoch?: number
+          external_nullifier?: string
+          room_id?: string
+        }
+        Relationships: []
+      }
+      anon_banned_nullifiers: {
+        Row: {
+          epoch: number
+          external_nullifier: string
+          identity_commitment: string
+          nullifier: string
+        }
+        Insert: {
+          epoch: number
+          external_nullifier: string
+          identity_commitment: string
+          nullifier: string
+        }
+        Update: {
+          epoch?: number
+          external_nullifier?: string
+          identity_commitment?: string
+          nullifier?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "anon_banned_nullifiers_identity_commitment_fkey"
+            columns: ["identity_commitment"]
+            isOneToOne: false
+            referencedRelation: "anon_bans"
+            referencedColumns: ["identity_commitment"]
+          },
+        ]
+      }
+      anon_bans: {
+        Row: {
+          created_at: string
+          epoch: number
+          identity_commitment: string
+          identity_secret: string
+          rln_nullifier: string
+          room_id: string
+          wallet_address: string | null
+        }
+        Insert: {
+          created_at?: string
+          epoch: number
+          identity_commitment: string
+          identity_secret: string
+          rln_nullifier: string
+          room_id: string
+          wallet_address?: string | null
+        }
+        Update: {
+          created_at?: string
+          epoch?: number
+          identity_commitment?: string
+          identity_secret?: string
+          rln_nullifier?: string
+          room_id?: string
+          wallet_address?: string | null
+        }
+        Relationships: []
+      }
+      anonymous_identities: {
+        Row: {
+          created_at: string
+          identity_commitment: string
+          signature: string
+          updated_at: string
+          wallet_address: string
+        }
+        Insert: {
+          created_at?: string
+          identity_commitment: string
+          signature: string
+          updated_at?: string
+          wallet_address: string
+        }
+        Update: {
+          created_at?: string
+          identity_commitment?: string
+          signature?: string
+          updated_at?: string
+          wallet_address?: string
+        }
+        Relationships: []
+      }
+      attachment_limits: {
+        Row: {
+          allowed_mime_types: string[]
+          created_at: string
+          id: string
+          max_size_bytes: number
+          updated_by: string | null
+        }
+        Insert: {
+          allowed_mime_types: string[]
+          created_at?: string
+          id?: string
+          max_size_bytes: number
+          updated_by?: string | null
+        }
+        Update: {
+          allowed_mime_types?: string[]
+          created_at?: string
+          id?: string
+          max_size_bytes?: number
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      attachments: {
+        Row: {
+          completed_at: string | null
+          content_hash: string
+          created_at: string
+          mime_type: string
+          size_bytes: number
+          status: string
+          uploader_wallet: string
+        }
+        Insert: {
+          completed_at?: string | null
+          content_hash: string
+          created_at?: string
+          mime_type: string
+          size_bytes: number
+          status?: string
+          uploader_wallet: string
+        }
+        Update: {
+          completed_at?: string | null
+          content_hash?: string
+          created_at?: string
+          mime_type?: string
+          size_bytes?: number
+          status?: string
+          uploader_wallet?: string
+        }
+        Relationships: []
+      }
+      ceremony_contributions: {
+        Row: {
+          ceremony_id: string
+          contribution_hash: string
+          created_at: string
+          id: string
+          kind: string
+          name: string
+          position: number
+          signature: string
+          signed_at: number
+          verification_log: string
+          wallet_address: string
+          zkey_path: string
+          zkey_sha256: string
+        }
+        Insert: {
+          ceremony_id: string
+          contribution_hash: string
+          created_at?: string
+          id?: string
+          kind: string
+          name: string
+          position: number
+          signature: string
+          signed_at: number
+          verification_log: string
+          wallet_address: string
+          zkey_path: string
+          zkey_sha256: string
+        }
+        Update: {
+          ceremony_id?: string
+          contribution_hash?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          name?: string
+          position?: number
+          signature?: string
+          signed_at?: number
+          verification_log?: string
+          wallet_address?: string
+          zkey_path?: string
+          zkey_sha256?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ceremony_contributions_ceremony_id_fkey"
+            columns: ["ceremony_id"]
+            isOneToOne: false
+            referencedRelation: "setup_ceremonies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      circuits: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          status: string
+          updated_at: string
+          version: string
+          vkey: Json
+          vkey_sha256: string
+          wasm_sha256: string
+          zkey_sha256: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          name: string
+          status?: string
+          updated_at?: string
+          version: string
+          vkey: Json
+          vkey_sha256: string
+          wasm_sha256: string
+          zkey_sha256: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          status?: string
+          updated_at?: string
+          version?: string
+          vkey?: Json
+          vkey_sha256?: string
+          wasm_sha256?: string
+          zkey_sha256?: string
+        }
+        Relationships: []
+      }
+      direct_messages: {
+        Row: {
+          ciphertext: string
+          conversation_id: string
+          created_at: string
+          header: Json
+          id: string
+          recipient_wallet: string
+          sender_wallet: string
+        }
+        Insert: {
+          ciphertext: string
+          conversation_id: string
+          created_at?: string
+          header: Json
+          id?: string
+          recipient_wallet: string
+          sender_wallet: string
+        }
+        Update: {
+          ciphertext?: string
+          conversation_id?: string
+          created_at?: string
+          header?: Json
+          id?: string
+          recipient_wallet?: string
+          sender_wallet?: string
+        }
+        Relationships: []
+      }
+      holder_snapshots: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          dump_path: string
+          id: string
+          leaf_count: number
+          merkle_root: string
+          mint_set: string
+          token_mint_address: string
+          tree_depth: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          dump_path: string
+          id?: string
+          leaf_count: number
+          merkle_root: string
+          mint_set: string
+          token_mint_address: string
+          tree_depth: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          dump_path?: string
+          id?: string
+          leaf_count?: number
+          merkle_root?: string
+          mint_set?: string
+          token_mint_address?: string
+          tree_depth?: number
+        }
+        Relationships: []
+      }
+      key_release_challenges: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          nonce: string
+          room_id: string
+          used_at: string | null
+          wallet_address: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          nonce: string
+          room_id: string
+          used_at?: string | null
+          wallet_address: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          nonce?: string
+          room_id?: string
+          used_at?: string | null
+          wallet_address?: string
+        }
+        Relationships: []
+      }
+      member_keys: {
+        Row: {
+          created_at: string
+          id: string
+          signature: string
+          wallet_address: string
+          x25519_public_key: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          signature: string
+          wallet_address: string
+          x25519_public_key: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          signature?: string
+          wallet_address?: string
+          x25519_public_key?: string
+        }
+        Relationships: []
+      }
+      holder_tiers: {
+        Row: {
+          created_at: string
+          id: string
+          min_base_units: string
+          name: string
+          position: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          min_base_units: string
+          name: string
+          position: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          min_base_units?: string
+          name?: string
+          position?: number
+        }
+        Relationships: []
+      }
+      message_verifications: {
+        Row: {
+          circuit_id: string | null
+          created_at: string
+          flipped: boolean | null
+          id: string
+          message_id: string
+          result: string
+          run_id: string | null
+          verified_after: boolean
+          verified_before: boolean
+          verifier_version: string
+        }
+        Insert: {
+          circuit_id?: string | null
+          created_at?: string
+          id?: string
+          message_id: string
+          result: string
+          run_id?: string | null
+          verified_after: boolean
+          verified_before: boolean
+          verifier_version: string
+        }
+        Update: {
+          circuit_id?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string
+          result?: string
+          run_id?: string | null
+          verified_after?: boolean
+          verified_before?: boolean
+          verifier_version?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_verifications_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_verifications_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "reverification_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          author_signature: string | null
           blockchain_tx_hash: string | null
+          commitment_salt: string | null
           created_at: string
           encrypted_content: string
+          holder_tier: string | null
           id: string
+          message_commitment: string | null
+          nullifier: string | null
           proof_data: Json
+          quarantined: boolean
+          room_id: string
+          signed_at: number | null
           verified: boolean
-          wallet_address: string
+          verification_method: string | null
+          wallet_address: string | null
         }
         Insert: {
+          author_signature?: string | null
           blockchain_tx_hash?: string | null
+          commitment_salt?: string | null
           created_at?: string
           encrypted_content: string
+          holder_tier?: string | null
           id?: string
+          message_commitment?: string | null
+          nullifier?: string | null
           proof_data: Json
+          quarantined?: boolean
+          room_id?: string
+          signed_at?: number | null
           verified?: boolean
-          wallet_address: string
+          verification_method?: string | null
+          wallet_address?: string | null
         }
         Update: {
+          author_signature?: string | null
           blockchain_tx_hash?: string | null
+          commitment_salt?: string | null
           created_at?: string
           encrypted_content?: string
+          holder_tier?: string | null
           id?: string
+          message_commitment?: string | null
+          nullifier?: string | null
           proof_data?: Json
+          quarantined?: boolean
+          room_id?: string
+          signed_at?: number | null
           verified?: boolean
+          verification_method?: string | null
+          wallet_address?: string | null
+        }
+        Relationships: []
+      }
+      private_group_members: {
+        Row: {
+          added_at: string
+          added_by: string
+          group_id: string
+          id: string
+          removed_at: string | null
+          wallet_address: string
+        }
+        Insert: {
+          added_at?: string
+          added_by: string
+          group_id: string
+          id?: string
+          removed_at?: string | null
+          wallet_address: string
+        }
+        Update: {
+          added_at?: string
+          added_by?: string
+          group_id?: string
+          id?: string
+          removed_at?: string | null
+          wallet_address?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "private_group_members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "private_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      private_groups: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_wallet: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_wallet: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_wallet?: string
+        }
+        Relationships: []
+      }
+      proof_nonces: {
+        Row: {
+          created_at: string
+          expires_at: string
+          nonce: string
+          used_at: string | null
+          wallet_address: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          nonce: string
+          used_at?: string | null
+          wallet_address: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          nonce?: string
+          used_at?: string | null
+          wallet_address?: string
+        }
+        Relationships: []
+      }
+      reverification_runs: {
+        Row: {
+          checked: number
+          continuation_token_hash: string | null
+          cursor_id: string | null
+          finished_at: string | null
+          flipped_to_failed: number
+          flipped_to_verified: number
+          id: string
+          skipped: number
+          started_at: string
+          started_by: string
+          status: string
+          total: number
+          verifier_version: string
+        }
+        Insert: {
+          checked?: number
+          continuation_token_hash?: string | null
+          cursor_id?: string | null
+          finished_at?: string | null
+          flipped_to_failed?: number
+          flipped_to_verified?: number
+          id?: string
+          skipped?: number
+          started_at?: string
+          started_by: string
+          status?: string
+          total: number
+          verifier_version: string
+        }
+        Update: {
+          checked?: number
+          continuation_token_hash?: string | null
+          cursor_id?: string | null
+          finished_at?: string | null
+          flipped_to_failed?: number
+          flipped_to_verified?: number
+          id?: string
+          skipped?: number
+          started_at?: string
+          started_by?: string
+          status?: string
+          total?: number
+          verifier_version?: string
+        }
+        Relationships: []
+      }
+      rln_shares: {
+        Row: {
+          created_at: string
+          epoch: number
+          id: string
+          message_id: string | null
+          nullifier: string
+          rln_nullifier: string
+          room_id: string
+          share_x: string
+          share_y: string
+        }
+        Insert: {
+          created_at?: string
+          epoch: number
+          id?: string
+          message_id?: string | null
+          nullifier: string
+          rln_nullifier: string
+          room_id: string
+          share_x: string
+          share_y: string
+        }
+        Update: {
+          created_at?: string
+          epoch?: number
+          id?: string
+          message_id?: string | null
+          nullifier?: string
+          rln_nullifier?: string
+          room_id?: string
+          share_x?: string
+          share_y?: string
+        }
+        Relationships: []
+      }
+      room_key_escrow: {
+        Row: {
+          created_at: string
+          key_id: string
+          sealed_key: string
+        }
+        Insert: {
+          created_at?: string
+          key_id: string
+          sealed_key: string
+        }
+        Update: {
+          created_at?: string
+          key_id?: string
+          sealed_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_key_escrow_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: true
+            referencedRelation: "room_keys"
+            referencedColumns: ["key_id"]
+          },
+        ]
+      }
+      room_key_grants: {
+        Row: {
+          created_at: string
+          id: string
+          key_id: string
+          wallet_address: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key_id: string
+          wallet_address: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_id?: string
           wallet_address?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_key_grants_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "room_keys"
+            referencedColumns: ["key_id"]
+          },
+        ]
+      }
+      room_keys: {
+        Row: {
+          created_at: string
+          created_by: string
+          epoch: number
+          key_id: string
+          reason: string
+          room_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          epoch?: number
+          key_id: string
+          reason?: string
+          room_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          epoch?: number
+          key_id?: string
+          reason?: string
+          room_id?: string
         }
         Relationships: []
       }
+      setup_ceremonies: {
+        Row: {
+          beacon_hash: string | null
+          beacon_iterations_exp: number | null
+          beacon_slot: number | null
+          circuit_id: string | null
+          circuit_name: string
+          claim_expires_at: string | null
+          claim_position: number | null
+          claimed_by: string | null
+          contribution_count: number
+          created_at: string
+          created_by: string
+          final_zkey_path: string | null
+          final_zkey_sha256: string | null
+          finalized_at: string | null
+          id: string
+          ptau_url: string
+          r1cs_path: string
+          r1cs_sha256: string
+          status: string
+          vkey_path: string | null
+          vkey_sha256: string | null
+          wasm_sha256: string
+        }
+        Insert: {
+          beacon_hash?: string | null
+          beacon_iterations_exp?: number | null
+          beacon_slot?: number | null
+          circuit_id?: string | null
+          circuit_name: string
+          claim_expires_at?: string | null
+          claim_position?: number | null
+          claimed_by?: string | null
+          contribution_count?: number
+          created_at?: string
+          created_by: string
+          final_zkey_path?: string | null
+          final_zkey_sha256?: string | null
+          finalized_at?: string | null
+          id?: string
+          ptau_url: string
+          r1cs_path: string
+          r1cs_sha256: string
+          status?: string
+          vkey_path?: string | null
+          vkey_sha256?: string | null
+          wasm_sha256: string
+        }
+        Update: {
+          beacon_hash?: string | null
+          beacon_iterations_exp?: number | null
+          beacon_slot?: number | null
+          circuit_id?: string | null
+          circuit_name?: string
+          claim_expires_at?: string | null
+          claim_position?: number | null
+          claimed_by?: string | null
+          contribution_count?: number
+          created_at?: string
+          created_by?: string
+          final_zkey_path?: string | null
+          final_zkey_sha256?: string | null
+          finalized_at?: string | null
+          id?: string
+          ptau_url?: string
+          r1cs_path?: string
+          r1cs_sha256?: string
+          status?: string
+          vkey_path?: string | null
+          vkey_sha256?: string | null
+          wasm_sha256?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "setup_ceremonies_circuit_id_fkey"
+            columns: ["circuit_id"]
+            isOneToOne: false
+            referencedRelation: "circuits"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      token_requirement_mints: {
+        Row: {
+          created_at: string
+          id: string
+          position: number
+          requirement_id: string
+          threshold_base_units: string | null
+          token_decimals: number
+          token_mint_address: string
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          position: number
+          requirement_id: string
+          threshold_base_units?: string | null
+          token_decimals: number
+          token_mint_address: string
+          weight?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          position?: number
+          requirement_id?: string
+          threshold_base_units?: string | null
+          token_decimals?: number
+          token_mint_address?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "token_requirement_mints_requirement_id_fkey"
+            columns: ["requirement_id"]
+            isOneToOne: false
+            referencedRelation: "token_requirements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       token_requirements: {
         Row: {
           created_at: string | null
           id: string
-          threshold_amount: number
+          rule_mode: string
+          threshold_amount: number | null
+          threshold_base_units: string | null
+          token_decimals: number | null
           token_mint_address: string
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
           id?: string
-          threshold_amount: number
+          rule_mode?: string
+          threshold_amount?: number | null
+          threshold_base_units?: string | null
+          token_decimals?: number | null
           token_mint_address: string
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
           id?: string
-          threshold_amount?: number
+          rule_mode?: string
+          threshold_amount?: number | null
+          threshold_base_units?: string | null
+          token_decimals?: number | null
           token_mint_address?: string
           updated_at?: string | null
         }
         Relationships: []
       }
+      used_commitments: {
+        Row: {
+          circuit_id: string
+          commitment: string
+          created_at: string
+          epoch: number | null
+        }
+        Insert: {
+          circuit_id: string
+          commitment: string
+          created_at?: string
+          epoch?: number | null
+        }
+        Update: {
+          circuit_id?: string
+          commitment?: string
+          created_at?: string
+          epoch?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "used_commitments_circuit_id_fkey"
+            columns: ["circuit_id"]
+            isOneToOne: false
+            referencedRelation: "circuits"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      used_group_requests: {
+        Row: {
+          action: string
+          created_at: string
+          request_hash: string
+          wallet_address: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          request_hash: string
+          wallet_address: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          request_hash?: string
+          wallet_address?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -89,12 +997,55 @@ export type Database = {
         }
         Relationships: []
       }
+      wallet_session_challenges: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          nonce: string
+          used_at: string | null
+          wallet_address: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          nonce: string
+          used_at?: string | null
+          wallet_address: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          nonce?: string
+          used_at?: string | null
+          wallet_address?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
       is_admin: { Args: { wallet_addr: string }; Returns: boolean }
+      jwt_wallet_address: { Args: never; Returns: string }
+      release_quarantined_message: {
+        Args: { message_id: string }
+        Returns: boolean
+      }
+      save_token_rule: {
+        Args: {
+          mints: Json
+          requirement_id: string
+          rule_mode: string
+          threshold_base_units: string
+          token_decimals: number
+          token_mint_address: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
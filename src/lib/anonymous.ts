@@ -0,0 +1,198 @@
+import { supabase } from '@/integrations/supabase/client';
+import { bytesToHex, concatBytes, sha256 } from './encoding';
+import { DEFAULT_ROOM_ID, MemberIdentity } from './keyring';
+import { findHolderLeaf } from './holderSnapshot';
+import { getPoseidon, poseidonHash } from './poseidon';
+import { getTokenRequirements, ruleMintSet } from './tokenGating';
+import { ZKProofData, generateAnonymousProof, hashToField } from './zkProof';
+import { ProofOptions } from './prover';
+
+/**
+ * Anonymous rooms. Messages in an 'anon:' room carry a membership proof
+ * (circuits/rln.circom) and a nullifier instead of the sender's wallet. The nullifier is the same for all of a member's messages in one
+ * room and epoch, so the feed shows a stable pseudonym that changes every
+ * ANON_EPOCH_MS. Must match supabase/functions/_shared/anonymous.ts.
+ *
+ * The identity secret is derived from the member's X25519 identity, so it
+ * needs no extra wallet signature and is the same on every device. Its
+ * Poseidon commitment is registered once and lands in the wallet's leaf at
+ * the next holder snapshot.
+ *
+ * Each member may send ANON_MESSAGE_LIMIT messages per room and epoch, one
+ * per message slot. Every message reveals a share of the identity secret for
+ * its slot, so reusing a slot lets the server recover the secret and ban the
+ * identity. Slots already used are read back from the public rln_shares.
+ *
+ * Anonymous messages are encrypted with the lobby room key and can't have
+ * attachments or Solana memos, since those are tied to the wallet.
+ */
+
+export const ANON_ROOM_PREFIX = 'anon:';
+export const DEFAULT_ANON_ROOM_ID = `${ANON_ROOM_PREFIX}lobby`;
+export const ANON_EPOCH_MS = 60 * 60 * 1000;
+export const ANON_MESSAGE_LIMIT = 10;
+
+export interface AnonymousIdentity {
+  secret: string;
+  commitment: string;
+}
+
+export function isAnonRoomId(roomId: string): boolean {
+  return roomId.startsWith(ANON_ROOM_PREFIX);
+}
+
+// The room whose key encrypts messages posted to `roomId`
+export function keyRoomId(roomId: string): string {
+  return isAnonRoomId(roomId) ? DEFAULT_ROOM_ID : roomId;
+}
+
+export function currentAnonEpoch(now = Date.now()): number {
+  return Math.floor(now / ANON_EPOCH_MS);
+}
+
+export async function deriveAnonymousIdentity(identity: MemberIdentity): Promise<AnonymousIdentity> {
+  const seed = await sha256(concatBytes(new TextEncoder().encode('snark-anon-identity'), identity.secretKey));
+  const secret = BigInt('0x' + bytesToHex(seed.slice(0, 31)));
+  const poseidon = await getPoseidon();
+
+  return {
+    secret: secret.toString(),
+    commitment: poseidonHash(poseidon, [secret]).toString(),
+  };
+}
+
+export async function getRegisteredCommitment(walletAddress: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('anonymous_identities')
+    .select('identity_commitment')
+    .eq('wallet_address', walletAddress)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching anonymous identity:', error);
+    return null;
+  }
+
+  return data?.identity_commitment ?? null;
+}
+
+export async function registerAnonymousIdentity(
+  walletAddress: string,
+  anonIdentity: AnonymousIdentity,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<void> {
+  const timestamp = Date.now();
+  const signature = await signMessage(`SNARK:anon-identity:${anonIdentity.commitment}:${timestamp}`);
+
+  const { error } = await supabase.functions.invoke('anon-identity', {
+    body: {
+      walletAddress,
+      identityCommitment: anonIdentity.commitment,
+      timestamp,
+      signature: bytesToHex(signature),
+    },
+  });
+
+  if (error) {
+    console.error('Anonymous identity registration failed:', error);
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error ?? 'Failed to register anonymous identity');
+  }
+}
+
+export interface AnonymousStatus {
+  registered: boolean;
+  inSnapshot: boolean;
+}
+
+/**
+ * Whether this identity is registered, and whether the latest holder
+ * snapshot already carries it (only then can the wallet post anonymously)
+ */
+export async function getAnonymousStatus(
+  walletAddress: string,
+  anonIdentity: AnonymousIdentity
+): Promise<AnonymousStatus> {
+  const registered = (await getRegisteredCommitment(walletAddress)) === anonIdentity.commitment;
+  const requirements = await getTokenRequirements();
+  const leaf = requirements ? await findHolderLeaf(walletAddress, ruleMintSet(requirements)) : null;
+
+  return { registered, inSnapshot: leaf?.identityCommitment === anonIdentity.commitment };
+}
+
+/**
+ * The first message slot this identity hasn't used in the room's epoch.
+ * A slot's rlnNullifier is Poseidon(Poseidon(secret, externalNullifier, slot)).
+ */
+async function nextMessageSlot(anonIdentity: AnonymousIdentity, externalNullifier: string): Promise<number> {
+  const poseidon = await getPoseidon();
+  const slotNullifiers = Array.from({ length: ANON_MESSAGE_LIMIT }, (_, slot) => {
+    const a1 = poseidonHash(poseidon, [BigInt(anonIdentity.secret), BigInt(externalNullifier), BigInt(slot)]);
+    return poseidonHash(poseidon, [a1]).toString();
+  });
+
+  const { data, error } = await supabase
+    .from('rln_shares')
+    .select('rln_nullifier')
+    .in('rln_nullifier', slotNullifiers);
+
+  if (error) {
+    console.error('Error fetching RLN shares:', error);
+    throw new Error('Failed to check your anonymous message limit');
+  }
+
+  const used = new Set((data ?? []).map(row => row.rln_nullifier));
+  const slot = slotNullifiers.findIndex(nullifier => !used.has(nullifier));
+  if (slot === -1) {
+    throw new Error(`You can send ${ANON_MESSAGE_LIMIT} anonymous messages per hour - please wait for the next epoch`);
+  }
+  return slot;
+}
+
+/**
+ * Prove membership for one ciphertext. The proof is bound to the room, the
+ * current epoch and the exact ciphertext, which send-message all re-checks.
+ */
+export async function proveAnonymousMessage(
+  walletAddress: string,
+  anonIdentity: AnonymousIdentity,
+  roomId: string,
+  encryptedContent: string,
+  options?: ProofOptions
+): Promise<{ proofData: ZKProofData; epoch: number }> {
+  const epoch = currentAnonEpoch();
+  const externalNullifier = await hashToField(`SNARK:anon:${roomId}:${epoch}`);
+  const proofData = await generateAnonymousProof({
+    walletAddress,
+    identitySecret: anonIdentity.secret,
+    identityCommitment: anonIdentity.commitment,
+    externalNullifier,
+    signalHash: await hashToField(encryptedContent),
+    messageId: await nextMessageSlot(anonIdentity, externalNullifier),
+    messageLimit: ANON_MESSAGE_LIMIT,
+  }, options);
+
+  return { proofData, epoch };
+}
+
+const PSEUDONYM_ADJECTIVES = [
+  'amber', 'silent', 'quantum', 'hollow', 'neon', 'crimson', 'frozen', 'lunar',
+  'rusty', 'velvet', 'cobalt', 'feral', 'glitch', 'obsidian', 'solar', 'static',
+];
+const PSEUDONYM_NOUNS = [
+  'falcon', 'cipher', 'otter', 'comet', 'raven', 'lynx', 'golem', 'kraken',
+  'moth', 'oracle', 'badger', 'wraith', 'heron', 'vector', 'jackal', 'sphinx',
+];
+
+/**
+ * A readable name for a nullifier, e.g. "neon-raven-3fa"
+ */
+export function pseudonymFromNullifier(nullifier: string): string {
+  let value = BigInt(nullifier);
+  const adjective = PSEUDONYM_ADJECTIVES[Number(value % BigInt(PSEUDONYM_ADJECTIVES.length))];
+  value /= BigInt(PSEUDONYM_ADJECTIVES.length);
+  const noun = PSEUDONYM_NOUNS[Number(value % BigInt(PSEUDONYM_NOUNS.length))];
+  value /= BigInt(PSEUDONYM_NOUNS.length);
+  const tag = (value % BigInt(4096)).toString(16).padStart(3, '0');
+  return `${adjective}-${noun}-${tag}`;
+}
@@ -0,0 +1,288 @@
+import { supabase } from '@/integrations/supabase/client';
+import { base64ToBytes, bytesToBase64, bytesToHex, sha256 } from './encoding';
+
+/**
+ * Encrypted file attachments. Each file gets its own random AES-256-GCM key
+ * and is encrypted in CHUNK_SIZE chunks, each with its own tag. The chunk IV
+ * is the chunk index (safe because the key is never reused) and the AAD
+ * marks the final chunk, so chunks can't be reordered, dropped or truncated.
+ *
+ * Only the ciphertext is uploaded, stored under its SHA-256. The key travels
+ * inside the encrypted message as an AttachmentRef, so storage never sees it.
+ * Must match supabase/functions/_shared/attachments.ts.
+ */
+
+export const CHUNK_SIZE = 64 * 1024;
+const TAG_LENGTH = 16;
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+// The type comes from the sender, and an object URL runs in the app's origin,
+// so only raster images keep theirs. Anything else (HTML, SVG) is bytes.
+const INLINE_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+export interface AttachmentRef {
+  hash: string; // hex SHA-256 of the ciphertext
+  key: string; // base64 file key
+  name: string;
+  type: string;
+  size: number; // plaintext bytes
+  chunkSize: number;
+}
+
+export interface AttachmentLimits {
+  max_size_bytes: number;
+  allowed_mime_types: string[];
+}
+
+interface EncryptedAttachment {
+  ciphertext: Uint8Array;
+  ref: AttachmentRef;
+}
+
+function chunkIv(index: number): Uint8Array {
+  const iv = new Uint8Array(IV_LENGTH);
+  new DataView(iv.buffer).setUint32(IV_LENGTH - 4, index);
+  return iv;
+}
+
+function chunkAad(index: number, isLast: boolean): Uint8Array {
+  return new TextEncoder().encode(`${index}:${isLast ? 1 : 0}`);
+}
+
+async function importFileKey(raw: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw as BufferSource, { name: 'AES-GCM' }, false, [usage]);
+}
+
+export async function encryptAttachment(file: File): Promise<EncryptedAttachment> {
+  const plaintext = new Uint8Array(await file.arrayBuffer());
+  const rawKey = crypto.getRandomValues(new Uint8Array(KEY_LENGTH));
+  const key = await importFileKey(rawKey, 'encrypt');
+
+  // An empty file is still one (empty) final chunk
+  const chunkCount = Math.max(1, Math.ceil(plaintext.length / CHUNK_SIZE));
+  const ciphertext = new Uint8Array(plaintext.length + chunkCount * TAG_LENGTH);
+
+  let offset = 0;
+  for (let index = 0; index < chunkCount; index++) {
+    const chunk = plaintext.subarray(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE);
+    const encrypted = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: chunkIv(index) as BufferSource,
+        additionalData: chunkAad(index, index === chunkCount - 1) as BufferSource,
+      },
+      key,
+      chunk as BufferSource
+    );
+    ciphertext.set(new Uint8Array(encrypted), offset);
+    offset += encrypted.byteLength;
+  }
+
+  const ref: AttachmentRef = {
+    hash: bytesToHex(await sha256(ciphertext)),
+    key: bytesToBase64(rawKey),
+    name: file.name,
+    type: file.type || 'application/octet-stream',
+    size: plaintext.length,
+    chunkSize: CHUNK_SIZE,
+  };
+  rawKey.fill(0);
+
+  return { ciphertext, ref };
+}
+
+export async function decryptAttachment(ciphertext: Uint8Array, ref: AttachmentRef): Promise<Blob> {
+  if (bytesToHex(await sha256(ciphertext)) !== ref.hash) {
+    throw new Error('Attachment does not match its content hash');
+  }
+
+  const key = await importFileKey(base64ToBytes(ref.key), 'decrypt');
+  const encryptedChunkSize = ref.chunkSize + TAG_LENGTH;
+  const chunkCount = Math.max(1, Math.ceil(ciphertext.length / encryptedChunkSize));
+  const parts: Uint8Array[] = [];
+
+  for (let index = 0; index < chunkCount; index++) {
+    const chunk = ciphertext.subarray(index * encryptedChunkSize, (index + 1) * encryptedChunkSize);
+    const decrypted = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: chunkIv(index) as BufferSource,
+        additionalData: chunkAad(index, index === chunkCount - 1) as BufferSource,
+      },
+      key,
+      chunk as BufferSource
+    );
+    parts.push(new Uint8Array(decrypted));
+  }
+
+  return new Blob(parts as BlobPart[], {
+    type: isInlineImage(ref) ? ref.type : 'application/octet-stream',
+  });
+}
+
+async function invokeAttachments<T>(body: Record<string, unknown>, fallbackError: string): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('attachments', { body });
+
+  if (error) {
+    console.error('Attachment request failed:', error);
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error ?? fallbackError);
+  }
+
+  return data;
+}
+
+export async function getAttachmentLimits(): Promise<AttachmentLimits> {
+  const { data, error } = await supabase
+    .from('attachment_limits')
+    .select('max_size_bytes, allowed_mime_types')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching attachment limits:', error);
+    throw new Error('Failed to load attachment limits');
+  }
+
+  return data ?? { max_size_bytes: 0, allowed_mime_types: [] };
+}
+
+/**
+ * Encrypt and upload a file, returning the reference to embed in a message.
+ * Limits are checked locally first so oversized files fail before signing.
+ */
+export async function uploadAttachment(
+  file: File,
+  walletAddress: string,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<AttachmentRef> {
+  const limits = await getAttachmentLimits();
+  if (!limits.allowed_mime_types.includes(file.type)) {
+    throw new Error(`${file.name}: file type ${file.type || 'unknown'} is not allowed`);
+  }
+  if (file.size > limits.max_size_bytes) {
+    throw new Error(`${file.name} is larger than ${formatBytes(limits.max_size_bytes)}`);
+  }
+
+  const { ciphertext, ref } = await encryptAttachment(file);
+
+  const timestamp = Date.now();
+  const signature = await signMessage(
+    `SNARK:attachment:${ref.hash}:${ciphertext.length}:${ref.type}:${timestamp}`
+  );
+
+  const prepared = await invokeAttachments<{ alreadyUploaded?: boolean; path?: string; token?: string }>(
+    {
+      action: 'prepare',
+      walletAddress,
+      contentHash: ref.hash,
+      size: ciphertext.length,
+      mimeType: ref.type,
+      timestamp,
+      signature: bytesToHex(signature),
+    },
+    'Failed to prepare upload'
+  );
+
+  if (!prepared.alreadyUploaded) {
+    const { error } = await supabase.storage
+      .from('attachments')
+      .uploadToSignedUrl(prepared.path!, prepared.token!, new Blob([ciphertext as BlobPart]), {
+        contentType: 'application/octet-stream',
+      });
+
+    if (error) {
+      console.error('Error uploading attachment:', error);
+      throw new Error(`Failed to upload ${file.name}`);
+    }
+
+    await invokeAttachments(
+      { action: 'complete', walletAddress, contentHash: ref.hash },
+      'Failed to finish upload'
+    );
+  }
+
+  return ref;
+}
+
+// Object URLs of decrypted attachments, kept for the lifetime of the page
+const objectUrls = new Map<string, Promise<string>>();
+
+/**
+ * Download, verify and decrypt an attachment, returning an object URL for it
+ */
+export function getAttachmentUrl(ref: AttachmentRef): Promise<string> {
+  const cached = objectUrls.get(ref.hash);
+  if (cached) return cached;
+
+  const pending = (async () => {
+    const { url } = await invokeAttachments<{ url: string }>(
+      { action: 'download', contentHash: ref.hash },
+      'Failed to load attachment'
+    );
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error('Failed to download attachment');
+    }
+
+    const blob = await decryptAttachment(new Uint8Array(await response.arrayBuffer()), ref);
+    return URL.createObjectURL(blob);
+  })();
+
+  objectUrls.set(ref.hash, pending);
+  pending.catch(() => objectUrls.delete(ref.hash));
+  return pending;
+}
+
+export async function setAttachmentLimitsAsAdmin(
+  maxSizeBytes: number,
+  allowedMimeTypes: string[],
+  walletAddress: string,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<AttachmentLimits> {
+  const timestamp = Date.now();
+  const signature = await signMessage(
+    `SNARK:attachment-limits:${maxSizeBytes}:${allowedMimeTypes.join(',')}:${timestamp}`
+  );
+
+  const data = await invokeAttachments<{ limits: AttachmentLimits }>(
+    {
+      action: 'limits',
+      walletAddress,
+      maxSizeBytes,
+      allowedMimeTypes,
+      timestamp,
+      signature: bytesToHex(signature),
+    },
+    'Failed to update attachment limits'
+  );
+
+  return data.limits;
+}
+
+export function isInlineImage(ref: AttachmentRef): boolean {
+  return INLINE_IMAGE_TYPES.has(ref.type);
+}
+
+export function isAttachmentRef(value: unknown): value is AttachmentRef {
+  const ref = value as AttachmentRef;
+  return (
+    !!ref &&
+    typeof ref.hash === 'string' &&
+    typeof ref.key === 'string' &&
+    typeof ref.name === 'string' &&
+    typeof ref.type === 'string' &&
+    typeof ref.size === 'number' &&
+    typeof ref.chunkSize === 'number' &&
+    ref.chunkSize > 0
+  );
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,309 @@
+import { supabase } from '@/integrations/supabase/client';
+import { bytesToHex, sha256 } from './encoding';
+import { ProofOptions, beaconInWorker, contributeInWorker } from './prover';
+
+/**
+ * Multi-party Phase 2 trusted setup ceremonies, run by the ceremony edge
+ * function. An admin opens one with the initial zkey from
+ * `circuits/setup.sh --ceremony`; each contributor downloads the latest
+ * zkey, adds their own randomness in the prover worker and uploads the
+ * result, which the server verifies before adding it to the public
+ * transcript. The admin closes the ceremony with a beacon from a finalized
+ * Solana block and, once the final zkey and vkey are published, activates
+ * the build in the circuit registry.
+ *
+ * The toxic waste is safe as long as any one contributor discarded theirs;
+ * the randomness here lives only in the worker for one contribution.
+ */
+
+export const CEREMONY_BUCKET = 'ceremony';
+
+export type CeremonyStatus = 'open' | 'finalized' | 'activated' | 'cancelled';
+
+export type CeremonyStage = 'claiming' | 'downloading' | 'contributing' | 'uploading' | 'verifying';
+
+export interface Ceremony {
+  id: string;
+  circuit_name: string;
+  status: CeremonyStatus;
+  r1cs_sha256: string;
+  wasm_sha256: string;
+  ptau_url: string;
+  r1cs_path: string;
+  contribution_count: number;
+  claimed_by: string | null;
+  claim_expires_at: string | null;
+  beacon_hash: string | null;
+  beacon_slot: number | null;
+  beacon_iterations_exp: number | null;
+  final_zkey_path: string | null;
+  final_zkey_sha256: string | null;
+  vkey_path: string | null;
+  vkey_sha256: string | null;
+  circuit_id: string | null;
+  created_at: string;
+  finalized_at: string | null;
+}
+
+export interface CeremonyContribution {
+  id: string;
+  position: number;
+  kind: 'initial' | 'contribution' | 'beacon';
+  wallet_address: string;
+  name: string;
+  zkey_path: string;
+  zkey_sha256: string;
+  contribution_hash: string;
+  signature: string;
+  signed_at: number;
+  verification_log: string;
+  created_at: string;
+}
+
+interface SignedUpload {
+  path: string;
+  token: string;
+}
+
+interface Claim {
+  position: number;
+  previousZkeyUrl: string;
+  upload: SignedUpload;
+  beacon?: { hash: string; slot: number; iterationsExp: number };
+  vkeyUpload?: SignedUpload;
+}
+
+export interface ContributionReceipt {
+  position: number;
+  contributionHash: string;
+}
+
+type SignMessage = (message: string) => Promise<Uint8Array>;
+
+export interface ContributeOptions extends ProofOptions {
+  onCeremonyStage?: (stage: CeremonyStage) => void;
+}
+
+async function invokeCeremony<T>(body: Record<string, unknown>, fallback: string): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('ceremony', { body });
+
+  if (error || data?.error) {
+    console.error('Ceremony request failed:', error ?? data.error);
+    const details = await error?.context?.json?.().catch(() => null);
+    throw new Error(details?.error ?? data?.error ?? fallback);
+  }
+
+  return data as T;
+}
+
+async function signed(walletAddress: string, signMessage: SignMessage, message: (timestamp: number) => string) {
+  const timestamp = Date.now();
+  const signature = await signMessage(message(timestamp));
+  return { walletAddress, timestamp, signature: bytesToHex(signature) };
+}
+
+async function upload(target: SignedUpload, data: Uint8Array | string, contentType: string): Promise<void> {
+  const { error } = await supabase.storage
+    .from(CEREMONY_BUCKET)
+    .uploadToSignedUrl(target.path, target.token, new Blob([data as BlobPart]), { contentType });
+
+  if (error) {
+    console.error('Error uploading ceremony file:', error);
+    throw new Error(`Failed to upload ${target.path}`);
+  }
+}
+
+async function fileSha256(data: Uint8Array): Promise<string> {
+  return bytesToHex(await sha256(data));
+}
+
+async function submit(
+  ceremonyId: string,
+  position: number,
+  zkeySha256: string,
+  walletAddress: string,
+  signMessage: SignMessage
+): Promise<{ contributionHash: string | null }> {
+  const auth = await signed(walletAddress, signMessage, timestamp =>
+    `SNARK:ceremony-submit:${ceremonyId}:${position}:${zkeySha256}:${timestamp}`
+  );
+  return invokeCeremony({ action: 'submit', ceremonyId, position, zkeySha256, ...auth }, 'Failed to submit contribution');
+}
+
+async function downloadZkey(url: string): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('Failed to download the latest zkey');
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+export function ceremonyFileUrl(path: string): string {
+  return supabase.storage.from(CEREMONY_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+export async function getCeremonies(): Promise<Ceremony[]> {
+  const { data, error } = await supabase
+    .from('setup_ceremonies')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load ceremonies: ${error.message}`);
+  }
+
+  return (data ?? []) as Ceremony[];
+}
+
+/**
+ * The ceremony's public transcript, initial zkey first
+ */
+export async function getCeremonyContributions(ceremonyId: string): Promise<CeremonyContribution[]> {
+  const { data, error } = await supabase
+    .from('ceremony_contributions')
+    .select('*')
+    .eq('ceremony_id', ceremonyId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load the ceremony transcript: ${error.message}`);
+  }
+
+  return (data ?? []) as CeremonyContribution[];
+}
+
+/**
+ * Open a ceremony for `circuitName` with the output of
+ * `circuits/setup.sh --ceremony`. The initial zkey is verified like any
+ * contribution before anyone can build on it.
+ */
+export async function openCeremonyAsAdmin(
+  walletAddress: string,
+  signMessage: SignMessage,
+  circuitName: string,
+  files: { r1cs: File; wasm: File; initialZkey: File },
+  ptauUrl: string
+): Promise<string> {
+  const r1cs = new Uint8Array(await files.r1cs.arrayBuffer());
+  const zkey = new Uint8Array(await files.initialZkey.arrayBuffer());
+  const r1csSha256 = await fileSha256(r1cs);
+  const wasmSha256 = await fileSha256(new Uint8Array(await files.wasm.arrayBuffer()));
+
+  const auth = await signed(walletAddress, signMessage, timestamp =>
+    `SNARK:ceremony-open:${circuitName}:${r1csSha256}:${wasmSha256}:${timestamp}`
+  );
+  const { ceremonyId, uploads } = await invokeCeremony<{
+    ceremonyId: string;
+    uploads: { r1cs: SignedUpload; zkey: SignedUpload };
+  }>({ action: 'open', circuitName, r1csSha256, wasmSha256, ptauUrl, ...auth }, 'Failed to open ceremony');
+
+  await upload(uploads.r1cs, r1cs, 'application/octet-stream');
+  await upload(uploads.zkey, zkey, 'application/octet-stream');
+  await submit(ceremonyId, 0, await fileSha256(zkey), walletAddress, signMessage);
+
+  return ceremonyId;
+}
+
+/**
+ * Claim the next position, contribute to the latest zkey with fresh
+ * randomness plus `entropy` and submit the result for verification.
+ * Resolves with the contribution hash the transcript will show.
+ */
+export async function contributeToCeremony(
+  ceremonyId: string,
+  walletAddress: string,
+  signMessage: SignMessage,
+  name: string,
+  entropy: string,
+  options: ContributeOptions = {}
+): Promise<ContributionReceipt> {
+  const stage = options.onCeremonyStage ?? (() => {});
+
+  stage('claiming');
+  const auth = await signed(walletAddress, signMessage, timestamp => `SNARK:ceremony-claim:${ceremonyId}:${timestamp}`);
+  const claim = await invokeCeremony<Claim>({ action: 'claim', ceremonyId, ...auth }, 'Failed to claim a contribution slot');
+
+  stage('downloading');
+  const previous = await downloadZkey(claim.previousZkeyUrl);
+
+  stage('contributing');
+  const random = bytesToHex(crypto.getRandomValues(new Uint8Array(64)));
+  const { zkey, contributionHash } = await contributeInWorker(previous, name, `${random}${entropy}`, options);
+
+  stage('uploading');
+  await upload(claim.upload, zkey, 'application/octet-stream');
+
+  stage('verifying');
+  await submit(ceremonyId, claim.position, await fileSha256(zkey), walletAddress, signMessage);
+
+  return { position: claim.position, contributionHash };
+}
+
+/**
+ * Apply the beacon the server picks to the last contribution and publish
+ * the final zkey and its verification key
+ */
+export async function finalizeCeremonyAsAdmin(
+  ceremonyId: string,
+  walletAddress: string,
+  signMessage: SignMessage,
+  options: ContributeOptions = {}
+): Promise<ContributionReceipt> {
+  const stage = options.onCeremonyStage ?? (() => {});
+
+  stage('claiming');
+  const auth = await signed(walletAddress, signMessage, timestamp => `SNARK:ceremony-claim:${ceremonyId}:${timestamp}`);
+  const claim = await invokeCeremony<Claim>({ action: 'claim', ceremonyId, beacon: true, ...auth }, 'Failed to claim the beacon');
+  if (!claim.beacon || !claim.vkeyUpload) {
+    throw new Error('The server did not return a beacon');
+  }
+
+  stage('downloading');
+  const previous = await downloadZkey(claim.previousZkeyUrl);
+
+  stage('contributing');
+  const { zkey, vkey, contributionHash } = await beaconInWorker(
+    previous,
+    `Solana slot ${claim.beacon.slot}`,
+    claim.beacon.hash,
+    claim.beacon.iterationsExp,
+    options
+  );
+
+  stage('uploading');
+  await upload(claim.upload, zkey, 'application/octet-stream');
+  // Formatted like `snarkjs zkey export verificationkey`
+  await upload(claim.vkeyUpload, JSON.stringify(vkey, null, 1), 'application/json');
+
+  stage('verifying');
+  await submit(ceremonyId, claim.position, await fileSha256(zkey), walletAddress, signMessage);
+
+  return { position: claim.position, contributionHash };
+}
+
+/**
+ * Register the finalized build as the circuit's active build. Publish the
+ * final zkey and vkey in public/zkp and rebuild the manifest first, or
+ * provers will still load the old build.
+ */
+export async function activateCeremonyAsAdmin(
+  ceremonyId: string,
+  walletAddress: string,
+  signMessage: SignMessage
+): Promise<string> {
+  const auth = await signed(walletAddress, signMessage, timestamp => `SNARK:ceremony-activate:${ceremonyId}:${timestamp}`);
+  const { circuitId } = await invokeCeremony<{ circuitId: string }>(
+    { action: 'activate', ceremonyId, ...auth },
+    'Failed to activate ceremony'
+  );
+  return circuitId;
+}
+
+export async function cancelCeremonyAsAdmin(
+  ceremonyId: string,
+  walletAddress: string,
+  signMessage: SignMessage
+): Promise<void> {
+  const auth = await signed(walletAddress, signMessage, timestamp => `SNARK:ceremony-cancel:${ceremonyId}:${timestamp}`);
+  await invokeCeremony({ action: 'cancel', ceremonyId, ...auth }, 'Failed to cancel ceremony');
+}
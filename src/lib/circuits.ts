@@ -0,0 +1,121 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { circuitIdOf, getZkpManifest, loadVerificationKey } from './zkArtifacts';
+
+/**
+ * The circuit registry (public.circuits): every circuit build proofs have
+ * been made with, its verification key and artifact hashes. Proofs carry
+ * their build's id as proof_data.circuit_id, so old messages keep
+ * verifying after a circuit is rebuilt. See
+ * supabase/functions/_shared/circuits.ts for how statuses are enforced.
+ */
+
+export type CircuitStatus = 'active' | 'deprecated' | 'revoked';
+
+export interface CircuitBuild {
+  id: string;
+  name: string;
+  version: string;
+  status: CircuitStatus;
+  created_at: string;
+}
+
+export async function getCircuitRegistry(): Promise<CircuitBuild[]> {
+  const { data, error } = await supabase
+    .from('circuits')
+    .select('id, name, version, status, created_at')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load the circuit registry: ${error.message}`);
+  }
+
+  return (data ?? []) as CircuitBuild[];
+}
+
+/**
+ * Verification key of a registered build, for checking someone else's proof
+ */
+export async function getRegisteredVerificationKey(circuitId: string): Promise<unknown> {
+  const { data, error } = await supabase
+    .from('circuits')
+    .select('vkey, status')
+    .eq('id', circuitId)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new Error(`Circuit ${circuitId} is not registered`);
+  }
+  if (data.status === 'revoked') {
+    throw new Error(`Circuit ${circuitId} has been revoked`);
+  }
+
+  return data.vkey;
+}
+
+/**
+ * Register every circuit build in the manifest that isn't registered yet,
+ * as the active build of its circuit; the build it replaces is deprecated.
+ * Verification keys go through the manifest's hash check. Returns the ids
+ * that were registered.
+ */
+export async function registerManifestCircuits(): Promise<string[]> {
+  const manifest = await getZkpManifest();
+  const registered: string[] = [];
+
+  for (const [name, entry] of Object.entries(manifest.circuits)) {
+    const id = circuitIdOf(name, entry);
+
+    const { data: existing, error: lookupError } = await supabase
+      .from('circuits')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+    if (existing) continue;
+
+    const vkey = await loadVerificationKey(name);
+
+    // Only one active build per circuit
+    const { error: deprecateError } = await supabase
+      .from('circuits')
+      .update({ status: 'deprecated', updated_at: new Date().toISOString() })
+      .eq('name', name)
+      .eq('status', 'active');
+
+    if (deprecateError) throw deprecateError;
+
+    const { error: insertError } = await supabase
+      .from('circuits')
+      .insert({
+        id,
+        name,
+        version: entry.version,
+        vkey: vkey as Json,
+        wasm_sha256: entry.wasm.sha256,
+        zkey_sha256: entry.zkey.sha256,
+        vkey_sha256: entry.vkey.sha256,
+        status: 'active',
+      });
+
+    if (insertError) throw insertError;
+    registered.push(id);
+  }
+
+  return registered;
+}
+
+/**
+ * Revoke a build: its proofs, old and new, no longer verify
+ */
+export async function revokeCircuit(circuitId: string): Promise<void> {
+  const { error } = await supabase
+    .from('circuits')
+    .update({ status: 'revoked', updated_at: new Date().toISOString() })
+    .eq('id', circuitId);
+
+  if (error) {
+    throw new Error(`Failed to revoke circuit ${circuitId}: ${error.message}`);
+  }
+}
@@ -0,0 +1,277 @@
+import nacl from 'tweetnacl';
+import { base64ToBytes, bytesToBase64, bytesToHex, sha256 } from './encoding';
+import { MemberIdentity } from './keyring';
+import { getMemberKeys } from './roomKeys';
+import { getRecord, listRecords, putRecord } from './keystore';
+import {
+  RatchetHeader,
+  RatchetState,
+  initRatchetAsInitiator,
+  initRatchetAsResponder,
+  initiatorHandshake,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  responderHandshake,
+} from './doubleRatchet';
+
+/**
+ * 1:1 direct messages between wallets, encrypted with a Double Ratchet.
+ *
+ * The first messages of a session carry an `init` block (the sender's identity
+ * key and an ephemeral key) until the peer replies, so the peer can set up
+ * its side of the session from the message alone. Both sides may start a
+ * session at the same time; every message names its session id, so each is
+ * decrypted with the right state and whichever session was used last wins.
+ */
+
+export interface DirectMessageHeader extends RatchetHeader {
+  sid: string;
+  init?: { ik: string; ek: string };
+}
+
+export interface DirectMessageRow {
+  id: string;
+  conversation_id: string;
+  sender_wallet: string;
+  recipient_wallet: string;
+  header: DirectMessageHeader;
+  ciphertext: string;
+  created_at: string;
+}
+
+export interface DmSession {
+  sessionId: string;
+  ownerWallet: string;
+  peerWallet: string;
+  initiator: boolean;
+  // Set once the peer has replied in this session; until then we keep sending `init`
+  confirmed: boolean;
+  init?: { ik: string; ek: string };
+  // Restored from a backup: decrypts the peer's messages but never sends (see keystore.ts)
+  receiveOnly?: boolean;
+  state: RatchetState;
+  updatedAt: number;
+}
+
+/**
+ * Where ratchet state and decrypted plaintexts live. Ratchet message keys are
+ * deleted as they are used, so a message can only be decrypted once: the
+ * plaintext has to be kept locally to show history again.
+ */
+export interface DirectMessageStore {
+  getSession(sessionId: string): Promise<DmSession | null>;
+  putSession(session: DmSession): Promise<void>;
+  listSessions(ownerWallet: string, peerWallet: string): Promise<DmSession[]>;
+  getPlaintext(messageId: string): Promise<string | null>;
+  putPlaintext(messageId: string, plaintext: string): Promise<void>;
+}
+
+class MemoryDirectMessageStore implements DirectMessageStore {
+  private sessions = new Map<string, DmSession>();
+  private plaintexts = new Map<string, string>();
+
+  async getSession(sessionId: string) {
+    return this.sessions.get(sessionId) ?? null;
+  }
+
+  async putSession(session: DmSession) {
+    this.sessions.set(session.sessionId, session);
+  }
+
+  async listSessions(ownerWallet: string, peerWallet: string) {
+    return Array.from(this.sessions.values()).filter(
+      s => s.ownerWallet === ownerWallet && s.peerWallet === peerWallet
+    );
+  }
+
+  async getPlaintext(messageId: string) {
+    return this.plaintexts.get(messageId) ?? null;
+  }
+
+  async putPlaintext(messageId: string, plaintext: string) {
+    this.plaintexts.set(messageId, plaintext);
+  }
+}
+
+// Sessions and plaintexts in the encrypted local keystore, so they survive reloads
+class KeystoreDirectMessageStore implements DirectMessageStore {
+  async getSession(sessionId: string) {
+    return getRecord<DmSession>('dm-session', sessionId);
+  }
+
+  async putSession(session: DmSession) {
+    await putRecord('dm-session', session.sessionId, session);
+  }
+
+  async listSessions(ownerWallet: string, peerWallet: string) {
+    const sessions = await listRecords<DmSession>('dm-session');
+    return sessions
+      .map(({ value }) => value)
+      .filter(s => s.ownerWallet === ownerWallet && s.peerWallet === peerWallet);
+  }
+
+  async getPlaintext(messageId: string) {
+    return getRecord<string>('dm-plaintext', messageId);
+  }
+
+  async putPlaintext(messageId: string, plaintext: string) {
+    await putRecord('dm-plaintext', messageId, plaintext);
+  }
+}
+
+let store: DirectMessageStore = new MemoryDirectMessageStore();
+
+export function setDirectMessageStore(next: DirectMessageStore): void {
+  store = next;
+}
+
+// Call once the keystore is unlocked; resetDirectMessageStore when it locks
+export function persistDirectMessagesInKeystore(): void {
+  store = new KeystoreDirectMessageStore();
+}
+
+export function resetDirectMessageStore(): void {
+  store = new MemoryDirectMessageStore();
+}
+
+export function getDirectMessageStore(): DirectMessageStore {
+  return store;
+}
+
+export function conversationId(walletA: string, walletB: string): string {
+  return [walletA, walletB].sort().join(':');
+}
+
+function associatedData(conversation: string, sessionId: string): Uint8Array {
+  return new TextEncoder().encode(`SNARK-DM:${conversation}:${sessionId}`);
+}
+
+async function sessionIdFor(ephemeralPublicKey: Uint8Array): Promise<string> {
+  return bytesToHex((await sha256(ephemeralPublicKey)).slice(0, 16));
+}
+
+async function getPeerIdentityKeys(peerWallet: string): Promise<string[]> {
+  return (await getMemberKeys(peerWallet)).map(record => record.x25519_public_key);
+}
+
+async function startSession(identity: MemberIdentity, peerWallet: string): Promise<DmSession> {
+  const [peerIdentity] = await getPeerIdentityKeys(peerWallet);
+  if (!peerIdentity) {
+    throw new Error('This wallet has not registered an encryption key yet');
+  }
+
+  const ephemeral = nacl.box.keyPair();
+  const peerPublicKey = base64ToBytes(peerIdentity);
+  const sharedSecret = await initiatorHandshake(identity.secretKey, peerPublicKey, ephemeral.secretKey);
+
+  return {
+    sessionId: await sessionIdFor(ephemeral.publicKey),
+    ownerWallet: identity.walletAddress,
+    peerWallet,
+    initiator: true,
+    confirmed: false,
+    init: { ik: bytesToBase64(identity.publicKey), ek: bytesToBase64(ephemeral.publicKey) },
+    state: await initRatchetAsInitiator(sharedSecret, peerPublicKey),
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Encrypt a DM to `peerWallet`, starting a new session if none can send yet
+ */
+export async function encryptDirectMessage(
+  identity: MemberIdentity,
+  peerWallet: string,
+  plaintext: string
+): Promise<{ header: DirectMessageHeader; ciphertext: string }> {
+  const sessions = await store.listSessions(identity.walletAddress, peerWallet);
+  const active = sessions
+    .filter(s => s.state.cks && !s.receiveOnly)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+
+  const session = active ?? (await startSession(identity, peerWallet));
+  const conversation = conversationId(identity.walletAddress, peerWallet);
+
+  const { state, header, ciphertext } = await ratchetEncrypt(
+    session.state,
+    plaintext,
+    associatedData(conversation, session.sessionId)
+  );
+
+  await store.putSession({ ...session, state, updatedAt: Date.now() });
+
+  return {
+    header: {
+      ...header,
+      sid: session.sessionId,
+      ...(session.initiator && !session.confirmed ? { init: session.init } : {}),
+    },
+    ciphertext,
+  };
+}
+
+/**
+ * Decrypt a DM addressed to this member. Plaintexts are cached so each
+ * message only goes through the ratchet once.
+ */
+export async function decryptDirectMessage(
+  identity: MemberIdentity,
+  message: DirectMessageRow
+): Promise<string> {
+  const cached = await store.getPlaintext(message.id);
+  if (cached !== null) return cached;
+
+  if (message.sender_wallet === identity.walletAddress) {
+    return '[Sent from another device]';
+  }
+
+  const { header } = message;
+  let session = await store.getSession(header.sid);
+
+  if (!session) {
+    if (!header.init) {
+      return '[Session unavailable - ask the sender to start a new one]';
+    }
+
+    // The init identity key must be one the sender's wallet actually signed
+    const peerKeys = await getPeerIdentityKeys(message.sender_wallet);
+    if (!peerKeys.includes(header.init.ik)) {
+      return '[Rejected - sender identity key not bound to their wallet]';
+    }
+
+    const sharedSecret = await responderHandshake(
+      identity.secretKey,
+      base64ToBytes(header.init.ik),
+      base64ToBytes(header.init.ek)
+    );
+
+    session = {
+      sessionId: header.sid,
+      ownerWallet: identity.walletAddress,
+      peerWallet: message.sender_wallet,
+      initiator: false,
+      confirmed: true,
+      state: initRatchetAsResponder(sharedSecret, {
+        publicKey: identity.publicKey,
+        secretKey: identity.secretKey,
+      }),
+      updatedAt: Date.now(),
+    };
+  }
+
+  try {
+    const { state, plaintext } = await ratchetDecrypt(
+      session.state,
+      header,
+      message.ciphertext,
+      associatedData(message.conversation_id, header.sid)
+    );
+
+    await store.putSession({ ...session, state, confirmed: true, updatedAt: Date.now() });
+    await store.putPlaintext(message.id, plaintext);
+    return plaintext;
+  } catch (error) {
+    console.error('DM decryption failed:', error);
+    return '[Decryption failed]';
+  }
+}
@@ -0,0 +1,284 @@
+import nacl from 'tweetnacl';
+import { base64ToBytes, bytesToBase64, concatBytes } from './encoding';
+
+/**
+ * Double Ratchet (Signal spec) over X25519, HKDF-SHA256, HMAC-SHA256 and AES-GCM.
+ *
+ * Sessions start from an X3DH-style handshake between the two members' X25519
+ * identity keys (see keyring.ts) and one ephemeral key from the initiator.
+ * After that every reply performs a DH ratchet step, which gives forward secrecy
+ * (old message keys are deleted) and post-compromise security (new DH outputs
+ * heal the session).
+ */
+
+const MAX_SKIP = 1000;
+const ROOT_INFO = new TextEncoder().encode('SNARK-DR-root');
+const MESSAGE_INFO = new TextEncoder().encode('SNARK-DR-message');
+const HANDSHAKE_INFO = new TextEncoder().encode('SNARK-DM-X3DH');
+
+export interface RatchetHeader {
+  dh: string; // sender's current ratchet public key (base64)
+  pn: number; // length of the previous sending chain
+  n: number; // message number in the current sending chain
+}
+
+export interface RatchetState {
+  dhsPublic: string;
+  dhsSecret: string;
+  dhr: string | null;
+  rk: string;
+  cks: string | null;
+  ckr: string | null;
+  ns: number;
+  nr: number;
+  pn: number;
+  skipped: Record<string, string>; // `${dh}:${n}` -> message key
+}
+
+async function hkdf(ikm: Uint8Array, salt: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm as BufferSource, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: salt as BufferSource, info: info as BufferSource },
+    key,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+async function hmac(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    key as BufferSource,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, data as BufferSource));
+}
+
+function dh(secretKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+  return nacl.scalarMult(secretKey, publicKey);
+}
+
+async function kdfRoot(rk: Uint8Array, dhOut: Uint8Array): Promise<[Uint8Array, Uint8Array]> {
+  const out = await hkdf(dhOut, rk, ROOT_INFO, 64);
+  return [out.slice(0, 32), out.slice(32)];
+}
+
+async function kdfChain(ck: Uint8Array): Promise<[Uint8Array, Uint8Array]> {
+  const messageKey = await hmac(ck, new Uint8Array([0x01]));
+  const nextChainKey = await hmac(ck, new Uint8Array([0x02]));
+  return [nextChainKey, messageKey];
+}
+
+function encodeHeader(header: RatchetHeader): Uint8Array {
+  return new TextEncoder().encode(`${header.dh}|${header.pn}|${header.n}`);
+}
+
+async function sealWithMessageKey(
+  messageKey: Uint8Array,
+  plaintext: Uint8Array,
+  associatedData: Uint8Array
+): Promise<string> {
+  // Message keys are single-use, so a deterministic IV derived with the key is safe
+  const material = await hkdf(messageKey, new Uint8Array(32), MESSAGE_INFO, 44);
+  const key = await crypto.subtle.importKey('raw', material.slice(0, 32) as BufferSource, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: material.slice(32) as BufferSource, additionalData: associatedData as BufferSource },
+    key,
+    plaintext as BufferSource
+  );
+  return bytesToBase64(new Uint8Array(ciphertext));
+}
+
+async function openWithMessageKey(
+  messageKey: Uint8Array,
+  ciphertext: string,
+  associatedData: Uint8Array
+): Promise<Uint8Array> {
+  const material = await hkdf(messageKey, new Uint8Array(32), MESSAGE_INFO, 44);
+  const key = await crypto.subtle.importKey('raw', material.slice(0, 32) as BufferSource, 'AES-GCM', false, ['decrypt']);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: material.slice(32) as BufferSource, additionalData: associatedData as BufferSource },
+    key,
+    base64ToBytes(ciphertext) as BufferSource
+  );
+  return new Uint8Array(plaintext);
+}
+
+/**
+ * X3DH-style shared secret: DH(IK_a, IK_b) || DH(EK_a, IK_b)
+ */
+export async function deriveHandshakeSecret(
+  dh1: Uint8Array,
+  dh2: Uint8Array
+): Promise<Uint8Array> {
+  return hkdf(concatBytes(dh1, dh2), new Uint8Array(32), HANDSHAKE_INFO, 32);
+}
+
+export function initiatorHandshake(
+  identitySecret: Uint8Array,
+  peerIdentityPublic: Uint8Array,
+  ephemeralSecret: Uint8Array
+): Promise<Uint8Array> {
+  return deriveHandshakeSecret(
+    dh(identitySecret, peerIdentityPublic),
+    dh(ephemeralSecret, peerIdentityPublic)
+  );
+}
+
+export function responderHandshake(
+  identitySecret: Uint8Array,
+  peerIdentityPublic: Uint8Array,
+  peerEphemeralPublic: Uint8Array
+): Promise<Uint8Array> {
+  return deriveHandshakeSecret(
+    dh(identitySecret, peerIdentityPublic),
+    dh(identitySecret, peerEphemeralPublic)
+  );
+}
+
+/**
+ * Initiator side: the responder's identity key is its first ratchet key
+ */
+export async function initRatchetAsInitiator(
+  sharedSecret: Uint8Array,
+  peerRatchetPublic: Uint8Array
+): Promise<RatchetState> {
+  const dhs = nacl.box.keyPair();
+  const [rk, cks] = await kdfRoot(sharedSecret, dh(dhs.secretKey, peerRatchetPublic));
+  return {
+    dhsPublic: bytesToBase64(dhs.publicKey),
+    dhsSecret: bytesToBase64(dhs.secretKey),
+    dhr: bytesToBase64(peerRatchetPublic),
+    rk: bytesToBase64(rk),
+    cks: bytesToBase64(cks),
+    ckr: null,
+    ns: 0,
+    nr: 0,
+    pn: 0,
+    skipped: {},
+  };
+}
+
+export function initRatchetAsResponder(
+  sharedSecret: Uint8Array,
+  ownRatchetKeyPair: { publicKey: Uint8Array; secretKey: Uint8Array }
+): RatchetState {
+  return {
+    dhsPublic: bytesToBase64(ownRatchetKeyPair.publicKey),
+    dhsSecret: bytesToBase64(ownRatchetKeyPair.secretKey),
+    dhr: null,
+    rk: bytesToBase64(sharedSecret),
+    cks: null,
+    ckr: null,
+    ns: 0,
+    nr: 0,
+    pn: 0,
+    skipped: {},
+  };
+}
+
+/**
+ * Encrypt the next message. Returns the updated state; the caller must
+ * persist it before sending so a message key is never reused.
+ */
+export async function ratchetEncrypt(
+  state: RatchetState,
+  plaintext: string,
+  associatedData: Uint8Array
+): Promise<{ state: RatchetState; header: RatchetHeader; ciphertext: string }> {
+  if (!state.cks) {
+    throw new Error('Sending chain not initialised - wait for a reply from your peer');
+  }
+
+  const [cks, messageKey] = await kdfChain(base64ToBytes(state.cks));
+  const header: RatchetHeader = { dh: state.dhsPublic, pn: state.pn, n: state.ns };
+  const ciphertext = await sealWithMessageKey(
+    messageKey,
+    new TextEncoder().encode(plaintext),
+    concatBytes(associatedData, encodeHeader(header))
+  );
+
+  return {
+    state: { ...state, cks: bytesToBase64(cks), ns: state.ns + 1 },
+    header,
+    ciphertext,
+  };
+}
+
+async function skipMessageKeys(state: RatchetState, until: number): Promise<RatchetState> {
+  if (state.nr + MAX_SKIP < until) {
+    throw new Error('Too many skipped messages');
+  }
+  if (!state.ckr) return state;
+
+  let ckr = base64ToBytes(state.ckr);
+  const skipped = { ...state.skipped };
+  let nr = state.nr;
+  while (nr < until) {
+    const [nextChainKey, messageKey] = await kdfChain(ckr);
+    skipped[`${state.dhr}:${nr}`] = bytesToBase64(messageKey);
+    ckr = nextChainKey;
+    nr += 1;
+  }
+  return { ...state, ckr: bytesToBase64(ckr), nr, skipped };
+}
+
+async function dhRatchet(state: RatchetState, header: RatchetHeader): Promise<RatchetState> {
+  const dhr = base64ToBytes(header.dh);
+  const [rk1, ckr] = await kdfRoot(base64ToBytes(state.rk), dh(base64ToBytes(state.dhsSecret), dhr));
+  const dhs = nacl.box.keyPair();
+  const [rk2, cks] = await kdfRoot(rk1, dh(dhs.secretKey, dhr));
+
+  return {
+    ...state,
+    pn: state.ns,
+    ns: 0,
+    nr: 0,
+    dhr: header.dh,
+    dhsPublic: bytesToBase64(dhs.publicKey),
+    dhsSecret: bytesToBase64(dhs.secretKey),
+    rk: bytesToBase64(rk2),
+    ckr: bytesToBase64(ckr),
+    cks: bytesToBase64(cks),
+  };
+}
+
+/**
+ * Decrypt a received message, ratcheting forward as needed. Throws if the
+ * message can't be authenticated; the input state is left untouched then.
+ */
+export async function ratchetDecrypt(
+  state: RatchetState,
+  header: RatchetHeader,
+  ciphertext: string,
+  associatedData: Uint8Array
+): Promise<{ state: RatchetState; plaintext: string }> {
+  const ad = concatBytes(associatedData, encodeHeader(header));
+
+  // Out-of-order message whose key was stored when it was skipped
+  const skippedId = `${header.dh}:${header.n}`;
+  const skippedKey = state.skipped[skippedId];
+  if (skippedKey) {
+    const plaintext = await openWithMessageKey(base64ToBytes(skippedKey), ciphertext, ad);
+    const skipped = { ...state.skipped };
+    delete skipped[skippedId];
+    return { state: { ...state, skipped }, plaintext: new TextDecoder().decode(plaintext) };
+  }
+
+  let next = state;
+  if (header.dh !== state.dhr) {
+    next = await skipMessageKeys(next, header.pn);
+    next = await dhRatchet(next, header);
+  }
+  next = await skipMessageKeys(next, header.n);
+
+  const [ckr, messageKey] = await kdfChain(base64ToBytes(next.ckr!));
+  const plaintext = await openWithMessageKey(messageKey, ciphertext, ad);
+
+  return {
+    state: { ...next, ckr: bytesToBase64(ckr), nr: next.nr + 1 },
+    plaintext: new TextDecoder().decode(plaintext),
+  };
+}
@@ -1,22 +1,92 @@
 // WebCrypto API utilities for message encryption/decryption
+import { base64ToBytes, bytesToBase64, bytesToHex, sha256 } from './encoding';
+import {
+  DEFAULT_ROOM_ID,
+  MemberKeyRecord,
+  generateRawKey,
+  getActiveIdentity,
+  getCurrentRoomKey,
+  getKeyByEpoch,
+  getKeyById,
+  importAesKey,
+  unwrapKey,
+  wrapKey,
+} from './keyring';
+import { AttachmentRef, isAttachmentRef } from './attachments';
 
 const ALGORITHM = 'AES-GCM';
 const KEY_LENGTH = 256;
 const IV_LENGTH = 12;
 
-// For demo purposes, we'll use a derived key from a shared passphrase
-// In production, consider using asymmetric encryption or proper key exchange
-const SHARED_PASSPHRASE = 'snark-zk-chat-demo-key-2025';
+const ENVELOPE_VERSION = 2;
+const ENVELOPE_ALG = 'A256GCM';
+const PADDING_SCHEME = 'bucket-iso7816';
+// Plaintext is JSON { text, attachments } instead of bare text
+const RICH_BODY = 'rich-v1';
 
-let cachedKey: CryptoKey | null = null;
+// Plaintexts are padded up to the next bucket so ciphertext length only
+// reveals which bucket a message falls in. Above the largest power-of-two
+// bucket, lengths are rounded up to a multiple of it.
+const MIN_BUCKET = 64;
+const MAX_BUCKET = 4096;
 
-async function getEncryptionKey(): Promise<CryptoKey> {
-  if (cachedKey) return cachedKey;
+// Messages written before per-room keys were introduced used a key derived
+// from this constant. It is kept only so that history stays readable; new
+// messages are never encrypted with it.
+const LEGACY_PASSPHRASE = 'snark-zk-chat-demo-key-2025';
+const LEGACY_KEY_ID = 'legacy';
+
+type EnvelopeAlg = typeof ENVELOPE_ALG;
+type PaddingScheme = typeof PADDING_SCHEME | 'none';
+
+/**
+ * Self-describing ciphertext envelope stored in messages.encrypted_content.
+ * `alg` and `pad` say how `data` was produced, so either can change later
+ * without guessing from the ciphertext. Envelopes migrated from older
+ * formats carry `pad: 'none'`.
+ */
+interface EnvelopeHeader {
+  v: typeof ENVELOPE_VERSION;
+  alg: EnvelopeAlg;
+  pad: PaddingScheme;
+  body?: typeof RICH_BODY;
+  attachments?: string[]; // content hashes, checked by send-message
+  data: string; // base64(IV || ciphertext)
+}
+
+/**
+ * `kid` identifies the room key in the local keyring and `epoch` records
+ * which key epoch of the room encrypted the message
+ */
+interface RoomEnvelope extends EnvelopeHeader {
+  kid: string;
+  epoch?: number;
+}
+
+/**
+ * Envelope for private groups: a fresh content key per message, wrapped
+ * separately to each recipient's X25519 key (wallet -> wrapped key)
+ */
+interface RecipientEnvelope extends EnvelopeHeader {
+  recipients: Record<string, string>;
+}
+
+type MessageEnvelope = RoomEnvelope | RecipientEnvelope;
+
+export interface MessagePayload {
+  text: string;
+  attachments: AttachmentRef[];
+}
+
+let legacyKey: CryptoKey | null = null;
+
+async function getLegacyKey(): Promise<CryptoKey> {
+  if (legacyKey) return legacyKey;
 
   const encoder = new TextEncoder();
-  const password = encoder.encode(SHARED_PASSPHRASE);
+  const password = encoder.encode(LEGACY_PASSPHRASE);
   const salt = encoder.encode('snark-salt');
-  
+
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
     password.buffer as ArrayBuffer,
@@ -25,7 +95,7 @@ async function getEncryptionKey(): Promise<CryptoKey> {
     ['deriveBits', 'deriveKey']
   );
 
-  cachedKey = await crypto.subtle.deriveKey(
+  legacyKey = await crypto.subtle.deriveKey(
     {
       name: 'PBKDF2',
       salt: salt.buffer as ArrayBuffer,
@@ -34,17 +104,89 @@ async function getEncryptionKey(): Promise<CryptoKey> {
     },
     keyMaterial,
     { name: ALGORITHM, length: KEY_LENGTH },
-    true,
-    ['encrypt', 'decrypt']
+    false,
+    ['decrypt']
+  );
+
+  return legacyKey;
+}
+
+function paddedLength(length: number): number {
+  if (length > MAX_BUCKET) return Math.ceil(length / MAX_BUCKET) * MAX_BUCKET;
+  let bucket = MIN_BUCKET;
+  while (bucket < length) bucket *= 2;
+  return bucket;
+}
+
+// ISO/IEC 7816-4: a 0x80 marker followed by zeros, so any plaintext round-trips
+function padPlaintext(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(paddedLength(data.length + 1));
+  padded.set(data, 0);
+  padded[data.length] = 0x80;
+  return padded;
+}
+
+function unpadPlaintext(padded: Uint8Array): Uint8Array {
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end--;
+  if (end < 0 || padded[end] !== 0x80) {
+    throw new Error('Invalid message padding');
+  }
+  return padded.slice(0, end);
+}
+
+/**
+ * Read any stored format as a current envelope. Pre-envelope rows and v1
+ * envelopes (left over if the migration hasn't run) were never padded.
+ */
+function parseEnvelope(encryptedData: string): MessageEnvelope | null {
+  if (!encryptedData.startsWith('{')) {
+    // Pre-envelope message: base64(IV || ciphertext) under the legacy key
+    return { v: ENVELOPE_VERSION, alg: ENVELOPE_ALG, pad: 'none', kid: LEGACY_KEY_ID, data: encryptedData };
+  }
+
+  try {
+    const envelope = JSON.parse(encryptedData);
+    if (typeof envelope?.data !== 'string') return null;
+    if (typeof envelope.kid !== 'string' && typeof envelope.recipients !== 'object') return null;
+
+    if (envelope.v === 1) {
+      return { ...envelope, v: ENVELOPE_VERSION, alg: ENVELOPE_ALG, pad: 'none' };
+    }
+
+    const supported =
+      envelope.v === ENVELOPE_VERSION &&
+      envelope.alg === ENVELOPE_ALG &&
+      (envelope.pad === PADDING_SCHEME || envelope.pad === 'none');
+    return supported ? envelope : null;
+  } catch {
+    return null;
+  }
+}
+
+async function decryptWithKey(key: CryptoKey, data: string, pad: PaddingScheme): Promise<string> {
+  // Convert from base64
+  const combined = base64ToBytes(data);
+
+  // Extract IV and encrypted data
+  const iv = combined.slice(0, IV_LENGTH);
+  const ciphertext = combined.slice(IV_LENGTH);
+
+  const decrypted = new Uint8Array(
+    await crypto.subtle.decrypt(
+      { name: ALGORITHM, iv: iv as BufferSource },
+      key,
+      ciphertext as BufferSource
+    )
   );
 
-  return cachedKey;
+  const decoder = new TextDecoder();
+  return decoder.decode(pad === 'none' ? decrypted : unpadPlaintext(decrypted));
 }
 
-export async function encryptMessage(message: string): Promise<string> {
-  const key = await getEncryptionKey();
+async function encryptWithKey(key: CryptoKey, message: string): Promise<string> {
   const encoder = new TextEncoder();
-  const data = encoder.encode(message);
+  const data = padPlaintext(encoder.encode(message));
 
   // Generate random IV
   const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
@@ -60,36 +202,173 @@ export async function encryptMessage(message: string): Promise<string> {
   combined.set(iv, 0);
   combined.set(new Uint8Array(encrypted), iv.length);
 
-  // Convert to base64
-  return btoa(String.fromCharCode(...Array.from(combined)));
+  return bytesToBase64(combined);
 }
 
-export async function decryptMessage(encryptedData: string): Promise<string> {
-  try {
-    const key = await getEncryptionKey();
+/**
+ * Encrypt for a room. With `recipients` (private groups) the message gets its
+ * own content key wrapped to exactly those members instead of the room key.
+ * Attachment references (including their file keys) go inside the ciphertext;
+ * only their content hashes are visible in the envelope.
+ */
+export async function encryptMessage(
+  text: string,
+  roomId: string = DEFAULT_ROOM_ID,
+  recipients?: MemberKeyRecord[],
+  attachments: AttachmentRef[] = []
+): Promise<string> {
+  const rich = attachments.length > 0;
+  const message = rich ? JSON.stringify({ text, attachments }) : text;
+  const body: Pick<EnvelopeHeader, 'body' | 'attachments'> = rich
+    ? { body: RICH_BODY, attachments: attachments.map(attachment => attachment.hash) }
+    : {};
 
-    // Convert from base64
-    const combined = Uint8Array.from(atob(encryptedData), c => c.charCodeAt(0));
+  if (recipients) {
+    if (recipients.length === 0) {
+      throw new Error('No recipients to encrypt to');
+    }
 
-    // Extract IV and encrypted data
-    const iv = combined.slice(0, IV_LENGTH);
-    const data = combined.slice(IV_LENGTH);
+    const contentKey = generateRawKey();
+    const wrapped: Record<string, string> = {};
+    for (const recipient of recipients) {
+      wrapped[recipient.wallet_address] = wrapKey(contentKey, base64ToBytes(recipient.x25519_public_key));
+    }
 
-    const decrypted = await crypto.subtle.decrypt(
-      { name: ALGORITHM, iv: iv as BufferSource },
-      key,
-      data as BufferSource
-    );
+    const envelope: RecipientEnvelope = {
+      v: ENVELOPE_VERSION,
+      alg: ENVELOPE_ALG,
+      pad: PADDING_SCHEME,
+      ...body,
+      recipients: wrapped,
+      data: await encryptWithKey(await importAesKey(contentKey), message),
+    };
+    contentKey.fill(0);
+
+    return JSON.stringify(envelope);
+  }
+
+  const roomKey = getCurrentRoomKey(roomId);
+  if (!roomKey) {
+    throw new Error('Room key not available - unlock your chat keys first');
+  }
+
+  const envelope: RoomEnvelope = {
+    v: ENVELOPE_VERSION,
+    alg: ENVELOPE_ALG,
+    pad: PADDING_SCHEME,
+    ...body,
+    kid: roomKey.keyId,
+    epoch: roomKey.epoch,
+    data: await encryptWithKey(roomKey.key, message),
+  };
+
+  return JSON.stringify(envelope);
+}
+
+async function decryptForRecipient(envelope: RecipientEnvelope): Promise<string> {
+  const identity = getActiveIdentity();
+  if (!identity) {
+    return '[Encrypted - unlock your keys to read]';
+  }
+
+  const wrapped = envelope.recipients[identity.walletAddress];
+  if (!wrapped) {
+    return '[Encrypted - not addressed to you]';
+  }
+
+  const contentKey = unwrapKey(wrapped, identity);
+  if (!contentKey) {
+    return '[Encrypted - key not available]';
+  }
+
+  return decryptWithKey(await importAesKey(contentKey), envelope.data, envelope.pad);
+}
+
+async function decryptEnvelope(envelope: MessageEnvelope, roomId: string): Promise<string> {
+  if ('recipients' in envelope) {
+    return decryptForRecipient(envelope);
+  }
 
-    const decoder = new TextDecoder();
-    return decoder.decode(decrypted);
+  if (envelope.kid === LEGACY_KEY_ID) {
+    return decryptWithKey(await getLegacyKey(), envelope.data, envelope.pad);
+  }
+
+  // Resolve the key that encrypted this message: by key id, else by the room's epoch
+  const key =
+    getKeyById(envelope.kid) ??
+    (envelope.epoch !== undefined ? getKeyByEpoch(roomId, envelope.epoch) : null);
+  if (!key) {
+    return envelope.epoch !== undefined
+      ? `[Encrypted - epoch ${envelope.epoch} key not available]`
+      : '[Encrypted - key not available]';
+  }
+
+  return decryptWithKey(key, envelope.data, envelope.pad);
+}
+
+// Placeholder texts from decryptEnvelope are never JSON, so they pass through as text
+function parsePayload(envelope: MessageEnvelope, plaintext: string): MessagePayload {
+  if (envelope.body !== RICH_BODY || !plaintext.startsWith('{')) {
+    return { text: plaintext, attachments: [] };
+  }
+
+  const parsed = JSON.parse(plaintext);
+  const attachments: unknown[] = Array.isArray(parsed?.attachments) ? parsed.attachments : [];
+  return {
+    text: typeof parsed?.text === 'string' ? parsed.text : '',
+    // Only attachments the server checked as finished uploads
+    attachments: attachments.filter(
+      (ref): ref is AttachmentRef => isAttachmentRef(ref) && !!envelope.attachments?.includes(ref.hash)
+    ),
+  };
+}
+
+/**
+ * Whether a stored message is under the legacy shared key. Its passphrase
+ * ships with the app, so anyone can read such a message.
+ */
+export function isLegacyEncrypted(encryptedData: string): boolean {
+  const envelope = parseEnvelope(encryptedData);
+  return !!envelope && 'kid' in envelope && envelope.kid === LEGACY_KEY_ID;
+}
+
+export async function decryptMessagePayload(
+  encryptedData: string,
+  roomId: string = DEFAULT_ROOM_ID
+): Promise<MessagePayload> {
+  try {
+    const envelope = parseEnvelope(encryptedData);
+
+    if (!envelope) {
+      return { text: '[Encrypted - unsupported envelope format]', attachments: [] };
+    }
+
+    return parsePayload(envelope, await decryptEnvelope(envelope, roomId));
   } catch (error) {
     console.error('Decryption failed:', error);
-    return '[Decryption failed]';
+    return { text: '[Decryption failed]', attachments: [] };
   }
 }
 
-export function generateMessageHash(message: string): string {
-  // Simple hash for demo - in production use proper cryptographic hash
-  return btoa(message).substring(0, 32);
+export async function decryptMessage(
+  encryptedData: string,
+  roomId: string = DEFAULT_ROOM_ID
+): Promise<string> {
+  return (await decryptMessagePayload(encryptedData, roomId)).text;
+}
+
+/**
+ * Salted SHA-256 commitment to a stored message, as computed by send-message
+ * (supabase/functions/_shared/commitment.ts). It covers the ciphertext and
+ * message id only, so publishing it on-chain reveals nothing about the plaintext.
+ */
+export async function generateMessageCommitment(
+  encryptedContent: string,
+  messageId: string,
+  salt: string
+): Promise<string> {
+  const digest = await sha256(
+    new TextEncoder().encode(`SNARK-commitment:v1:${salt}:${messageId}:${encryptedContent}`)
+  );
+  return bytesToHex(digest);
 }
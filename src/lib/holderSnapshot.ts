@@ -0,0 +1,194 @@
+import { supabase } from '@/integrations/supabase/client';
+import { bytesToHex } from './encoding';
+import { ProofOptions, merklePathInWorker } from './prover';
+
+/**
+ * Holder snapshots: every holder of the gated mint as a leaf of a Poseidon
+ * Merkle tree, published by the holder-snapshot function. The whole leaf
+ * list is public, so a member finds their own leaf and builds its path
+ * locally; the server only ever sees the root in their proof.
+ *
+ * leaf = Poseidon(walletHash, balance, identityCommitment), node = Poseidon(left, right)
+ *
+ * Balances are in the mint's base units. Multi-mint rules get one tree over
+ * all their mints, whose leaves hold Poseidon(balances) in the balance slot
+ * (circuits/multiMintInclusion.circom). Must match supabase/functions/_shared/holderSnapshot.ts and
+ * circuits/holderInclusion.circom.
+ */
+
+const HOLDER_SNAPSHOT_BUCKET = 'holder-snapshots';
+
+export interface HolderLeaf {
+  walletAddress: string;
+  walletHash: string;
+  balance: string; // base units, or Poseidon(balances) in multi-mint snapshots
+  balances?: string[]; // multi-mint snapshots, in rule order
+  identityCommitment: string; // '0' if the wallet has no anonymous identity
+}
+
+export interface HolderSnapshotDump {
+  version: 2;
+  tokenMintAddress: string;
+  decimals: number;
+  mints?: string[]; // multi-mint snapshots, in rule order
+  merkleRoot: string;
+  treeDepth: number;
+  createdAt: string;
+  leaves: HolderLeaf[];
+}
+
+export interface HolderSnapshot {
+  id: string;
+  token_mint_address: string;
+  mint_set: string; // see ruleMintSet
+  merkle_root: string;
+  tree_depth: number;
+  leaf_count: number;
+  dump_path: string;
+  created_at: string;
+}
+
+// Everything the holderInclusion circuit needs besides threshold and nonce
+export interface HolderMerkleProof {
+  snapshotId: string;
+  root: string;
+  balance: string;
+  balances: string[] | null; // multi-mint snapshots
+  walletHash: string;
+  identityCommitment: string;
+  pathElements: string[];
+  pathIndices: number[];
+}
+
+// Dumps never change once published
+const dumpCache = new Map<string, HolderSnapshotDump>();
+
+/**
+ * The latest snapshot taken for a rule's mints; `mintSet` is ruleMintSet
+ * of the token requirement
+ */
+export async function getLatestHolderSnapshot(mintSet: string): Promise<HolderSnapshot | null> {
+  const { data, error } = await supabase
+    .from('holder_snapshots')
+    .select('*')
+    .eq('mint_set', mintSet)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching holder snapshot:', error);
+    throw new Error('Failed to fetch the holder snapshot');
+  }
+
+  return data;
+}
+
+async function loadSnapshotDump(snapshot: HolderSnapshot): Promise<HolderSnapshotDump> {
+  const cached = dumpCache.get(snapshot.id);
+  if (cached) return cached;
+
+  const { data, error } = await supabase.storage
+    .from(HOLDER_SNAPSHOT_BUCKET)
+    .download(snapshot.dump_path);
+
+  if (error || !data) {
+    console.error('Error downloading holder snapshot:', error);
+    throw new Error('Failed to download the holder snapshot');
+  }
+
+  const dump = JSON.parse(await data.text()) as HolderSnapshotDump;
+  // Version 1 dumps hold whole-token balances, which no longer compare with base-unit thresholds
+  if (dump.version !== 2) {
+    throw new Error('The holder snapshot is outdated - ask an admin to build a new one');
+  }
+  dumpCache.set(snapshot.id, dump);
+  return dump;
+}
+
+/**
+ * This wallet's leaf in the latest snapshot of the mints, if it has one
+ */
+export async function findHolderLeaf(
+  walletAddress: string,
+  mintSet: string
+): Promise<HolderLeaf | null> {
+  const snapshot = await getLatestHolderSnapshot(mintSet);
+  if (!snapshot) return null;
+
+  const dump = await loadSnapshotDump(snapshot);
+  return dump.leaves.find(leaf => leaf.walletAddress === walletAddress) ?? null;
+}
+
+/**
+ * Rebuild the snapshot tree from its public dump and return the path of
+ * this wallet's leaf. The rebuilt root must match the published one, so a
+ * tampered dump can't produce a proof send-message would accept. Hashing
+ * the tree runs in the prover worker.
+ */
+export async function getHolderMerkleProof(
+  walletAddress: string,
+  walletHash: string,
+  mintSet: string,
+  options?: ProofOptions
+): Promise<HolderMerkleProof> {
+  const snapshot = await getLatestHolderSnapshot(mintSet);
+  if (!snapshot) {
+    throw new Error('No holder snapshot has been published yet');
+  }
+
+  const dump = await loadSnapshotDump(snapshot);
+  const leafIndex = dump.leaves.findIndex(leaf => leaf.walletAddress === walletAddress);
+  if (leafIndex === -1) {
+    throw new Error('This wallet is not in the latest holder snapshot');
+  }
+
+  const leaf = dump.leaves[leafIndex];
+  if (leaf.walletHash !== walletHash) {
+    throw new Error('Holder snapshot has a wrong hash for this wallet');
+  }
+
+  const { root, pathElements, pathIndices } = await merklePathInWorker(
+    dump.leaves.map(l => [l.walletHash, l.balance, l.identityCommitment]),
+    leafIndex,
+    snapshot.tree_depth,
+    options
+  );
+  if (root !== snapshot.merkle_root) {
+    throw new Error('Holder snapshot does not match its published root');
+  }
+
+  return {
+    snapshotId: snapshot.id,
+    root,
+    balance: leaf.balance,
+    balances: leaf.balances ?? null,
+    walletHash,
+    identityCommitment: leaf.identityCommitment,
+    pathElements,
+    pathIndices,
+  };
+}
+
+/**
+ * Ask the holder-snapshot function for a new snapshot of the gated mint
+ */
+export async function buildHolderSnapshotAsAdmin(
+  walletAddress: string,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<{ snapshotId: string; merkleRoot: string; leafCount: number }> {
+  const timestamp = Date.now();
+  const signature = await signMessage(`SNARK:holder-snapshot:${timestamp}`);
+
+  const { data, error } = await supabase.functions.invoke('holder-snapshot', {
+    body: { walletAddress, timestamp, signature: bytesToHex(signature) },
+  });
+
+  if (error || !data?.success) {
+    console.error('Holder snapshot failed:', error);
+    const details = await error?.context?.json?.().catch(() => null);
+    throw new Error(details?.error ?? 'Failed to build the holder snapshot');
+  }
+
+  return data;
+}
@@ -0,0 +1,55 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Holder tiers (bronze, silver, gold...). Senders prove which tier their
+ * snapshot balance is in with circuits/holderTier.circom, without revealing
+ * the balance; send-message checks the tier boundaries against the ones
+ * configured here and records the tier's name on the message. Mirrors
+ * supabase/functions/_shared/holderTiers.ts.
+ */
+
+// Tiers the circuit supports
+export const HOLDER_TIER_SLOTS = 3;
+
+export interface HolderTier {
+  position: number;
+  name: string;
+  min_base_units: string;
+}
+
+/**
+ * Configured tiers, lowest first. Returns [] if they can't be loaded or
+ * aren't ascending, so messages are still proven, just without a badge.
+ */
+export async function getHolderTiers(): Promise<HolderTier[]> {
+  const { data, error } = await supabase
+    .from('holder_tiers')
+    .select('position, name, min_base_units')
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching holder tiers:', error);
+    return [];
+  }
+
+  const tiers = data ?? [];
+  for (let i = 1; i < tiers.length; i++) {
+    if (BigInt(tiers[i].min_base_units) <= BigInt(tiers[i - 1].min_base_units)) {
+      console.warn('Holder tiers are not in ascending order - ignoring them');
+      return [];
+    }
+  }
+
+  return tiers;
+}
+
+// The tier `balance` (base units) is in: 0 below the lowest, otherwise its position
+export function holderTierOf(tiers: HolderTier[], balance: bigint): number {
+  return tiers.filter(tier => balance >= BigInt(tier.min_base_units)).length;
+}
+
+// tierBounds circuit input, unused slots 0
+export function tierBoundInputs(tiers: HolderTier[]): string[] {
+  const bounds = tiers.map(tier => tier.min_base_units);
+  return [...bounds, ...Array(HOLDER_TIER_SLOTS - bounds.length).fill('0')];
+}
@@ -0,0 +1,226 @@
+import nacl from 'tweetnacl';
+import { PublicKey } from '@solana/web3.js';
+import { base64ToBytes, bytesToBase64, bytesToHex, concatBytes, hexToBytes, sha256 } from './encoding';
+import { isKeystoreUnlocked, listRecords, putRecord } from './keystore';
+
+/**
+ * Client-side key material for room encryption.
+ *
+ * Phantom never exposes the wallet's ed25519 secret, so each member's X25519
+ * identity is derived from the wallet's (deterministic) signature over a fixed
+ * message. The resulting public key is published together with a second wallet
+ * signature that binds it to the wallet address, and other members check that
+ * binding before wrapping a room key to it.
+ */
+
+export const DEFAULT_ROOM_ID = 'lobby';
+
+const IDENTITY_DERIVATION_MESSAGE =
+  'SNARK:identity:v1\nSign to unlock your encrypted chat keys.\nThis does not authorize any transaction.';
+
+export interface MemberIdentity {
+  walletAddress: string;
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}
+
+export interface MemberKeyRecord {
+  wallet_address: string;
+  x25519_public_key: string;
+  signature: string;
+}
+
+export function memberKeyBindingMessage(walletAddress: string, x25519PublicKey: string): string {
+  return `SNARK:x25519:${walletAddress}:${x25519PublicKey}`;
+}
+
+/**
+ * Derive the member's X25519 identity from a wallet signature.
+ * Ed25519 signatures are deterministic, so the same wallet always
+ * re-derives the same keypair on any device.
+ */
+export async function deriveMemberIdentity(
+  walletAddress: string,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<MemberIdentity> {
+  const signature = await signMessage(IDENTITY_DERIVATION_MESSAGE);
+  const seed = await sha256(concatBytes(new TextEncoder().encode('snark-x25519'), signature));
+  const keyPair = nacl.box.keyPair.fromSecretKey(seed);
+
+  return {
+    walletAddress,
+    publicKey: keyPair.publicKey,
+    secretKey: keyPair.secretKey,
+  };
+}
+
+/**
+ * Check that a published X25519 key was signed by the wallet it claims to belong to
+ */
+export function verifyMemberKey(record: MemberKeyRecord): boolean {
+  try {
+    const message = new TextEncoder().encode(
+      memberKeyBindingMessage(record.wallet_address, record.x25519_public_key)
+    );
+    return nacl.sign.detached.verify(
+      message,
+      hexToBytes(record.signature),
+      new PublicKey(record.wallet_address).toBytes()
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wrap a raw key to a recipient's X25519 public key.
+ * Output: base64(ephemeralPublicKey || nonce || box)
+ */
+export function wrapKey(rawKey: Uint8Array, recipientPublicKey: Uint8Array): string {
+  const ephemeral = nacl.box.keyPair();
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const boxed = nacl.box(rawKey, nonce, recipientPublicKey, ephemeral.secretKey);
+  return bytesToBase64(concatBytes(ephemeral.publicKey, nonce, boxed));
+}
+
+export function unwrapKey(wrapped: string, identity: MemberIdentity): Uint8Array | null {
+  const bytes = base64ToBytes(wrapped);
+  const ephemeralPublicKey = bytes.slice(0, nacl.box.publicKeyLength);
+  const nonce = bytes.slice(nacl.box.publicKeyLength, nacl.box.publicKeyLength + nacl.box.nonceLength);
+  const boxed = bytes.slice(nacl.box.publicKeyLength + nacl.box.nonceLength);
+  return nacl.box.open(boxed, nonce, ephemeralPublicKey, identity.secretKey);
+}
+
+export function generateRawKey(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(32));
+}
+
+/**
+ * Key ids are a truncated hash of the key, so they can be published
+ * in every envelope without revealing anything about the key itself
+ */
+export async function computeKeyId(rawKey: Uint8Array): Promise<string> {
+  const digest = await sha256(concatBytes(new TextEncoder().encode('snark-kid'), rawKey));
+  return bytesToHex(digest.slice(0, 16));
+}
+
+export async function importAesKey(rawKey: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    rawKey as BufferSource,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// In-memory keyring: key id -> AES key, plus the current key per room
+interface RoomKeyEntry {
+  roomId: string;
+  epoch: number;
+  key: CryptoKey;
+}
+
+// Room key as kept in the local keystore
+interface StoredRoomKey {
+  roomId: string;
+  epoch: number;
+  key: string; // base64 raw key
+}
+
+const roomKeys = new Map<string, RoomKeyEntry>();
+const currentRoomKeyIds = new Map<string, string>();
+const listeners = new Set<() => void>();
+// Unwraps per-message content keys in recipient-wrapped envelopes
+let activeIdentity: MemberIdentity | null = null;
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+export async function addRoomKey(
+  roomId: string,
+  keyId: string,
+  rawKey: Uint8Array,
+  epoch: number,
+  current = false
+): Promise<void> {
+  roomKeys.set(keyId, { roomId, epoch, key: await importAesKey(rawKey) });
+  if (current) {
+    currentRoomKeyIds.set(roomId, keyId);
+  }
+  if (isKeystoreUnlocked()) {
+    const stored: StoredRoomKey = { roomId, epoch, key: bytesToBase64(rawKey) };
+    await putRecord('room-key', keyId, stored);
+  }
+  notify();
+}
+
+/**
+ * Load room keys kept in the unlocked keystore. They only decrypt history:
+ * which key is current is still decided by the server on unlock.
+ */
+export async function restoreRoomKeys(): Promise<number> {
+  if (!isKeystoreUnlocked()) return 0;
+
+  const stored = await listRecords<StoredRoomKey>('room-key');
+  for (const { key: keyId, value } of stored) {
+    if (!roomKeys.has(keyId)) {
+      roomKeys.set(keyId, { roomId: value.roomId, epoch: value.epoch, key: await importAesKey(base64ToBytes(value.key)) });
+    }
+  }
+  if (stored.length > 0) notify();
+  return stored.length;
+}
+
+export function getKeyById(keyId: string): CryptoKey | null {
+  return roomKeys.get(keyId)?.key ?? null;
+}
+
+export function getKeyByEpoch(roomId: string, epoch: number): CryptoKey | null {
+  for (const entry of roomKeys.values()) {
+    if (entry.roomId === roomId && entry.epoch === epoch) return entry.key;
+  }
+  return null;
+}
+
+export function getCurrentRoomKey(
+  roomId: string
+): { keyId: string; epoch: number; key: CryptoKey } | null {
+  const keyId = currentRoomKeyIds.get(roomId);
+  if (!keyId) return null;
+  const entry = roomKeys.get(keyId);
+  return entry ? { keyId, epoch: entry.epoch, key: entry.key } : null;
+}
+
+/**
+ * Stop encrypting to the room's current epoch (it has been superseded or
+ * this wallet lost access). Older keys stay so history remains readable.
+ */
+export function dropCurrentRoomKey(roomId: string): void {
+  currentRoomKeyIds.delete(roomId);
+  notify();
+}
+
+export function setActiveIdentity(identity: MemberIdentity): void {
+  activeIdentity = identity;
+  notify();
+}
+
+export function getActiveIdentity(): MemberIdentity | null {
+  return activeIdentity;
+}
+
+export function clearKeyring(): void {
+  roomKeys.clear();
+  currentRoomKeyIds.clear();
+  activeIdentity = null;
+  notify();
+}
+
+export function subscribeKeyring(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,455 @@
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import type { MemberIdentity } from './keyring';
+import type { DmSession } from './directMessages';
+
+/**
+ * Encrypted local keystore in IndexedDB for room keys, DM ratchet state and
+ * plaintexts, and wallet sessions, so clearing the page doesn't lose access
+ * to your own history.
+ *
+ * Each wallet's records are encrypted under a random keystore key (AES-GCM,
+ * with the record id as associated data). That key is stored wrapped under a
+ * key derived from the member identity (itself derived from a wallet
+ * signature) and, optionally, under a passphrase-derived key, so the
+ * keystore can be opened either way. Backups are the decrypted records
+ * re-encrypted under a passphrase, importable on any device.
+ */
+
+const DB_NAME = 'snark-keystore';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const RECORD_STORE = 'records';
+
+const PBKDF2_ITERATIONS = 600_000;
+const BACKUP_FORMAT = 'snark-keystore-backup';
+const BACKUP_VERSION = 1;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const RECORD_KINDS = ['room-key', 'dm-session', 'dm-plaintext', 'wallet-session'] as const;
+export type KeystoreRecordKind = (typeof RECORD_KINDS)[number];
+
+interface WrappedKey {
+  iv: string;
+  data: string;
+}
+
+interface PassphraseWrappedKey extends WrappedKey {
+  salt: string;
+  iterations: number;
+}
+
+interface KeystoreMeta {
+  walletAddress: string;
+  wallet: WrappedKey;
+  passphrase?: PassphraseWrappedKey;
+  createdAt: number;
+}
+
+interface StoredRecord {
+  id: string;
+  walletAddress: string;
+  kind: KeystoreRecordKind;
+  key: string;
+  iv: string;
+  data: string;
+}
+
+interface BackupRecord {
+  kind: KeystoreRecordKind;
+  key: string;
+  value: unknown;
+}
+
+export interface KeystoreBackup {
+  format: typeof BACKUP_FORMAT;
+  v: number;
+  walletAddress: string;
+  createdAt: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  iv: string;
+  data: string;
+}
+
+export interface KeystoreStatus {
+  exists: boolean;
+  unlocked: boolean;
+  hasPassphrase: boolean;
+}
+
+interface UnlockedKeystore {
+  walletAddress: string;
+  rawKey: Uint8Array;
+  key: CryptoKey;
+}
+
+let unlocked: UnlockedKeystore | null = null;
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(META_STORE, { keyPath: 'walletAddress' });
+      const records = db.createObjectStore(RECORD_STORE, { keyPath: 'id' });
+      records.createIndex('wallet_kind', ['walletAddress', 'kind']);
+      records.createIndex('wallet', 'walletAddress');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+async function objectStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+async function importKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw as BufferSource, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+async function seal(key: CryptoKey, plaintext: Uint8Array, aad: string): Promise<WrappedKey> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as BufferSource, additionalData: new TextEncoder().encode(aad) as BufferSource },
+    key,
+    plaintext as BufferSource
+  );
+  return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) };
+}
+
+async function unseal(key: CryptoKey, sealed: WrappedKey, aad: string): Promise<Uint8Array> {
+  const data = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: base64ToBytes(sealed.iv) as BufferSource,
+      additionalData: new TextEncoder().encode(aad) as BufferSource,
+    },
+    key,
+    base64ToBytes(sealed.data) as BufferSource
+  );
+  return new Uint8Array(data);
+}
+
+async function walletWrappingKey(identity: MemberIdentity): Promise<CryptoKey> {
+  const ikm = await crypto.subtle.importKey('raw', identity.secretKey as BufferSource, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new TextEncoder().encode('snark-keystore') as BufferSource,
+      info: new TextEncoder().encode(`wallet:${identity.walletAddress}`) as BufferSource,
+    },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function passphraseKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase) as BufferSource,
+    { name: 'PBKDF2' },
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function getMeta(walletAddress: string): Promise<KeystoreMeta | null> {
+  const store = await objectStore(META_STORE, 'readonly');
+  return (await requestToPromise(store.get(walletAddress))) ?? null;
+}
+
+async function putMeta(meta: KeystoreMeta): Promise<void> {
+  const store = await objectStore(META_STORE, 'readwrite');
+  await requestToPromise(store.put(meta));
+}
+
+async function setUnlocked(walletAddress: string, rawKey: Uint8Array): Promise<void> {
+  unlocked = { walletAddress, rawKey, key: await importKey(rawKey) };
+  notify();
+}
+
+function requireUnlocked(): UnlockedKeystore {
+  if (!unlocked) {
+    throw new Error('Keystore is locked');
+  }
+  return unlocked;
+}
+
+function recordId(walletAddress: string, kind: KeystoreRecordKind, key: string): string {
+  return `${walletAddress}:${kind}:${key}`;
+}
+
+/**
+ * Open (or create) this wallet's keystore with the wallet-derived identity
+ */
+export async function unlockKeystore(identity: MemberIdentity): Promise<void> {
+  const wrappingKey = await walletWrappingKey(identity);
+  const meta = await getMeta(identity.walletAddress);
+
+  if (!meta) {
+    const rawKey = crypto.getRandomValues(new Uint8Array(32));
+    await putMeta({
+      walletAddress: identity.walletAddress,
+      wallet: await seal(wrappingKey, rawKey, identity.walletAddress),
+      createdAt: Date.now(),
+    });
+    await setUnlocked(identity.walletAddress, rawKey);
+    return;
+  }
+
+  try {
+    await setUnlocked(identity.walletAddress, await unseal(wrappingKey, meta.wallet, identity.walletAddress));
+  } catch {
+    throw new Error('Local keystore could not be opened with this wallet');
+  }
+}
+
+/**
+ * Open this wallet's keystore with its passphrase, without a wallet signature
+ */
+export async function unlockKeystoreWithPassphrase(walletAddress: string, passphrase: string): Promise<void> {
+  const meta = await getMeta(walletAddress);
+  if (!meta?.passphrase) {
+    throw new Error('No passphrase is set for this keystore');
+  }
+
+  const key = await passphraseKey(passphrase, base64ToBytes(meta.passphrase.salt), meta.passphrase.iterations);
+  try {
+    await setUnlocked(walletAddress, await unseal(key, meta.passphrase, walletAddress));
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+}
+
+/**
+ * Also wrap the keystore key under `passphrase` (replacing any previous one)
+ */
+export async function setKeystorePassphrase(passphrase: string): Promise<void> {
+  const { walletAddress, rawKey } = requireUnlocked();
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const meta = await getMeta(walletAddress);
+  if (!meta) {
+    throw new Error('Keystore not found');
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await passphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  await putMeta({
+    ...meta,
+    passphrase: {
+      ...(await seal(key, rawKey, walletAddress)),
+      salt: bytesToBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+    },
+  });
+  notify();
+}
+
+export function lockKeystore(): void {
+  if (!unlocked) return;
+  unlocked.rawKey.fill(0);
+  unlocked = null;
+  notify();
+}
+
+export function isKeystoreUnlocked(walletAddress?: string): boolean {
+  return !!unlocked && (walletAddress === undefined || unlocked.walletAddress === walletAddress);
+}
+
+export async function getKeystoreStatus(walletAddress: string): Promise<KeystoreStatus> {
+  const meta = await getMeta(walletAddress);
+  return {
+    exists: !!meta,
+    unlocked: isKeystoreUnlocked(walletAddress),
+    hasPassphrase: !!meta?.passphrase,
+  };
+}
+
+export async function putRecord(kind: KeystoreRecordKind, key: string, value: unknown): Promise<void> {
+  const keystore = requireUnlocked();
+  const id = recordId(keystore.walletAddress, kind, key);
+  const sealed = await seal(keystore.key, new TextEncoder().encode(JSON.stringify(value)), id);
+
+  const store = await objectStore(RECORD_STORE, 'readwrite');
+  const record: StoredRecord = { id, walletAddress: keystore.walletAddress, kind, key, ...sealed };
+  await requestToPromise(store.put(record));
+}
+
+async function decryptRecord<T>(keystore: UnlockedKeystore, record: StoredRecord): Promise<T | null> {
+  try {
+    const plaintext = await unseal(keystore.key, record, record.id);
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  } catch (error) {
+    console.error('Keystore record could not be decrypted:', record.id, error);
+    return null;
+  }
+}
+
+export async function getRecord<T>(kind: KeystoreRecordKind, key: string): Promise<T | null> {
+  const keystore = requireUnlocked();
+  const store = await objectStore(RECORD_STORE, 'readonly');
+  const record: StoredRecord | undefined = await requestToPromise(
+    store.get(recordId(keystore.walletAddress, kind, key))
+  );
+  return record ? decryptRecord<T>(keystore, record) : null;
+}
+
+export async function listRecords<T>(kind: KeystoreRecordKind): Promise<{ key: string; value: T }[]> {
+  const keystore = requireUnlocked();
+  const store = await objectStore(RECORD_STORE, 'readonly');
+  const records: StoredRecord[] = await requestToPromise(
+    store.index('wallet_kind').getAll([keystore.walletAddress, kind])
+  );
+
+  const results: { key: string; value: T }[] = [];
+  for (const record of records) {
+    const value = await decryptRecord<T>(keystore, record);
+    if (value !== null) results.push({ key: record.key, value });
+  }
+  return results;
+}
+
+export async function countRecords(): Promise<number> {
+  const keystore = requireUnlocked();
+  const store = await objectStore(RECORD_STORE, 'readonly');
+  return requestToPromise(store.index('wallet').count(keystore.walletAddress));
+}
+
+/**
+ * Every record of the unlocked wallet, encrypted under `passphrase`
+ */
+export async function exportKeystoreBackup(passphrase: string): Promise<Blob> {
+  const keystore = requireUnlocked();
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const store = await objectStore(RECORD_STORE, 'readonly');
+  const stored: StoredRecord[] = await requestToPromise(store.index('wallet').getAll(keystore.walletAddress));
+
+  const records: BackupRecord[] = [];
+  for (const record of stored) {
+    const value = await decryptRecord<unknown>(keystore, record);
+    if (value !== null) records.push({ kind: record.kind, key: record.key, value });
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await passphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const sealed = await seal(
+    key,
+    new TextEncoder().encode(JSON.stringify(records)),
+    `${BACKUP_FORMAT}:${keystore.walletAddress}`
+  );
+
+  const backup: KeystoreBackup = {
+    format: BACKUP_FORMAT,
+    v: BACKUP_VERSION,
+    walletAddress: keystore.walletAddress,
+    createdAt: Date.now(),
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: bytesToBase64(salt) },
+    ...sealed,
+  };
+
+  return new Blob([JSON.stringify(backup)], { type: 'application/json' });
+}
+
+/**
+ * A DM session from a backup may be behind this device's copy, or in use on
+ * the device the backup came from. Sending from it would reuse message keys
+ * (and with them AES-GCM key/IV pairs), so it is only kept to decrypt what
+ * the peer sent in it; the next message to the peer starts a new session.
+ */
+function receiveOnlySession(session: DmSession): DmSession {
+  return { ...session, receiveOnly: true, state: { ...session.state, cks: null } };
+}
+
+/**
+ * Merge a backup into the unlocked keystore. Returns the number of records
+ * imported; existing records with the same id are overwritten, except DM
+ * sessions, which are never replaced and are imported receive-only.
+ */
+export async function importKeystoreBackup(file: Blob, passphrase: string): Promise<number> {
+  const keystore = requireUnlocked();
+
+  let backup: KeystoreBackup;
+  try {
+    backup = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Not a keystore backup file');
+  }
+
+  if (backup?.format !== BACKUP_FORMAT || backup.v !== BACKUP_VERSION || backup.kdf?.name !== 'PBKDF2') {
+    throw new Error('Unsupported keystore backup format');
+  }
+  if (backup.walletAddress !== keystore.walletAddress) {
+    throw new Error('This backup belongs to a different wallet');
+  }
+
+  const key = await passphraseKey(passphrase, base64ToBytes(backup.kdf.salt), backup.kdf.iterations);
+  let records: BackupRecord[];
+  try {
+    const plaintext = await unseal(key, backup, `${BACKUP_FORMAT}:${backup.walletAddress}`);
+    records = JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new Error('Wrong passphrase or corrupted backup');
+  }
+
+  const valid = records.filter(
+    record => RECORD_KINDS.includes(record?.kind) && typeof record.key === 'string'
+  );
+  let imported = 0;
+  for (const record of valid) {
+    if (record.kind === 'dm-session') {
+      // Never roll back or fork live ratchet state
+      if (await getRecord('dm-session', record.key) !== null) continue;
+      await putRecord(record.kind, record.key, receiveOnlySession(record.value as DmSession));
+    } else {
+      await putRecord(record.kind, record.key, record.value);
+    }
+    imported++;
+  }
+
+  notify();
+  return imported;
+}
+
+export function subscribeKeystore(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
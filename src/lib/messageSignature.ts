@@ -0,0 +1,78 @@
+import nacl from 'tweetnacl';
+import { PublicKey } from '@solana/web3.js';
+import { bytesToHex, hexToBytes, sha256 } from './encoding';
+
+/**
+ * Author signatures bind a wallet to one exact message: its ciphertext, room,
+ * timestamp and ZK proof. send-message verifies them before storing, and the
+ * feed re-verifies every row so a tampering backend can't go unnoticed.
+ * Must match supabase/functions/_shared/messageSignature.ts.
+ */
+
+export type SignatureStatus = 'valid' | 'invalid' | 'unsigned';
+
+interface SignedFields {
+  walletAddress: string;
+  roomId: string;
+  timestamp: number;
+  encryptedContent: string;
+  proofData: unknown;
+}
+
+/**
+ * JSON with object keys sorted, so the proof hashes the same after
+ * a round trip through Postgres jsonb (which reorders keys)
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+async function hashHex(text: string): Promise<string> {
+  return bytesToHex(await sha256(new TextEncoder().encode(text)));
+}
+
+export async function messageSigningPayload(fields: SignedFields): Promise<string> {
+  const ciphertextHash = await hashHex(fields.encryptedContent);
+  const proofHash = await hashHex(canonicalJson(fields.proofData));
+  return `SNARK:msg:v1:${fields.walletAddress}:${fields.roomId}:${fields.timestamp}:${ciphertextHash}:${proofHash}`;
+}
+
+export async function verifyMessageSignature(message: {
+  wallet_address: string | null;
+  room_id: string;
+  encrypted_content: string;
+  proof_data: unknown;
+  author_signature?: string | null;
+  signed_at?: number | null;
+}): Promise<SignatureStatus> {
+  // Anonymous messages have no wallet to sign with
+  if (!message.wallet_address || !message.author_signature || message.signed_at == null) return 'unsigned';
+
+  try {
+    const payload = await messageSigningPayload({
+      walletAddress: message.wallet_address,
+      roomId: message.room_id,
+      timestamp: message.signed_at,
+      encryptedContent: message.encrypted_content,
+      proofData: message.proof_data,
+    });
+
+    const valid = nacl.sign.detached.verify(
+      new TextEncoder().encode(payload),
+      hexToBytes(message.author_signature),
+      new PublicKey(message.wallet_address).toBytes()
+    );
+    return valid ? 'valid' : 'invalid';
+  } catch {
+    return 'invalid';
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Poseidon over the BN254 scalar field, as used by the circuits. Kept free
+ * of other imports so the prover worker can load it too.
+ */
+
+export interface Poseidon {
+  (inputs: bigint[]): Uint8Array;
+  F: { toString(element: Uint8Array): string };
+}
+
+let poseidonPromise: Promise<Poseidon> | null = null;
+
+export async function getPoseidon(): Promise<Poseidon> {
+  if (!poseidonPromise) {
+    poseidonPromise = import('circomlibjs').then((circomlib) => {
+      const buildPoseidon = circomlib.buildPoseidon || circomlib.default?.buildPoseidon;
+      if (!buildPoseidon) {
+        throw new Error('circomlibjs.buildPoseidon not available');
+      }
+      return buildPoseidon() as Promise<Poseidon>;
+    });
+  }
+  return poseidonPromise;
+}
+
+export function poseidonHash(poseidon: Poseidon, inputs: bigint[]): bigint {
+  return BigInt(poseidon.F.toString(poseidon(inputs)));
+}
@@ -0,0 +1,165 @@
+import { supabase } from '@/integrations/supabase/client';
+import { bytesToHex } from './encoding';
+import { MemberKeyRecord, verifyMemberKey } from './keyring';
+
+/**
+ * Private groups of up to MAX_GROUP_MEMBERS wallets. Their messages share the
+ * messages table under room_id 'group:<id>', but every message carries its own
+ * content key wrapped to the members at send time, so a removed member can't
+ * read anything sent after the removal.
+ */
+
+export const MAX_GROUP_MEMBERS = 50;
+const GROUP_ROOM_PREFIX = 'group:';
+
+export interface PrivateGroup {
+  id: string;
+  name: string;
+  owner_wallet: string;
+  created_at: string;
+}
+
+export function groupRoomId(groupId: string): string {
+  return `${GROUP_ROOM_PREFIX}${groupId}`;
+}
+
+export function parseGroupRoomId(roomId: string): string | null {
+  return roomId.startsWith(GROUP_ROOM_PREFIX) ? roomId.slice(GROUP_ROOM_PREFIX.length) : null;
+}
+
+export async function getMyGroups(walletAddress: string): Promise<PrivateGroup[]> {
+  const { data, error } = await supabase
+    .from('private_group_members')
+    .select('private_groups(id, name, owner_wallet, created_at)')
+    .eq('wallet_address', walletAddress)
+    .is('removed_at', null);
+
+  if (error) {
+    console.error('Error fetching groups:', error);
+    return [];
+  }
+
+  return (data || [])
+    .map(row => row.private_groups)
+    .filter((group): group is PrivateGroup => !!group)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export async function getGroupMembers(groupId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('private_group_members')
+    .select('wallet_address')
+    .eq('group_id', groupId)
+    .is('removed_at', null)
+    .order('added_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching group members:', error);
+    throw new Error('Failed to load group members');
+  }
+
+  return (data || []).map(member => member.wallet_address);
+}
+
+/**
+ * Latest verified X25519 key of every current member. Always read fresh
+ * before sending so removals take effect on the very next message.
+ */
+export async function getGroupRecipients(groupId: string): Promise<MemberKeyRecord[]> {
+  const members = await getGroupMembers(groupId);
+
+  const { data, error } = await supabase
+    .from('member_keys')
+    .select('wallet_address, x25519_public_key, signature')
+    .in('wallet_address', members)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching member keys:', error);
+    throw new Error('Failed to load group member keys');
+  }
+
+  const byWallet = new Map<string, MemberKeyRecord>();
+  for (const record of data || []) {
+    if (!byWallet.has(record.wallet_address) && verifyMemberKey(record)) {
+      byWallet.set(record.wallet_address, record);
+    }
+  }
+
+  const missing = members.filter(member => !byWallet.has(member));
+  if (missing.length > 0) {
+    console.warn('Group members without a verified key will not receive this message:', missing);
+  }
+
+  return Array.from(byWallet.values());
+}
+
+async function invokeGroupAction(
+  body: Record<string, unknown>,
+  fallbackError: string
+): Promise<{ members: string[]; group?: PrivateGroup }> {
+  const { data, error } = await supabase.functions.invoke('manage-group', { body });
+
+  if (error) {
+    console.error('Group action failed:', error);
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error ?? fallbackError);
+  }
+
+  return data;
+}
+
+export async function createGroup(
+  name: string,
+  members: string[],
+  walletAddress: string,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<PrivateGroup> {
+  const timestamp = Date.now();
+  const signature = await signMessage(
+    `SNARK:group:create:${name}:${[...members].sort().join(',')}:${timestamp}`
+  );
+
+  const data = await invokeGroupAction(
+    { action: 'create', walletAddress, name, members, timestamp, signature: bytesToHex(signature) },
+    'Failed to create group'
+  );
+
+  return data.group!;
+}
+
+async function changeMembership(
+  action: 'add' | 'remove',
+  groupId: string,
+  member: string,
+  walletAddress: string,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<string[]> {
+  const timestamp = Date.now();
+  const signature = await signMessage(`SNARK:group:${action}:${groupId}:${member}:${timestamp}`);
+
+  const data = await invokeGroupAction(
+    { action, walletAddress, groupId, member, timestamp, signature: bytesToHex(signature) },
+    action === 'add' ? 'Failed to add member' : 'Failed to remove member'
+  );
+
+  return data.members;
+}
+
+export function addGroupMember(
+  groupId: string,
+  member: string,
+  walletAddress: string,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<string[]> {
+  return changeMembership('add', groupId, member, walletAddress, signMessage);
+}
+
+export function removeGroupMember(
+  groupId: string,
+  member: string,
+  walletAddress: string,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<string[]> {
+  return changeMembership('remove', groupId, member, walletAddress, signMessage);
+}
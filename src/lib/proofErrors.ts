@@ -0,0 +1,51 @@
+/**
+ * Codes send-message returns when it refuses a proof, mirroring
+ * supabase/functions/_shared/proofErrors.ts. The message that comes with a
+ * code says what was wrong; the code picks the toast title.
+ */
+
+export type ProofErrorCode =
+  | 'PROOF_UNBOUND'
+  | 'WALLET_MISMATCH'
+  | 'THRESHOLD_MISMATCH'
+  | 'RULE_MISMATCH'
+  | 'TIER_MISMATCH'
+  | 'SNAPSHOT_STALE'
+  | 'SCOPE_MISMATCH'
+  | 'EPOCH_EXPIRED'
+  | 'SIGNAL_INVALID'
+  | 'LABEL_MISMATCH'
+  | 'CIRCUIT_RETIRED'
+  | 'NONCE_USED'
+  | 'PROOF_REPLAYED'
+  | 'PROOF_INVALID'
+  | 'VERIFIER_UNAVAILABLE';
+
+const PROOF_ERROR_TITLES: Record<ProofErrorCode, string> = {
+  PROOF_UNBOUND: 'Outdated Proof Format',
+  WALLET_MISMATCH: 'Proof For Another Wallet',
+  THRESHOLD_MISMATCH: 'Token Requirement Changed',
+  RULE_MISMATCH: 'Token Requirement Changed',
+  TIER_MISMATCH: 'Holder Tiers Changed',
+  SNAPSHOT_STALE: 'Holder Snapshot Outdated',
+  SCOPE_MISMATCH: 'Proof For Another Message',
+  EPOCH_EXPIRED: 'Anonymous Epoch Ended',
+  SIGNAL_INVALID: 'Invalid Proof Signals',
+  LABEL_MISMATCH: 'Invalid Proof Labels',
+  CIRCUIT_RETIRED: 'Circuit Retired',
+  NONCE_USED: 'Proof Already Used',
+  PROOF_REPLAYED: 'Proof Already Used',
+  PROOF_INVALID: 'Proof Rejected',
+  VERIFIER_UNAVAILABLE: 'Verifier Unavailable',
+};
+
+export class SendMessageError extends Error {
+  constructor(message: string, readonly code: ProofErrorCode | null) {
+    super(message);
+    this.name = 'SendMessageError';
+  }
+}
+
+export function proofErrorTitle(code: ProofErrorCode | null): string {
+  return (code && PROOF_ERROR_TITLES[code]) || 'Failed to Send';
+}
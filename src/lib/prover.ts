@@ -0,0 +1,200 @@
+/**
+ * Runs Merkle path building, witness generation and Groth16 proving in a
+ * dedicated Web Worker (src/workers/prover.worker.ts), so the chat stays
+ * responsive while a proof is made. Trusted setup contributions (see
+ * ceremony.ts) run there too.
+ *
+ * snarkjs can't be interrupted mid-proof, so cancelling terminates the
+ * worker, failing every other job still queued on it. The next job starts a
+ * fresh one.
+ */
+
+export type ProofStage = 'snapshot' | 'artifacts' | 'witness' | 'proving' | 'verifying' | 'done';
+
+export interface ProofOptions {
+  onStage?: (stage: ProofStage) => void;
+  // Bytes of circuit artifacts downloaded so far; cached artifacts don't count
+  onDownload?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface Groth16Result {
+  proof: {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+  };
+  publicSignals: string[];
+  circuitId: string; // registry id of the circuit build, see zkArtifacts.ts
+}
+
+export interface MerklePathResult {
+  root: string;
+  pathElements: string[];
+  pathIndices: number[];
+}
+
+export interface ContributionResult {
+  zkey: Uint8Array;
+  contributionHash: string; // hex, as the ceremony transcript shows it
+}
+
+export interface BeaconResult extends ContributionResult {
+  vkey: unknown;
+}
+
+export type ProverJob =
+  | { kind: 'prove'; circuit: string; input: Record<string, unknown> }
+  | { kind: 'merkle-path'; leaves: string[][]; leafIndex: number; depth: number }
+  | { kind: 'contribute'; zkey: Uint8Array; name: string; entropy: string }
+  | { kind: 'beacon'; zkey: Uint8Array; name: string; beaconHash: string; iterationsExp: number };
+
+export type ProverRequest = ProverJob & { id: number };
+
+export type ProverResponse =
+  | { id: number; type: 'stage'; stage: ProofStage }
+  | { id: number; type: 'download'; loaded: number; total: number }
+  | { id: number; type: 'result'; result: Groth16Result | MerklePathResult | ContributionResult | BeaconResult }
+  | { id: number; type: 'error'; message: string };
+
+export class ProofCancelledError extends Error {
+  constructor() {
+    super('Proof generation was cancelled');
+    this.name = 'ProofCancelledError';
+  }
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+// Rejects each job sent to the current worker, so terminating it settles them all
+const pendingJobs = new Map<number, (error: Error) => void>();
+
+function getWorker(): Worker {
+  worker ??= new Worker(new URL('../workers/prover.worker.ts', import.meta.url), { type: 'module' });
+  return worker;
+}
+
+function resetWorker(error: Error) {
+  worker?.terminate();
+  worker = null;
+  const rejects = [...pendingJobs.values()];
+  pendingJobs.clear();
+  rejects.forEach(reject => reject(error));
+}
+
+function runJob<T>(job: ProverJob, options: ProofOptions = {}): Promise<T> {
+  if (options.signal?.aborted) {
+    return Promise.reject(new ProofCancelledError());
+  }
+
+  const id = nextJobId++;
+  const prover = getWorker();
+
+  return new Promise<T>((resolve, reject) => {
+    const cleanup = () => {
+      prover.removeEventListener('message', handleMessage);
+      prover.removeEventListener('error', handleError);
+      options.signal?.removeEventListener('abort', handleAbort);
+      pendingJobs.delete(id);
+    };
+
+    const fail = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+
+    const handleMessage = (event: MessageEvent<ProverResponse>) => {
+      const response = event.data;
+      if (response.id !== id) return;
+
+      if (response.type === 'stage') {
+        options.onStage?.(response.stage);
+        return;
+      }
+      if (response.type === 'download') {
+        options.onDownload?.(response.loaded, response.total);
+        return;
+      }
+
+      cleanup();
+      if (response.type === 'result') {
+        resolve(response.result as T);
+      } else {
+        reject(new Error(response.message));
+      }
+    };
+
+    const handleError = (event: ErrorEvent) => {
+      resetWorker(new Error(event.message || 'Prover worker crashed'));
+    };
+
+    const handleAbort = () => {
+      fail(new ProofCancelledError());
+      resetWorker(new Error('Another proof was cancelled - please try again'));
+    };
+
+    pendingJobs.set(id, fail);
+
+    prover.addEventListener('message', handleMessage);
+    prover.addEventListener('error', handleError);
+    options.signal?.addEventListener('abort', handleAbort);
+
+    const request: ProverRequest = { ...job, id };
+    prover.postMessage(request);
+  });
+}
+
+/**
+ * Prove `input` with the circuit's manifest-pinned artifacts (see
+ * zkArtifacts.ts), then verify the proof against its verification key
+ * before it is sent anywhere.
+ */
+export function proveInWorker(
+  circuit: string,
+  input: Record<string, unknown>,
+  options?: ProofOptions
+): Promise<Groth16Result> {
+  return runJob<Groth16Result>({ kind: 'prove', circuit, input }, options);
+}
+
+/**
+ * Root and path of `leafIndex` in a zero-padded Poseidon tree whose leaves
+ * are the Poseidon hashes of `leaves`
+ */
+export function merklePathInWorker(
+  leaves: string[][],
+  leafIndex: number,
+  depth: number,
+  options?: ProofOptions
+): Promise<MerklePathResult> {
+  return runJob<MerklePathResult>({ kind: 'merkle-path', leaves, leafIndex, depth }, options);
+}
+
+/**
+ * Add a Phase 2 contribution to `zkey`. `entropy` is mixed into the
+ * contribution's randomness, which never leaves the worker.
+ */
+export function contributeInWorker(
+  zkey: Uint8Array,
+  name: string,
+  entropy: string,
+  options?: ProofOptions
+): Promise<ContributionResult> {
+  return runJob<ContributionResult>({ kind: 'contribute', zkey, name, entropy }, options);
+}
+
+/**
+ * Apply the ceremony's final beacon to `zkey` and export the verification
+ * key of the result
+ */
+export function beaconInWorker(
+  zkey: Uint8Array,
+  name: string,
+  beaconHash: string,
+  iterationsExp: number,
+  options?: ProofOptions
+): Promise<BeaconResult> {
+  return runJob<BeaconResult>({ kind: 'beacon', zkey, name, beaconHash, iterationsExp }, options);
+}
@@ -0,0 +1,58 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Messages send-message stored under the "quarantine" verification policy
+ * (see supabase/functions/_shared/verificationPolicy.ts). Only admins can
+ * see them until one releases or deletes them.
+ */
+
+export interface QuarantinedMessage {
+  id: string;
+  room_id: string;
+  wallet_address: string | null;
+  verification_method: string | null;
+  created_at: string;
+}
+
+export async function getQuarantinedMessages(): Promise<QuarantinedMessage[]> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, room_id, wallet_address, verification_method, created_at')
+    .eq('quarantined', true)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load quarantined messages: ${error.message}`);
+  }
+
+  return (data ?? []) as QuarantinedMessage[];
+}
+
+/**
+ * Show a quarantined message in its room. The release_quarantined_message
+ * RPC only clears the flag, so it stays marked unverified.
+ */
+export async function releaseQuarantinedMessage(messageId: string): Promise<void> {
+  const { data: released, error } = await supabase.rpc('release_quarantined_message', {
+    message_id: messageId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to release message ${messageId}: ${error.message}`);
+  }
+  if (!released) {
+    throw new Error(`Message ${messageId} is not quarantined`);
+  }
+}
+
+export async function deleteQuarantinedMessage(messageId: string): Promise<void> {
+  const { error } = await supabase
+    .from('messages')
+    .delete()
+    .eq('id', messageId)
+    .eq('quarantined', true);
+
+  if (error) {
+    throw new Error(`Failed to delete message ${messageId}: ${error.message}`);
+  }
+}
@@ -0,0 +1,124 @@
+import { supabase } from '@/integrations/supabase/client';
+import { bytesToHex } from './encoding';
+
+/**
+ * Bulk re-verification of stored messages by the reverify-messages function.
+ * A run checks one page of messages per call; the admin dashboard starts or
+ * resumes it with a signed request and keeps calling with the continuation
+ * token that request returned until it completes. The token is kept in
+ * memory only, so after a reload a run has to be resumed with a new
+ * signature. Every message checked gets a message_verifications row, and
+ * messages.verified changes only when the pairing check gives a definite
+ * answer (see supabase/functions/_shared/reverification.ts).
+ */
+
+export interface ReverificationRun {
+  id: string;
+  status: 'running' | 'completed';
+  verifier_version: string;
+  total: number;
+  checked: number;
+  flipped_to_verified: number;
+  flipped_to_failed: number;
+  skipped: number;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface VerificationFlip {
+  message_id: string;
+  circuit_id: string | null;
+  result: string;
+  verified_before: boolean;
+  verified_after: boolean;
+}
+
+// Continuation tokens of the runs this page started or resumed, by run id
+const continuationTokens = new Map<string, string>();
+
+async function invokeReverify(body: Record<string, unknown>): Promise<ReverificationRun> {
+  const { data, error } = await supabase.functions.invoke('reverify-messages', { body });
+
+  if (error || !data?.success) {
+    console.error('Re-verification failed:', error);
+    const details = await error?.context?.json?.().catch(() => null);
+    throw new Error(details?.error ?? 'Failed to re-verify messages');
+  }
+
+  if (data.continuationToken) {
+    continuationTokens.set(data.run.id, data.continuationToken);
+  }
+  return data.run;
+}
+
+/**
+ * Start a run; the first page is checked right away
+ */
+export async function startReverificationAsAdmin(
+  walletAddress: string,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<ReverificationRun> {
+  const timestamp = Date.now();
+  const signature = await signMessage(`SNARK:reverify-messages:${timestamp}`);
+
+  return invokeReverify({ walletAddress, timestamp, signature: bytesToHex(signature) });
+}
+
+/**
+ * Pick up an unfinished run, for example one started before a reload
+ */
+export async function resumeReverificationAsAdmin(
+  runId: string,
+  walletAddress: string,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<ReverificationRun> {
+  const timestamp = Date.now();
+  const signature = await signMessage(`SNARK:reverify-messages:${runId}:${timestamp}`);
+
+  return invokeReverify({ runId, walletAddress, timestamp, signature: bytesToHex(signature) });
+}
+
+/**
+ * Check the next page of a run this page started or resumed
+ */
+export function continueReverification(runId: string): Promise<ReverificationRun> {
+  const continuationToken = continuationTokens.get(runId);
+  if (!continuationToken) {
+    return Promise.reject(new Error('Resume the run to continue it'));
+  }
+
+  return invokeReverify({ runId, continuationToken });
+}
+
+export async function getLatestReverificationRun(): Promise<ReverificationRun | null> {
+  const { data, error } = await supabase
+    .from('reverification_runs')
+    .select('id, status, verifier_version, total, checked, flipped_to_verified, flipped_to_failed, skipped, started_at, finished_at')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load re-verification runs: ${error.message}`);
+  }
+
+  return data as ReverificationRun | null;
+}
+
+/**
+ * Messages whose verified status the run changed
+ */
+export async function getReverificationFlips(runId: string): Promise<VerificationFlip[]> {
+  const { data, error } = await supabase
+    .from('message_verifications')
+    .select('message_id, circuit_id, result, verified_before, verified_after')
+    .eq('run_id', runId)
+    .eq('flipped', true)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load re-verification results: ${error.message}`);
+  }
+
+  return (data ?? []) as VerificationFlip[];
+}
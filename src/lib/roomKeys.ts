@@ -0,0 +1,191 @@
+import { supabase } from '@/integrations/supabase/client';
+import { bytesToBase64, bytesToHex } from './encoding';
+import {
+  MemberIdentity,
+  MemberKeyRecord,
+  addRoomKey,
+  memberKeyBindingMessage,
+  unwrapKey,
+  verifyMemberKey,
+} from './keyring';
+
+/**
+ * Publish the member's X25519 public key, bound to the wallet by a signature
+ */
+export async function registerMemberKey(
+  identity: MemberIdentity,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<void> {
+  const x25519PublicKey = bytesToBase64(identity.publicKey);
+
+  const { data: existing } = await supabase
+    .from('member_keys')
+    .select('wallet_address, x25519_public_key, signature')
+    .eq('wallet_address', identity.walletAddress)
+    .eq('x25519_public_key', x25519PublicKey)
+    .maybeSingle();
+
+  if (existing && verifyMemberKey(existing)) return;
+
+  const signature = await signMessage(
+    memberKeyBindingMessage(identity.walletAddress, x25519PublicKey)
+  );
+
+  const { error } = await supabase.from('member_keys').insert({
+    wallet_address: identity.walletAddress,
+    x25519_public_key: x25519PublicKey,
+    signature: bytesToHex(signature),
+  });
+
+  if (error) {
+    console.error('Error registering member key:', error);
+    throw new Error('Failed to register encryption key');
+  }
+}
+
+/**
+ * Latest verified X25519 key for every registered member
+ */
+export async function getVerifiedMemberKeys(): Promise<MemberKeyRecord[]> {
+  const { data, error } = await supabase
+    .from('member_keys')
+    .select('wallet_address, x25519_public_key, signature')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching member keys:', error);
+    return [];
+  }
+
+  const byWallet = new Map<string, MemberKeyRecord>();
+  for (const record of data || []) {
+    if (!byWallet.has(record.wallet_address) && verifyMemberKey(record)) {
+      byWallet.set(record.wallet_address, record);
+    }
+  }
+  return Array.from(byWallet.values());
+}
+
+/**
+ * Every verified X25519 key registered for one wallet, newest first
+ */
+export async function getMemberKeys(walletAddress: string): Promise<MemberKeyRecord[]> {
+  const { data, error } = await supabase
+    .from('member_keys')
+    .select('wallet_address, x25519_public_key, signature')
+    .eq('wallet_address', walletAddress)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching member keys:', error);
+    return [];
+  }
+
+  return (data || []).filter(verifyMemberKey);
+}
+
+/**
+ * Ask the release-room-key function for this room's keys.
+ * The function checks a signed challenge and the token gate, then returns
+ * the current epoch key (plus any older epochs this wallet held) wrapped to the
+ * member's X25519 key. The newest epoch becomes the room's current key.
+ */
+export async function requestRoomKeys(
+  roomId: string,
+  identity: MemberIdentity,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<string | null> {
+  const { data: challenge, error: challengeError } = await supabase.functions.invoke('release-room-key', {
+    body: { action: 'challenge', walletAddress: identity.walletAddress, roomId },
+  });
+
+  if (challengeError || !challenge?.message) {
+    console.error('Error requesting key release challenge:', challengeError);
+    throw new Error('Failed to start key release');
+  }
+
+  const signature = await signMessage(challenge.message);
+
+  const { data, error } = await supabase.functions.invoke('release-room-key', {
+    body: {
+      action: 'release',
+      walletAddress: identity.walletAddress,
+      roomId,
+      nonce: challenge.nonce,
+      signature: bytesToHex(signature),
+    },
+  });
+
+  if (error) {
+    console.error('Key release failed:', error);
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error ?? 'Room key release was denied');
+  }
+
+  const keys: { key_id: string; wrapped_key: string; epoch: number }[] = data?.keys ?? [];
+  keys.sort((a, b) => a.epoch - b.epoch);
+
+  let currentKeyId: string | null = null;
+  for (const [index, grant] of keys.entries()) {
+    const rawKey = unwrapKey(grant.wrapped_key, identity);
+    if (!rawKey) {
+      console.warn('Could not unwrap room key', grant.key_id);
+      continue;
+    }
+    // Only the newest epoch is used for encryption; older ones stay for history
+    const isLatest = index === keys.length - 1;
+    await addRoomKey(roomId, grant.key_id, rawKey, grant.epoch, isLatest);
+    if (isLatest) currentKeyId = grant.key_id;
+  }
+
+  return currentKeyId;
+}
+
+/**
+ * Ask the backend to re-check a wallet that appears to have dropped below the
+ * threshold. If it still holds the current epoch key the room is rotated.
+ */
+export async function reportAccessLost(walletAddress: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('rotate-room-key', {
+    body: { action: 'membership', walletAddress },
+  });
+
+  if (error) {
+    console.error('Error reporting lost access:', error);
+    return;
+  }
+
+  if (data?.rotated?.length) {
+    console.log('🔄 Room key rotated after access change, new epoch(s):', data.rotated);
+  }
+}
+
+/**
+ * Start a new key epoch for a room (admin only)
+ */
+export async function rotateRoomKeyAsAdmin(
+  roomId: string,
+  walletAddress: string,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<number> {
+  const timestamp = Date.now();
+  const signature = await signMessage(`SNARK:rotate-room-key:${roomId}:${timestamp}`);
+
+  const { data, error } = await supabase.functions.invoke('rotate-room-key', {
+    body: {
+      action: 'admin',
+      walletAddress,
+      roomId,
+      timestamp,
+      signature: bytesToHex(signature),
+    },
+  });
+
+  if (error) {
+    console.error('Error rotating room key:', error);
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error ?? 'Failed to rotate room key');
+  }
+
+  return data.epoch;
+}
@@ -7,6 +7,11 @@ const connection = new Connection(SOLANA_RPC, 'confirmed');
 // Memo program ID (standard Solana memo program)
 const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
 
+// Memo that log-to-solana accepts for a message (see supabase/functions/_shared/commitment.ts)
+export function messageMemo(commitment: string, messageId: string): string {
+  return `SNARK:v1:${commitment}:${messageId}`;
+}
+
 export async function createMemoTransaction(
   wallet: any,
   memo: string
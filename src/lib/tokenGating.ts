@@ -16,10 +16,120 @@ const getConnection = () => {
   });
 };
 
+export type TokenRuleMode = 'single' | 'weighted' | 'any_of';
+
+// Mints a multi-mint rule can have; fixed by circuits/multiMintInclusion.circom
+export const MULTI_MINT_SLOTS = 4;
+
+export interface TokenRuleMint {
+  token_mint_address: string;
+  token_decimals: number;
+  weight: number;
+  threshold_base_units: string | null; // any_of rules only
+}
+
 export interface TokenRequirement {
   id: string;
   token_mint_address: string;
-  threshold_amount: number;
+  token_decimals: number;
+  // Exact threshold in base units, as a decimal string: the mint's for
+  // single rules, the weighted sum's for weighted rules
+  threshold_base_units: string;
+  rule_mode: TokenRuleMode;
+  // In rule order; a single-mint rule lists just token_mint_address
+  mints: TokenRuleMint[];
+}
+
+export interface TokenRuleEvaluation {
+  allowed: boolean;
+  balance: bigint;
+  required: bigint;
+  decimals: number;
+}
+
+// Key of the holder snapshots taken for this rule's mints
+export function ruleMintSet(requirement: TokenRequirement): string {
+  return requirement.mints.map(mint => mint.token_mint_address).join(',');
+}
+
+/**
+ * Evaluate `requirement` against base-unit balances of its mints, in rule
+ * order, the same way supabase/functions/_shared/tokenGating.ts does.
+ * `balance` and `required` report progress: the weighted sum for weighted
+ * rules, and the mint closest to its threshold for any-of rules.
+ */
+export function evaluateTokenRule(requirement: TokenRequirement, balances: bigint[]): TokenRuleEvaluation {
+  const zero = BigInt(0);
+
+  if (requirement.rule_mode === 'any_of') {
+    let best: TokenRuleEvaluation = { allowed: false, balance: zero, required: zero, decimals: requirement.token_decimals };
+    requirement.mints.forEach((mint, i) => {
+      const required = BigInt(mint.threshold_base_units ?? 0);
+      if (required === zero) return;
+      // balance / required > best.balance / best.required, without division
+      if (best.required === zero || balances[i] * best.required > best.balance * required) {
+        best = { allowed: balances[i] >= required, balance: balances[i], required, decimals: mint.token_decimals };
+      }
+    });
+    return best;
+  }
+
+  const required = BigInt(requirement.threshold_base_units);
+  const balance = requirement.rule_mode === 'weighted'
+    ? requirement.mints.reduce((sum, mint, i) => sum + BigInt(mint.weight) * balances[i], zero)
+    : balances[0];
+
+  return { allowed: balance >= required, balance, required, decimals: requirement.token_decimals };
+}
+
+/**
+ * The public rule inputs of circuits/multiMintInclusion.circom, unused slots
+ * 0. send-message checks them against the configured rule.
+ */
+export function multiMintRuleInputs(requirement: TokenRequirement) {
+  const weighted = requirement.rule_mode === 'weighted';
+  const pad = (values: string[]) => [...values, ...Array(MULTI_MINT_SLOTS - values.length).fill('0')];
+
+  return {
+    mode: weighted ? '0' : '1',
+    weights: pad(requirement.mints.map(mint => (weighted ? String(mint.weight) : '0'))),
+    thresholds: pad(requirement.mints.map(mint => (weighted ? '0' : mint.threshold_base_units ?? '0'))),
+    threshold: weighted ? requirement.threshold_base_units : '0',
+  };
+}
+
+/**
+ * Parse a decimal token amount ("1,000.5") into base units, exactly. Throws
+ * if it has more fractional digits than the mint has decimals.
+ */
+export function parseTokenAmount(text: string, decimals: number): bigint {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(text.trim().replace(/,/g, ''));
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error('Enter a decimal amount like 1000 or 0.5');
+  }
+
+  const fraction = (match[2] ?? '').replace(/0+$/, '');
+  if (fraction.length > decimals) {
+    throw new Error(`This token has only ${decimals} decimal places`);
+  }
+
+  return BigInt((match[1] || '0') + fraction.padEnd(decimals, '0'));
+}
+
+/**
+ * Format base units as a token amount, with thousands separators and no
+ * trailing zeros
+ */
+export function formatTokenAmount(baseUnits: bigint | string, decimals: number): string {
+  const digits = BigInt(baseUnits).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+export async function getMintDecimals(tokenMintAddress: string): Promise<number> {
+  const supply = await getConnection().getTokenSupply(new PublicKey(tokenMintAddress));
+  return supply.value.decimals;
 }
 
 export async function getTokenRequirements(): Promise<TokenRequirement | null> {
@@ -40,13 +150,53 @@ export async function getTokenRequirements(): Promise<TokenRequirement | null> {
     return null;
   }
 
-  return data;
+  let decimals = data.token_decimals;
+  let threshold = data.threshold_base_units;
+  if (threshold === null || decimals === null) {
+    // Saved before thresholds were stored in base units: threshold_amount is whole tokens
+    decimals = await getMintDecimals(data.token_mint_address);
+    threshold = (BigInt(data.threshold_amount ?? 0) * BigInt(10) ** BigInt(decimals)).toString();
+  }
+
+  let mints: TokenRuleMint[] = [{
+    token_mint_address: data.token_mint_address,
+    token_decimals: decimals,
+    weight: 1,
+    threshold_base_units: threshold,
+  }];
+
+  const ruleMode = data.rule_mode as TokenRuleMode;
+  if (ruleMode !== 'single') {
+    const { data: ruleMints, error: mintsError } = await supabase
+      .from('token_requirement_mints')
+      .select('token_mint_address, token_decimals, weight, threshold_base_units')
+      .eq('requirement_id', data.id)
+      .order('position', { ascending: true });
+
+    if (mintsError || !ruleMints?.length) {
+      console.error('Error fetching token requirement mints:', mintsError);
+      return null;
+    }
+    mints = ruleMints;
+  }
+
+  return {
+    id: data.id,
+    token_mint_address: data.token_mint_address,
+    token_decimals: decimals,
+    threshold_base_units: threshold,
+    rule_mode: ruleMode,
+    mints,
+  };
 }
 
+/**
+ * Balance in base units, summed over the wallet's token accounts for the mint
+ */
 export async function getSPLTokenBalance(
   walletAddress: string,
   tokenMintAddress: string
-): Promise<number> {
+): Promise<bigint> {
   console.log('🔍 Fetching token balance for wallet:', walletAddress);
   console.log('🪙 Token mint address:', tokenMintAddress);
   
@@ -71,18 +221,17 @@ export async function getSPLTokenBalance(
 
       if (tokenAccounts.value.length === 0) {
         console.log('⚠️ No token accounts found for this mint - balance is 0');
-        return 0;
+        return BigInt(0);
       }
 
-      // Sum up all token balances from all accounts
+      // Sum the raw amounts; uiAmount is a float and loses precision
       const totalBalance = tokenAccounts.value.reduce((sum, account) => {
-        const amount = account.account.data.parsed.info.tokenAmount.uiAmount || 0;
-        const decimals = account.account.data.parsed.info.tokenAmount.decimals;
-        console.log(`💰 Token account balance: ${amount} (decimals: ${decimals})`);
-        return sum + amount;
-      }, 0);
+        const { amount, decimals } = account.account.data.parsed.info.tokenAmount;
+        console.log(`💰 Token account balance: ${amount} base units (decimals: ${decimals})`);
+        return sum + BigInt(amount);
+      }, BigInt(0));
 
-      console.log(`✅ Total token balance: ${totalBalance}`);
+      console.log(`✅ Total token balance: ${totalBalance} base units`);
       return totalBalance;
     } catch (error) {
       lastError = error as Error;
@@ -101,36 +250,16 @@ export async function getSPLTokenBalance(
   throw lastError || new Error('Failed to fetch token balance after multiple attempts');
 }
 
-// Prefer server-side balance checks to avoid browser RPC and API key limits
-async function getSPLTokenBalanceViaEdge(walletAddress: string, tokenMintAddress: string) {
-  try {
-    console.log('🌐 Invoking backend verify-token-balance...');
-    const { data, error } = await supabase.functions.invoke('verify-token-balance', {
-      body: { walletAddress, tokenMintAddress },
-    });
-
-    if (error) {
-      console.error('Edge function error:', error);
-      throw error;
-    }
-
-    if (!data) throw new Error('No data from verify-token-balance');
-
-    const balance = Number(data.balance ?? 0);
-    const required = Number(data.required ?? 0);
-    const hasAccess = Boolean(data.hasAccess ?? (balance >= required));
-
-    console.log('✅ Backend balance result:', { balance, required, hasAccess });
-    return { balance, required, hasAccess };
-  } catch (e) {
-    console.error('❌ Backend balance check failed, will fallback to client RPC:', e);
-    throw e;
-  }
+export interface TokenGatingResult {
+  allowed: boolean;
+  // Progress towards the rule in base units; see evaluateTokenRule
+  balance: bigint;
+  required: bigint;
+  decimals: number;
+  tokenMint: string;
 }
 
-export async function checkTokenGating(
-  walletAddress: string
-): Promise<{ allowed: boolean; balance: number; required: number; tokenMint: string }> {
+export async function checkTokenGating(walletAddress: string): Promise<TokenGatingResult> {
   console.log('Starting token gating check for:', walletAddress);
   
   const requirements = await getTokenRequirements();
@@ -142,39 +271,19 @@ export async function checkTokenGating(
 
   console.log('Token requirements:', requirements);
 
-  try {
-    // 1) Try backend for speed and reliability
-    const backend = await getSPLTokenBalanceViaEdge(
-      walletAddress,
-      requirements.token_mint_address
-    );
-
-    const result = {
-      allowed: backend.hasAccess,
-      balance: backend.balance,
-      required: backend.required || requirements.threshold_amount,
-      tokenMint: requirements.token_mint_address,
-    };
-
-    console.log('Token gating check result (backend):', result);
-    return result;
-  } catch {
-    // 2) Fallback to client RPC if backend not available
-    const balance = await getSPLTokenBalance(
-      walletAddress,
-      requirements.token_mint_address
-    );
-
-    const result = {
-      allowed: balance >= requirements.threshold_amount,
-      balance,
-      required: requirements.threshold_amount,
-      tokenMint: requirements.token_mint_address,
-    };
-
-    console.log('Token gating check result (client fallback):', result);
-    return result;
+  // Read from Solana in the browser, so no server learns this wallet's balance
+  const balances: bigint[] = [];
+  for (const mint of requirements.mints) {
+    balances.push(await getSPLTokenBalance(walletAddress, mint.token_mint_address));
   }
+
+  const result = {
+    ...evaluateTokenRule(requirements, balances),
+    tokenMint: requirements.token_mint_address,
+  };
+
+  console.log('Token gating check result:', result);
+  return result;
 }
 
 export async function isAdmin(walletAddress: string): Promise<boolean> {
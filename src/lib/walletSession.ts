@@ -0,0 +1,119 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { bytesToHex } from './encoding';
+import { getRecord, isKeystoreUnlocked, putRecord } from './keystore';
+
+/**
+ * A wallet session is a short-lived JWT carrying a `wallet_address` claim,
+ * issued by the wallet-session edge function after a signed challenge.
+ * Tables whose RLS policies read that claim (e.g. direct_messages) must be
+ * queried through the client returned here. While the keystore is unlocked
+ * the token is also kept there, so a reload doesn't need a new signature.
+ */
+
+interface WalletSession {
+  walletAddress: string;
+  token: string;
+  expiresAt: number;
+  client: SupabaseClient<Database>;
+}
+
+type StoredWalletSession = Pick<WalletSession, 'token' | 'expiresAt'>;
+
+// Refresh a little before the token actually expires
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+let currentSession: WalletSession | null = null;
+
+function createWalletClient(token: string): SupabaseClient<Database> {
+  const client = createClient<Database>(
+    import.meta.env.VITE_SUPABASE_URL,
+    import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    }
+  );
+  client.realtime.setAuth(token);
+  return client;
+}
+
+export function getCachedWalletSession(walletAddress: string): WalletSession | null {
+  if (
+    currentSession &&
+    currentSession.walletAddress === walletAddress &&
+    currentSession.expiresAt - EXPIRY_MARGIN_MS > Date.now()
+  ) {
+    return currentSession;
+  }
+  return null;
+}
+
+/**
+ * The cached session, or an unexpired one from the unlocked keystore
+ */
+export async function restoreWalletSession(walletAddress: string): Promise<WalletSession | null> {
+  const cached = getCachedWalletSession(walletAddress);
+  if (cached) return cached;
+
+  if (!isKeystoreUnlocked(walletAddress)) return null;
+
+  const stored = await getRecord<StoredWalletSession>('wallet-session', walletAddress);
+  if (!stored || stored.expiresAt - EXPIRY_MARGIN_MS <= Date.now()) return null;
+
+  currentSession = { walletAddress, ...stored, client: createWalletClient(stored.token) };
+  return currentSession;
+}
+
+export async function getWalletSession(
+  walletAddress: string,
+  signMessage: (message: string) => Promise<Uint8Array>
+): Promise<WalletSession> {
+  const restored = await restoreWalletSession(walletAddress);
+  if (restored) return restored;
+
+  const { data: challenge, error: challengeError } = await supabase.functions.invoke('wallet-session', {
+    body: { action: 'challenge', walletAddress },
+  });
+
+  if (challengeError || !challenge?.message) {
+    console.error('Error requesting session challenge:', challengeError);
+    throw new Error('Failed to start wallet session');
+  }
+
+  const signature = await signMessage(challenge.message);
+
+  const { data, error } = await supabase.functions.invoke('wallet-session', {
+    body: {
+      action: 'session',
+      walletAddress,
+      nonce: challenge.nonce,
+      signature: bytesToHex(signature),
+    },
+  });
+
+  if (error || !data?.token) {
+    console.error('Wallet session failed:', error);
+    const details = await error?.context?.json?.().catch(() => null);
+    throw new Error(details?.error ?? 'Wallet session was denied');
+  }
+
+  currentSession = {
+    walletAddress,
+    token: data.token,
+    expiresAt: data.expiresAt,
+    client: createWalletClient(data.token),
+  };
+
+  if (isKeystoreUnlocked(walletAddress)) {
+    const stored: StoredWalletSession = { token: data.token, expiresAt: data.expiresAt };
+    await putRecord('wallet-session', walletAddress, stored);
+  }
+
+  return currentSession;
+}
+
+export function clearWalletSession(): void {
+  currentSession = null;
+}
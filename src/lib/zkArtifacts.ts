@@ -0,0 +1,249 @@
+import { bytesToHex, sha256 } from './encoding';
+
+/**
+ * Circuit artifacts (wasm, proving key, verification key), pinned by the
+ * SHA-256 hashes in /zkp/manifest.json. circuits/setup.sh writes the
+ * manifest entry for every circuit it builds.
+ *
+ * Artifacts are downloaded once, checked against the manifest and cached
+ * in IndexedDB by hash, so a new build only downloads what changed. A file
+ * that doesn't match its hash is never cached or proven with: a proof made
+ * with the wrong proving key would only be rejected later by the backend.
+ *
+ * Each build of a circuit is registered in public.circuits under
+ * circuitIdOf, and proofs carry that id so the backend verifies them with
+ * the build's own verification key.
+ *
+ * Used from the prover worker, so this module must not touch the DOM.
+ */
+
+const MANIFEST_PATH = '/zkp/manifest.json';
+const DB_NAME = 'snark-zkp-artifacts';
+const DB_VERSION = 1;
+const ARTIFACT_STORE = 'artifacts';
+
+export interface ArtifactEntry {
+  path: string;
+  sha256: string;
+  size: number;
+}
+
+export interface CircuitManifest {
+  version: string; // SHA-256 of the compiled r1cs
+  wasm: ArtifactEntry;
+  zkey: ArtifactEntry;
+  vkey: ArtifactEntry;
+}
+
+export interface ZkpManifest {
+  version: 1;
+  circuits: Record<string, CircuitManifest>;
+}
+
+export interface CircuitArtifacts {
+  id: string; // registry id, see circuitIdOf
+  version: string;
+  wasm: Uint8Array;
+  zkey: Uint8Array;
+  vkey: unknown;
+}
+
+interface CachedArtifact {
+  sha256: string;
+  path: string;
+  data: ArrayBuffer;
+  storedAt: number;
+}
+
+export class ArtifactIntegrityError extends Error {
+  constructor(path: string) {
+    super(`${path} does not match the published circuit manifest - refusing to use it`);
+    this.name = 'ArtifactIntegrityError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(ARTIFACT_STORE, { keyPath: 'sha256' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+async function objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(ARTIFACT_STORE, mode).objectStore(ARTIFACT_STORE);
+}
+
+async function hashHex(data: Uint8Array): Promise<string> {
+  return bytesToHex(await sha256(data));
+}
+
+/**
+ * The manifest is always revalidated, so a new build is picked up at once
+ */
+export async function getZkpManifest(): Promise<ZkpManifest> {
+  const response = await fetch(MANIFEST_PATH, { cache: 'no-cache' });
+  if (!response.ok) {
+    throw new Error(`Failed to load the circuit manifest (${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * Registry id of a circuit build: its name and the start of its
+ * verification key's hash, so every setup run gets a new id. Must match
+ * supabase/functions/_shared/circuits.ts.
+ */
+export function circuitIdOf(circuit: string, entry: CircuitManifest): string {
+  return `${circuit}@${entry.vkey.sha256.slice(0, 16)}`;
+}
+
+function circuitEntry(manifest: ZkpManifest, circuit: string): CircuitManifest {
+  const entry = manifest.circuits[circuit];
+  if (!entry) {
+    throw new Error(`Circuit ${circuit} is not in the manifest - run circuits/setup.sh ${circuit}`);
+  }
+  return entry;
+}
+
+async function readCached(entry: ArtifactEntry): Promise<Uint8Array | null> {
+  try {
+    const store = await objectStore('readonly');
+    const cached: CachedArtifact | undefined = await requestToPromise(store.get(entry.sha256));
+    if (!cached) return null;
+
+    // Re-check, in case the stored copy was tampered with
+    const data = new Uint8Array(cached.data);
+    return (await hashHex(data)) === entry.sha256 ? data : null;
+  } catch (error) {
+    console.warn('Artifact cache unavailable:', error);
+    return null;
+  }
+}
+
+async function writeCached(entry: ArtifactEntry, data: Uint8Array): Promise<void> {
+  try {
+    const store = await objectStore('readwrite');
+    const record: CachedArtifact = {
+      sha256: entry.sha256,
+      path: entry.path,
+      data: data.slice().buffer,
+      storedAt: Date.now(),
+    };
+    await requestToPromise(store.put(record));
+  } catch (error) {
+    console.warn('Failed to cache artifact:', entry.path, error);
+  }
+}
+
+async function download(entry: ArtifactEntry, onChunk: (bytes: number) => void): Promise<Uint8Array> {
+  const response = await fetch(entry.path);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to load ${entry.path} (${response.status})`);
+  }
+
+  const data = new Uint8Array(entry.size);
+  const reader = response.body.getReader();
+  let offset = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (offset + value.length > entry.size) {
+      await reader.cancel();
+      throw new ArtifactIntegrityError(entry.path);
+    }
+    data.set(value, offset);
+    offset += value.length;
+    onChunk(value.length);
+  }
+
+  if (offset !== entry.size || (await hashHex(data)) !== entry.sha256) {
+    throw new ArtifactIntegrityError(entry.path);
+  }
+  return data;
+}
+
+/**
+ * Load a circuit's artifacts from the cache, downloading the missing ones.
+ * `onProgress` reports bytes downloaded out of the bytes that had to be.
+ */
+export async function loadCircuitArtifacts(
+  circuit: string,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<CircuitArtifacts> {
+  const manifest = await getZkpManifest();
+  const circuitManifest = circuitEntry(manifest, circuit);
+  const entries = [circuitManifest.wasm, circuitManifest.zkey, circuitManifest.vkey];
+
+  const cached = await Promise.all(entries.map(readCached));
+  const total = entries.reduce((sum, entry, i) => sum + (cached[i] ? 0 : entry.size), 0);
+  let loaded = 0;
+
+  const [wasm, zkey, vkey] = await Promise.all(entries.map(async (entry, i) => {
+    if (cached[i]) return cached[i];
+
+    const data = await download(entry, (bytes) => {
+      loaded += bytes;
+      onProgress?.(loaded, total);
+    });
+    await writeCached(entry, data);
+    return data;
+  }));
+
+  pruneArtifactCache(manifest).catch((error) => console.warn('Failed to prune artifact cache:', error));
+
+  return {
+    id: circuitIdOf(circuit, circuitManifest),
+    version: circuitManifest.version,
+    wasm,
+    zkey,
+    vkey: JSON.parse(new TextDecoder().decode(vkey)),
+  };
+}
+
+/**
+ * A circuit's verification key, checked against the manifest
+ */
+export async function loadVerificationKey(circuit: string): Promise<unknown> {
+  const entry = circuitEntry(await getZkpManifest(), circuit).vkey;
+  let data = await readCached(entry);
+  if (!data) {
+    data = await download(entry, () => {});
+    await writeCached(entry, data);
+  }
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+// Drop cached artifacts that no circuit in the manifest refers to anymore
+async function pruneArtifactCache(manifest: ZkpManifest): Promise<void> {
+  const pinned = new Set(
+    Object.values(manifest.circuits).flatMap(circuit => [circuit.wasm.sha256, circuit.zkey.sha256, circuit.vkey.sha256])
+  );
+
+  const store = await objectStore('readwrite');
+  const hashes = (await requestToPromise(store.getAllKeys())) as string[];
+  for (const hash of hashes) {
+    if (!pinned.has(hash)) store.delete(hash);
+  }
+}
@@ -1,4 +1,16 @@
-import { getTokenRequirements } from './tokenGating';
+import {
+  MULTI_MINT_SLOTS,
+  evaluateTokenRule,
+  formatTokenAmount,
+  getTokenRequirements,
+  multiMintRuleInputs,
+  ruleMintSet,
+} from './tokenGating';
+import { sha256 } from './encoding';
+import { getHolderMerkleProof } from './holderSnapshot';
+import { getHolderTiers, holderTierOf, tierBoundInputs } from './holderTiers';
+import { ProofCancelledError, ProofOptions, proveInWorker } from './prover';
+import { getRegisteredVerificationKey } from './circuits';
 
 // SnarkJS will be loaded dynamically
 let snarkjs: any = null;
@@ -19,104 +31,143 @@ export interface ZKProofData {
     protocol: string;
     curve: string;
   };
+  // [valid, threshold, root, walletHash, nonce]
+  // multi-mint: [valid, mode, weights[4], thresholds[4], threshold, root, walletHash, nonce]
+  // tiered: [valid, threshold, root, walletHash, nonce, tier, tierBounds[3]]
+  // anonymous: [nullifier, shareY, rlnNullifier, threshold, root, externalNullifier, signalHash, messageLimit]
   publicSignals: string[];
+  // Registry id of the circuit build; the backend verifies with its key
+  circuit_id: string;
+}
+
+// What generateTokenBalanceProof's signals mean, for display
+export interface TokenBalanceProof extends ZKProofData {
+  requiredThreshold: string;
+  merkleRoot: string;
+  snapshotId: string;
+  walletHash: string;
+  nonce: string;
+  tier: string | null; // name of the proven holder tier, if any
+}
+
+// SHA-256 of `text` truncated to 31 bytes, as a decimal field element
+export async function hashToField(text: string): Promise<string> {
+  const digest = await sha256(new TextEncoder().encode(text));
+  return digest
+    .slice(0, 31)
+    .reduce((value, byte) => (value << BigInt(8)) | BigInt(byte), BigInt(0))
+    .toString();
+}
+
+/**
+ * The wallet as a field element: SHA-256("SNARK:wallet:" + address) truncated
+ * to 31 bytes. Must match supabase/functions/_shared/proofBinding.ts.
+ */
+export function walletHashField(walletAddress: string): Promise<string> {
+  return hashToField(`SNARK:wallet:${walletAddress}`);
+}
+
+// Single-use nonce that send-message will require as the proof's last public input
+async function requestProofNonce(walletAddress: string): Promise<string> {
+  const { supabase } = await import('@/integrations/supabase/client');
+  const { data, error } = await supabase.functions.invoke('proof-nonce', {
+    body: { walletAddress },
+  });
+
+  if (error || !data?.nonce) {
+    console.error('❌ Proof nonce request failed:', error);
+    throw new Error('Failed to get a proof nonce');
+  }
+
+  return data.nonce;
 }
 
 /**
  * Generate a ZK proof that the wallet holds sufficient tokens
- * without revealing the exact balance
+ * without revealing the exact balance. The balance and Merkle path come
+ * from the public holder snapshot, so no server is asked for this wallet's
+ * balance. The proof is bound to the wallet and a server nonce, so it is
+ * only accepted once, from this wallet. If holder tiers are configured,
+ * single-mint proofs also prove the wallet's tier, for its badge. Proving
+ * runs in the prover worker; `options` reports its stages and can cancel it.
  */
 export async function generateTokenBalanceProof(
-  walletAddress: string
-): Promise<ZKProofData> {
+  walletAddress: string,
+  options: ProofOptions = {}
+): Promise<TokenBalanceProof> {
   console.log('🔐 Generating ZK proof for token balance...');
   
   try {
-    // Load SnarkJS library
-    const snarkjs = await loadSnarkJS();
-    
+    options.onStage?.('snapshot');
+
     // Get token requirements from database
     const requirements = await getTokenRequirements();
     if (!requirements) {
       throw new Error('Token requirements not configured');
     }
     
-    console.log('🌐 Fetching balance via backend to avoid CORS/rate-limits...');
-    
-    // Use backend edge function to get balance (avoids browser CORS/rate-limit issues)
-    const { supabase } = await import('@/integrations/supabase/client');
-    const { data: balanceData, error: balanceError } = await supabase.functions.invoke(
-      'verify-token-balance',
-      {
-        body: {
-          walletAddress,
-          tokenMintAddress: requirements.token_mint_address,
-        },
-      }
+    console.log('🌳 Finding wallet in the latest holder snapshot...');
+    const walletHash = await walletHashField(walletAddress);
+    const merkleProof = await getHolderMerkleProof(
+      walletAddress,
+      walletHash,
+      ruleMintSet(requirements),
+      options
     );
 
-    if (balanceError) {
-      console.error('❌ Backend balance check failed:', balanceError);
-      throw new Error(`Failed to fetch balance: ${balanceError.message}`);
+    // Rules over several mints are proven with multiMintInclusion instead
+    const multiMint = requirements.rule_mode !== 'single';
+    const balances = multiMint ? merkleProof.balances : [merkleProof.balance];
+    if (!balances || balances.length !== requirements.mints.length) {
+      throw new Error('The holder snapshot was taken for a different token rule - ask an admin to build a new one');
     }
 
-    if (!balanceData) {
-      throw new Error('No balance data returned from backend');
+    // Balances and thresholds are all in base units
+    const evaluation = evaluateTokenRule(requirements, balances.map(balance => BigInt(balance)));
+    const requiredThreshold = evaluation.required.toString();
+    if (!evaluation.allowed) {
+      throw new Error(`Insufficient balance in the latest holder snapshot (${formatTokenAmount(evaluation.required, evaluation.decimals)} required)`);
     }
 
-    const actualBalance = Number(balanceData.balance ?? 0);
-    const requiredThreshold = Number(balanceData.required ?? requirements.threshold_amount);
-    
-    console.log(`Balance: ${actualBalance}, Required: ${requiredThreshold}`);
-    
-    if (actualBalance < requiredThreshold) {
-      throw new Error(`Insufficient balance: ${actualBalance} < ${requiredThreshold}`);
-    }
-    
-    // Generate random salt for commitment
-    const salt = BigInt('0x' + Array.from(crypto.getRandomValues(new Uint8Array(32)))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join(''));
-    
-    // Convert balance to integer (handling decimals)
-    const balanceInt = Math.floor(actualBalance);
-    
-    // Calculate commitment: Poseidon(balance, salt)
-    // Note: This would normally use the Poseidon hash from circomlibjs
-    // For now, we'll compute it using the circuit itself
-    // Load Poseidon hash from circomlibjs (browser-safe)
-    // @ts-ignore - Dynamic import
-    const circomlib = await import('circomlibjs');
-    const buildPoseidon = (circomlib as any).buildPoseidon || (circomlib as any).default?.buildPoseidon;
-    if (!buildPoseidon) {
-      throw new Error('circomlibjs.buildPoseidon not available');
+    if (options.signal?.aborted) {
+      throw new ProofCancelledError();
     }
-    const poseidon = await buildPoseidon();
-    const commitmentEl = poseidon([BigInt(balanceInt), salt]);
-    const commitment = poseidon.F.toString(commitmentEl);
+
+    console.log('🎟️ Requesting proof nonce...');
+    const nonce = await requestProofNonce(walletAddress);
     
+    // Tiers apply to single-mint rules, whose snapshot balance is one amount
+    const tiers = multiMint ? [] : await getHolderTiers();
+    const tier = holderTierOf(tiers, BigInt(merkleProof.balance));
+
     // Prepare circuit inputs
-    const input = {
-      actualBalance: balanceInt.toString(),
-      salt: salt.toString(),
-      threshold: requiredThreshold.toString(),
-      commitment: commitment,
+    const path = {
+      identityCommitment: merkleProof.identityCommitment,
+      pathElements: merkleProof.pathElements,
+      pathIndices: merkleProof.pathIndices,
+      root: merkleProof.root,
+      walletHash,
+      nonce,
     };
+    const input = multiMint
+      ? {
+          ...path,
+          ...multiMintRuleInputs(requirements),
+          balances: [...balances, ...Array(MULTI_MINT_SLOTS - balances.length).fill('0')],
+        }
+      : {
+          ...path,
+          balance: merkleProof.balance,
+          threshold: requirements.threshold_base_units,
+          ...(tiers.length > 0 && { tier: tier.toString(), tierBounds: tierBoundInputs(tiers) }),
+        };
     
     console.log('📝 Prepared circuit inputs (private data hidden)');
     
-    // Load circuit files
-    const wasmPath = '/zkp/tokenBalance.wasm';
-    const zkeyPath = '/zkp/tokenBalance_final.zkey';
-    
-    console.log('⚙️  Generating witness...');
+    console.log('⚙️  Generating witness and proof in the prover worker...');
     
-    // Generate witness
-    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-      input,
-      wasmPath,
-      zkeyPath
-    );
+    const circuit = multiMint ? 'multiMintInclusion' : tiers.length > 0 ? 'holderTier' : 'holderInclusion';
+    const { proof, publicSignals, circuitId } = await proveInWorker(circuit, input, options);
     
     console.log('✅ ZK Proof generated successfully!');
     console.log('Public signals:', publicSignals);
@@ -124,18 +175,102 @@ export async function generateTokenBalanceProof(
     return Object.assign({
       proof,
       publicSignals,
+      circuit_id: circuitId,
     }, {
       // Provide derived values for UI/display correctness
-      computedCommitment: commitment,
-      requiredThreshold: requiredThreshold.toString(),
+      requiredThreshold,
+      merkleRoot: merkleProof.root,
+      snapshotId: merkleProof.snapshotId,
+      walletHash,
+      nonce,
+      tier: tiers[tier - 1]?.name ?? null,
     });
     
   } catch (error) {
+    if (error instanceof ProofCancelledError) throw error;
     console.error('❌ Error generating ZK proof:', error);
     throw new Error(`ZK proof generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+export interface AnonymousProofInput {
+  walletAddress: string;
+  identitySecret: string;
+  identityCommitment: string;
+  externalNullifier: string;
+  signalHash: string;
+  messageId: number;
+  messageLimit: number;
+}
+
+/**
+ * Generate an RLN membership proof for an anonymous room: some holder in the
+ * latest snapshot, with balance >= threshold, sent `signalHash` in message
+ * slot `messageId`. The wallet is only used locally to find its leaf; the
+ * proof reveals the nullifier for this room and epoch and one share of the
+ * identity secret. Reusing a slot in the same epoch reveals the secret.
+ */
+export async function generateAnonymousProof(
+  params: AnonymousProofInput,
+  options: ProofOptions = {}
+): Promise<ZKProofData> {
+  console.log('🕶️ Generating anonymous membership proof...');
+
+  try {
+    options.onStage?.('snapshot');
+
+    const requirements = await getTokenRequirements();
+    if (!requirements) {
+      throw new Error('Token requirements not configured');
+    }
+    // rln.circom proves a single balance; there is no multi-mint variant yet
+    if (requirements.rule_mode !== 'single') {
+      throw new Error('Anonymous rooms are not available while the token rule spans several mints');
+    }
+
+    const walletHash = await walletHashField(params.walletAddress);
+    const merkleProof = await getHolderMerkleProof(
+      params.walletAddress,
+      walletHash,
+      ruleMintSet(requirements),
+      options
+    );
+
+    if (merkleProof.identityCommitment !== params.identityCommitment) {
+      throw new Error('Your anonymous identity is not in the latest holder snapshot yet');
+    }
+
+    // Balances and the threshold are both in base units
+    const requiredThreshold = requirements.threshold_base_units;
+    if (BigInt(merkleProof.balance) < BigInt(requiredThreshold)) {
+      throw new Error(`Insufficient balance in the latest holder snapshot (${formatTokenAmount(requiredThreshold, requirements.token_decimals)} required)`);
+    }
+
+    const input = {
+      identitySecret: params.identitySecret,
+      walletHash,
+      balance: merkleProof.balance,
+      pathElements: merkleProof.pathElements,
+      pathIndices: merkleProof.pathIndices,
+      threshold: requiredThreshold,
+      root: merkleProof.root,
+      externalNullifier: params.externalNullifier,
+      signalHash: params.signalHash,
+      messageLimit: params.messageLimit.toString(),
+      messageId: params.messageId.toString(),
+    };
+
+    const { proof, publicSignals, circuitId } = await proveInWorker('rln', input, options);
+
+    console.log('✅ Anonymous proof generated, nullifier:', publicSignals[0]);
+    return { proof, publicSignals, circuit_id: circuitId };
+  } catch (error) {
+    if (error instanceof ProofCancelledError) throw error;
+    console.error('❌ Error generating anonymous proof:', error);
+    throw new Error(`Anonymous proof generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Verify a ZK proof (client-side verification)
  * Backend should also verify!
@@ -146,9 +281,8 @@ export async function verifyTokenBalanceProof(
   try {
     const snarkjs = await loadSnarkJS();
     
-    // Load verification key
-    const vkeyResponse = await fetch('/zkp/verification_key.json');
-    const vkey = await vkeyResponse.json();
+    // The key of the build the proof was made with, from the circuit registry
+    const vkey = await getRegisteredVerificationKey(proofData.circuit_id);
     
     // Verify proof
     const verified = await snarkjs.groth16.verify(
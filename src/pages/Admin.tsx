@@ -1,19 +1,97 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useWallet } from '@/contexts/WalletContext';
-import { isAdmin, getTokenRequirements, TokenRequirement } from '@/lib/tokenGating';
+import {
+  isAdmin,
+  formatTokenAmount,
+  getMintDecimals,
+  getTokenRequirements,
+  parseTokenAmount,
+  ruleMintSet,
+  MULTI_MINT_SLOTS,
+  TokenRequirement,
+  TokenRuleMode,
+} from '@/lib/tokenGating';
+import { rotateRoomKeyAsAdmin } from '@/lib/roomKeys';
+import { DEFAULT_ROOM_ID } from '@/lib/keyring';
+import { AttachmentLimits, getAttachmentLimits, setAttachmentLimitsAsAdmin } from '@/lib/attachments';
+import { HolderSnapshot, buildHolderSnapshotAsAdmin, getLatestHolderSnapshot } from '@/lib/holderSnapshot';
+import { HOLDER_TIER_SLOTS, getHolderTiers } from '@/lib/holderTiers';
+import { CircuitBuild, getCircuitRegistry, registerManifestCircuits, revokeCircuit } from '@/lib/circuits';
+import {
+  QuarantinedMessage,
+  deleteQuarantinedMessage,
+  getQuarantinedMessages,
+  releaseQuarantinedMessage,
+} from '@/lib/quarantine';
+import {
+  ReverificationRun,
+  VerificationFlip,
+  continueReverification,
+  getLatestReverificationRun,
+  getReverificationFlips,
+  resumeReverificationAsAdmin,
+  startReverificationAsAdmin,
+} from '@/lib/reverification';
+import {
+  Ceremony,
+  activateCeremonyAsAdmin,
+  cancelCeremonyAsAdmin,
+  finalizeCeremonyAsAdmin,
+  getCeremonies,
+  openCeremonyAsAdmin,
+} from '@/lib/ceremony';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, ArrowLeft, Upload } from 'lucide-react';
+import { Loader2, ArrowLeft, Upload, RefreshCw, Paperclip, GitBranch, Award, ShieldCheck, Flame } from 'lucide-react';
 import TerminalHeader from '@/components/TerminalHeader';
 import { NavLink } from '@/components/NavLink';
 
+// A mint after the first in a weighted or any-of rule, as typed in the form
+interface RuleMintForm {
+  mint: string;
+  weight: string;
+  threshold: string;
+}
+
+// A holder tier as typed in the form; the minimum is in the gated token's units
+interface HolderTierForm {
+  name: string;
+  minimum: string;
+}
+
+const ruleModes: { mode: TokenRuleMode; label: string }[] = [
+  { mode: 'single', label: '[SINGLE]' },
+  { mode: 'weighted', label: '[WEIGHTED SUM]' },
+  { mode: 'any_of', label: '[ANY OF]' },
+];
+
+const MAX_THRESHOLD = BigInt(2) ** BigInt(64);
+const MAX_WEIGHT = BigInt(2) ** BigInt(32);
+
+// Base units of `text`; the circuits compare 64-bit amounts, and no SPL balance is larger
+function parseThreshold(text: string, decimals: number): bigint {
+  const value = parseTokenAmount(text, decimals);
+  if (value <= BigInt(0) || value >= MAX_THRESHOLD) {
+    throw new Error('Thresholds must be positive and under 2^64 base units');
+  }
+  return value;
+}
+
+function parseWeight(text: string): number {
+  if (!/^\d+$/.test(text.trim()) || BigInt(text.trim()) >= MAX_WEIGHT) {
+    throw new Error('Weights must be whole numbers under 2^32');
+  }
+  return Number(text.trim());
+}
+
 const Admin = () => {
-  const { publicKey } = useWallet();
+  const { publicKey, signMessage } = useWallet();
   const { toast } = useToast();
   const navigate = useNavigate();
   
@@ -22,11 +100,42 @@ const Admin = () => {
   const [authorized, setAuthorized] = useState(false);
   const [tokenMint, setTokenMint] = useState('');
   const [threshold, setThreshold] = useState('');
+  const [ruleMode, setRuleMode] = useState<TokenRuleMode>('single');
+  const [primaryWeight, setPrimaryWeight] = useState('1');
+  const [extraMints, setExtraMints] = useState<RuleMintForm[]>([]);
   const [currentRequirements, setCurrentRequirements] = useState<TokenRequirement | null>(null);
+  const [rotating, setRotating] = useState(false);
+  const [attachmentLimits, setAttachmentLimits] = useState<AttachmentLimits | null>(null);
+  const [maxAttachmentMb, setMaxAttachmentMb] = useState('');
+  const [allowedMimeTypes, setAllowedMimeTypes] = useState('');
+  const [savingLimits, setSavingLimits] = useState(false);
+  const [latestSnapshot, setLatestSnapshot] = useState<HolderSnapshot | null>(null);
+  const [snapshotting, setSnapshotting] = useState(false);
+  const [tierForms, setTierForms] = useState<HolderTierForm[]>([]);
+  const [savingTiers, setSavingTiers] = useState(false);
+  const [circuitBuilds, setCircuitBuilds] = useState<CircuitBuild[]>([]);
+  const [registering, setRegistering] = useState(false);
+  const [quarantined, setQuarantined] = useState<QuarantinedMessage[]>([]);
+  const [reverifyRun, setReverifyRun] = useState<ReverificationRun | null>(null);
+  const [reverifyFlips, setReverifyFlips] = useState<VerificationFlip[]>([]);
+  const [reverifying, setReverifying] = useState(false);
+  // Checked between pages; the run can be resumed later
+  const stopReverifyRef = useRef(false);
+  const [ceremonies, setCeremonies] = useState<Ceremony[]>([]);
+  const [ceremonyCircuit, setCeremonyCircuit] = useState('');
+  const [ceremonyPtauUrl, setCeremonyPtauUrl] = useState('');
+  const [ceremonyFiles, setCeremonyFiles] = useState<{ r1cs?: File; wasm?: File; initialZkey?: File }>({});
+  // Id of the ceremony an action is running for, or 'new' while opening one
+  const [ceremonyBusy, setCeremonyBusy] = useState<string | null>(null);
 
   useEffect(() => {
     checkAdminStatus();
     loadCurrentRequirements();
+    loadAttachmentLimits();
+    loadCircuitRegistry();
+    loadQuarantinedMessages();
+    loadLatestReverification();
+    loadCeremonies();
   }, [publicKey]);
 
   const checkAdminStatus = async () => {
@@ -58,14 +167,69 @@ const Admin = () => {
   const loadCurrentRequirements = async () => {
     const requirements = await getTokenRequirements();
     if (requirements) {
+      const [primary, ...others] = requirements.mints;
       setCurrentRequirements(requirements);
+      setRuleMode(requirements.rule_mode);
       setTokenMint(requirements.token_mint_address);
-      setThreshold(requirements.threshold_amount.toString());
+      setThreshold(formatTokenAmount(
+        requirements.rule_mode === 'any_of' ? primary.threshold_base_units ?? '0' : requirements.threshold_base_units,
+        requirements.token_decimals
+      ));
+      setPrimaryWeight(String(primary.weight));
+      setExtraMints(others.map(mint => ({
+        mint: mint.token_mint_address,
+        weight: String(mint.weight),
+        threshold: mint.threshold_base_units ? formatTokenAmount(mint.threshold_base_units, mint.token_decimals) : '',
+      })));
+      loadLatestSnapshot(ruleMintSet(requirements));
+      loadHolderTiers(requirements.token_decimals);
+    }
+  };
+
+  const loadHolderTiers = async (decimals: number) => {
+    const tiers = await getHolderTiers();
+    setTierForms(tiers.map(tier => ({ name: tier.name, minimum: formatTokenAmount(tier.min_base_units, decimals) })));
+  };
+
+  const loadLatestSnapshot = async (mintSet: string) => {
+    try {
+      setLatestSnapshot(await getLatestHolderSnapshot(mintSet));
+    } catch (error) {
+      console.error('Error loading holder snapshot:', error);
+    }
+  };
+
+  const loadCircuitRegistry = async () => {
+    try {
+      setCircuitBuilds(await getCircuitRegistry());
+    } catch (error) {
+      console.error('Error loading circuit registry:', error);
     }
   };
 
+  const loadAttachmentLimits = async () => {
+    try {
+      const limits = await getAttachmentLimits();
+      setAttachmentLimits(limits);
+      setMaxAttachmentMb((limits.max_size_bytes / (1024 * 1024)).toString());
+      setAllowedMimeTypes(limits.allowed_mime_types.join(', '));
+    } catch (error) {
+      console.error('Error loading attachment limits:', error);
+    }
+  };
+
+  const updateExtraMint = (index: number, field: keyof RuleMintForm, value: string) => {
+    setExtraMints(mints => mints.map((mint, i) => (i === index ? { ...mint, [field]: value } : mint)));
+  };
+
+  const updateTierForm = (index: number, field: keyof HolderTierForm, value: string) => {
+    setTierForms(tiers => tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  };
+
   const handleSave = async () => {
-    if (!tokenMint || !threshold) {
+    const multiMint = ruleMode !== 'single';
+    const ruleMints = multiMint ? extraMints : [];
+    if (!tokenMint || !threshold || ruleMints.some(mint => !mint.mint || !(ruleMode === 'weighted' ? mint.weight : mint.threshold))) {
       toast({
         title: "Validation Error",
         description: "Please fill in all fields",
@@ -74,11 +238,11 @@ const Admin = () => {
       return;
     }
 
-    const thresholdNum = parseFloat(threshold);
-    if (isNaN(thresholdNum) || thresholdNum <= 0) {
+    const addresses = [tokenMint, ...ruleMints.map(mint => mint.mint)];
+    if (new Set(addresses).size !== addresses.length) {
       toast({
         title: "Validation Error",
-        description: "Threshold must be a positive number",
+        description: "Each mint can only appear once in a rule",
         variant: "destructive",
       });
       return;
@@ -86,20 +250,51 @@ const Admin = () => {
 
     setSaving(true);
     try {
-      const { error } = await supabase
-        .from('token_requirements')
-        .update({
-          token_mint_address: tokenMint,
-          threshold_amount: thresholdNum,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', currentRequirements?.id);
+      // Thresholds are stored exactly, in each mint's base units
+      const decimals = await Promise.all(addresses.map(address => getMintDecimals(address)));
+      let rows: { token_mint_address: string; token_decimals: number; weight: number; threshold_base_units: string | null }[];
+      let thresholdBaseUnits: bigint;
+      try {
+        // Weighted thresholds are in the first mint's units: weights say how
+        // many of its base units one base unit of each mint is worth
+        thresholdBaseUnits = parseThreshold(threshold, decimals[0]);
+        rows = addresses.map((address, i) => ({
+          token_mint_address: address,
+          token_decimals: decimals[i],
+          weight: ruleMode === 'weighted' ? parseWeight(i === 0 ? primaryWeight : ruleMints[i - 1].weight) : 1,
+          threshold_base_units: ruleMode === 'any_of'
+            ? (i === 0 ? thresholdBaseUnits : parseThreshold(ruleMints[i - 1].threshold, decimals[i])).toString()
+            : null,
+        }));
+        if (ruleMode === 'weighted' && rows.every(row => row.weight === 0)) {
+          throw new Error('At least one weight must be positive');
+        }
+      } catch (parseError) {
+        toast({
+          title: "Validation Error",
+          description: parseError instanceof Error ? parseError.message : "Invalid threshold",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // One transaction, so a failed save never leaves a half-written rule
+      const { error } = await supabase.rpc('save_token_rule', {
+        requirement_id: currentRequirements?.id,
+        token_mint_address: tokenMint,
+        token_decimals: decimals[0],
+        threshold_base_units: thresholdBaseUnits.toString(),
+        rule_mode: ruleMode,
+        mints: multiMint ? rows : [],
+      });
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Token requirements updated successfully",
+        description: multiMint
+          ? "Token rule updated - build a new holder snapshot so members can prove it"
+          : "Token requirements updated successfully",
       });
 
       loadCurrentRequirements();
@@ -115,36 +310,368 @@ const Admin = () => {
     }
   };
 
-  const handleUploadVerificationKey = async () => {
+  const handleRegisterCircuits = async () => {
+    setRegistering(true);
     try {
-      // Fetch the verification key from public folder
-      const response = await fetch('/zkp/verification_key.json');
-      const vkey = await response.json();
-      
-      // Convert to blob
-      const blob = new Blob([JSON.stringify(vkey)], { type: 'application/json' });
-      
-      // Upload to Supabase storage
-      const { error } = await supabase.storage
-        .from('zkp')
-        .upload('verification_key.json', blob, {
-          upsert: true,
-          contentType: 'application/json'
+      const registered = await registerManifestCircuits();
+
+      toast({
+        title: "Success",
+        description: registered.length > 0
+          ? `Registered ${registered.join(', ')}`
+          : "Every circuit build in the manifest is already registered",
+      });
+
+      loadCircuitRegistry();
+    } catch (error) {
+      console.error('Error registering circuits:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to register circuits",
+        variant: "destructive",
+      });
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  const handleRevokeCircuit = async (circuitId: string) => {
+    try {
+      await revokeCircuit(circuitId);
+
+      toast({
+        title: "Success",
+        description: `${circuitId} revoked - its proofs no longer verify`,
+      });
+
+      loadCircuitRegistry();
+    } catch (error) {
+      console.error('Error revoking circuit:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke circuit",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const loadQuarantinedMessages = async () => {
+    try {
+      setQuarantined(await getQuarantinedMessages());
+    } catch (error) {
+      console.error('Error loading quarantined messages:', error);
+    }
+  };
+
+  const handleReleaseMessage = async (messageId: string) => {
+    try {
+      await releaseQuarantinedMessage(messageId);
+
+      toast({
+        title: "Success",
+        description: "Message released - it shows as unverified in its room",
+      });
+
+      loadQuarantinedMessages();
+    } catch (error) {
+      console.error('Error releasing message:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to release message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteMessage = async (messageId: string) => {
+    try {
+      await deleteQuarantinedMessage(messageId);
+
+      toast({
+        title: "Success",
+        description: "Quarantined message deleted",
+      });
+
+      loadQuarantinedMessages();
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete message",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const loadLatestReverification = async () => {
+    try {
+      const run = await getLatestReverificationRun();
+      setReverifyRun(run);
+      setReverifyFlips(run ? await getReverificationFlips(run.id) : []);
+    } catch (error) {
+      console.error('Error loading re-verification runs:', error);
+    }
+  };
+
+  const handleReverify = async () => {
+    if (!publicKey) return;
+
+    setReverifying(true);
+    stopReverifyRef.current = false;
+    try {
+      // An unfinished run picks up where it stopped
+      let run = reverifyRun?.status === 'running'
+        ? await resumeReverificationAsAdmin(reverifyRun.id, publicKey, signMessage)
+        : await startReverificationAsAdmin(publicKey, signMessage);
+      setReverifyRun(run);
+
+      while (run.status === 'running' && !stopReverifyRef.current) {
+        run = await continueReverification(run.id);
+        setReverifyRun(run);
+      }
+
+      setReverifyFlips(await getReverificationFlips(run.id));
+
+      if (run.status === 'completed') {
+        toast({
+          title: "Success",
+          description: `${run.checked} messages re-verified: ${run.flipped_to_verified} now verified, ${run.flipped_to_failed} now failed`,
         });
+      }
+    } catch (error) {
+      console.error('Error re-verifying messages:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to re-verify messages",
+        variant: "destructive",
+      });
+    } finally {
+      setReverifying(false);
+    }
+  };
 
-      if (error) throw error;
+  const loadCeremonies = async () => {
+    try {
+      setCeremonies(await getCeremonies());
+    } catch (error) {
+      console.error('Error loading ceremonies:', error);
+    }
+  };
+
+  const handleOpenCeremony = async () => {
+    if (!publicKey) return;
+
+    const { r1cs, wasm, initialZkey } = ceremonyFiles;
+    if (!ceremonyCircuit.trim() || !ceremonyPtauUrl.trim() || !r1cs || !wasm || !initialZkey) {
+      toast({
+        title: "Validation Error",
+        description: "Enter the circuit name and Powers of Tau URL and choose the r1cs, wasm and initial zkey",
+        variant: "destructive",
+      });
+      return;
+    }
 
+    setCeremonyBusy('new');
+    try {
+      await openCeremonyAsAdmin(publicKey, signMessage, ceremonyCircuit.trim(), { r1cs, wasm, initialZkey }, ceremonyPtauUrl.trim());
+      setCeremonyFiles({});
       toast({
         title: "Success",
-        description: "Verification key uploaded to storage",
+        description: `Ceremony for ${ceremonyCircuit.trim()} is open for contributions`,
       });
-    } catch (error: any) {
-      console.error('Error uploading verification key:', error);
+    } catch (error) {
+      console.error('Error opening ceremony:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to open ceremony",
+        variant: "destructive",
+      });
+    } finally {
+      setCeremonyBusy(null);
+      loadCeremonies();
+    }
+  };
+
+  const handleCeremonyAction = async (ceremony: Ceremony, action: 'finalize' | 'activate' | 'cancel') => {
+    if (!publicKey) return;
+
+    setCeremonyBusy(ceremony.id);
+    try {
+      let description: string;
+      if (action === 'finalize') {
+        const { position } = await finalizeCeremonyAsAdmin(ceremony.id, publicKey, signMessage);
+        description = `Beacon applied as #${position}. Publish the final zkey and verification key, then activate.`;
+      } else if (action === 'activate') {
+        const circuitId = await activateCeremonyAsAdmin(ceremony.id, publicKey, signMessage);
+        description = `${circuitId} is now the active build`;
+        loadCircuitRegistry();
+      } else {
+        await cancelCeremonyAsAdmin(ceremony.id, publicKey, signMessage);
+        description = `Ceremony for ${ceremony.circuit_name} cancelled`;
+      }
+      toast({ title: "Success", description });
+    } catch (error) {
+      console.error(`Error running ceremony ${action}:`, error);
       toast({
         title: "Error",
-        description: error.message || "Failed to upload verification key",
+        description: error instanceof Error ? error.message : `Failed to ${action} ceremony`,
         variant: "destructive",
       });
+    } finally {
+      setCeremonyBusy(null);
+      loadCeremonies();
+    }
+  };
+
+  const handleRotateRoomKey = async () => {
+    if (!publicKey) return;
+
+    setRotating(true);
+    try {
+      const epoch = await rotateRoomKeyAsAdmin(DEFAULT_ROOM_ID, publicKey, signMessage);
+
+      toast({
+        title: "Success",
+        description: `Room key rotated to epoch ${epoch}`,
+      });
+    } catch (error) {
+      console.error('Error rotating room key:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to rotate room key",
+        variant: "destructive",
+      });
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const handleBuildSnapshot = async () => {
+    if (!publicKey) return;
+
+    setSnapshotting(true);
+    try {
+      const { leafCount } = await buildHolderSnapshotAsAdmin(publicKey, signMessage);
+
+      toast({
+        title: "Success",
+        description: `Holder snapshot published with ${leafCount} holders`,
+      });
+
+      if (currentRequirements) {
+        loadLatestSnapshot(ruleMintSet(currentRequirements));
+      }
+    } catch (error) {
+      console.error('Error building holder snapshot:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to build holder snapshot",
+        variant: "destructive",
+      });
+    } finally {
+      setSnapshotting(false);
+    }
+  };
+
+  const handleSaveTiers = async () => {
+    if (!currentRequirements) return;
+
+    let rows: { position: number; name: string; min_base_units: string }[];
+    try {
+      rows = tierForms.map((tier, i) => {
+        if (!tier.name.trim() || tier.name.trim().length > 24) {
+          throw new Error('Tier names must be 1 to 24 characters');
+        }
+        return {
+          position: i + 1,
+          name: tier.name.trim(),
+          min_base_units: parseThreshold(tier.minimum, currentRequirements.token_decimals).toString(),
+        };
+      });
+      // The circuit counts the boundaries a balance reaches, so tiers must ascend
+      if (rows.some((row, i) => i > 0 && BigInt(row.min_base_units) <= BigInt(rows[i - 1].min_base_units))) {
+        throw new Error('Each tier must start above the one before it');
+      }
+    } catch (parseError) {
+      toast({
+        title: "Validation Error",
+        description: parseError instanceof Error ? parseError.message : "Invalid tiers",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingTiers(true);
+    try {
+      const { error: deleteError } = await supabase
+        .from('holder_tiers')
+        .delete()
+        .gte('position', 1);
+
+      if (deleteError) throw deleteError;
+
+      if (rows.length > 0) {
+        const { error: insertError } = await supabase
+          .from('holder_tiers')
+          .insert(rows);
+
+        if (insertError) throw insertError;
+      }
+
+      toast({
+        title: "Success",
+        description: "Holder tiers updated",
+      });
+
+      loadHolderTiers(currentRequirements.token_decimals);
+    } catch (error) {
+      console.error('Error updating holder tiers:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update holder tiers",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingTiers(false);
+    }
+  };
+
+  const handleSaveAttachmentLimits = async () => {
+    if (!publicKey) return;
+
+    const maxSizeBytes = Math.round(parseFloat(maxAttachmentMb) * 1024 * 1024);
+    const mimeTypes = allowedMimeTypes
+      .split(',')
+      .map((type) => type.trim())
+      .filter(Boolean);
+
+    if (isNaN(maxSizeBytes) || maxSizeBytes <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Maximum size must be a positive number",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingLimits(true);
+    try {
+      const limits = await setAttachmentLimitsAsAdmin(maxSizeBytes, mimeTypes, publicKey, signMessage);
+      setAttachmentLimits(limits);
+
+      toast({
+        title: "Success",
+        description: "Attachment limits updated",
+      });
+    } catch (error) {
+      console.error('Error updating attachment limits:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update attachment limits",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingLimits(false);
     }
   };
 
@@ -198,6 +725,27 @@ const Admin = () => {
               </div>
 
               <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Rule</Label>
+                  <div className="flex gap-2">
+                    {ruleModes.map(({ mode, label }) => (
+                      <Button
+                        key={mode}
+                        variant={ruleMode === mode ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setRuleMode(mode)}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {ruleMode === 'single' && 'Members hold at least the threshold of one token'}
+                    {ruleMode === 'weighted' && `The weighted sum of up to ${MULTI_MINT_SLOTS} tokens reaches the threshold, e.g. a main token and its LP or staked derivative`}
+                    {ruleMode === 'any_of' && `Members hold at least its own threshold of any one of up to ${MULTI_MINT_SLOTS} tokens`}
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="tokenMint">SPL Token Mint Address</Label>
                   <Input
@@ -212,29 +760,101 @@ const Admin = () => {
                   </p>
                 </div>
 
+                {ruleMode === 'weighted' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="primaryWeight">Weight</Label>
+                    <Input
+                      id="primaryWeight"
+                      inputMode="numeric"
+                      value={primaryWeight}
+                      onChange={(e) => setPrimaryWeight(e.target.value)}
+                      className="font-mono text-sm"
+                    />
+                  </div>
+                )}
+
                 <div className="space-y-2">
-                  <Label htmlFor="threshold">Minimum Token Balance</Label>
+                  <Label htmlFor="threshold">
+                    {ruleMode === 'weighted' ? 'Minimum Weighted Balance' : 'Minimum Token Balance'}
+                  </Label>
                   <Input
                     id="threshold"
-                    type="number"
+                    inputMode="decimal"
                     value={threshold}
                     onChange={(e) => setThreshold(e.target.value)}
                     placeholder="Enter minimum balance"
-                    min="0"
-                    step="0.000001"
+                    className="font-mono text-sm"
                   />
                   <p className="text-xs text-muted-foreground">
-                    Minimum number of tokens required to send messages
+                    {ruleMode === 'weighted'
+                      ? 'In units of the token above. A weight is how many of its base units one base unit of that token is worth'
+                      : 'Minimum number of tokens required to send messages, with up to as many decimal places as the token has'}
                   </p>
                 </div>
+
+                {ruleMode !== 'single' && (
+                  <div className="space-y-3">
+                    {extraMints.map((mint, i) => (
+                      <div key={i} className="flex gap-2 items-end">
+                        <div className="flex-1 space-y-2">
+                          <Label htmlFor={`ruleMint${i}`}>Token {i + 2} Mint Address</Label>
+                          <Input
+                            id={`ruleMint${i}`}
+                            value={mint.mint}
+                            onChange={(e) => updateExtraMint(i, 'mint', e.target.value)}
+                            placeholder="Enter SPL token mint address"
+                            className="font-mono text-sm"
+                          />
+                        </div>
+                        <div className="w-40 space-y-2">
+                          <Label htmlFor={`ruleMintValue${i}`}>{ruleMode === 'weighted' ? 'Weight' : 'Minimum Balance'}</Label>
+                          <Input
+                            id={`ruleMintValue${i}`}
+                            inputMode={ruleMode === 'weighted' ? 'numeric' : 'decimal'}
+                            value={ruleMode === 'weighted' ? mint.weight : mint.threshold}
+                            onChange={(e) => updateExtraMint(i, ruleMode === 'weighted' ? 'weight' : 'threshold', e.target.value)}
+                            className="font-mono text-sm"
+                          />
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() => setExtraMints(mints => mints.filter((_, j) => j !== i))}
+                        >
+                          [REMOVE]
+                        </Button>
+                      </div>
+                    ))}
+                    {extraMints.length < MULTI_MINT_SLOTS - 1 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setExtraMints(mints => [...mints, { mint: '', weight: '1', threshold: '' }])}
+                      >
+                        [ADD TOKEN]
+                      </Button>
+                    )}
+                  </div>
+                )}
               </div>
 
               {currentRequirements && (
                 <div className="mt-6 p-4 bg-muted/30 rounded-lg">
                   <h3 className="text-sm font-semibold mb-2">Current Settings</h3>
                   <div className="space-y-1 text-xs text-muted-foreground font-mono">
-                    <p>Token: {currentRequirements.token_mint_address}</p>
-                    <p>Threshold: {currentRequirements.threshold_amount.toLocaleString()}</p>
+                    <p>Rule: {currentRequirements.rule_mode}</p>
+                    {currentRequirements.mints.map(mint => (
+                      <p key={mint.token_mint_address}>
+                        Token: {mint.token_mint_address}
+                        {currentRequirements.rule_mode === 'weighted' && ` × ${mint.weight}`}
+                        {currentRequirements.rule_mode === 'any_of' && mint.threshold_base_units &&
+                          ` ≥ ${formatTokenAmount(mint.threshold_base_units, mint.token_decimals)}`}
+                      </p>
+                    ))}
+                    {currentRequirements.rule_mode !== 'any_of' && (
+                      <p>Threshold: {formatTokenAmount(currentRequirements.threshold_base_units, currentRequirements.token_decimals)} ({currentRequirements.threshold_base_units} base units, {currentRequirements.token_decimals} decimals)</p>
+                    )}
                   </div>
                 </div>
               )}
@@ -257,19 +877,452 @@ const Admin = () => {
 
             <Card className="p-6 space-y-4">
               <div>
-                <h2 className="text-xl font-semibold mb-2">ZK Proof Setup</h2>
+                <h2 className="text-xl font-semibold mb-2">Circuit Registry</h2>
                 <p className="text-sm text-muted-foreground">
-                  Upload the verification key to storage for backend edge function verification
+                  Register the circuit builds in the published manifest after running circuits/setup.sh. New messages need the active build; deprecated builds still verify older messages, revoked builds never verify.
                 </p>
               </div>
+
+              {circuitBuilds.length > 0 && (
+                <div className="p-4 bg-muted/30 rounded-lg space-y-1 text-xs text-muted-foreground font-mono">
+                  {circuitBuilds.map((build) => (
+                    <div key={build.id} className="flex items-center justify-between gap-2">
+                      <span className="break-all">
+                        {build.id} <span className={build.status === 'active' ? 'text-primary' : build.status === 'revoked' ? 'text-destructive' : ''}>[{build.status}]</span>
+                      </span>
+                      {build.status !== 'revoked' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive h-auto p-0 text-xs"
+                          onClick={() => handleRevokeCircuit(build.id)}
+                        >
+                          [REVOKE]
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
               
               <Button
-                onClick={handleUploadVerificationKey}
+                onClick={handleRegisterCircuits}
+                disabled={registering}
                 variant="secondary"
                 className="gap-2"
               >
-                <Upload className="h-4 w-4" />
-                Upload Verification Key to Storage
+                {registering ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4" />
+                )}
+                Register Circuit Builds
+              </Button>
+            </Card>
+
+            <Card className="p-6 space-y-4">
+              <div>
+                <h2 className="text-xl font-semibold mb-2">Quarantined Messages</h2>
+                <p className="text-sm text-muted-foreground">
+                  With PROOF_VERIFICATION_POLICY=quarantine, messages whose proofs don't verify are stored here instead of being rejected. Only admins see them until they are released, and released messages stay marked unverified.
+                </p>
+              </div>
+
+              {quarantined.length > 0 ? (
+                <div className="p-4 bg-muted/30 rounded-lg space-y-1 text-xs text-muted-foreground font-mono">
+                  {quarantined.map((msg) => (
+                    <div key={msg.id} className="flex items-center justify-between gap-2">
+                      <span className="break-all">
+                        {new Date(msg.created_at).toLocaleString()} {msg.room_id} &lt;{msg.wallet_address ?? 'anonymous'}&gt; [{msg.verification_method ?? 'unknown'}]
+                      </span>
+                      <span className="flex gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-primary h-auto p-0 text-xs"
+                          onClick={() => handleReleaseMessage(msg.id)}
+                        >
+                          [RELEASE]
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive h-auto p-0 text-xs"
+                          onClick={() => handleDeleteMessage(msg.id)}
+                        >
+                          [DELETE]
+                        </Button>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground font-mono">No messages are held for review.</p>
+              )}
+            </Card>
+
+            <Card className="p-6 space-y-4">
+              <div>
+                <h2 className="text-xl font-semibold mb-2">Re-verify Messages</h2>
+                <p className="text-sm text-muted-foreground">
+                  Check every stored message's proof again against the circuit build it names, e.g. after revoking a build or fixing a verifier bug. Each check is kept in the verification history, and a message's verified status changes only when its proof can be checked.
+                </p>
+              </div>
+
+              {reverifyRun && (
+                <div className="p-4 bg-muted/30 rounded-lg space-y-2">
+                  <h3 className="text-sm font-semibold">
+                    {reverifyRun.status === 'completed' ? 'Last Run' : 'Current Run'}
+                  </h3>
+                  <Progress value={reverifyRun.total > 0 ? Math.min(100, (reverifyRun.checked / reverifyRun.total) * 100) : 100} />
+                  <div className="space-y-1 text-xs text-muted-foreground font-mono">
+                    <p>Started: {new Date(reverifyRun.started_at).toLocaleString()}</p>
+                    <p>Checked: {reverifyRun.checked} / {reverifyRun.total}</p>
+                    <p>Now verified: {reverifyRun.flipped_to_verified} • Now failed: {reverifyRun.flipped_to_failed} • Skipped: {reverifyRun.skipped}</p>
+                    <p>Verifier: {reverifyRun.verifier_version}</p>
+                  </div>
+
+                  {reverifyFlips.length > 0 && (
+                    <div className="space-y-1 text-xs text-muted-foreground font-mono">
+                      {reverifyFlips.map((flip) => (
+                        <p key={flip.message_id} className="break-all">
+                          {flip.message_id}{' '}
+                          <span className={flip.verified_after ? 'text-primary' : 'text-destructive'}>
+                            [{flip.verified_before ? 'verified' : 'failed'} → {flip.verified_after ? 'verified' : 'failed'}]
+                          </span>{' '}
+                          {flip.result}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleReverify}
+                  disabled={reverifying}
+                  variant="secondary"
+                  className="gap-2"
+                >
+                  {reverifying ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <ShieldCheck className="h-4 w-4" />
+                  )}
+                  {reverifyRun?.status === 'running' ? 'Resume Re-verification' : 'Re-verify All Messages'}
+                </Button>
+                {reverifying && (
+                  <Button variant="ghost" onClick={() => { stopReverifyRef.current = true; }}>
+                    [STOP]
+                  </Button>
+                )}
+              </div>
+            </Card>
+
+            <Card className="p-6 space-y-4">
+              <div>
+                <h2 className="text-xl font-semibold mb-2">Trusted Setup Ceremony</h2>
+                <p className="text-sm text-muted-foreground">
+                  Replace a circuit's single-party setup with a multi-party one. Open a ceremony with the output of <span className="font-mono">circuits/setup.sh --ceremony</span>, let members contribute on the <NavLink to="/ceremony" className="underline">ceremony page</NavLink>, then finalize it with a Solana beacon. Activate only after the final zkey and verification key are published in public/zkp and the manifest is rebuilt.
+                </p>
+              </div>
+
+              {ceremonies.length > 0 && (
+                <div className="p-4 bg-muted/30 rounded-lg space-y-1 text-xs text-muted-foreground font-mono">
+                  {ceremonies.map((ceremony) => (
+                    <div key={ceremony.id} className="flex items-center justify-between gap-2">
+                      <span className="break-all">
+                        {ceremony.circuit_name} [{ceremony.status}] {ceremony.contribution_count} contributions{ceremony.circuit_id ? ` → ${ceremony.circuit_id}` : ''}
+                      </span>
+                      <span className="flex gap-2">
+                        {ceremonyBusy === ceremony.id && <Loader2 className="h-3 w-3 animate-spin" />}
+                        {ceremony.status === 'open' && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-primary h-auto p-0 text-xs"
+                              disabled={!!ceremonyBusy || ceremony.contribution_count === 0}
+                              onClick={() => handleCeremonyAction(ceremony, 'finalize')}
+                            >
+                              [FINALIZE]
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive h-auto p-0 text-xs"
+                              disabled={!!ceremonyBusy}
+                              onClick={() => handleCeremonyAction(ceremony, 'cancel')}
+                            >
+                              [CANCEL]
+                            </Button>
+                          </>
+                        )}
+                        {ceremony.status === 'finalized' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-primary h-auto p-0 text-xs"
+                            disabled={!!ceremonyBusy}
+                            onClick={() => handleCeremonyAction(ceremony, 'activate')}
+                          >
+                            [ACTIVATE]
+                          </Button>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="ceremonyCircuit">Circuit Name</Label>
+                  <Input
+                    id="ceremonyCircuit"
+                    placeholder="holderInclusion"
+                    value={ceremonyCircuit}
+                    onChange={(e) => setCeremonyCircuit(e.target.value)}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ceremonyPtauUrl">Powers of Tau URL</Label>
+                  <Input
+                    id="ceremonyPtauUrl"
+                    placeholder="https://.../powersOfTau28_hez_final_16.ptau"
+                    value={ceremonyPtauUrl}
+                    onChange={(e) => setCeremonyPtauUrl(e.target.value)}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ceremonyR1cs">Circuit (.r1cs)</Label>
+                  <Input
+                    id="ceremonyR1cs"
+                    type="file"
+                    accept=".r1cs"
+                    onChange={(e) => setCeremonyFiles((files) => ({ ...files, r1cs: e.target.files?.[0] }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ceremonyWasm">Witness Generator (.wasm)</Label>
+                  <Input
+                    id="ceremonyWasm"
+                    type="file"
+                    accept=".wasm"
+                    onChange={(e) => setCeremonyFiles((files) => ({ ...files, wasm: e.target.files?.[0] }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ceremonyZkey">Initial zkey (_0000.zkey)</Label>
+                  <Input
+                    id="ceremonyZkey"
+                    type="file"
+                    accept=".zkey"
+                    onChange={(e) => setCeremonyFiles((files) => ({ ...files, initialZkey: e.target.files?.[0] }))}
+                  />
+                </div>
+              </div>
+
+              <Button
+                onClick={handleOpenCeremony}
+                disabled={!!ceremonyBusy}
+                variant="secondary"
+                className="gap-2"
+              >
+                {ceremonyBusy === 'new' ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Flame className="h-4 w-4" />
+                )}
+                Open Ceremony
+              </Button>
+            </Card>
+
+            <Card className="p-6 space-y-4">
+              <div>
+                <h2 className="text-xl font-semibold mb-2">Holder Snapshot</h2>
+                <p className="text-sm text-muted-foreground">
+                  Publish a Merkle tree of all holders of the gated token. Members prove their balance against it locally, and messages are only accepted with proofs against a snapshot from the last 24 hours.
+                </p>
+              </div>
+
+              {latestSnapshot && (
+                <div className="p-4 bg-muted/30 rounded-lg">
+                  <h3 className="text-sm font-semibold mb-2">Latest Snapshot</h3>
+                  <div className="space-y-1 text-xs text-muted-foreground font-mono">
+                    <p>Taken: {new Date(latestSnapshot.created_at).toLocaleString()}</p>
+                    <p>Holders: {latestSnapshot.leaf_count}</p>
+                    <p className="break-all">Root: {latestSnapshot.merkle_root}</p>
+                  </div>
+                </div>
+              )}
+
+              <Button
+                onClick={handleBuildSnapshot}
+                disabled={snapshotting}
+                variant="secondary"
+                className="gap-2"
+              >
+                {snapshotting ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <GitBranch className="h-4 w-4" />
+                )}
+                Build Holder Snapshot
+              </Button>
+            </Card>
+
+            <Card className="p-6 space-y-4">
+              <div>
+                <h2 className="text-xl font-semibold mb-2">Holder Tiers</h2>
+                <p className="text-sm text-muted-foreground">
+                  Badges shown next to messages, lowest tier first. Members prove which tier their snapshot balance is in without revealing it. Tiers apply to single-token rules, in the gated token's units.
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                {tierForms.map((tier, i) => (
+                  <div key={i} className="flex gap-2 items-end">
+                    <div className="flex-1 space-y-2">
+                      <Label htmlFor={`tierName${i}`}>Tier {i + 1} Name</Label>
+                      <Input
+                        id={`tierName${i}`}
+                        value={tier.name}
+                        onChange={(e) => updateTierForm(i, 'name', e.target.value)}
+                        placeholder="e.g. gold"
+                        maxLength={24}
+                      />
+                    </div>
+                    <div className="w-40 space-y-2">
+                      <Label htmlFor={`tierMinimum${i}`}>Minimum Balance</Label>
+                      <Input
+                        id={`tierMinimum${i}`}
+                        inputMode="decimal"
+                        value={tier.minimum}
+                        onChange={(e) => updateTierForm(i, 'minimum', e.target.value)}
+                        className="font-mono text-sm"
+                      />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => setTierForms(tiers => tiers.filter((_, j) => j !== i))}
+                    >
+                      [REMOVE]
+                    </Button>
+                  </div>
+                ))}
+                {tierForms.length < HOLDER_TIER_SLOTS && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setTierForms(tiers => [...tiers, { name: '', minimum: '' }])}
+                  >
+                    [ADD TIER]
+                  </Button>
+                )}
+              </div>
+
+              <Button
+                onClick={handleSaveTiers}
+                disabled={savingTiers || !currentRequirements}
+                variant="secondary"
+                className="gap-2"
+              >
+                {savingTiers ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Award className="h-4 w-4" />
+                )}
+                Save Holder Tiers
+              </Button>
+            </Card>
+
+            <Card className="p-6 space-y-4">
+              <div>
+                <h2 className="text-xl font-semibold mb-2">Room Key Rotation</h2>
+                <p className="text-sm text-muted-foreground">
+                  Start a new key epoch for the chat room. Current holders fetch the new key on their next unlock; earlier epochs stay readable only to wallets that held them.
+                </p>
+              </div>
+
+              <Button
+                onClick={handleRotateRoomKey}
+                disabled={rotating}
+                variant="secondary"
+                className="gap-2"
+              >
+                {rotating ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4" />
+                )}
+                Rotate Room Key
+              </Button>
+            </Card>
+
+            <Card className="p-6 space-y-4">
+              <div>
+                <h2 className="text-xl font-semibold mb-2">Attachment Limits</h2>
+                <p className="text-sm text-muted-foreground">
+                  Maximum file size and allowed file types for encrypted attachments
+                </p>
+              </div>
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="maxAttachmentMb">Maximum Size (MB)</Label>
+                  <Input
+                    id="maxAttachmentMb"
+                    type="number"
+                    value={maxAttachmentMb}
+                    onChange={(e) => setMaxAttachmentMb(e.target.value)}
+                    min="0"
+                    step="0.1"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="allowedMimeTypes">Allowed MIME Types</Label>
+                  <Input
+                    id="allowedMimeTypes"
+                    value={allowedMimeTypes}
+                    onChange={(e) => setAllowedMimeTypes(e.target.value)}
+                    placeholder="image/png, image/jpeg, application/pdf"
+                    className="font-mono text-sm"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Comma-separated. Files of any other type are rejected before upload.
+                  </p>
+                </div>
+              </div>
+
+              {attachmentLimits && (
+                <div className="p-4 bg-muted/30 rounded-lg">
+                  <h3 className="text-sm font-semibold mb-2">Current Settings</h3>
+                  <div className="space-y-1 text-xs text-muted-foreground font-mono">
+                    <p>Max size: {(attachmentLimits.max_size_bytes / (1024 * 1024)).toFixed(1)} MB</p>
+                    <p>Types: {attachmentLimits.allowed_mime_types.join(', ') || 'none'}</p>
+                  </div>
+                </div>
+              )}
+
+              <Button
+                onClick={handleSaveAttachmentLimits}
+                disabled={savingLimits}
+                variant="secondary"
+                className="gap-2"
+              >
+                {savingLimits ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Paperclip className="h-4 w-4" />
+                )}
+                Save Attachment Limits
               </Button>
             </Card>
           </div>
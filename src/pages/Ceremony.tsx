@@ -0,0 +1,308 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import TerminalHeader from "@/components/TerminalHeader";
+import { useWallet } from "@/contexts/WalletContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Ceremony as SetupCeremony,
+  CeremonyContribution,
+  CeremonyStage,
+  ContributionReceipt,
+  ceremonyFileUrl,
+  contributeToCeremony,
+  getCeremonies,
+  getCeremonyContributions,
+} from "@/lib/ceremony";
+import { ArrowLeft, Loader2 } from "lucide-react";
+
+const STAGE_TEXT: Record<CeremonyStage, string> = {
+  claiming: "> claiming the next position...",
+  downloading: "> downloading the latest zkey...",
+  contributing: "> adding your randomness (this can take a few minutes)...",
+  uploading: "> uploading your zkey...",
+  verifying: "> server is verifying your contribution...",
+};
+
+const KIND_LABELS: Record<CeremonyContribution["kind"], string> = {
+  initial: "initial zkey",
+  contribution: "contribution",
+  beacon: "beacon",
+};
+
+const shortWallet = (wallet: string) => `${wallet.substring(0, 4)}...${wallet.substring(wallet.length - 4)}`;
+
+const Ceremony = () => {
+  const { connected, publicKey, signMessage } = useWallet();
+  const { toast } = useToast();
+  const [ceremonies, setCeremonies] = useState<SetupCeremony[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<CeremonyContribution[]>([]);
+  const [name, setName] = useState("");
+  const [entropy, setEntropy] = useState("");
+  const [stage, setStage] = useState<CeremonyStage | null>(null);
+  const [receipt, setReceipt] = useState<ContributionReceipt | null>(null);
+
+  const selected = ceremonies.find((c) => c.id === selectedId) ?? null;
+  const contributed = transcript.some((c) => c.kind === "contribution" && c.wallet_address === publicKey);
+
+  const loadCeremonies = useCallback(async () => {
+    try {
+      const list = await getCeremonies();
+      setCeremonies(list);
+      setSelectedId((current) => current ?? list.find((c) => c.status === "open")?.id ?? list[0]?.id ?? null);
+    } catch (error) {
+      console.error("Error loading ceremonies:", error);
+    }
+  }, []);
+
+  const loadTranscript = useCallback(async (ceremonyId: string) => {
+    try {
+      setTranscript(await getCeremonyContributions(ceremonyId));
+    } catch (error) {
+      console.error("Error loading ceremony transcript:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCeremonies();
+  }, [loadCeremonies]);
+
+  useEffect(() => {
+    if (selectedId) loadTranscript(selectedId);
+  }, [selectedId, loadTranscript]);
+
+  const handleContribute = async () => {
+    if (!selected || !publicKey) return;
+
+    if (!name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Enter a name to show in the transcript",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setReceipt(null);
+    try {
+      const result = await contributeToCeremony(selected.id, publicKey, signMessage, name.trim(), entropy, {
+        onCeremonyStage: setStage,
+      });
+      setReceipt(result);
+      setEntropy("");
+      toast({
+        title: "Success",
+        description: `Contribution #${result.position} verified and added to the transcript`,
+      });
+    } catch (error) {
+      console.error("Error contributing:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to contribute",
+        variant: "destructive",
+      });
+    } finally {
+      setStage(null);
+      loadCeremonies();
+      loadTranscript(selected.id);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background scanlines">
+      <TerminalHeader />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <Link to="/">
+          <Button variant="outline" size="sm" className="mb-6 border-accent text-accent">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Home
+          </Button>
+        </Link>
+
+        <div className="space-y-6">
+          <Card className="border-2 border-primary p-6 bg-card/50">
+            <h1 className="text-3xl text-primary terminal-glow mb-2 font-bold">
+              TRUSTED SETUP CEREMONY
+            </h1>
+            <p className="text-muted-foreground font-mono text-sm">
+              Every proof in the chat relies on a proving key nobody can forge proofs for. Add your own
+              randomness to it: as long as one contributor discards theirs, the key is safe. Your randomness is
+              generated in your browser and never leaves it.
+            </p>
+          </Card>
+
+          {ceremonies.length === 0 ? (
+            <Card className="border border-accent p-6 bg-card/50">
+              <p className="text-muted-foreground font-mono text-sm">
+                <span className="text-accent">&gt;</span> No ceremonies yet.
+              </p>
+            </Card>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {ceremonies.map((c) => (
+                <Button
+                  key={c.id}
+                  variant={c.id === selectedId ? "terminal" : "outline"}
+                  size="sm"
+                  onClick={() => setSelectedId(c.id)}
+                >
+                  {c.circuit_name} [{c.status.toUpperCase()}]
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {selected && (
+            <Card className="border border-accent p-6 bg-card/50">
+              <h2 className="text-xl text-accent terminal-glow-cyan mb-4 font-bold">
+                {selected.circuit_name.toUpperCase()}
+              </h2>
+              <div className="space-y-2 font-mono text-sm break-all">
+                <p className="text-muted-foreground">
+                  <span className="text-accent">&gt;</span> Status: <span className="text-primary">{selected.status}</span>
+                </p>
+                <p className="text-muted-foreground">
+                  <span className="text-accent">&gt;</span> Contributions: {selected.contribution_count}
+                </p>
+                <p className="text-muted-foreground">
+                  <span className="text-accent">&gt;</span> r1cs SHA-256: {selected.r1cs_sha256}
+                </p>
+                <p className="text-muted-foreground">
+                  <span className="text-accent">&gt;</span> Powers of Tau:{" "}
+                  <a href={selected.ptau_url} className="text-accent underline" target="_blank" rel="noopener noreferrer">
+                    {selected.ptau_url}
+                  </a>
+                </p>
+                {selected.beacon_hash && (
+                  <p className="text-muted-foreground">
+                    <span className="text-accent">&gt;</span> Beacon: blockhash of Solana slot {selected.beacon_slot} (
+                    {selected.beacon_hash}), 2^{selected.beacon_iterations_exp} iterations
+                  </p>
+                )}
+                {selected.vkey_path && (
+                  <p className="text-muted-foreground">
+                    <span className="text-accent">&gt;</span> Final:{" "}
+                    <a href={ceremonyFileUrl(selected.final_zkey_path!)} className="text-accent underline">
+                      zkey
+                    </a>{" "}
+                    ({selected.final_zkey_sha256}),{" "}
+                    <a href={ceremonyFileUrl(selected.vkey_path)} className="text-accent underline">
+                      verification key
+                    </a>{" "}
+                    ({selected.vkey_sha256})
+                  </p>
+                )}
+                {selected.circuit_id && (
+                  <p className="text-muted-foreground">
+                    <span className="text-accent">&gt;</span> Active build: <span className="text-primary">{selected.circuit_id}</span>
+                  </p>
+                )}
+              </div>
+            </Card>
+          )}
+
+          {selected?.status === "open" && (
+            <Card className="border-2 border-primary p-6 bg-card/50 space-y-4">
+              <h2 className="text-xl text-primary terminal-glow font-bold">CONTRIBUTE</h2>
+
+              {!connected ? (
+                <p className="text-destructive font-mono text-sm">
+                  ⚠️ Wallet not connected. Please connect your Phantom wallet from the home page.
+                </p>
+              ) : contributed ? (
+                <p className="text-primary font-mono text-sm">✅ Your contribution is in the transcript. Thank you!</p>
+              ) : selected.beacon_hash ? (
+                <p className="text-muted-foreground font-mono text-sm">The ceremony is being finalized.</p>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="ceremony-name" className="font-mono">Name in transcript</Label>
+                    <Input
+                      id="ceremony-name"
+                      value={name}
+                      maxLength={64}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="anon"
+                      className="font-mono"
+                      disabled={!!stage}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ceremony-entropy" className="font-mono">Extra randomness (optional)</Label>
+                    <Textarea
+                      id="ceremony-entropy"
+                      value={entropy}
+                      onChange={(e) => setEntropy(e.target.value)}
+                      placeholder="Mash the keyboard - mixed with your browser's secure random numbers"
+                      className="font-mono"
+                      disabled={!!stage}
+                    />
+                  </div>
+                  <Button variant="terminal" onClick={handleContribute} disabled={!!stage}>
+                    {stage ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    [CONTRIBUTE]
+                  </Button>
+                  {stage && <p className="text-primary font-mono text-sm terminal-glow">{STAGE_TEXT[stage]}</p>}
+                </>
+              )}
+
+              {receipt && (
+                <div className="font-mono text-xs space-y-1 break-all">
+                  <p className="text-primary">Contribution #{receipt.position} hash:</p>
+                  <p className="text-muted-foreground">{receipt.contributionHash}</p>
+                  <p className="text-muted-foreground">Check that the transcript below shows the same hash.</p>
+                </div>
+              )}
+            </Card>
+          )}
+
+          {selected && (
+            <Card className="border border-primary p-6 bg-card/50 space-y-4">
+              <h2 className="text-xl text-primary terminal-glow font-bold">TRANSCRIPT</h2>
+              <p className="text-muted-foreground font-mono text-xs">
+                Every zkey below was verified against the r1cs and the Powers of Tau before it was accepted. Re-check
+                the final one yourself with{" "}
+                <span className="text-accent">snarkjs zkey verify {selected.circuit_name}.r1cs &lt;ptau&gt; &lt;zkey&gt;</span>.
+              </p>
+              {transcript.length === 0 ? (
+                <p className="text-muted-foreground font-mono text-sm">No entries yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {transcript.map((entry) => (
+                    <div key={entry.id} className="border border-border p-3 font-mono text-xs space-y-1 break-all">
+                      <p className="text-primary">
+                        #{entry.position} {KIND_LABELS[entry.kind]} — {entry.name} ({shortWallet(entry.wallet_address)})
+                      </p>
+                      {entry.contribution_hash && (
+                        <p className="text-muted-foreground">Hash: {entry.contribution_hash}</p>
+                      )}
+                      <p className="text-muted-foreground">
+                        <a href={ceremonyFileUrl(entry.zkey_path)} className="text-accent underline">
+                          zkey
+                        </a>{" "}
+                        SHA-256: {entry.zkey_sha256}
+                      </p>
+                      <p className="text-muted-foreground">{new Date(entry.created_at).toLocaleString()}</p>
+                      <details>
+                        <summary className="cursor-pointer text-accent">Verification log</summary>
+                        <pre className="whitespace-pre-wrap text-muted-foreground mt-2">{entry.verification_log}</pre>
+                      </details>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Ceremony;
@@ -5,32 +5,96 @@ import { Input } from "@/components/ui/input";
 import TerminalHeader from "@/components/TerminalHeader";
 import ProofAnimation from "@/components/ProofAnimation";
 import ProofDetails from "@/components/ProofDetails";
+import DirectMessagePanel from "@/components/DirectMessagePanel";
+import PrivateGroupPanel from "@/components/PrivateGroupPanel";
+import AttachmentPreview from "@/components/AttachmentPreview";
+import KeystorePanel from "@/components/KeystorePanel";
+import AnonymousPanel from "@/components/AnonymousPanel";
 import { useWallet } from "@/contexts/WalletContext";
 import { useRealtimeMessages } from "@/hooks/useRealtimeMessages";
 import { useToast } from "@/hooks/use-toast";
 import { useTokenBalance } from "@/hooks/useTokenBalance";
-import { isAdmin } from "@/lib/tokenGating";
+import { useRoomKeys } from "@/hooks/useRoomKeys";
+import { formatTokenAmount, isAdmin } from "@/lib/tokenGating";
+import { DEFAULT_ROOM_ID } from "@/lib/keyring";
+import { isLegacyEncrypted } from "@/lib/encryption";
+import { PrivateGroup, groupRoomId } from "@/lib/privateGroups";
+import { AttachmentRef, formatBytes, uploadAttachment } from "@/lib/attachments";
+import {
+  AnonymousIdentity,
+  DEFAULT_ANON_ROOM_ID,
+  deriveAnonymousIdentity,
+  pseudonymFromNullifier,
+} from "@/lib/anonymous";
+import { ProofCancelledError, ProofStage } from "@/lib/prover";
+import { SendMessageError, proofErrorTitle } from "@/lib/proofErrors";
+
+const MAX_PENDING_ATTACHMENTS = 10;
+
+// Stored under the "quarantine" verification policy, hidden until an admin releases it
+const QUARANTINED_TOAST = {
+  title: "Message Held for Review",
+  description: "Its proof could not be verified, so an admin has to release it",
+  variant: "destructive" as const,
+};
 
 const Chat = () => {
   const [message, setMessage] = useState("");
   const [showProofAnimation, setShowProofAnimation] = useState(false);
+  const [proofStage, setProofStage] = useState<ProofStage | null>(null);
+  const [artifactDownload, setArtifactDownload] = useState<{ loaded: number; total: number } | null>(null);
   const [selectedProof, setSelectedProof] = useState<string | null>(null);
   const [showBlockchainAnimation, setShowBlockchainAnimation] = useState(false);
   const [isUserAdmin, setIsUserAdmin] = useState(false);
+  const [view, setView] = useState<"lobby" | "anon" | "groups" | "direct" | "keys">("lobby");
+  const [selectedGroup, setSelectedGroup] = useState<PrivateGroup | null>(null);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [anonIdentity, setAnonIdentity] = useState<AnonymousIdentity | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const proofAbortRef = useRef<AbortController | null>(null);
   
-  const { wallet, connected, publicKey } = useWallet();
-  const { messages, loading, sendMessage } = useRealtimeMessages();
+  const { wallet, connected, publicKey, signMessage } = useWallet();
   const { toast } = useToast();
   
   // Real-time token balance monitoring
   const { 
     balance: tokenBalance, 
     required: tokenRequired, 
+    decimals: tokenDecimals,
     hasAccess, 
     loading: balanceLoading 
   } = useTokenBalance(publicKey);
 
+  const {
+    identity,
+    ready: keysReady,
+    unlocking: keysUnlocking,
+    error: keysError,
+    epoch: keyEpoch,
+    keyringVersion,
+    unlock: unlockKeys,
+    unlockWithPassphrase,
+  } = useRoomKeys(publicKey, signMessage, hasAccess);
+
+  // Group messages are wrapped per message, so they only need the member identity.
+  // Anonymous messages use the lobby key plus an identity derived from the member's.
+  const inGroup = view === "groups" && selectedGroup !== null;
+  const inAnon = view === "anon";
+  const roomId = inGroup ? groupRoomId(selectedGroup.id) : inAnon ? DEFAULT_ANON_ROOM_ID : DEFAULT_ROOM_ID;
+  const keysLocked = inGroup ? !identity : inAnon ? !keysReady || !anonIdentity : !keysReady;
+  const { messages, loading, sendMessage, sendAnonymousMessage } = useRealtimeMessages(roomId, keyringVersion);
+
+  useEffect(() => {
+    if (!identity) {
+      setAnonIdentity(null);
+      return;
+    }
+    deriveAnonymousIdentity(identity)
+      .then(setAnonIdentity)
+      .catch((error) => console.error('Error deriving anonymous identity:', error));
+  }, [identity]);
+
   useEffect(() => {
     // Auto-scroll to bottom when new messages arrive
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -48,12 +112,12 @@ const Chat = () => {
       if (!hasAccess) {
         toast({
           title: "Insufficient Token Balance",
-          description: `You need ${tokenRequired.toLocaleString()} tokens to send messages. Current balance: ${tokenBalance.toLocaleString()}`,
+          description: `You need ${formatTokenAmount(tokenRequired, tokenDecimals)} tokens to send messages. Current balance: ${formatTokenAmount(tokenBalance, tokenDecimals)}`,
           variant: "destructive",
         });
       }
     }
-  }, [hasAccess, tokenBalance, tokenRequired, balanceLoading]);
+  }, [hasAccess, tokenBalance, tokenRequired, tokenDecimals, balanceLoading]);
 
   const checkAdminStatus = async () => {
     if (!publicKey) return;
@@ -66,8 +130,39 @@ const Chat = () => {
     }
   };
 
+  const handleSelectFiles = (files: FileList | null) => {
+    if (!files) return;
+    setPendingFiles((current) => [...current, ...Array.from(files)].slice(0, MAX_PENDING_ATTACHMENTS));
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  // Starts a cancellable proof: the animation follows the worker's stages
+  const startProof = () => {
+    const controller = new AbortController();
+    proofAbortRef.current = controller;
+    setProofStage(null);
+    setArtifactDownload(null);
+    setShowProofAnimation(true);
+    return {
+      onStage: setProofStage,
+      onDownload: (loaded: number, total: number) => setArtifactDownload({ loaded, total }),
+      signal: controller.signal,
+    };
+  };
+
+  const handleCancelProof = () => {
+    proofAbortRef.current?.abort();
+  };
+
+  const handleProofCancelled = () => {
+    toast({
+      title: "Message Cancelled",
+      description: "Proof generation was stopped and nothing was sent",
+    });
+  };
+
   const handleSendMessage = async () => {
-    if (!message.trim()) return;
+    if (!message.trim() && pendingFiles.length === 0) return;
     if (!connected || !publicKey || !wallet) {
       toast({
         title: "Wallet Not Connected",
@@ -78,8 +173,8 @@ const Chat = () => {
     }
 
     if (!hasAccess) {
-      const requiredText = tokenRequired != null ? tokenRequired.toLocaleString() : 'the required';
-      const balanceText = tokenBalance != null ? tokenBalance.toLocaleString() : '0';
+      const requiredText = tokenRequired != null ? formatTokenAmount(tokenRequired, tokenDecimals) : 'the required';
+      const balanceText = tokenBalance != null ? formatTokenAmount(tokenBalance, tokenDecimals) : '0';
       toast({
         title: "Access Denied",
         description: `You need ${requiredText} tokens to send messages. Current balance: ${balanceText}`,
@@ -87,8 +182,31 @@ const Chat = () => {
       });
       return;
     }
+
+    if (view === "groups" && !selectedGroup) {
+      toast({
+        title: "No Group Selected",
+        description: "Select or create a private group first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (keysLocked) {
+      toast({
+        title: "Chat Keys Locked",
+        description: keysError ?? "Unlock your chat keys before sending messages",
+        variant: "destructive",
+      });
+      return;
+    }
     
-    setShowProofAnimation(true);
+    if (inAnon) {
+      await handleSendAnonymousMessage();
+      return;
+    }
+
+    const proofOptions = startProof();
     
     try {
       // Generate REAL ZK proof
@@ -99,38 +217,55 @@ const Chat = () => {
         description: "This may take 3-5 seconds...",
       });
       
-      const zkProof = await generateTokenBalanceProof(publicKey.toString());
+      const zkProof = await generateTokenBalanceProof(publicKey.toString(), proofOptions);
       
-      const derivedThreshold = (zkProof as any)?.requiredThreshold ?? zkProof.publicSignals?.[0];
-      const derivedCommitment = (zkProof as any)?.computedCommitment ?? zkProof.publicSignals?.[1];
+      const derivedThreshold = zkProof.requiredThreshold;
+      const derivedRoot = zkProof.merkleRoot;
       
       console.log('🔍 ZK Proof publicSignals from circuit:', zkProof.publicSignals);
       console.log('📊 derived threshold:', derivedThreshold);
-      console.log('📊 derived commitment:', derivedCommitment);
+      console.log('📊 derived snapshot root:', derivedRoot);
       
       const proofData = {
         proof: zkProof.proof,
         publicSignals: zkProof.publicSignals, // Include the full public signals array
+        circuit_id: zkProof.circuit_id,
         publicInputs: {
           threshold: String(derivedThreshold),
-          commitment: String(derivedCommitment),
+          root: String(derivedRoot),
+          snapshotId: zkProof.snapshotId,
           timestamp: Date.now(),
           walletAddress: publicKey,
+          walletHash: zkProof.walletHash,
+          nonce: zkProof.nonce,
+          tier: zkProof.tier ?? undefined,
         },
       };
       
       console.log('📦 Final proofData being sent:', proofData);
 
       // Show blockchain animation
-      setTimeout(() => {
-        setShowProofAnimation(false);
-        setShowBlockchainAnimation(true);
-      }, 3000);
+      proofAbortRef.current = null;
+      setShowProofAnimation(false);
+      setShowBlockchainAnimation(true);
+
+      // Files are encrypted and uploaded first; only their keys go into the message
+      const attachments: AttachmentRef[] = [];
+      for (const file of pendingFiles) {
+        attachments.push(await uploadAttachment(file, publicKey, signMessage));
+      }
 
-      await sendMessage(wallet, message, proofData);
+      const sent = await sendMessage(wallet, message, proofData, attachments);
       
       setMessage("");
+      setPendingFiles([]);
       
+      if (sent?.quarantined) {
+        setShowBlockchainAnimation(false);
+        toast(QUARANTINED_TOAST);
+        return;
+      }
+
       setTimeout(() => setShowBlockchainAnimation(false), 4000);
       
       toast({
@@ -138,17 +273,76 @@ const Chat = () => {
         description: "Your message has been encrypted, verified, and logged to Solana Mainnet",
       });
     } catch (error) {
-      console.error('Failed to send message:', error);
       setShowProofAnimation(false);
       setShowBlockchainAnimation(false);
+      if (error instanceof ProofCancelledError) {
+        handleProofCancelled();
+        return;
+      }
+      console.error('Failed to send message:', error);
+      toast({
+        title: error instanceof SendMessageError ? proofErrorTitle(error.code) : "Failed to Send",
+        description: error instanceof Error ? error.message : "Could not send message. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // No wallet, attachments or Solana memo: the membership proof is all the server sees
+  const handleSendAnonymousMessage = async () => {
+    if (!publicKey || !anonIdentity) return;
+
+    if (pendingFiles.length > 0) {
+      toast({
+        title: "Attachments Not Allowed",
+        description: "Anonymous rooms don't accept attachments",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const proofOptions = startProof();
+
+    try {
+      toast({
+        title: "Generating Membership Proof",
+        description: "This may take 3-5 seconds...",
+      });
+
+      const sent = await sendAnonymousMessage(publicKey, anonIdentity, message, proofOptions);
+
+      setMessage("");
+      setShowProofAnimation(false);
+
+      if (sent.quarantined) {
+        toast(QUARANTINED_TOAST);
+        return;
+      }
+
       toast({
-        title: "Failed to Send",
+        title: "Anonymous Message Sent ✅",
+        description: "Your message was verified without revealing your wallet",
+      });
+    } catch (error) {
+      setShowProofAnimation(false);
+      if (error instanceof ProofCancelledError) {
+        handleProofCancelled();
+        return;
+      }
+      console.error('Failed to send anonymous message:', error);
+      toast({
+        title: error instanceof SendMessageError ? proofErrorTitle(error.code) : "Failed to Send",
         description: error instanceof Error ? error.message : "Could not send message. Please try again.",
         variant: "destructive",
       });
     }
   };
 
+  const formatAuthor = (msg: { wallet_address: string | null; nullifier: string | null }) => {
+    if (msg.wallet_address) return formatWalletAddress(msg.wallet_address);
+    return msg.nullifier ? `🕶️ ${pseudonymFromNullifier(msg.nullifier)}` : 'unknown';
+  };
+
   const formatWalletAddress = (address: string) => {
     return `${address.substring(0, 4)}...${address.substring(address.length - 4)}`;
   };
@@ -184,137 +378,326 @@ const Chat = () => {
               </Button>
             </Link>
           )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className={view === "lobby" ? "text-primary" : "text-muted-foreground hover:text-primary"}
+            onClick={() => setView("lobby")}
+          >
+            [LOBBY]
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={view === "anon" ? "text-primary" : "text-muted-foreground hover:text-primary"}
+            onClick={() => setView("anon")}
+            disabled={!connected}
+          >
+            [ANON]
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={view === "groups" ? "text-primary" : "text-muted-foreground hover:text-primary"}
+            onClick={() => setView("groups")}
+            disabled={!connected}
+          >
+            [GROUPS]
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={view === "direct" ? "text-primary" : "text-muted-foreground hover:text-primary"}
+            onClick={() => setView("direct")}
+            disabled={!connected}
+          >
+            [DIRECT]
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={view === "keys" ? "text-primary" : "text-muted-foreground hover:text-primary"}
+            onClick={() => setView("keys")}
+            disabled={!connected}
+          >
+            [KEYS]
+          </Button>
           <div className="ml-auto text-primary font-mono text-sm flex items-center gap-4">
-            {connected && tokenRequired && (
+            {connected && !!tokenRequired && (
               <span className={hasAccess ? "text-primary" : "text-destructive"}>
-                {hasAccess ? "✅" : "❌"} {tokenBalance?.toLocaleString()}/{tokenRequired.toLocaleString()} tokens
+                {hasAccess ? "✅" : "❌"} {formatTokenAmount(tokenBalance ?? BigInt(0), tokenDecimals)}/{formatTokenAmount(tokenRequired, tokenDecimals)} tokens
               </span>
             )}
+            {keysReady && keyEpoch !== null && (
+              <span className="text-muted-foreground">🔑 epoch {keyEpoch}</span>
+            )}
             <span className="text-accent">&gt;</span> WALLET: {connected ? formatWalletAddress(publicKey || '') : 'NOT CONNECTED'}
           </div>
         </div>
 
-        {/* Chat messages area */}
-        <div className="flex-1 border-2 border-primary bg-card/30 p-4 overflow-y-auto mb-4 space-y-4 font-mono text-sm">
-          <div className="text-accent border-b border-accent pb-2 mb-4">
-            <pre className="text-xs">
+        {view === "direct" ? (
+          <DirectMessagePanel
+            identity={identity}
+            signMessage={signMessage}
+            unlocking={keysUnlocking}
+            onUnlock={unlockKeys}
+          />
+        ) : (
+          <>
+            {view === "keys" && publicKey && (
+              <KeystorePanel
+                walletAddress={publicKey}
+                unlocking={keysUnlocking}
+                onUnlock={unlockKeys}
+                onUnlockWithPassphrase={unlockWithPassphrase}
+              />
+            )}
+            {view === "anon" && publicKey && (
+              <AnonymousPanel
+                walletAddress={publicKey}
+                anonIdentity={anonIdentity}
+                signMessage={signMessage}
+                unlocking={keysUnlocking}
+                onUnlock={unlockKeys}
+              />
+            )}
+            {view === "groups" && publicKey && (
+              <PrivateGroupPanel
+                walletAddress={publicKey}
+                signMessage={signMessage}
+                selectedGroup={selectedGroup}
+                onSelectGroup={setSelectedGroup}
+              />
+            )}
+
+            {/* Chat messages area */}
+            <div className="flex-1 border-2 border-primary bg-card/30 p-4 overflow-y-auto mb-4 space-y-4 font-mono text-sm">
+              <div className="text-accent border-b border-accent pb-2 mb-4">
+                <pre className="text-xs">
 {`====================================
    SNARK // Zero-Knowledge Chat
    🔴 LIVE // Real-time enabled
 ====================================`}
-            </pre>
-          </div>
+                </pre>
+              </div>
 
-          {loading ? (
-            <div className="text-primary text-center">
-              <span className="text-accent">&gt;</span> Loading messages...
-            </div>
-          ) : messages.length === 0 ? (
-            <div className="text-muted-foreground text-center">
-              <span className="text-accent">&gt;</span> No messages yet. Be the first to send one!
-            </div>
-          ) : (
-            messages.map((msg) => {
-              try {
-                return (
-                  <div key={msg.id} className="border border-primary/50 p-3 bg-background/50">
-                    <div className="flex items-start justify-between mb-2">
-                      <span className="text-primary">
-                        [{formatTime(msg.created_at)}] &lt;{formatWalletAddress(msg.wallet_address)}&gt;
-                      </span>
-                      <span className={msg.verified ? "text-primary" : "text-destructive"}>
-                        {msg.verified ? "✅ verified" : "❌ failed"}
-                      </span>
-                    </div>
-                    <div className="text-foreground mb-2">{msg.decryptedContent}</div>
-                    <div className="text-xs text-muted-foreground space-y-1">
-                      <div>Proof: {msg.proof_data?.proof ? '✅ Generated' : 'N/A'}</div>
-                      {msg.proof_data?.publicInputs?.commitment && (
-                        <div className="text-muted-foreground">
-                          Commitment: {String(msg.proof_data.publicInputs.commitment).slice(0, 18)}...
+              {view === "groups" && !selectedGroup ? (
+                <div className="text-muted-foreground text-center">
+                  <span className="text-accent">&gt;</span> Select or create a private group to start chatting.
+                </div>
+              ) : loading ? (
+                <div className="text-primary text-center">
+                  <span className="text-accent">&gt;</span> Loading messages...
+                </div>
+              ) : messages.length === 0 ? (
+                <div className="text-muted-foreground text-center">
+                  <span className="text-accent">&gt;</span> No messages yet. Be the first to send one!
+                </div>
+              ) : (
+                messages.map((msg) => {
+                  try {
+                    return (
+                      <div key={msg.id} className="border border-primary/50 p-3 bg-background/50">
+                        <div className="flex items-start justify-between mb-2">
+                          <span className="text-primary">
+                            [{formatTime(msg.created_at)}] &lt;{formatAuthor(msg)}&gt;
+                            {msg.holder_tier && (
+                              <span className="ml-2 text-accent" title="Holder tier, proven without revealing the balance">
+                                [{msg.holder_tier.toUpperCase()}]
+                              </span>
+                            )}
+                          </span>
+                          <span className="flex gap-3">
+                            {msg.signatureStatus === "invalid" && (
+                              <span className="text-destructive" title="The author signature does not match this message">
+                                ⚠️ signature mismatch
+                              </span>
+                            )}
+                            {msg.signatureStatus === "unsigned" && msg.wallet_address && (
+                              <span className="text-muted-foreground">unsigned</span>
+                            )}
+                            {isLegacyEncrypted(msg.encrypted_content) && (
+                              <span className="text-destructive" title="Encrypted with the old shared key, which anyone can derive - this message is not private">
+                                🔓 unprotected
+                              </span>
+                            )}
+                            {msg.quarantined && (
+                              <span className="text-destructive" title="Only admins see this message until it is released">
+                                🚫 quarantined
+                              </span>
+                            )}
+                            {msg.verified ? (
+                              <span className="text-primary">
+                                ✅ verified{msg.verification_method && ` (${msg.verification_method})`}
+                              </span>
+                            ) : msg.verification_method === "structural" ? (
+                              <span className="text-accent" title="The verifier was unavailable, so only the public signals were checked">
+                                ⚠️ unverified
+                              </span>
+                            ) : (
+                              <span className="text-destructive">❌ failed</span>
+                            )}
+                          </span>
                         </div>
-                      )}
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="text-accent hover:text-accent h-auto p-0 text-xs"
-                        onClick={() => setSelectedProof(selectedProof === msg.id ? null : msg.id)}
-                      >
-                        [{selectedProof === msg.id ? "Hide" : "Show"} Proof Details]
-                      </Button>
-                      {selectedProof === msg.id && (
-                        <div className="mt-2">
-                          <ProofDetails 
-                            proofData={msg.proof_data}
-                            verified={msg.verified}
-                            timestamp={msg.created_at}
-                            walletAddress={msg.wallet_address}
-                            blockchainTxHash={msg.blockchain_tx_hash}
-                          />
+                        {msg.decryptedContent && (
+                          <div className="text-foreground mb-2">{msg.decryptedContent}</div>
+                        )}
+                        {msg.attachments.length > 0 && (
+                          <div className="space-y-2 mb-2">
+                            {msg.attachments.map((attachment) => (
+                              <AttachmentPreview key={attachment.hash} attachment={attachment} />
+                            ))}
+                          </div>
+                        )}
+                        <div className="text-xs text-muted-foreground space-y-1">
+                          <div>Proof: {msg.proof_data?.proof ? '✅ Generated' : 'N/A'}</div>
+                          {msg.proof_data?.publicInputs?.root ? (
+                            <div className="text-muted-foreground">
+                              Snapshot Root: {String(msg.proof_data.publicInputs.root).slice(0, 18)}...
+                            </div>
+                          ) : msg.proof_data?.publicInputs?.commitment && (
+                            <div className="text-muted-foreground">
+                              Commitment: {String(msg.proof_data.publicInputs.commitment).slice(0, 18)}...
+                            </div>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-accent hover:text-accent h-auto p-0 text-xs"
+                            onClick={() => setSelectedProof(selectedProof === msg.id ? null : msg.id)}
+                          >
+                            [{selectedProof === msg.id ? "Hide" : "Show"} Proof Details]
+                          </Button>
+                          {selectedProof === msg.id && (
+                            <div className="mt-2">
+                              <ProofDetails 
+                                proofData={msg.proof_data}
+                                verified={msg.verified}
+                                timestamp={msg.created_at}
+                                walletAddress={msg.wallet_address ?? formatAuthor(msg)}
+                                holderTier={msg.holder_tier}
+                                verificationMethod={msg.verification_method}
+                                blockchainTxHash={msg.blockchain_tx_hash}
+                              />
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                  </div>
-                );
-              } catch (error) {
-                console.error('Error rendering message:', msg.id, error);
-                return (
-                  <div key={msg.id} className="border border-destructive/50 p-3 bg-background/50">
-                    <div className="text-destructive text-xs">
-                      ⚠️ Error displaying message
-                    </div>
-                  </div>
-                );
-              }
-            })
-          )}
+                      </div>
+                    );
+                  } catch (error) {
+                    console.error('Error rendering message:', msg.id, error);
+                    return (
+                      <div key={msg.id} className="border border-destructive/50 p-3 bg-background/50">
+                        <div className="text-destructive text-xs">
+                          ⚠️ Error displaying message
+                        </div>
+                      </div>
+                    );
+                  }
+                })
+              )}
 
-          {showProofAnimation && (
-            <div className="border-2 border-accent p-4 bg-card/80">
-              <ProofAnimation type="generate" />
-            </div>
-          )}
+              {showProofAnimation && (
+                <div className="border-2 border-accent p-4 bg-card/80">
+                  <ProofAnimation
+                    type="generate"
+                    stage={proofStage}
+                    download={artifactDownload}
+                    onCancel={handleCancelProof}
+                  />
+                </div>
+              )}
 
-          {showBlockchainAnimation && (
-            <div className="border-2 border-primary p-4 bg-card/80">
-              <ProofAnimation type="blockchain" />
+              {showBlockchainAnimation && (
+                <div className="border-2 border-primary p-4 bg-card/80">
+                  <ProofAnimation type="blockchain" />
+                </div>
+              )}
+              
+              <div ref={messagesEndRef} />
             </div>
-          )}
-          
-          <div ref={messagesEndRef} />
-        </div>
 
-        {/* Input area */}
-        <div className="border-2 border-primary bg-card/50 p-4">
-          <div className="flex gap-2">
-            <div className="flex-1 relative">
-              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-accent font-mono">&gt;</span>
-              <Input
-                value={message}
-                onChange={(e) => setMessage(e.target.value)}
-                onKeyDown={(e) => e.key === "Enter" && handleSendMessage()}
-                placeholder={connected ? "type your message" : "connect wallet first"}
-                className="pl-8 bg-input border-primary font-mono text-foreground placeholder:text-muted-foreground"
-                disabled={showProofAnimation || !connected}
-              />
+            {/* Input area */}
+            <div className="border-2 border-primary bg-card/50 p-4">
+              {connected && keysLocked && (
+                <div className="flex items-center justify-between gap-2 mb-3 font-mono text-xs">
+                  <span className={keysError ? "text-destructive" : "text-muted-foreground"}>
+                    <span className="text-accent">&gt;</span> {keysError ?? "Room keys locked. Sign once with your wallet to derive your encryption key."}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-accent hover:text-accent h-auto p-0 text-xs"
+                    onClick={unlockKeys}
+                    disabled={keysUnlocking}
+                  >
+                    {keysUnlocking ? "[UNLOCKING...]" : "[UNLOCK KEYS]"}
+                  </Button>
+                </div>
+              )}
+              {pendingFiles.length > 0 && (
+                <div className="flex flex-wrap gap-3 mb-3 font-mono text-xs">
+                  {pendingFiles.map((file, index) => (
+                    <span key={`${file.name}-${index}`} className="text-muted-foreground">
+                      📎 {file.name} ({formatBytes(file.size)})
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive h-auto p-0 ml-1 text-xs"
+                        onClick={() => setPendingFiles((current) => current.filter((_, i) => i !== index))}
+                      >
+                        [x]
+                      </Button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => handleSelectFiles(e.target.files)}
+                />
+                <Button
+                  variant="ghost"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={showProofAnimation || !connected || inAnon || pendingFiles.length >= MAX_PENDING_ATTACHMENTS}
+                  className="text-accent hover:text-accent font-mono"
+                >
+                  [ATTACH]
+                </Button>
+                <div className="flex-1 relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-accent font-mono">&gt;</span>
+                  <Input
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleSendMessage()}
+                    placeholder={connected ? "type your message" : "connect wallet first"}
+                    className="pl-8 bg-input border-primary font-mono text-foreground placeholder:text-muted-foreground"
+                    disabled={showProofAnimation || !connected}
+                  />
+                </div>
+                <Button
+                  variant="terminal"
+                  onClick={handleSendMessage}
+                  disabled={showProofAnimation || !connected}
+                >
+                  [SEND]
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground mt-2 font-mono">
+                <span className="text-accent">&gt;</span> Press Enter to send • Messages and attachments are encrypted and verified with ZK proofs • Logged to Solana Mainnet
+                {connected && !!tokenRequired && (
+                  <span className={hasAccess ? "text-primary" : "text-destructive"}>
+                    {" • "}Token Gated: {formatTokenAmount(tokenBalance ?? BigInt(0), tokenDecimals)}/{formatTokenAmount(tokenRequired, tokenDecimals)} required
+                  </span>
+                )}
+              </p>
             </div>
-            <Button
-              variant="terminal"
-              onClick={handleSendMessage}
-              disabled={showProofAnimation || !connected}
-            >
-              [SEND]
-            </Button>
-          </div>
-          <p className="text-xs text-muted-foreground mt-2 font-mono">
-            <span className="text-accent">&gt;</span> Press Enter to send • Messages are encrypted and verified with ZK proofs • Logged to Solana Mainnet
-            {connected && tokenRequired && (
-              <span className={hasAccess ? "text-primary" : "text-destructive"}>
-                {" • "}Token Gated: {tokenBalance?.toLocaleString()}/{tokenRequired.toLocaleString()} required
-              </span>
-            )}
-          </p>
-        </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -99,6 +99,11 @@ const Index = () => {
                       [ON-CHAIN]
                     </Button>
                   </Link>
+                  <Link to="/ceremony" className="flex-1">
+                    <Button variant="outline" size="lg" className="w-full border-primary text-primary">
+                      [CEREMONY]
+                    </Button>
+                  </Link>
                   {isUserAdmin && (
                     <Link to="/admin" className="flex-1">
                       <Button variant="outline" size="lg" className="w-full border-accent text-accent">
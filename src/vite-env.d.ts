@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+// snarkjs ships no type declarations for the browser build
+declare module 'snarkjs';
@@ -0,0 +1,102 @@
+import * as snarkjs from 'snarkjs';
+import type { MerklePathResult, ProofStage, ProverRequest, ProverResponse } from '@/lib/prover';
+import { getPoseidon, poseidonHash } from '@/lib/poseidon';
+import { loadCircuitArtifacts } from '@/lib/zkArtifacts';
+
+/**
+ * Prover worker, driven by src/lib/prover.ts. Jobs run one at a time in the
+ * order they arrive; each reports its stages and then one result or error.
+ */
+
+function send(response: ProverResponse) {
+  self.postMessage(response);
+}
+
+async function prove(id: number, circuit: string, input: Record<string, unknown>) {
+  const stage = (next: ProofStage) => send({ id, type: 'stage', stage: next });
+
+  stage('artifacts');
+  const { id: circuitId, wasm, zkey, vkey } = await loadCircuitArtifacts(circuit, (loaded, total) =>
+    send({ id, type: 'download', loaded, total })
+  );
+
+  stage('witness');
+  const witness = { type: 'mem' };
+  await snarkjs.wtns.calculate(input, wasm, witness);
+
+  stage('proving');
+  const { proof, publicSignals } = await snarkjs.groth16.prove(zkey, witness);
+
+  stage('verifying');
+  if (!await snarkjs.groth16.verify(vkey, publicSignals, proof)) {
+    throw new Error('Proof failed local verification - the circuit artifacts may be out of date');
+  }
+
+  stage('done');
+  send({ id, type: 'result', result: { proof, publicSignals, circuitId } });
+}
+
+async function merklePath(id: number, leaves: string[][], leafIndex: number, depth: number) {
+  const poseidon = await getPoseidon();
+  let level = leaves.map(inputs => poseidonHash(poseidon, inputs.map(value => BigInt(value))));
+  let zero = BigInt(0);
+  let index = leafIndex;
+  const result: MerklePathResult = { root: '', pathElements: [], pathIndices: [] };
+
+  for (let i = 0; i < depth; i++) {
+    result.pathElements.push((level[index ^ 1] ?? zero).toString());
+    result.pathIndices.push(index & 1);
+
+    const next: bigint[] = [];
+    for (let j = 0; j < level.length; j += 2) {
+      next.push(poseidonHash(poseidon, [level[j], level[j + 1] ?? zero]));
+    }
+    level = next;
+    zero = poseidonHash(poseidon, [zero, zero]);
+    index >>= 1;
+  }
+
+  result.root = (level[0] ?? zero).toString();
+  send({ id, type: 'result', result });
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// snarkjs writes the new zkey into a 'mem' file's data
+async function contribute(id: number, zkey: Uint8Array, name: string, entropy: string) {
+  const next: { type: 'mem'; data?: Uint8Array } = { type: 'mem' };
+  const contributionHash = await snarkjs.zKey.contribute(zkey, next, name, entropy);
+  send({ id, type: 'result', result: { zkey: next.data!, contributionHash: toHex(contributionHash) } });
+}
+
+async function beacon(id: number, zkey: Uint8Array, name: string, beaconHash: string, iterationsExp: number) {
+  const final: { type: 'mem'; data?: Uint8Array } = { type: 'mem' };
+  const contributionHash = await snarkjs.zKey.beacon(zkey, final, name, beaconHash, iterationsExp);
+  const vkey = await snarkjs.zKey.exportVerificationKey(final);
+  send({ id, type: 'result', result: { zkey: final.data!, contributionHash: toHex(contributionHash), vkey } });
+}
+
+let queue = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<ProverRequest>) => {
+  const request = event.data;
+
+  queue = queue.then(async () => {
+    try {
+      if (request.kind === 'prove') {
+        await prove(request.id, request.circuit, request.input);
+      } else if (request.kind === 'merkle-path') {
+        await merklePath(request.id, request.leaves, request.leafIndex, request.depth);
+      } else if (request.kind === 'contribute') {
+        await contribute(request.id, request.zkey, request.name, request.entropy);
+      } else {
+        await beacon(request.id, request.zkey, request.name, request.beaconHash, request.iterationsExp);
+      }
+    } catch (error) {
+      console.error('❌ Prover job failed:', error);
+      send({ id: request.id, type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+};
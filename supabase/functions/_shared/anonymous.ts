@@ -0,0 +1,102 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { hashToField } from './proofBinding.ts';
+
+/**
+ * Anonymous rooms, mirrored by src/lib/anonymous.ts and circuits/rln.circom.
+ *
+ * publicSignals = [nullifier, shareY, rlnNullifier, threshold, root,
+ *                  externalNullifier, signalHash, messageLimit]
+ *
+ * externalNullifier = field(SHA-256("SNARK:anon:" || roomId || ":" || epoch))
+ * signalHash        = field(SHA-256(encryptedContent))
+ *
+ * Epochs are ANON_EPOCH_MS long, so a member's nullifier (and pseudonym)
+ * in a room changes every epoch. Each member gets ANON_MESSAGE_LIMIT message
+ * slots per room and epoch; see rln.ts for what happens when one is reused.
+ */
+
+export const ANON_ROOM_PREFIX = 'anon:';
+export const ANON_EPOCH_MS = 60 * 60 * 1000;
+// How long after an epoch ends a proof made for it is still accepted
+export const ANON_EPOCH_GRACE_MS = 2 * 60 * 1000;
+export const ANON_MESSAGE_LIMIT = 10;
+
+export const ANON_PUBLIC_SIGNAL_COUNT = 8;
+export const NULLIFIER_SIGNAL = 0;
+export const SHARE_Y_SIGNAL = 1;
+export const RLN_NULLIFIER_SIGNAL = 2;
+export const ANON_THRESHOLD_SIGNAL = 3;
+export const ANON_ROOT_SIGNAL = 4;
+export const EXTERNAL_NULLIFIER_SIGNAL = 5;
+export const SIGNAL_HASH_SIGNAL = 6;
+export const MESSAGE_LIMIT_SIGNAL = 7;
+
+export const RLN_CIRCUIT = 'rln';
+
+export function isAnonRoomId(roomId: string): boolean {
+  return roomId.startsWith(ANON_ROOM_PREFIX);
+}
+
+export function currentAnonEpoch(now = Date.now()): number {
+  return Math.floor(now / ANON_EPOCH_MS);
+}
+
+/**
+ * The current epoch, or the previous one for ANON_EPOCH_GRACE_MS after it
+ * ended, since a proof can take a while to generate. Accepting all of the
+ * previous epoch would give every member twice the message limit.
+ */
+export function isAcceptedAnonEpoch(epoch: number, now = Date.now()): boolean {
+  const current = currentAnonEpoch(now);
+  return epoch === current || (epoch === current - 1 && now - current * ANON_EPOCH_MS < ANON_EPOCH_GRACE_MS);
+}
+
+export function externalNullifierField(roomId: string, epoch: number): Promise<string> {
+  return hashToField(`SNARK:anon:${roomId}:${epoch}`);
+}
+
+export function signalHashField(encryptedContent: string): Promise<string> {
+  return hashToField(encryptedContent);
+}
+
+export function anonIdentityMessage(identityCommitment: string, timestamp: number): string {
+  return `SNARK:anon-identity:${identityCommitment}:${timestamp}`;
+}
+
+export async function isWalletBanned(supabase: SupabaseClient, walletAddress: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('anon_bans')
+    .select('identity_commitment')
+    .eq('wallet_address', walletAddress)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to check anonymous bans: ${error.message}`);
+  }
+
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Registered identity commitments by wallet, for the holder snapshot.
+ * Banned identities and wallets are left out, so they drop out of the tree.
+ */
+export async function getIdentityCommitments(supabase: SupabaseClient): Promise<Map<string, string>> {
+  const [{ data, error }, { data: bans, error: bansError }] = await Promise.all([
+    supabase.from('anonymous_identities').select('wallet_address, identity_commitment'),
+    supabase.from('anon_bans').select('identity_commitment, wallet_address'),
+  ]);
+
+  if (error || bansError) {
+    throw new Error(`Failed to fetch anonymous identities: ${(error ?? bansError)?.message}`);
+  }
+
+  const bannedCommitments = new Set((bans ?? []).map(ban => ban.identity_commitment));
+  const bannedWallets = new Set((bans ?? []).map(ban => ban.wallet_address));
+
+  return new Map(
+    (data ?? [])
+      .filter(row => !bannedCommitments.has(row.identity_commitment) && !bannedWallets.has(row.wallet_address))
+      .map(row => [row.wallet_address, row.identity_commitment])
+  );
+}
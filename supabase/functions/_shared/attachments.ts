@@ -0,0 +1,64 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+/**
+ * Attachments are encrypted by the browser in CHUNK_SIZE chunks, each with its
+ * own AES-GCM tag (see src/lib/attachments.ts). The server only sees
+ * ciphertext, stored in the private bucket under its SHA-256.
+ */
+
+export const ATTACHMENT_BUCKET = 'attachments';
+export const CHUNK_SIZE = 64 * 1024;
+// file_size_limit on the attachments bucket, a ceiling for any admin limit
+export const BUCKET_SIZE_LIMIT = 100 * 1024 * 1024;
+const TAG_LENGTH = 16;
+
+export interface AttachmentLimits {
+  max_size_bytes: number;
+  allowed_mime_types: string[];
+}
+
+// Largest ciphertext a plaintext of `maxSize` bytes can produce
+export function maxEncryptedSize(maxSize: number): number {
+  return maxSize + Math.max(1, Math.ceil(maxSize / CHUNK_SIZE)) * TAG_LENGTH;
+}
+
+export async function getAttachmentLimits(supabase: SupabaseClient): Promise<AttachmentLimits> {
+  const { data, error } = await supabase
+    .from('attachment_limits')
+    .select('max_size_bytes, allowed_mime_types')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch attachment limits: ${error.message}`);
+  }
+
+  // Without a limits row nothing may be uploaded
+  return data ?? { max_size_bytes: 0, allowed_mime_types: [] };
+}
+
+/**
+ * Content hashes from `hashes` that aren't a finished upload by `uploader`
+ */
+export async function findUnavailableAttachments(
+  supabase: SupabaseClient,
+  hashes: string[],
+  uploader: string
+): Promise<string[]> {
+  if (hashes.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('content_hash')
+    .in('content_hash', hashes)
+    .eq('uploader_wallet', uploader)
+    .eq('status', 'ready');
+
+  if (error) {
+    throw new Error(`Failed to check attachments: ${error.message}`);
+  }
+
+  const ready = new Set((data || []).map((row: { content_hash: string }) => row.content_hash));
+  return hashes.filter(hash => !ready.has(hash));
+}
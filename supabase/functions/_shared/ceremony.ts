@@ -0,0 +1,120 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { Groth16VerificationKey } from './groth16.ts';
+import { decodeBase58 } from './wallet.ts';
+
+/**
+ * Phase 2 trusted setup ceremonies (public.setup_ceremonies). Files live in
+ * the public ceremony bucket:
+ *
+ *   <ceremony>/<circuit>.r1cs
+ *   <ceremony>/0000.zkey, 0001.zkey, ...    one per accepted upload
+ *   <ceremony>/<circuit>_verification_key.json
+ *
+ * Every zkey is checked by the ceremony verifier (vercel-zk-verifier's
+ * /api/verify-contribution), which re-derives it from the r1cs and the
+ * Powers of Tau with snarkjs. That takes far longer than an edge function
+ * may run, so it isn't done here.
+ */
+
+export const CEREMONY_BUCKET = 'ceremony';
+
+const SOLANA_RPC = 'https://api.mainnet-beta.solana.com';
+
+// Contributing to a large zkey in a browser can take several minutes
+export const CLAIM_TTL_MS = 30 * 60 * 1000;
+
+// 2^10 hash iterations of the beacon, as snarkjs' documentation suggests
+export const BEACON_ITERATIONS_EXP = 10;
+
+export interface VerifiedContribution {
+  name: string;
+  hash: string; // BLAKE2b-512, hex
+  beaconHash: string | null;
+  beaconIterationsExp: number | null;
+}
+
+export interface CeremonyVerification {
+  valid: boolean;
+  log: string;
+  // Oldest first
+  contributions: VerifiedContribution[];
+  vkey: Groth16VerificationKey | null;
+}
+
+export function zkeyPath(ceremonyId: string, position: number): string {
+  return `${ceremonyId}/${String(position).padStart(4, '0')}.zkey`;
+}
+
+export function r1csPath(ceremonyId: string, circuitName: string): string {
+  return `${ceremonyId}/${circuitName}.r1cs`;
+}
+
+export function vkeyPath(ceremonyId: string, circuitName: string): string {
+  return `${ceremonyId}/${circuitName}_verification_key.json`;
+}
+
+export function ceremonyFileUrl(supabase: SupabaseClient, path: string): string {
+  return supabase.storage.from(CEREMONY_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/**
+ * Have the ceremony verifier check the zkey at `zkeyUrl` against the r1cs
+ * and Powers of Tau, and list the contributions it contains
+ */
+export async function verifyCeremonyZkey(urls: {
+  r1csUrl: string;
+  ptauUrl: string;
+  zkeyUrl: string;
+}): Promise<CeremonyVerification> {
+  const verifierUrl = Deno.env.get('CEREMONY_VERIFIER_URL');
+  if (!verifierUrl) {
+    throw new Error('CEREMONY_VERIFIER_URL is not configured');
+  }
+
+  const response = await fetch(verifierUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(urls),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data) {
+    throw new Error(`Ceremony verifier failed: ${data?.error ?? response.statusText}`);
+  }
+
+  return {
+    valid: data.valid === true,
+    log: String(data.log ?? ''),
+    contributions: Array.isArray(data.contributions) ? data.contributions : [],
+    vkey: data.vkey ?? null,
+  };
+}
+
+/**
+ * The beacon: the latest finalized Solana blockhash, which no one could
+ * have known before it was produced. Anyone can check it later with
+ * getBlock(slot).
+ */
+export async function fetchBeacon(): Promise<{ hash: string; slot: number }> {
+  const response = await fetch(Deno.env.get('SOLANA_RPC_URL') ?? SOLANA_RPC, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'getLatestBlockhash',
+      params: [{ commitment: 'finalized' }],
+    }),
+  });
+
+  const data = await response.json();
+
+  if (data.error) {
+    throw new Error(`Solana RPC error: ${data.error.message}`);
+  }
+
+  const hash = Array.from(decodeBase58(data.result.value.blockhash))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  return { hash, slot: data.result.context.slot };
+}
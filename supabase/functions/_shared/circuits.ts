@@ -0,0 +1,45 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { Groth16VerificationKey } from './groth16.ts';
+
+/**
+ * The circuit registry (public.circuits). Every proof carries the id of the
+ * circuit build it was made with in proof_data.circuit_id; ids are
+ * '<name>@<first 16 hex digits of the vkey SHA-256>', as computed by
+ * circuitIdOf in src/lib/zkArtifacts.ts.
+ *
+ * Only active builds are accepted for new messages. Deprecated builds still
+ * verify, so older messages keep verifying after a circuit is rebuilt;
+ * revoked builds never verify.
+ */
+
+export type CircuitStatus = 'active' | 'deprecated' | 'revoked';
+
+export interface CircuitRecord {
+  id: string;
+  name: string;
+  version: string;
+  vkey: Groth16VerificationKey;
+  status: CircuitStatus;
+}
+
+export async function getCircuit(supabase: SupabaseClient, circuitId: string): Promise<CircuitRecord | null> {
+  const { data, error } = await supabase
+    .from('circuits')
+    .select('id, name, version, vkey, status')
+    .eq('id', circuitId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load circuit ${circuitId}: ${error.message}`);
+  }
+
+  return data as CircuitRecord | null;
+}
+
+/**
+ * Whether a new message may be proven with `circuit`: it must be the
+ * active build of the circuit the message's proof layout calls for
+ */
+export function isAcceptedCircuit(circuit: CircuitRecord | null, name: string): circuit is CircuitRecord {
+  return !!circuit && circuit.name === name && circuit.status === 'active';
+}
@@ -0,0 +1,30 @@
+/**
+ * Message commitments, mirrored by generateMessageCommitment in
+ * src/lib/encryption.ts and messageMemo in src/lib/solana.ts.
+ *
+ * commitment = hex(SHA-256("SNARK-commitment:v1:" || salt || ":" || id || ":" || ciphertext))
+ *
+ * It only covers the ciphertext and id, so the public memo reveals nothing
+ * about the plaintext. The salt is random per message and stored with the
+ * row, so anyone can recompute the commitment from the messages table.
+ */
+
+export async function computeMessageCommitment(
+  encryptedContent: string,
+  messageId: string,
+  salt: string
+): Promise<string> {
+  const input = new TextEncoder().encode(`SNARK-commitment:v1:${salt}:${messageId}:${encryptedContent}`);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+  return Array.from(digest).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function generateCommitmentSalt(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function messageMemo(commitment: string, messageId: string): string {
+  return `SNARK:v1:${commitment}:${messageId}`;
+}
@@ -0,0 +1,46 @@
+/**
+ * Server-side view of the ciphertext envelope built by encryptMessage in
+ * src/lib/encryption.ts. The server can't decrypt it, but it checks that new
+ * messages use a version, algorithm and padding scheme clients understand.
+ */
+
+export const ENVELOPE_VERSION = 2;
+export const SUPPORTED_ALGS = ['A256GCM'];
+export const SUPPORTED_PADDING = ['bucket-iso7816'];
+export const MAX_ATTACHMENTS = 10;
+// Key id of messages from before room keys, under a key anyone can derive
+export const LEGACY_KEY_ID = 'legacy';
+
+export interface MessageEnvelope {
+  v: number;
+  alg: string;
+  pad: string;
+  kid?: string;
+  epoch?: number;
+  recipients?: Record<string, string>;
+  body?: string;
+  // Content hashes of encrypted uploads the message refers to
+  attachments?: string[];
+  data: string;
+}
+
+export function parseMessageEnvelope(encryptedContent: string): MessageEnvelope | null {
+  if (!encryptedContent.startsWith('{')) return null;
+  try {
+    const envelope = JSON.parse(encryptedContent);
+    const wellFormed =
+      envelope?.v === ENVELOPE_VERSION &&
+      SUPPORTED_ALGS.includes(envelope.alg) &&
+      SUPPORTED_PADDING.includes(envelope.pad) &&
+      typeof envelope.data === 'string' &&
+      (typeof envelope.kid === 'string' || (envelope.recipients && typeof envelope.recipients === 'object')) &&
+      envelope.kid !== LEGACY_KEY_ID &&
+      (envelope.attachments === undefined ||
+        (Array.isArray(envelope.attachments) &&
+          envelope.attachments.length <= MAX_ATTACHMENTS &&
+          envelope.attachments.every((hash: unknown) => typeof hash === 'string')));
+    return wellFormed ? envelope : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,179 @@
+import { bn254 } from 'https://esm.sh/@noble/curves@1.9.7/bn254';
+
+/**
+ * Groth16 verification over BN254 (snarkjs' "bn128") in plain TypeScript,
+ * so verify-zk-proof needs no external service. Proofs and verification
+ * keys are in snarkjs' JSON format.
+ *
+ * A proof (A, B, C) is valid when
+ *
+ *   e(-A, B) · e(alpha, beta) · e(vk_x, gamma) · e(C, delta) = 1
+ *
+ * with vk_x = IC[0] + sum(publicSignals[i] · IC[i + 1]).
+ *
+ * The pairing itself can't be interrupted, so the work is bounded by
+ * MAX_PUBLIC_SIGNALS and the deadline is checked between steps.
+ */
+
+// Far more than any of our circuits has; bounds the multi-scalar multiplication
+export const MAX_PUBLIC_SIGNALS = 32;
+
+// Recorded with re-verification results; bump when the verification logic changes
+export const GROTH16_VERIFIER_VERSION = 'native-groth16/1 (@noble/curves 1.9.7)';
+
+export interface Groth16Proof {
+  pi_a: string[];
+  pi_b: string[][];
+  pi_c: string[];
+  protocol?: string;
+  curve?: string;
+}
+
+export interface Groth16VerificationKey {
+  protocol: string;
+  curve: string;
+  nPublic: number;
+  vk_alpha_1: string[];
+  vk_beta_2: string[][];
+  vk_gamma_2: string[][];
+  vk_delta_2: string[][];
+  IC: string[][];
+}
+
+// The proof, signals or key are malformed; the proof can't be valid
+export class Groth16InputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Groth16InputError';
+  }
+}
+
+export class Groth16TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Groth16 verification took longer than ${timeoutMs}ms`);
+    this.name = 'Groth16TimeoutError';
+  }
+}
+
+const { G1, G2, fields } = bn254;
+const { Fp, Fp2, Fp12, Fr } = fields;
+
+function parseElement(value: unknown, modulus: bigint, what: string): bigint {
+  if (typeof value !== 'string' || !/^\d{1,78}$/.test(value)) {
+    throw new Groth16InputError(`${what} is not a decimal number`);
+  }
+  const element = BigInt(value);
+  if (element >= modulus) {
+    throw new Groth16InputError(`${what} is not a field element`);
+  }
+  return element;
+}
+
+// snarkjs writes affine points with z = 1; the point at infinity is never valid here
+function parseG1(point: unknown, what: string) {
+  if (!Array.isArray(point) || point.length !== 3 || point[2] !== '1') {
+    throw new Groth16InputError(`${what} is not an affine G1 point`);
+  }
+
+  try {
+    const parsed = G1.Point.fromAffine({
+      x: parseElement(point[0], Fp.ORDER, what),
+      y: parseElement(point[1], Fp.ORDER, what),
+    });
+    parsed.assertValidity();
+    return parsed;
+  } catch (error) {
+    if (error instanceof Groth16InputError) throw error;
+    throw new Groth16InputError(`${what} is not on the curve`);
+  }
+}
+
+function parseFp2(value: unknown, what: string) {
+  if (!Array.isArray(value) || value.length !== 2) {
+    throw new Groth16InputError(`${what} is not an Fp2 element`);
+  }
+  return Fp2.fromBigTuple([parseElement(value[0], Fp.ORDER, what), parseElement(value[1], Fp.ORDER, what)]);
+}
+
+function parseG2(point: unknown, what: string) {
+  if (!Array.isArray(point) || point.length !== 3 || point[2]?.[0] !== '1' || point[2]?.[1] !== '0') {
+    throw new Groth16InputError(`${what} is not an affine G2 point`);
+  }
+
+  try {
+    const parsed = G2.Point.fromAffine({ x: parseFp2(point[0], what), y: parseFp2(point[1], what) });
+    parsed.assertValidity();
+    return parsed;
+  } catch (error) {
+    if (error instanceof Groth16InputError) throw error;
+    throw new Groth16InputError(`${what} is not in G2`);
+  }
+}
+
+/**
+ * Check `proof` against `vkey` and `publicSignals`. Resolves false for a
+ * proof that doesn't verify; rejects with Groth16InputError if something
+ * is malformed and with Groth16TimeoutError past `timeoutMs`.
+ */
+export async function verifyGroth16(
+  vkey: Groth16VerificationKey,
+  publicSignals: string[],
+  proof: Groth16Proof,
+  timeoutMs: number
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  const checkpoint = async () => {
+    // Let the timeout (and anything else waiting) run between steps
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (Date.now() > deadline) {
+      throw new Groth16TimeoutError(timeoutMs);
+    }
+  };
+
+  if (vkey.protocol !== 'groth16' || vkey.curve !== 'bn128') {
+    throw new Groth16InputError('Only groth16 verification keys on bn128 are supported');
+  }
+  if (!Array.isArray(vkey.IC) || vkey.IC.length !== vkey.nPublic + 1) {
+    throw new Groth16InputError('Verification key does not match its number of public signals');
+  }
+  if (!Array.isArray(publicSignals) || publicSignals.length !== vkey.nPublic || publicSignals.length > MAX_PUBLIC_SIGNALS) {
+    throw new Groth16InputError('Wrong number of public signals for this verification key');
+  }
+  if (proof.protocol && proof.protocol !== 'groth16') {
+    throw new Groth16InputError('Not a groth16 proof');
+  }
+
+  const signals = publicSignals.map((signal, i) => parseElement(signal, Fr.ORDER, `publicSignals[${i}]`));
+  const a = parseG1(proof.pi_a, 'pi_a');
+  const b = parseG2(proof.pi_b, 'pi_b');
+  const c = parseG1(proof.pi_c, 'pi_c');
+  const alpha = parseG1(vkey.vk_alpha_1, 'vk_alpha_1');
+  const beta = parseG2(vkey.vk_beta_2, 'vk_beta_2');
+  const gamma = parseG2(vkey.vk_gamma_2, 'vk_gamma_2');
+  const delta = parseG2(vkey.vk_delta_2, 'vk_delta_2');
+  const ic = vkey.IC.map((point, i) => parseG1(point, `IC[${i}]`));
+
+  await checkpoint();
+
+  // Public signals aren't secret, so the faster variable-time multiplication is fine
+  let vkX = ic[0];
+  signals.forEach((signal, i) => {
+    if (signal !== 0n) {
+      vkX = vkX.add(ic[i + 1].multiplyUnsafe(signal));
+    }
+  });
+  if (vkX.equals(G1.Point.ZERO)) {
+    return false;
+  }
+
+  await checkpoint();
+
+  const product = bn254.pairingBatch([
+    { g1: a.negate(), g2: b },
+    { g1: alpha, g2: beta },
+    { g1: vkX, g2: gamma },
+    { g1: c, g2: delta },
+  ]);
+
+  return Fp12.eql(product, Fp12.ONE);
+}
@@ -0,0 +1,208 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { buildPoseidon } from 'https://esm.sh/circomlibjs@0.1.7';
+import { walletHashField } from './proofBinding.ts';
+import { TokenRequirement, ruleMintSet } from './tokenGating.ts';
+import { MULTI_MINT_SLOTS } from './multiMint.ts';
+
+/**
+ * Holder snapshots: a Poseidon Merkle tree over every holder of the gated
+ * mint, mirrored by src/lib/holderSnapshot.ts and circuits/holderInclusion.circom.
+ *
+ * leaf = Poseidon(walletHash, balance, identityCommitment), node = Poseidon(left, right)
+ *
+ * Leaves are sorted by wallet address and the tree is padded with the hashes
+ * of empty subtrees (an empty leaf is 0). Balances are in the mint's base
+ * units, like token_requirements.threshold_base_units. identityCommitment is the wallet's
+ * registered anonymous identity (see anonymous.ts), or 0 if it has none.
+ *
+ * Weighted and any-of rules over several mints get one tree over all of
+ * them, for circuits/multiMintInclusion.circom: the leaf's balance slot
+ * holds Poseidon(balances), one base-unit balance per rule mint padded
+ * with zeros to MULTI_MINT_SLOTS.
+ */
+
+export const HOLDER_TREE_DEPTH = 20;
+export const HOLDER_SNAPSHOT_BUCKET = 'holder-snapshots';
+
+// send-message rejects proofs against roots older than this
+export const HOLDER_SNAPSHOT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// publicSignals[2] of a holder inclusion proof
+export const MERKLE_ROOT_SIGNAL = 2;
+
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const SPL_TOKEN_ACCOUNT_SIZE = 165;
+
+export interface HolderLeaf {
+  walletAddress: string;
+  walletHash: string;
+  // Base units, or Poseidon(balances) in multi-mint snapshots
+  balance: string;
+  balances?: string[]; // multi-mint snapshots, in rule order
+  identityCommitment: string;
+}
+
+// Published as JSON in the holder-snapshots bucket. Version 1 dumps held
+// whole-token balances.
+export interface HolderSnapshotDump {
+  version: 2;
+  tokenMintAddress: string;
+  decimals: number;
+  mints?: string[]; // multi-mint snapshots, in rule order
+  merkleRoot: string;
+  treeDepth: number;
+  createdAt: string;
+  leaves: HolderLeaf[];
+}
+
+export interface Poseidon {
+  (inputs: bigint[]): Uint8Array;
+  F: { toString(element: Uint8Array): string };
+}
+
+let poseidonPromise: Promise<Poseidon> | null = null;
+
+export function getPoseidon(): Promise<Poseidon> {
+  poseidonPromise ??= buildPoseidon() as Promise<Poseidon>;
+  return poseidonPromise;
+}
+
+export function poseidonHash(poseidon: Poseidon, inputs: bigint[]): bigint {
+  return BigInt(poseidon.F.toString(poseidon(inputs)));
+}
+
+/**
+ * Base-unit balance of every owner of `tokenMintAddress`, summed over
+ * their token accounts. Owners with an empty balance are left out.
+ */
+export async function fetchHolderBalances(
+  rpcUrl: string,
+  tokenMintAddress: string
+): Promise<Map<string, bigint>> {
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'getProgramAccounts',
+      params: [
+        TOKEN_PROGRAM_ID,
+        {
+          encoding: 'jsonParsed',
+          filters: [
+            { dataSize: SPL_TOKEN_ACCOUNT_SIZE },
+            { memcmp: { offset: 0, bytes: tokenMintAddress } },
+          ],
+        },
+      ],
+    }),
+  });
+
+  const data = await response.json();
+
+  if (data.error) {
+    throw new Error(`Solana RPC error: ${data.error.message}`);
+  }
+
+  const balances = new Map<string, bigint>();
+
+  for (const account of data.result ?? []) {
+    const info = account.account.data.parsed.info;
+    const amount = BigInt(info.tokenAmount.amount);
+    if (amount > 0n) balances.set(info.owner, (balances.get(info.owner) ?? 0n) + amount);
+  }
+
+  return balances;
+}
+
+/**
+ * Build the tree for `requirement` and return the dump to publish.
+ * `balancesByMint` holds fetchHolderBalances of each rule mint, in rule
+ * order; anyone holding one of them gets a leaf.
+ */
+export async function buildHolderSnapshot(
+  requirement: TokenRequirement,
+  balancesByMint: Map<string, bigint>[],
+  identityCommitments: Map<string, string>
+): Promise<HolderSnapshotDump> {
+  const multiMint = requirement.rule_mode !== 'single';
+  if (multiMint && requirement.mints.length > MULTI_MINT_SLOTS) {
+    throw new Error(`Token rules can have at most ${MULTI_MINT_SLOTS} mints`);
+  }
+
+  const wallets = Array.from(new Set(balancesByMint.flatMap(balances => Array.from(balances.keys())))).sort();
+  if (wallets.length > 2 ** HOLDER_TREE_DEPTH) {
+    throw new Error(`Too many holders for a depth ${HOLDER_TREE_DEPTH} tree: ${wallets.length}`);
+  }
+
+  const poseidon = await getPoseidon();
+
+  const leaves: HolderLeaf[] = [];
+  for (const walletAddress of wallets) {
+    const balances = balancesByMint.map(mintBalances => mintBalances.get(walletAddress) ?? 0n);
+    const leaf: HolderLeaf = {
+      walletAddress,
+      walletHash: await walletHashField(walletAddress),
+      balance: balances[0].toString(),
+      identityCommitment: identityCommitments.get(walletAddress) ?? '0',
+    };
+
+    if (multiMint) {
+      const slots = [...balances, ...Array(MULTI_MINT_SLOTS - balances.length).fill(0n)];
+      leaf.balance = poseidonHash(poseidon, slots).toString();
+      leaf.balances = balances.map(balance => balance.toString());
+    }
+    leaves.push(leaf);
+  }
+
+  let level = leaves.map(leaf =>
+    poseidonHash(poseidon, [BigInt(leaf.walletHash), BigInt(leaf.balance), BigInt(leaf.identityCommitment)])
+  );
+  let zero = 0n;
+
+  for (let depth = 0; depth < HOLDER_TREE_DEPTH; depth++) {
+    const next: bigint[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(poseidonHash(poseidon, [level[i], level[i + 1] ?? zero]));
+    }
+    level = next;
+    zero = poseidonHash(poseidon, [zero, zero]);
+  }
+
+  return {
+    version: 2,
+    tokenMintAddress: requirement.token_mint_address,
+    decimals: requirement.token_decimals,
+    ...(multiMint && { mints: requirement.mints.map(mint => mint.token_mint_address) }),
+    merkleRoot: (level[0] ?? zero).toString(),
+    treeDepth: HOLDER_TREE_DEPTH,
+    createdAt: new Date().toISOString(),
+    leaves,
+  };
+}
+
+/**
+ * True if `merkleRoot` belongs to a snapshot of the rule's mints taken
+ * within HOLDER_SNAPSHOT_MAX_AGE_MS
+ */
+export async function isRecentSnapshotRoot(
+  supabase: SupabaseClient,
+  merkleRoot: string,
+  requirement: TokenRequirement
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('holder_snapshots')
+    .select('id')
+    .eq('merkle_root', merkleRoot)
+    .eq('mint_set', ruleMintSet(requirement))
+    .gte('created_at', new Date(Date.now() - HOLDER_SNAPSHOT_MAX_AGE_MS).toISOString())
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check holder snapshot: ${error.message}`);
+  }
+
+  return !!data;
+}
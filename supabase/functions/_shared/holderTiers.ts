@@ -0,0 +1,63 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+/**
+ * Holder tiers (bronze, silver, gold...), proven with
+ * circuits/holderTier.circom. Mirrored by src/lib/holderTiers.ts.
+ *
+ * publicSignals = [valid, threshold, root, walletHash, nonce, tier, tierBounds[0..2]]
+ *
+ * The first five signals are laid out like a holder inclusion proof. A
+ * proof only earns a badge if its tierBounds are the ones configured when
+ * the message is sent.
+ */
+
+// Tiers the circuit supports
+export const HOLDER_TIER_SLOTS = 3;
+
+export const TIER_PUBLIC_SIGNAL_COUNT = 9;
+export const TIER_SIGNAL = 5;
+export const TIER_BOUNDS_SIGNAL = 6;
+
+export const TIER_CIRCUIT = 'holderTier';
+
+export interface HolderTier {
+  position: number;
+  name: string;
+  min_base_units: string;
+}
+
+/**
+ * Configured tiers, lowest first. Throws if they are not ascending, since
+ * the circuit's tier number would then not name a single range.
+ */
+export async function getHolderTiers(supabase: SupabaseClient): Promise<HolderTier[]> {
+  const { data, error } = await supabase
+    .from('holder_tiers')
+    .select('position, name, min_base_units')
+    .order('position', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load holder tiers: ${error.message}`);
+  }
+
+  const tiers = (data ?? []) as HolderTier[];
+  for (let i = 1; i < tiers.length; i++) {
+    if (BigInt(tiers[i].min_base_units) <= BigInt(tiers[i - 1].min_base_units)) {
+      throw new Error('Holder tiers are not in ascending order');
+    }
+  }
+
+  return tiers;
+}
+
+// publicSignals[6..8] a tier proof must carry, unused slots 0
+export function tierBoundSignals(tiers: HolderTier[]): string[] {
+  const bounds = tiers.map(tier => tier.min_base_units);
+  return [...bounds, ...Array(HOLDER_TIER_SLOTS - bounds.length).fill('0')];
+}
+
+// Name of the proven tier, or null below the lowest one
+export function tierName(tiers: HolderTier[], tier: string): string | null {
+  const index = Number(tier) - 1;
+  return tiers[index]?.name ?? null;
+}
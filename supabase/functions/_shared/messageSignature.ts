@@ -0,0 +1,37 @@
+/**
+ * Server-side mirror of src/lib/messageSignature.ts. The wallet signs
+ *
+ *   SNARK:msg:v1:<wallet>:<room>:<timestamp>:<sha256(ciphertext)>:<sha256(canonical proof JSON)>
+ *
+ * so a signature can't be reused for any other ciphertext, room or proof.
+ */
+
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export async function hashHex(text: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+  return Array.from(digest).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function messageSigningPayload(
+  walletAddress: string,
+  roomId: string,
+  timestamp: number,
+  encryptedContent: string,
+  proofData: unknown
+): Promise<string> {
+  const ciphertextHash = await hashHex(encryptedContent);
+  const proofHash = await hashHex(canonicalJson(proofData));
+  return `SNARK:msg:v1:${walletAddress}:${roomId}:${timestamp}:${ciphertextHash}:${proofHash}`;
+}
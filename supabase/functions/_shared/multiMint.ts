@@ -0,0 +1,43 @@
+import { TokenRequirement } from './tokenGating.ts';
+
+/**
+ * Proofs for token rules over several mints (weighted and any-of), made
+ * with circuits/multiMintInclusion.circom against a multi-mint holder
+ * snapshot. Mirrored by multiMintRuleInputs in src/lib/tokenGating.ts.
+ *
+ * publicSignals = [valid, mode, weights[0..3], thresholds[0..3], threshold,
+ *                  root, walletHash, nonce]
+ *
+ * The rule itself is public, so a proof only counts for the rule that is
+ * configured when it is sent.
+ */
+
+// Mints a multi-mint rule can have; fixed by the circuit
+export const MULTI_MINT_SLOTS = 4;
+
+export const MULTI_MINT_PUBLIC_SIGNAL_COUNT = 14;
+export const MULTI_MINT_ROOT_SIGNAL = 11;
+export const MULTI_MINT_WALLET_HASH_SIGNAL = 12;
+export const MULTI_MINT_NONCE_SIGNAL = 13;
+
+export const MULTI_MINT_CIRCUIT = 'multiMintInclusion';
+
+export function isMultiMintRule(requirement: TokenRequirement | null): requirement is TokenRequirement {
+  return !!requirement && requirement.rule_mode !== 'single';
+}
+
+/**
+ * publicSignals[1..10] a proof of `requirement` must carry:
+ * [mode, weights, thresholds, threshold], unused slots 0
+ */
+export function multiMintRuleSignals(requirement: TokenRequirement): string[] {
+  const weighted = requirement.rule_mode === 'weighted';
+  const pad = (values: string[]) => [...values, ...Array(MULTI_MINT_SLOTS - values.length).fill('0')];
+
+  return [
+    weighted ? '0' : '1',
+    ...pad(requirement.mints.map(mint => (weighted ? String(mint.weight) : '0'))),
+    ...pad(requirement.mints.map(mint => (weighted ? '0' : mint.threshold_base_units ?? '0'))),
+    weighted ? requirement.threshold_base_units : '0',
+  ];
+}
@@ -0,0 +1,40 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { parseMessageEnvelope } from './envelope.ts';
+
+/**
+ * Private group messages live in the messages table under room_id
+ * 'group:<group id>' (see groupRoomId in src/lib/privateGroups.ts).
+ */
+
+export const GROUP_ROOM_PREFIX = 'group:';
+export const MAX_GROUP_MEMBERS = 50;
+
+export function parseGroupRoomId(roomId: string): string | null {
+  return roomId.startsWith(GROUP_ROOM_PREFIX) ? roomId.slice(GROUP_ROOM_PREFIX.length) : null;
+}
+
+export async function getActiveGroupMembers(
+  supabase: SupabaseClient,
+  groupId: string
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('private_group_members')
+    .select('wallet_address')
+    .eq('group_id', groupId)
+    .is('removed_at', null);
+
+  if (error) {
+    throw new Error(`Failed to fetch group members: ${error.message}`);
+  }
+
+  return (data || []).map((member: { wallet_address: string }) => member.wallet_address);
+}
+
+/**
+ * Wallets a recipient-wrapped envelope was encrypted to, or null if the
+ * content isn't one (room envelopes and legacy ciphertexts)
+ */
+export function getEnvelopeRecipients(encryptedContent: string): string[] | null {
+  const recipients = parseMessageEnvelope(encryptedContent)?.recipients;
+  return recipients ? Object.keys(recipients) : null;
+}
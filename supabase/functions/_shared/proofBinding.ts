@@ -0,0 +1,70 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+/**
+ * Binding of token balance proofs to a wallet and a single-use nonce,
+ * mirrored by walletHashField in src/lib/zkProof.ts.
+ *
+ * publicSignals = [valid, threshold, root, walletHash, nonce]
+ *
+ * walletHash is SHA-256("SNARK:wallet:" || walletAddress) truncated to its
+ * first 31 bytes, so it fits in the BN254 scalar field.
+ */
+
+export const PUBLIC_SIGNAL_COUNT = 5;
+export const VALID_SIGNAL = 0; // first in every wallet proof layout, including multi-mint
+export const THRESHOLD_SIGNAL = 1;
+export const WALLET_HASH_SIGNAL = 3;
+export const NONCE_SIGNAL = 4;
+
+export const HOLDER_INCLUSION_CIRCUIT = 'holderInclusion';
+
+export const PROOF_NONCE_TTL_MS = 10 * 60 * 1000;
+
+function bytesToDecimal(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value.toString();
+}
+
+// SHA-256 of `text` truncated to 31 bytes, as a decimal field element
+export async function hashToField(text: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+  return bytesToDecimal(digest.slice(0, 31));
+}
+
+export function walletHashField(walletAddress: string): Promise<string> {
+  return hashToField(`SNARK:wallet:${walletAddress}`);
+}
+
+// 31 random bytes, as a decimal field element
+export function generateProofNonce(): string {
+  return bytesToDecimal(crypto.getRandomValues(new Uint8Array(31)));
+}
+
+/**
+ * Mark the nonce used. Returns false if it wasn't issued to this wallet,
+ * has expired or was already used.
+ */
+export async function consumeProofNonce(
+  supabase: SupabaseClient,
+  nonce: string,
+  walletAddress: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('proof_nonces')
+    .update({ used_at: new Date().toISOString() })
+    .eq('nonce', nonce)
+    .eq('wallet_address', walletAddress)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('nonce')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check proof nonce: ${error.message}`);
+  }
+
+  return !!data;
+}
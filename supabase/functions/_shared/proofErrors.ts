@@ -0,0 +1,27 @@
+/**
+ * Codes send-message returns with its error message when it refuses a proof,
+ * as { error, code }. Mirrored by src/lib/proofErrors.ts, which the chat uses
+ * to tell the sender whether trying again can help.
+ */
+
+export type ProofErrorCode =
+  // The signals don't have the layout of the circuit the token rule calls for
+  | 'PROOF_UNBOUND'
+  // A public signal doesn't match the server's state
+  | 'WALLET_MISMATCH'
+  | 'THRESHOLD_MISMATCH'
+  | 'RULE_MISMATCH'
+  | 'TIER_MISMATCH'
+  | 'SNAPSHOT_STALE'
+  | 'SCOPE_MISMATCH'
+  | 'EPOCH_EXPIRED'
+  | 'SIGNAL_INVALID'
+  // proof_data.publicInputs disagrees with the signals it labels
+  | 'LABEL_MISMATCH'
+  | 'CIRCUIT_RETIRED'
+  // Replays
+  | 'NONCE_USED'
+  | 'PROOF_REPLAYED'
+  // The proof itself
+  | 'PROOF_INVALID'
+  | 'VERIFIER_UNAVAILABLE';
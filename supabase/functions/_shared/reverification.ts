@@ -0,0 +1,50 @@
+import { CircuitRecord } from './circuits.ts';
+import { Groth16InputError, Groth16Proof, Groth16TimeoutError, verifyGroth16 } from './groth16.ts';
+
+/**
+ * Re-verification of stored messages' proofs, as run by reverify-messages.
+ * Each proof is checked natively against the registered circuit build named
+ * in its proof_data.circuit_id:
+ *
+ *   valid / invalid  - the pairing check's answer
+ *   revoked          - the build was revoked; never verifies
+ *   malformed        - the proof or its signals can't be parsed
+ *   unknown_circuit  - no circuit_id, or one that isn't registered
+ *   timeout          - the check didn't finish in time
+ *
+ * Only the first four decide messages.verified; the last two leave it as is.
+ */
+
+export type ReverificationResult = 'valid' | 'invalid' | 'revoked' | 'malformed' | 'unknown_circuit' | 'timeout';
+
+export const REVERIFY_PAGE_SIZE = 25;
+
+const REVERIFY_TIMEOUT_MS = 5_000;
+
+// The verified value a result calls for, or null to keep the current one
+export function verifiedAfter(result: ReverificationResult): boolean | null {
+  if (result === 'valid') return true;
+  if (result === 'unknown_circuit' || result === 'timeout') return null;
+  return false;
+}
+
+export async function reverifyProof(
+  proofData: { proof?: Groth16Proof; publicSignals?: unknown } | null,
+  circuit: CircuitRecord | null
+): Promise<ReverificationResult> {
+  if (!circuit) return 'unknown_circuit';
+  if (circuit.status === 'revoked') return 'revoked';
+
+  if (!proofData?.proof || !Array.isArray(proofData.publicSignals)) {
+    return 'malformed';
+  }
+
+  try {
+    const verified = await verifyGroth16(circuit.vkey, proofData.publicSignals as string[], proofData.proof, REVERIFY_TIMEOUT_MS);
+    return verified ? 'valid' : 'invalid';
+  } catch (error) {
+    if (error instanceof Groth16InputError) return 'malformed';
+    if (error instanceof Groth16TimeoutError) return 'timeout';
+    throw error;
+  }
+}
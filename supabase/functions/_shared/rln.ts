@@ -0,0 +1,248 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { getPoseidon, poseidonHash } from './holderSnapshot.ts';
+
+/**
+ * Rate-limiting nullifiers for anonymous rooms (circuits/rln.circom).
+ *
+ * Each message publishes a point (x, y) on its sender's line for one
+ * message slot, y = secret + a1 * x, where x is the ciphertext's signalHash.
+ * Points are stored by rlnNullifier = Poseidon(a1). A second point with the
+ * same rlnNullifier and a different x gives away a1 and so the secret:
+ *
+ *   a1     = (y2 - y1) / (x2 - x1)
+ *   secret = y1 - a1 * x1
+ *
+ * The recovered secret is only trusted if it reproduces the nullifier of
+ * the stored share, so a forged second share can't ban someone else.
+ */
+
+// BN254 scalar field modulus
+const FIELD_MODULUS = BigInt('21888242871839275222246405745257275088548364400416034343698204186575808495617');
+
+export interface RlnShare {
+  rlnNullifier: string;
+  nullifier: string;
+  externalNullifier: string;
+  roomId: string;
+  epoch: number;
+  x: string;
+  y: string;
+  messageId: string;
+}
+
+export type RlnShareResult =
+  | { status: 'stored' }
+  | { status: 'duplicate' }
+  | { status: 'invalid' }
+  | { status: 'slashed'; identityCommitment: string };
+
+function fieldMod(value: bigint): bigint {
+  const result = value % FIELD_MODULUS;
+  return result < BigInt(0) ? result + FIELD_MODULUS : result;
+}
+
+function fieldInverse(value: bigint): bigint {
+  // Fermat: value^(p-2) mod p
+  let result = BigInt(1);
+  let base = fieldMod(value);
+  let exponent = FIELD_MODULUS - BigInt(2);
+  while (exponent > BigInt(0)) {
+    if (exponent & BigInt(1)) result = (result * base) % FIELD_MODULUS;
+    base = (base * base) % FIELD_MODULUS;
+    exponent >>= BigInt(1);
+  }
+  return result;
+}
+
+export function recoverIdentitySecret(x1: bigint, y1: bigint, x2: bigint, y2: bigint): bigint {
+  const a1 = fieldMod((y2 - y1) * fieldInverse(x2 - x1));
+  return fieldMod(y1 - a1 * x1);
+}
+
+/**
+ * Store a message's share. If its slot was already used with another
+ * ciphertext, recover the sender's secret and ban the identity.
+ */
+export async function recordRlnShare(supabase: SupabaseClient, share: RlnShare): Promise<RlnShareResult> {
+  const { error } = await supabase.from('rln_shares').insert({
+    rln_nullifier: share.rlnNullifier,
+    nullifier: share.nullifier,
+    room_id: share.roomId,
+    epoch: share.epoch,
+    share_x: share.x,
+    share_y: share.y,
+    message_id: share.messageId,
+  });
+
+  if (!error) return { status: 'stored' };
+  if (error.code !== '23505') {
+    throw new Error(`Failed to store RLN share: ${error.message}`);
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('rln_shares')
+    .select('nullifier, share_x, share_y')
+    .eq('rln_nullifier', share.rlnNullifier)
+    .single();
+
+  if (fetchError || !existing) {
+    throw new Error(`Failed to fetch RLN share: ${fetchError?.message}`);
+  }
+
+  // Same x is the same ciphertext submitted again
+  if (existing.share_x === share.x) return { status: 'duplicate' };
+
+  const secret = recoverIdentitySecret(
+    BigInt(existing.share_x),
+    BigInt(existing.share_y),
+    BigInt(share.x),
+    BigInt(share.y)
+  );
+
+  const poseidon = await getPoseidon();
+  if (poseidonHash(poseidon, [secret, BigInt(share.externalNullifier)]).toString() !== existing.nullifier) {
+    return { status: 'invalid' };
+  }
+
+  const identityCommitment = poseidonHash(poseidon, [secret]).toString();
+  await banIdentity(supabase, identityCommitment, secret, share);
+  return { status: 'slashed', identityCommitment };
+}
+
+async function banIdentity(
+  supabase: SupabaseClient,
+  identityCommitment: string,
+  secret: bigint,
+  share: RlnShare
+): Promise<void> {
+  const { data: identity } = await supabase
+    .from('anonymous_identities')
+    .select('wallet_address')
+    .eq('identity_commitment', identityCommitment)
+    .maybeSingle();
+
+  const { error } = await supabase.from('anon_bans').upsert({
+    identity_commitment: identityCommitment,
+    identity_secret: secret.toString(),
+    wallet_address: identity?.wallet_address ?? null,
+    room_id: share.roomId,
+    epoch: share.epoch,
+    rln_nullifier: share.rlnNullifier,
+  }, { onConflict: 'identity_commitment', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to ban anonymous identity: ${error.message}`);
+  }
+
+  // Scopes already hashed don't see the new ban; its own scope always gets it
+  const { data: scopes } = await supabase
+    .from('anon_ban_scopes')
+    .select('external_nullifier, epoch')
+    .gte('epoch', share.epoch - 1);
+
+  const recent = (scopes ?? []).filter(scope => scope.external_nullifier !== share.externalNullifier);
+  await storeBannedNullifiers(
+    supabase,
+    [{ identity_commitment: identityCommitment, identity_secret: secret.toString() }],
+    [{ external_nullifier: share.externalNullifier, epoch: share.epoch }, ...recent]
+  );
+
+  console.warn(`🔨 Anonymous identity ${identityCommitment} exceeded the message limit in ${share.roomId} and was banned`);
+}
+
+/**
+ * Whether `nullifier` belongs to a banned identity. Bans only reach the
+ * holder tree at the next snapshot, and older roots stay valid for a day,
+ * so until then banned senders are recognised by their recovered secret,
+ * hashed into each scope's nullifier set.
+ */
+export async function isBannedNullifier(
+  supabase: SupabaseClient,
+  nullifier: string,
+  roomId: string,
+  epoch: number,
+  externalNullifier: string
+): Promise<boolean> {
+  await ensureBanScope(supabase, roomId, epoch, externalNullifier);
+
+  const { data, error } = await supabase
+    .from('anon_banned_nullifiers')
+    .select('nullifier')
+    .eq('external_nullifier', externalNullifier)
+    .eq('nullifier', nullifier)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check anonymous bans: ${error.message}`);
+  }
+
+  return !!data;
+}
+
+/**
+ * Hash every ban into the scope's nullifier set the first time the scope is
+ * checked, and drop the sets of epochs send-message no longer accepts
+ */
+async function ensureBanScope(
+  supabase: SupabaseClient,
+  roomId: string,
+  epoch: number,
+  externalNullifier: string
+): Promise<void> {
+  const { data: scope, error: scopeError } = await supabase
+    .from('anon_ban_scopes')
+    .select('external_nullifier')
+    .eq('external_nullifier', externalNullifier)
+    .maybeSingle();
+
+  if (scopeError) {
+    throw new Error(`Failed to check anonymous bans: ${scopeError.message}`);
+  }
+  if (scope) return;
+
+  const { data: bans, error: bansError } = await supabase
+    .from('anon_bans')
+    .select('identity_commitment, identity_secret');
+
+  if (bansError) {
+    throw new Error(`Failed to check anonymous bans: ${bansError.message}`);
+  }
+
+  await storeBannedNullifiers(supabase, bans ?? [], [{ external_nullifier: externalNullifier, epoch }]);
+
+  // Marked complete only once every ban is in the set
+  const { error } = await supabase.from('anon_ban_scopes').upsert(
+    { external_nullifier: externalNullifier, room_id: roomId, epoch },
+    { onConflict: 'external_nullifier', ignoreDuplicates: true }
+  );
+  if (error) {
+    throw new Error(`Failed to record anonymous ban scope: ${error.message}`);
+  }
+
+  await supabase.from('anon_banned_nullifiers').delete().lt('epoch', epoch - 1);
+  await supabase.from('anon_ban_scopes').delete().lt('epoch', epoch - 1);
+}
+
+async function storeBannedNullifiers(
+  supabase: SupabaseClient,
+  bans: { identity_commitment: string; identity_secret: string }[],
+  scopes: { external_nullifier: string; epoch: number }[]
+): Promise<void> {
+  if (!bans.length || !scopes.length) return;
+
+  const poseidon = await getPoseidon();
+  const rows = bans.flatMap(ban => scopes.map(scope => ({
+    external_nullifier: scope.external_nullifier,
+    nullifier: poseidonHash(poseidon, [BigInt(ban.identity_secret), BigInt(scope.external_nullifier)]).toString(),
+    epoch: scope.epoch,
+    identity_commitment: ban.identity_commitment,
+  })));
+
+  const { error } = await supabase
+    .from('anon_banned_nullifiers')
+    .upsert(rows, { onConflict: 'external_nullifier,nullifier', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to store banned nullifiers: ${error.message}`);
+  }
+}
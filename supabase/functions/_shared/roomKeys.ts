@@ -0,0 +1,225 @@
+import nacl from 'https://esm.sh/tweetnacl@1.0.3';
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { base64ToBytes, bytesToBase64 } from './wallet.ts';
+
+/**
+ * Room keys are escrowed server-side, sealed with AES-GCM under
+ * ROOM_KEY_ESCROW_SECRET, and only ever leave the server re-wrapped to a
+ * member's X25519 key (same format as wrapKey in src/lib/keyring.ts).
+ */
+
+let escrowKey: CryptoKey | null = null;
+
+async function getEscrowKey(): Promise<CryptoKey> {
+  if (escrowKey) return escrowKey;
+
+  const secret = Deno.env.get('ROOM_KEY_ESCROW_SECRET');
+  if (!secret) {
+    throw new Error('ROOM_KEY_ESCROW_SECRET is not configured');
+  }
+
+  const material = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  escrowKey = await crypto.subtle.importKey('raw', material, { name: 'AES-GCM' }, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+  return escrowKey;
+}
+
+export async function sealRoomKey(rawKey: Uint8Array): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getEscrowKey(), rawKey);
+  const combined = new Uint8Array(iv.length + sealed.byteLength);
+  combined.set(iv, 0);
+  combined.set(new Uint8Array(sealed), iv.length);
+  return bytesToBase64(combined);
+}
+
+export async function unsealRoomKey(sealed: string): Promise<Uint8Array> {
+  const combined = base64ToBytes(sealed);
+  const opened = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: combined.slice(0, 12) },
+    await getEscrowKey(),
+    combined.slice(12)
+  );
+  return new Uint8Array(opened);
+}
+
+export function wrapKey(rawKey: Uint8Array, recipientPublicKey: Uint8Array): string {
+  const ephemeral = nacl.box.keyPair();
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const boxed = nacl.box(rawKey, nonce, recipientPublicKey, ephemeral.secretKey);
+  const combined = new Uint8Array(ephemeral.publicKey.length + nonce.length + boxed.length);
+  combined.set(ephemeral.publicKey, 0);
+  combined.set(nonce, ephemeral.publicKey.length);
+  combined.set(boxed, ephemeral.publicKey.length + nonce.length);
+  return bytesToBase64(combined);
+}
+
+export async function computeKeyId(rawKey: Uint8Array): Promise<string> {
+  const prefix = new TextEncoder().encode('snark-kid');
+  const input = new Uint8Array(prefix.length + rawKey.length);
+  input.set(prefix, 0);
+  input.set(rawKey, prefix.length);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+  return Array.from(digest.slice(0, 16))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Concurrent rotations race for the same epoch; the loser takes the next one
+const EPOCH_ATTEMPTS = 5;
+
+/**
+ * Generate the room's next key epoch and escrow it
+ */
+export async function createEscrowedRoomKey(
+  supabase: SupabaseClient,
+  roomId: string,
+  createdBy: string,
+  reason = 'initial'
+): Promise<{ keyId: string; rawKey: Uint8Array; epoch: number }> {
+  const rawKey = crypto.getRandomValues(new Uint8Array(32));
+  const keyId = await computeKeyId(rawKey);
+
+  let epoch = 0;
+  for (let attempt = 1; ; attempt++) {
+    const { data: latest } = await supabase
+      .from('room_keys')
+      .select('epoch')
+      .eq('room_id', roomId)
+      .order('epoch', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    epoch = (latest?.epoch ?? 0) + 1;
+    const { error: keyError } = await supabase.from('room_keys').insert({
+      key_id: keyId,
+      room_id: roomId,
+      epoch,
+      reason,
+      created_by: createdBy,
+    });
+    if (!keyError) break;
+    if (keyError.code !== '23505' || attempt === EPOCH_ATTEMPTS) {
+      throw new Error(`Failed to create room key: ${keyError.message}`);
+    }
+  }
+
+  const { error: escrowError } = await supabase.from('room_key_escrow').insert({
+    key_id: keyId,
+    sealed_key: await sealRoomKey(rawKey),
+  });
+  if (escrowError) {
+    throw new Error(`Failed to escrow room key: ${escrowError.message}`);
+  }
+
+  return { keyId, rawKey, epoch };
+}
+
+/**
+ * Start a new epoch for a room. Members pick it up through the
+ * release-room-key function; wallets that no longer pass the gate can't.
+ */
+export async function rotateRoomKey(
+  supabase: SupabaseClient,
+  roomId: string,
+  triggeredBy: string,
+  reason: string
+): Promise<{ keyId: string; epoch: number }> {
+  const { keyId, epoch } = await createEscrowedRoomKey(supabase, roomId, triggeredBy, reason);
+  console.log(`🔄 Rotated room key for ${roomId} to epoch ${epoch} (${reason})`);
+  return { keyId, epoch };
+}
+
+/**
+ * Rotate every room whose current epoch key was released to a wallet that
+ * has since dropped below the token threshold
+ */
+export async function rotateIfMemberLostAccess(
+  supabase: SupabaseClient,
+  walletAddress: string
+): Promise<number[]> {
+  const { data: grants } = await supabase
+    .from('room_key_grants')
+    .select('key_id, room_keys!inner(room_id, epoch)')
+    .eq('wallet_address', walletAddress);
+
+  const rotatedEpochs: number[] = [];
+  const heldByRoom = new Map<string, number>();
+  for (const grant of grants || []) {
+    const key = Array.isArray(grant.room_keys) ? grant.room_keys[0] : grant.room_keys;
+    heldByRoom.set(key.room_id, Math.max(heldByRoom.get(key.room_id) ?? 0, key.epoch));
+  }
+
+  for (const [roomId, heldEpoch] of heldByRoom) {
+    const { data: current } = await supabase
+      .from('room_keys')
+      .select('epoch')
+      .eq('room_id', roomId)
+      .order('epoch', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (current && current.epoch === heldEpoch) {
+      const { epoch } = await rotateRoomKey(supabase, roomId, walletAddress, 'member-lost-access');
+      rotatedEpochs.push(epoch);
+    }
+  }
+
+  return rotatedEpochs;
+}
+
+/**
+ * Rotate every room whose current epoch key was released to a wallet that
+ * `qualifies` now rejects. Run after each holder snapshot, so a wallet that
+ * sold out loses the live key without having to come back and ask for it.
+ */
+export async function rotateRoomsWithLapsedHolders(
+  supabase: SupabaseClient,
+  qualifies: (walletAddress: string) => boolean,
+  triggeredBy: string
+): Promise<{ roomId: string; epoch: number }[]> {
+  const { data: keys, error } = await supabase
+    .from('room_keys')
+    .select('key_id, room_id, epoch')
+    .order('epoch', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load room keys: ${error.message}`);
+  }
+
+  const currentByKeyId = new Map<string, string>();
+  const seenRooms = new Set<string>();
+  for (const key of keys || []) {
+    if (seenRooms.has(key.room_id)) continue;
+    seenRooms.add(key.room_id);
+    currentByKeyId.set(key.key_id, key.room_id);
+  }
+
+  if (currentByKeyId.size === 0) return [];
+
+  const { data: grants, error: grantError } = await supabase
+    .from('room_key_grants')
+    .select('key_id, wallet_address')
+    .in('key_id', [...currentByKeyId.keys()]);
+
+  if (grantError) {
+    throw new Error(`Failed to load room key grants: ${grantError.message}`);
+  }
+
+  const lapsedRooms = new Set<string>();
+  for (const grant of grants || []) {
+    if (!qualifies(grant.wallet_address)) {
+      lapsedRooms.add(currentByKeyId.get(grant.key_id)!);
+    }
+  }
+
+  const rotated: { roomId: string; epoch: number }[] = [];
+  for (const roomId of lapsedRooms) {
+    const { epoch } = await rotateRoomKey(supabase, roomId, triggeredBy, 'member-lost-access');
+    rotated.push({ roomId, epoch });
+  }
+
+  return rotated;
+}
@@ -0,0 +1,194 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+const SOLANA_RPC = 'https://api.mainnet-beta.solana.com';
+
+export interface TokenGatingResult {
+  allowed: boolean;
+  // Progress towards the rule, as decimal strings; see evaluateTokenRule
+  balance: string;
+  required: string;
+  decimals: number;
+  tokenMint: string | null;
+  requirement: TokenRequirement | null;
+}
+
+export type TokenRuleMode = 'single' | 'weighted' | 'any_of';
+
+export interface TokenRuleMint {
+  token_mint_address: string;
+  token_decimals: number;
+  weight: number;
+  threshold_base_units: string | null; // any_of rules only
+}
+
+export interface TokenRequirement {
+  token_mint_address: string;
+  token_decimals: number;
+  // single: the mint's threshold; weighted: the threshold of the weighted sum
+  threshold_base_units: string;
+  rule_mode: TokenRuleMode;
+  // In rule order; a single-mint rule lists just token_mint_address
+  mints: TokenRuleMint[];
+}
+
+export interface TokenRuleEvaluation {
+  allowed: boolean;
+  balance: bigint;
+  required: bigint;
+  decimals: number;
+}
+
+// Key of the holder snapshots taken for this rule's mints
+export function ruleMintSet(requirement: TokenRequirement): string {
+  return requirement.mints.map(mint => mint.token_mint_address).join(',');
+}
+
+/**
+ * Evaluate `requirement` against base-unit balances of its mints, in rule
+ * order. Mirrored by src/lib/tokenGating.ts and enforced by
+ * circuits/multiMintInclusion.circom. `balance` and `required` report
+ * progress: the weighted sum for weighted rules, and the mint closest to
+ * its threshold for any-of rules.
+ */
+export function evaluateTokenRule(requirement: TokenRequirement, balances: bigint[]): TokenRuleEvaluation {
+  if (requirement.rule_mode === 'any_of') {
+    let best: TokenRuleEvaluation = { allowed: false, balance: 0n, required: 0n, decimals: requirement.token_decimals };
+    for (const [i, mint] of requirement.mints.entries()) {
+      const required = BigInt(mint.threshold_base_units ?? 0);
+      if (required === 0n) continue;
+      // balance / required > best.balance / best.required, without division
+      if (best.required === 0n || balances[i] * best.required > best.balance * required) {
+        best = { allowed: balances[i] >= required, balance: balances[i], required, decimals: mint.token_decimals };
+      }
+    }
+    return best;
+  }
+
+  const required = BigInt(requirement.threshold_base_units);
+  const balance = requirement.rule_mode === 'weighted'
+    ? requirement.mints.reduce((sum, mint, i) => sum + BigInt(mint.weight) * balances[i], 0n)
+    : balances[0];
+
+  return { allowed: balance >= required, balance, required, decimals: requirement.token_decimals };
+}
+
+export async function fetchMintDecimals(tokenMintAddress: string): Promise<number> {
+  const response = await fetch(Deno.env.get('SOLANA_RPC_URL') ?? SOLANA_RPC, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'getTokenSupply',
+      params: [tokenMintAddress],
+    }),
+  });
+
+  const data = await response.json();
+
+  if (data.error) {
+    throw new Error(`Solana RPC error: ${data.error.message}`);
+  }
+
+  return data.result.value.decimals;
+}
+
+/**
+ * The latest token_requirements row with its rule's mints, or null if there
+ * is no gate. Rows saved before thresholds were stored in base units have
+ * only threshold_amount in whole tokens; those are converted with the
+ * mint's decimals.
+ */
+export async function getTokenRequirement(supabase: SupabaseClient): Promise<TokenRequirement | null> {
+  const { data, error } = await supabase
+    .from('token_requirements')
+    .select('id, token_mint_address, token_decimals, threshold_base_units, threshold_amount, rule_mode')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch token requirements: ${error.message}`);
+  }
+
+  if (!data) return null;
+
+  let decimals = data.token_decimals;
+  let threshold = data.threshold_base_units;
+  if (threshold === null || decimals === null) {
+    decimals = await fetchMintDecimals(data.token_mint_address);
+    threshold = (BigInt(data.threshold_amount ?? 0) * 10n ** BigInt(decimals)).toString();
+  }
+
+  const single: TokenRuleMint = {
+    token_mint_address: data.token_mint_address,
+    token_decimals: decimals,
+    weight: 1,
+    threshold_base_units: threshold,
+  };
+
+  let mints = [single];
+  if (data.rule_mode !== 'single') {
+    const { data: ruleMints, error: mintsError } = await supabase
+      .from('token_requirement_mints')
+      .select('token_mint_address, token_decimals, weight, threshold_base_units')
+      .eq('requirement_id', data.id)
+      .order('position', { ascending: true });
+
+    if (mintsError) {
+      throw new Error(`Failed to fetch token requirement mints: ${mintsError.message}`);
+    }
+    if (!ruleMints?.length) {
+      throw new Error('Token rule has no mints configured');
+    }
+    mints = ruleMints;
+  }
+
+  return {
+    token_mint_address: data.token_mint_address,
+    token_decimals: decimals,
+    threshold_base_units: threshold,
+    rule_mode: data.rule_mode,
+    mints,
+  };
+}
+
+/**
+ * Server-side counterpart of checkTokenGating in src/lib/tokenGating.ts:
+ * the latest token_requirements rule decides, and verify-token-balance
+ * evaluates it against the wallet's balances. No requirements row means no
+ * gate.
+ */
+export async function checkTokenGating(
+  supabase: SupabaseClient,
+  walletAddress: string
+): Promise<TokenGatingResult> {
+  const tokenRequirements = await getTokenRequirement(supabase);
+
+  if (!tokenRequirements) {
+    return { allowed: true, balance: '0', required: '0', decimals: 0, tokenMint: null, requirement: null };
+  }
+
+  const { data: balanceCheck, error: balanceError } = await supabase.functions.invoke(
+    'verify-token-balance',
+    {
+      body: {
+        walletAddress,
+        tokenMintAddress: tokenRequirements.token_mint_address,
+      },
+    }
+  );
+
+  if (balanceError) {
+    throw new Error(`Failed to verify token balance: ${balanceError.message}`);
+  }
+
+  return {
+    allowed: Boolean(balanceCheck.hasAccess),
+    balance: String(balanceCheck.balance),
+    required: String(balanceCheck.required),
+    decimals: Number(balanceCheck.decimals ?? tokenRequirements.token_decimals),
+    tokenMint: tokenRequirements.token_mint_address,
+    requirement: tokenRequirements,
+  };
+}
@@ -0,0 +1,37 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { canonicalJson, hashHex } from './messageSignature.ts';
+
+/**
+ * Every proof send-message accepts is recorded in public.used_commitments
+ * under a commitment to it, SHA-256 of its canonical (pi_a, pi_b, pi_c), so
+ * the same proof is never accepted twice.
+ *
+ * Groth16 proofs can be re-randomised into different bytes, so this doesn't
+ * replace the nonce and nullifier checks that bind a proof to one use; it
+ * catches a proof submitted again as is, before it costs a verification.
+ */
+
+export function proofCommitment(proof: { pi_a?: unknown; pi_b?: unknown; pi_c?: unknown }): Promise<string> {
+  return hashHex(canonicalJson({ pi_a: proof.pi_a, pi_b: proof.pi_b, pi_c: proof.pi_c }));
+}
+
+/**
+ * Record the proof as used. Returns false if it already was.
+ */
+export async function recordProofUse(
+  supabase: SupabaseClient,
+  commitment: string,
+  circuitId: string,
+  epoch: number | null
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('used_commitments')
+    .insert({ commitment, circuit_id: circuitId, epoch });
+
+  if (error) {
+    if (error.code === '23505') return false;
+    throw new Error(`Failed to record proof use: ${error.message}`);
+  }
+
+  return true;
+}
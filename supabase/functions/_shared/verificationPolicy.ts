@@ -0,0 +1,87 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { ProofErrorCode } from './proofErrors.ts';
+
+/**
+ * What send-message does with a message whose proof did not verify,
+ * set with the PROOF_VERIFICATION_POLICY secret:
+ *
+ *   strict      - reject it (the default)
+ *   permissive  - store it with verified = false, shown as unverified
+ *   quarantine  - store it with verified = false and quarantined = true,
+ *                 hidden from everyone but admins until one releases it
+ *
+ * Every stored message records how its proof was checked in
+ * messages.verification_method:
+ *
+ *   native      - Groth16 pairing check in verify-zk-proof
+ *   external    - the external verifier verify-zk-proof falls back to
+ *   structural  - no cryptographic check completed; only send-message's own
+ *                 checks of the public signals ran
+ */
+
+export type VerificationPolicy = 'strict' | 'permissive' | 'quarantine';
+export type VerificationMethod = 'native' | 'external' | 'structural';
+
+export interface ProofVerification {
+  verified: boolean;
+  method: VerificationMethod;
+}
+
+export type PolicyDecision =
+  | { action: 'reject'; status: number; error: string; code: ProofErrorCode }
+  | { action: 'store'; verified: boolean; quarantined: boolean };
+
+const POLICIES: VerificationPolicy[] = ['strict', 'permissive', 'quarantine'];
+
+export function getVerificationPolicy(): VerificationPolicy {
+  const configured = Deno.env.get('PROOF_VERIFICATION_POLICY') ?? 'strict';
+  if (!POLICIES.includes(configured as VerificationPolicy)) {
+    console.warn(`Unknown PROOF_VERIFICATION_POLICY "${configured}", using strict`);
+    return 'strict';
+  }
+  return configured as VerificationPolicy;
+}
+
+/**
+ * Verify a proof with verify-zk-proof. A proof it rejects as malformed
+ * (400) counts as checked and failed; any other error means no
+ * cryptographic check completed.
+ */
+export async function verifyMessageProof(
+  supabase: SupabaseClient,
+  proof: unknown,
+  publicSignals: string[],
+  circuitId: string
+): Promise<ProofVerification> {
+  const { data, error } = await supabase.functions.invoke('verify-zk-proof', {
+    body: { proof, publicSignals, circuitId },
+  });
+
+  if (error) {
+    const status = (error as { context?: Response }).context?.status;
+    console.error('ZK proof verification error:', status, error.message);
+    return { verified: false, method: status === 400 ? 'native' : 'structural' };
+  }
+
+  return {
+    verified: data?.verified === true,
+    method: data?.verifier === 'external' ? 'external' : 'native',
+  };
+}
+
+export function applyVerificationPolicy(
+  policy: VerificationPolicy,
+  verification: ProofVerification
+): PolicyDecision {
+  if (verification.verified) {
+    return { action: 'store', verified: true, quarantined: false };
+  }
+
+  if (policy === 'strict') {
+    return verification.method === 'structural'
+      ? { action: 'reject', status: 503, error: 'Proof verification is unavailable - please try again', code: 'VERIFIER_UNAVAILABLE' }
+      : { action: 'reject', status: 403, error: 'Zero-knowledge proof failed verification', code: 'PROOF_INVALID' };
+  }
+
+  return { action: 'store', verified: false, quarantined: policy === 'quarantine' };
+}
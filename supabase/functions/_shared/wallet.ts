@@ -0,0 +1,58 @@
+import nacl from 'https://esm.sh/tweetnacl@1.0.3';
+
+// Helper function to decode base58 (Solana public key format)
+export function decodeBase58(str: string): Uint8Array {
+  const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+  const ALPHABET_MAP = new Map(ALPHABET.split('').map((c, i) => [c, BigInt(i)]));
+
+  let result = BigInt(0);
+  for (const char of str) {
+    const value = ALPHABET_MAP.get(char);
+    if (value === undefined) throw new Error('Invalid base58 character');
+    result = result * BigInt(58) + value;
+  }
+
+  // Convert BigInt to Uint8Array (32 bytes for Solana public key)
+  const bytes = new Uint8Array(32);
+  for (let i = 31; i >= 0; i--) {
+    bytes[i] = Number(result & BigInt(0xff));
+    result = result >> BigInt(8);
+  }
+
+  return bytes;
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  return new Uint8Array(hex.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || []);
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(data: string): Uint8Array {
+  return Uint8Array.from(atob(data), c => c.charCodeAt(0));
+}
+
+/**
+ * Verify a hex-encoded ed25519 signature made by a Solana wallet
+ */
+export function verifyWalletSignature(
+  message: string,
+  signatureHex: string,
+  walletAddress: string
+): boolean {
+  try {
+    return nacl.sign.detached.verify(
+      new TextEncoder().encode(message),
+      hexToBytes(signatureHex),
+      decodeBase58(walletAddress)
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,89 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { verifyWalletSignature } from '../_shared/wallet.ts';
+import { anonIdentityMessage, isWalletBanned } from '../_shared/anonymous.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RegisterIdentityRequest {
+  walletAddress: string;
+  identityCommitment: string;
+  signature: string;
+  timestamp: number;
+}
+
+// BN254 scalar field modulus: commitments are Poseidon outputs below it
+const FIELD_MODULUS = BigInt('21888242871839275222246405745257275088548364400416034343698204186575808495617');
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function isFieldElement(value: string): boolean {
+  return /^[1-9][0-9]{0,76}$/.test(value) && BigInt(value) < FIELD_MODULUS;
+}
+
+/**
+ * Registers a wallet's anonymous identity commitment. The next holder
+ * snapshot puts it in the wallet's leaf, after which the wallet can post
+ * to anonymous rooms. Registering again replaces the commitment, unless the
+ * wallet's identity was banned for exceeding the anonymous message limit.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { walletAddress, identityCommitment, signature, timestamp } =
+      await req.json() as RegisterIdentityRequest;
+
+    if (!walletAddress || !identityCommitment || !signature || !timestamp) {
+      return jsonResponse({ error: 'Missing required fields' }, 400);
+    }
+
+    if (!isFieldElement(identityCommitment)) {
+      return jsonResponse({ error: 'Invalid identity commitment' }, 400);
+    }
+
+    // Check timestamp to prevent replay attacks (within 5 minutes)
+    if (Math.abs(Date.now() - timestamp) > 5 * 60 * 1000) {
+      return jsonResponse({ error: 'Signature expired - please try again' }, 401);
+    }
+
+    if (!verifyWalletSignature(anonIdentityMessage(identityCommitment, timestamp), signature, walletAddress)) {
+      return jsonResponse({ error: 'Invalid wallet signature - authentication failed' }, 401);
+    }
+
+    if (await isWalletBanned(supabase, walletAddress)) {
+      return jsonResponse({ error: 'This wallet is banned from anonymous rooms' }, 403);
+    }
+
+    const { error } = await supabase.from('anonymous_identities').upsert({
+      wallet_address: walletAddress,
+      identity_commitment: identityCommitment,
+      signature,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      console.error('Database error:', error);
+      return jsonResponse({ error: 'Failed to register anonymous identity' }, 500);
+    }
+
+    return jsonResponse({ success: true, identityCommitment });
+  } catch (error) {
+    console.error('Error registering anonymous identity:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
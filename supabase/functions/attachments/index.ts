@@ -0,0 +1,279 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { checkTokenGating } from '../_shared/tokenGating.ts';
+import { verifyWalletSignature } from '../_shared/wallet.ts';
+import { ATTACHMENT_BUCKET, BUCKET_SIZE_LIMIT, getAttachmentLimits, maxEncryptedSize } from '../_shared/attachments.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DOWNLOAD_URL_TTL_SECONDS = 10 * 60;
+
+interface PrepareRequest {
+  action: 'prepare';
+  walletAddress: string;
+  contentHash: string;
+  size: number; // ciphertext bytes
+  mimeType: string;
+  timestamp: number;
+  signature: string;
+}
+
+interface CompleteRequest {
+  action: 'complete';
+  walletAddress: string;
+  contentHash: string;
+}
+
+interface DownloadRequest {
+  action: 'download';
+  contentHash: string;
+}
+
+interface LimitsRequest {
+  action: 'limits';
+  walletAddress: string;
+  maxSizeBytes: number;
+  allowedMimeTypes: string[];
+  timestamp: number;
+  signature: string;
+}
+
+type AttachmentRequest = PrepareRequest | CompleteRequest | DownloadRequest | LimitsRequest;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function isContentHash(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+}
+
+/**
+ * Gated attachment storage:
+ * - prepare: signed + token-gated, checks admin limits, returns a signed upload URL
+ * - complete: hashes the uploaded ciphertext and marks it ready for messages
+ * - download: signed URL for a finished upload (contents are encrypted)
+ * - limits: admin-signed update of the size and type limits
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json() as AttachmentRequest;
+
+    if (body.action === 'download') {
+      if (!isContentHash(body.contentHash)) {
+        return jsonResponse({ error: 'Invalid content hash' }, 400);
+      }
+
+      const { data: attachment } = await supabase
+        .from('attachments')
+        .select('content_hash')
+        .eq('content_hash', body.contentHash)
+        .eq('status', 'ready')
+        .maybeSingle();
+
+      if (!attachment) {
+        return jsonResponse({ error: 'Attachment not found' }, 404);
+      }
+
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .createSignedUrl(body.contentHash, DOWNLOAD_URL_TTL_SECONDS);
+
+      if (error || !data) {
+        console.error('Storage error:', error);
+        return jsonResponse({ error: 'Failed to create download URL' }, 500);
+      }
+
+      return jsonResponse({ url: data.signedUrl });
+    }
+
+    if (body.action === 'complete') {
+      const { walletAddress, contentHash } = body;
+
+      const { data: attachment } = await supabase
+        .from('attachments')
+        .select('content_hash, size_bytes, status')
+        .eq('content_hash', contentHash)
+        .eq('uploader_wallet', walletAddress)
+        .maybeSingle();
+
+      if (!attachment) {
+        return jsonResponse({ error: 'Attachment not found' }, 404);
+      }
+      if (attachment.status === 'ready') {
+        return jsonResponse({ success: true, contentHash });
+      }
+
+      const { data: blob, error: downloadError } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .download(contentHash);
+
+      if (downloadError || !blob) {
+        return jsonResponse({ error: 'Upload not found - please try again' }, 400);
+      }
+
+      // The stored object must be exactly the ciphertext that was approved
+      const bytes = await blob.arrayBuffer();
+      if (bytes.byteLength !== attachment.size_bytes || await sha256Hex(bytes) !== contentHash) {
+        await supabase.storage.from(ATTACHMENT_BUCKET).remove([contentHash]);
+        await supabase.from('attachments').delete().eq('content_hash', contentHash);
+        return jsonResponse({ error: 'Uploaded file does not match its content hash' }, 400);
+      }
+
+      const { error } = await supabase
+        .from('attachments')
+        .update({ status: 'ready', completed_at: new Date().toISOString() })
+        .eq('content_hash', contentHash);
+
+      if (error) {
+        console.error('Database error:', error);
+        return jsonResponse({ error: 'Failed to complete upload' }, 500);
+      }
+
+      return jsonResponse({ success: true, contentHash });
+    }
+
+    if (body.action !== 'prepare' && body.action !== 'limits') {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    const { walletAddress, signature, timestamp } = body;
+
+    // Check timestamp to prevent replay attacks (within 5 minutes)
+    if (Math.abs(Date.now() - timestamp) > 5 * 60 * 1000) {
+      return jsonResponse({ error: 'Signature expired - please try again' }, 401);
+    }
+
+    if (body.action === 'limits') {
+      const { maxSizeBytes, allowedMimeTypes } = body;
+      const authMessage = `SNARK:attachment-limits:${maxSizeBytes}:${allowedMimeTypes.join(',')}:${timestamp}`;
+      if (!verifyWalletSignature(authMessage, signature, walletAddress)) {
+        return jsonResponse({ error: 'Invalid wallet signature - authentication failed' }, 401);
+      }
+
+      const { data: isAdmin } = await supabase.rpc('is_admin', { wallet_addr: walletAddress });
+      if (!isAdmin) {
+        return jsonResponse({ error: 'Admin privileges required' }, 403);
+      }
+
+      if (!Number.isInteger(maxSizeBytes) || maxSizeBytes <= 0) {
+        return jsonResponse({ error: 'Maximum size must be a positive number of bytes' }, 400);
+      }
+      if (maxEncryptedSize(maxSizeBytes) > BUCKET_SIZE_LIMIT) {
+        return jsonResponse({ error: `Maximum size can be at most ${BUCKET_SIZE_LIMIT} bytes including encryption overhead` }, 400);
+      }
+
+      const { data, error } = await supabase
+        .from('attachment_limits')
+        .insert({
+          max_size_bytes: maxSizeBytes,
+          allowed_mime_types: allowedMimeTypes,
+          updated_by: walletAddress,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Database error:', error);
+        return jsonResponse({ error: 'Failed to update attachment limits' }, 500);
+      }
+
+      return jsonResponse({ success: true, limits: data });
+    }
+
+    const { contentHash, size, mimeType } = body;
+
+    if (!isContentHash(contentHash)) {
+      return jsonResponse({ error: 'Invalid content hash' }, 400);
+    }
+
+    const authMessage = `SNARK:attachment:${contentHash}:${size}:${mimeType}:${timestamp}`;
+    if (!verifyWalletSignature(authMessage, signature, walletAddress)) {
+      return jsonResponse({ error: 'Invalid wallet signature - authentication failed' }, 401);
+    }
+
+    const gating = await checkTokenGating(supabase, walletAddress);
+    if (!gating.allowed) {
+      return jsonResponse(
+        { error: 'Insufficient token balance', balance: gating.balance, required: gating.required },
+        403
+      );
+    }
+
+    const limits = await getAttachmentLimits(supabase);
+    if (!limits.allowed_mime_types.includes(mimeType)) {
+      return jsonResponse({ error: `File type ${mimeType || 'unknown'} is not allowed` }, 400);
+    }
+    if (!Number.isInteger(size) || size <= 0 || size > maxEncryptedSize(limits.max_size_bytes)) {
+      return jsonResponse(
+        { error: 'File is too large', maxSizeBytes: limits.max_size_bytes },
+        400
+      );
+    }
+
+    const { data: existing } = await supabase
+      .from('attachments')
+      .select('uploader_wallet, status')
+      .eq('content_hash', contentHash)
+      .maybeSingle();
+
+    if (existing?.status === 'ready' && existing.uploader_wallet === walletAddress) {
+      return jsonResponse({ alreadyUploaded: true, contentHash });
+    }
+    if (existing && existing.uploader_wallet !== walletAddress) {
+      return jsonResponse({ error: 'Attachment already exists' }, 409);
+    }
+
+    if (!existing) {
+      const { error } = await supabase.from('attachments').insert({
+        content_hash: contentHash,
+        uploader_wallet: walletAddress,
+        size_bytes: size,
+        mime_type: mimeType,
+      });
+
+      if (error) {
+        console.error('Database error:', error);
+        return jsonResponse({ error: 'Failed to register attachment' }, 500);
+      }
+    }
+
+    // Upload URLs can't overwrite, so clear whatever an earlier attempt left
+    if (existing) {
+      await supabase.storage.from(ATTACHMENT_BUCKET).remove([contentHash]);
+    }
+
+    const { data: upload, error: uploadError } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUploadUrl(contentHash, { upsert: false });
+
+    if (uploadError || !upload) {
+      console.error('Storage error:', uploadError);
+      return jsonResponse({ error: 'Failed to create upload URL' }, 500);
+    }
+
+    return jsonResponse({ path: upload.path, token: upload.token, contentHash });
+  } catch (error) {
+    console.error('Error handling attachment:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
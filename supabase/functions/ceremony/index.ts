@@ -0,0 +1,604 @@
+import { SupabaseClient, createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { verifyWalletSignature } from '../_shared/wallet.ts';
+import { canonicalJson } from '../_shared/messageSignature.ts';
+import {
+  BEACON_ITERATIONS_EXP,
+  CEREMONY_BUCKET,
+  CLAIM_TTL_MS,
+  CeremonyVerification,
+  ceremonyFileUrl,
+  fetchBeacon,
+  r1csPath,
+  verifyCeremonyZkey,
+  vkeyPath,
+  zkeyPath,
+} from '../_shared/ceremony.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface SignedRequest {
+  walletAddress: string;
+  signature: string;
+  timestamp: number;
+}
+
+interface OpenRequest extends SignedRequest {
+  action: 'open';
+  circuitName: string;
+  r1csSha256: string;
+  wasmSha256: string;
+  ptauUrl: string;
+}
+
+interface ClaimRequest extends SignedRequest {
+  action: 'claim';
+  ceremonyId: string;
+  beacon?: boolean;
+}
+
+interface SubmitRequest extends SignedRequest {
+  action: 'submit';
+  ceremonyId: string;
+  position: number;
+  zkeySha256: string;
+}
+
+interface AdminRequest extends SignedRequest {
+  action: 'activate' | 'cancel';
+  ceremonyId: string;
+}
+
+type CeremonyRequest = OpenRequest | ClaimRequest | SubmitRequest | AdminRequest;
+
+interface Ceremony {
+  id: string;
+  circuit_name: string;
+  status: 'open' | 'finalized' | 'activated' | 'cancelled';
+  r1cs_sha256: string;
+  wasm_sha256: string;
+  ptau_url: string;
+  r1cs_path: string;
+  contribution_count: number;
+  claimed_by: string | null;
+  claim_position: number | null;
+  claim_expires_at: string | null;
+  beacon_hash: string | null;
+  beacon_slot: number | null;
+  final_zkey_sha256: string | null;
+  vkey_path: string | null;
+  vkey_sha256: string | null;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function isSha256(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+}
+
+async function isAdminWallet(supabase: SupabaseClient, walletAddress: string): Promise<boolean> {
+  const { data } = await supabase.rpc('is_admin', { wallet_addr: walletAddress });
+  return !!data;
+}
+
+function signedMessage(body: CeremonyRequest): string {
+  switch (body.action) {
+    case 'open':
+      return `SNARK:ceremony-open:${body.circuitName}:${body.r1csSha256}:${body.wasmSha256}:${body.timestamp}`;
+    case 'submit':
+      return `SNARK:ceremony-submit:${body.ceremonyId}:${body.position}:${body.zkeySha256}:${body.timestamp}`;
+    default:
+      return `SNARK:ceremony-${body.action}:${body.ceremonyId}:${body.timestamp}`;
+  }
+}
+
+async function getCeremony(supabase: SupabaseClient, ceremonyId: string): Promise<Ceremony | null> {
+  const { data, error } = await supabase
+    .from('setup_ceremonies')
+    .select('*')
+    .eq('id', ceremonyId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load ceremony ${ceremonyId}: ${error.message}`);
+  }
+
+  return data as Ceremony | null;
+}
+
+async function downloadFile(supabase: SupabaseClient, path: string): Promise<ArrayBuffer | null> {
+  const { data, error } = await supabase.storage.from(CEREMONY_BUCKET).download(path);
+  return error || !data ? null : await data.arrayBuffer();
+}
+
+// Accepted files must never change, so upload URLs can't overwrite
+async function signedUpload(supabase: SupabaseClient, path: string): Promise<{ path: string; token: string }> {
+  const { data, error } = await supabase.storage
+    .from(CEREMONY_BUCKET)
+    .createSignedUploadUrl(path, { upsert: false });
+
+  if (error || !data) {
+    throw new Error(`Failed to create upload URL for ${path}: ${error?.message}`);
+  }
+
+  return { path: data.path, token: data.token };
+}
+
+/**
+ * Why a verified zkey can't be accepted at `position`, or null if it can:
+ * it must hold exactly one contribution per earlier position, the earlier
+ * ones being the recorded contributions (`recordedHashes`, position 1
+ * first), and only the last may be the beacon. Without the hash check an
+ * uploader could rebuild the chain from the initial zkey with contributions
+ * of their own and discard everyone else's.
+ */
+function checkTranscript(
+  verification: CeremonyVerification,
+  position: number,
+  recordedHashes: string[],
+  beaconHash: string | null
+): string | null {
+  const latest = verification.contributions[verification.contributions.length - 1];
+
+  if (!verification.valid) {
+    return 'The zkey failed verification';
+  }
+  if (verification.contributions.length !== position) {
+    return 'The zkey does not build on the previous contribution';
+  }
+  if (
+    recordedHashes.length !== Math.max(0, position - 1) ||
+    recordedHashes.some((hash, i) => verification.contributions[i].hash !== hash)
+  ) {
+    return 'The zkey does not build on the recorded contributions';
+  }
+  if (beaconHash && (latest.beaconHash !== beaconHash || latest.beaconIterationsExp !== BEACON_ITERATIONS_EXP)) {
+    return 'The zkey was not finalized with the ceremony beacon';
+  }
+  if (!beaconHash && verification.contributions.some(contribution => contribution.beaconHash)) {
+    return 'Beacon contributions are reserved for finalizing';
+  }
+  return null;
+}
+
+/**
+ * Multi-party Phase 2 trusted setup (see the setup_ceremonies migration).
+ * Every action is signed by a wallet:
+ * - open: admin; starts a ceremony and returns uploads for the r1cs and
+ *   the initial zkey, which the admin then submits as position 0
+ * - claim: reserves the next position for CLAIM_TTL_MS and returns the
+ *   zkey to contribute to; with beacon (admin only) the next position
+ *   is the final beacon, taken from the latest finalized Solana block
+ * - submit: has the uploaded zkey verified from the r1cs and Powers of Tau
+ *   and adds it to the transcript
+ * - activate: admin; registers the finalized vkey as the circuit's
+ *   active build
+ * - cancel: admin; abandons an open ceremony
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json() as CeremonyRequest;
+
+    if (!['open', 'claim', 'submit', 'activate', 'cancel'].includes(body.action)) {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    const { walletAddress, signature, timestamp } = body;
+
+    // Check timestamp to prevent replay attacks (within 5 minutes)
+    if (Math.abs(Date.now() - timestamp) > 5 * 60 * 1000) {
+      return jsonResponse({ error: 'Signature expired - please try again' }, 401);
+    }
+
+    if (!verifyWalletSignature(signedMessage(body), signature, walletAddress)) {
+      return jsonResponse({ error: 'Invalid wallet signature - authentication failed' }, 401);
+    }
+
+    const isAdmin = await isAdminWallet(supabase, walletAddress);
+
+    if (body.action === 'open') {
+      if (!isAdmin) {
+        return jsonResponse({ error: 'Admin privileges required' }, 403);
+      }
+
+      const { circuitName, r1csSha256, wasmSha256, ptauUrl } = body;
+      if (typeof circuitName !== 'string' || !/^[A-Za-z0-9_]{1,64}$/.test(circuitName)) {
+        return jsonResponse({ error: 'Invalid circuit name' }, 400);
+      }
+      if (!isSha256(r1csSha256) || !isSha256(wasmSha256)) {
+        return jsonResponse({ error: 'Invalid r1cs or wasm hash' }, 400);
+      }
+      if (typeof ptauUrl !== 'string' || !ptauUrl.startsWith('https://')) {
+        return jsonResponse({ error: 'The Powers of Tau file must be an https URL' }, 400);
+      }
+
+      const ceremonyId = crypto.randomUUID();
+      const path = r1csPath(ceremonyId, circuitName);
+
+      const { error } = await supabase
+        .from('setup_ceremonies')
+        .insert({
+          id: ceremonyId,
+          circuit_name: circuitName,
+          r1cs_sha256: r1csSha256,
+          wasm_sha256: wasmSha256,
+          ptau_url: ptauUrl,
+          r1cs_path: path,
+          claimed_by: walletAddress,
+          claim_position: 0,
+          claim_expires_at: new Date(Date.now() + CLAIM_TTL_MS).toISOString(),
+          created_by: walletAddress,
+        });
+
+      if (error?.code === '23505') {
+        return jsonResponse({ error: `A ceremony for ${circuitName} is already open` }, 409);
+      }
+      if (error) {
+        console.error('Database error:', error);
+        return jsonResponse({ error: 'Failed to open ceremony' }, 500);
+      }
+
+      console.log(`🕯️ Ceremony ${ceremonyId} opened for ${circuitName} by ${walletAddress}`);
+
+      return jsonResponse({
+        ceremonyId,
+        position: 0,
+        uploads: {
+          r1cs: await signedUpload(supabase, path),
+          zkey: await signedUpload(supabase, zkeyPath(ceremonyId, 0)),
+        },
+      });
+    }
+
+    const ceremony = await getCeremony(supabase, body.ceremonyId);
+    if (!ceremony) {
+      return jsonResponse({ error: 'Ceremony not found' }, 404);
+    }
+
+    if (body.action === 'claim') {
+      if (ceremony.status !== 'open') {
+        return jsonResponse({ error: 'This ceremony is no longer taking contributions' }, 409);
+      }
+
+      const { count: initialCount } = await supabase
+        .from('ceremony_contributions')
+        .select('id', { count: 'exact', head: true })
+        .eq('ceremony_id', ceremony.id)
+        .eq('position', 0);
+
+      if (!initialCount) {
+        return jsonResponse({ error: 'The ceremony has not started yet' }, 409);
+      }
+
+      let beacon: { hash: string; slot: number } | null = null;
+
+      if (body.beacon) {
+        if (!isAdmin) {
+          return jsonResponse({ error: 'Admin privileges required' }, 403);
+        }
+        if (ceremony.contribution_count === 0) {
+          return jsonResponse({ error: 'The ceremony needs at least one contribution first' }, 409);
+        }
+        // Picked once; renewing the claim keeps the same beacon
+        beacon = ceremony.beacon_hash
+          ? { hash: ceremony.beacon_hash, slot: ceremony.beacon_slot! }
+          : await fetchBeacon();
+      } else {
+        if (ceremony.beacon_hash) {
+          return jsonResponse({ error: 'The ceremony is being finalized' }, 409);
+        }
+
+        const { count: contributed } = await supabase
+          .from('ceremony_contributions')
+          .select('id', { count: 'exact', head: true })
+          .eq('ceremony_id', ceremony.id)
+          .eq('wallet_address', walletAddress)
+          .eq('kind', 'contribution');
+
+        if (contributed) {
+          return jsonResponse({ error: 'You have already contributed to this ceremony' }, 409);
+        }
+      }
+
+      const position = ceremony.contribution_count + 1;
+      const now = new Date();
+
+      // Take the claim only if it is free, expired or already ours, and
+      // nobody has contributed since the ceremony was read
+      const { data: claimed, error } = await supabase
+        .from('setup_ceremonies')
+        .update({
+          claimed_by: walletAddress,
+          claim_position: position,
+          claim_expires_at: new Date(now.getTime() + CLAIM_TTL_MS).toISOString(),
+          ...(beacon && {
+            beacon_hash: beacon.hash,
+            beacon_slot: beacon.slot,
+            beacon_iterations_exp: BEACON_ITERATIONS_EXP,
+          }),
+        })
+        .eq('id', ceremony.id)
+        .eq('status', 'open')
+        .eq('contribution_count', ceremony.contribution_count)
+        .or(`claimed_by.is.null,claimed_by.eq.${walletAddress},claim_expires_at.lt.${now.toISOString()}`)
+        .select('id')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Database error:', error);
+        return jsonResponse({ error: 'Failed to claim a contribution slot' }, 500);
+      }
+      if (!claimed) {
+        return jsonResponse(
+          { error: 'Someone else is contributing right now - please try again in a few minutes', claimExpiresAt: ceremony.claim_expires_at },
+          409
+        );
+      }
+
+      // The zkey to build on must still be the one the transcript recorded
+      const { data: previous } = await supabase
+        .from('ceremony_contributions')
+        .select('zkey_path, zkey_sha256')
+        .eq('ceremony_id', ceremony.id)
+        .eq('position', position - 1)
+        .maybeSingle();
+
+      const previousZkey = previous && await downloadFile(supabase, previous.zkey_path);
+      if (!previous || !previousZkey || await sha256Hex(previousZkey) !== previous.zkey_sha256) {
+        console.error(`❌ Ceremony ${ceremony.id}: zkey ${position - 1} does not match the transcript`);
+        return jsonResponse({ error: 'The latest zkey does not match the transcript - an admin needs to cancel this ceremony' }, 409);
+      }
+
+      // Left over from an upload that was never accepted, e.g. when verification was unavailable
+      const uploadPaths = [zkeyPath(ceremony.id, position), ...(beacon ? [vkeyPath(ceremony.id, ceremony.circuit_name)] : [])];
+      await supabase.storage.from(CEREMONY_BUCKET).remove(uploadPaths);
+
+      return jsonResponse({
+        position,
+        previousZkeyUrl: ceremonyFileUrl(supabase, previous.zkey_path),
+        upload: await signedUpload(supabase, zkeyPath(ceremony.id, position)),
+        ...(beacon && {
+          beacon: { ...beacon, iterationsExp: BEACON_ITERATIONS_EXP },
+          vkeyUpload: await signedUpload(supabase, vkeyPath(ceremony.id, ceremony.circuit_name)),
+        }),
+      });
+    }
+
+    if (body.action === 'submit') {
+      const { position, zkeySha256 } = body;
+
+      if (
+        ceremony.status !== 'open' ||
+        ceremony.claimed_by !== walletAddress ||
+        ceremony.claim_position !== position ||
+        new Date(ceremony.claim_expires_at ?? 0).getTime() < Date.now()
+      ) {
+        return jsonResponse({ error: 'Your claim on this position has expired - please contribute again' }, 409);
+      }
+
+      const path = zkeyPath(ceremony.id, position);
+      const zkey = await downloadFile(supabase, path);
+      if (!zkey || await sha256Hex(zkey) !== zkeySha256) {
+        return jsonResponse({ error: 'Uploaded zkey does not match its signed hash' }, 400);
+      }
+
+      if (position === 0) {
+        const r1cs = await downloadFile(supabase, ceremony.r1cs_path);
+        if (!r1cs || await sha256Hex(r1cs) !== ceremony.r1cs_sha256) {
+          return jsonResponse({ error: 'Uploaded r1cs does not match the ceremony' }, 400);
+        }
+      }
+
+      let verification: CeremonyVerification;
+      try {
+        verification = await verifyCeremonyZkey({
+          r1csUrl: ceremonyFileUrl(supabase, ceremony.r1cs_path),
+          ptauUrl: ceremony.ptau_url,
+          zkeyUrl: ceremonyFileUrl(supabase, path),
+        });
+      } catch (error) {
+        console.error('Ceremony verifier error:', error);
+        return jsonResponse({ error: 'Contribution verification is unavailable - please try again' }, 503);
+      }
+
+      const isBeacon = position > 0 && ceremony.beacon_hash !== null;
+      const latest = verification.contributions[verification.contributions.length - 1];
+
+      const { data: recorded, error: recordedError } = await supabase
+        .from('ceremony_contributions')
+        .select('contribution_hash')
+        .eq('ceremony_id', ceremony.id)
+        .gt('position', 0)
+        .lt('position', position)
+        .order('position', { ascending: true });
+
+      if (recordedError) {
+        console.error('Database error:', recordedError);
+        return jsonResponse({ error: 'Failed to load the ceremony transcript' }, 500);
+      }
+
+      const rejection = checkTranscript(
+        verification,
+        position,
+        (recorded ?? []).map(row => row.contribution_hash),
+        isBeacon ? ceremony.beacon_hash : null
+      );
+
+      if (rejection) {
+        console.warn(`❌ Ceremony ${ceremony.id} position ${position}: ${rejection}`);
+        await supabase.storage.from(CEREMONY_BUCKET).remove([path]);
+        return jsonResponse({ error: rejection, log: verification.log }, 400);
+      }
+
+      let vkeySha256: string | null = null;
+      if (isBeacon) {
+        const vkey = await downloadFile(supabase, vkeyPath(ceremony.id, ceremony.circuit_name));
+        let uploaded: unknown = null;
+        try {
+          uploaded = vkey && JSON.parse(new TextDecoder().decode(vkey));
+        } catch {
+          // Compared below
+        }
+        if (!vkey || !verification.vkey || canonicalJson(uploaded) !== canonicalJson(verification.vkey)) {
+          return jsonResponse({ error: 'Uploaded verification key does not match the final zkey' }, 400);
+        }
+        vkeySha256 = await sha256Hex(vkey);
+      }
+
+      const kind = position === 0 ? 'initial' : isBeacon ? 'beacon' : 'contribution';
+      const { error: insertError } = await supabase.from('ceremony_contributions').insert({
+        ceremony_id: ceremony.id,
+        position,
+        kind,
+        wallet_address: walletAddress,
+        name: (latest?.name || (position === 0 ? 'Initial zkey' : 'anonymous')).slice(0, 64),
+        zkey_path: path,
+        zkey_sha256: zkeySha256,
+        contribution_hash: latest?.hash ?? '',
+        signature,
+        signed_at: timestamp,
+        verification_log: verification.log,
+      });
+
+      if (insertError?.code === '23505') {
+        return jsonResponse({ error: 'You have already contributed to this ceremony' }, 409);
+      }
+      if (insertError) {
+        console.error('Database error:', insertError);
+        return jsonResponse({ error: 'Failed to record contribution' }, 500);
+      }
+
+      const { error: updateError } = await supabase
+        .from('setup_ceremonies')
+        .update({
+          claimed_by: null,
+          claim_position: null,
+          claim_expires_at: null,
+          ...(kind === 'contribution' && { contribution_count: position }),
+          ...(isBeacon && {
+            status: 'finalized',
+            final_zkey_path: path,
+            final_zkey_sha256: zkeySha256,
+            vkey_path: vkeyPath(ceremony.id, ceremony.circuit_name),
+            vkey_sha256: vkeySha256,
+            finalized_at: new Date().toISOString(),
+          }),
+        })
+        .eq('id', ceremony.id);
+
+      if (updateError) {
+        console.error('Database error:', updateError);
+        return jsonResponse({ error: 'Failed to update ceremony' }, 500);
+      }
+
+      console.log(`🕯️ Ceremony ${ceremony.id}: ${kind} at position ${position} from ${walletAddress}`);
+
+      return jsonResponse({ success: true, position, kind, contributionHash: latest?.hash ?? null });
+    }
+
+    if (!isAdmin) {
+      return jsonResponse({ error: 'Admin privileges required' }, 403);
+    }
+
+    if (body.action === 'cancel') {
+      const { error } = await supabase
+        .from('setup_ceremonies')
+        .update({ status: 'cancelled', claimed_by: null, claim_position: null, claim_expires_at: null })
+        .eq('id', ceremony.id)
+        .eq('status', 'open');
+
+      if (error) {
+        console.error('Database error:', error);
+        return jsonResponse({ error: 'Failed to cancel ceremony' }, 500);
+      }
+
+      return jsonResponse({ success: true });
+    }
+
+    if (ceremony.status !== 'finalized') {
+      return jsonResponse({ error: 'Only a finalized ceremony can be activated' }, 409);
+    }
+
+    const vkeyBytes = await downloadFile(supabase, ceremony.vkey_path!);
+    if (!vkeyBytes || await sha256Hex(vkeyBytes) !== ceremony.vkey_sha256) {
+      return jsonResponse({ error: 'The ceremony verification key is missing or changed' }, 500);
+    }
+
+    // Same id circuitIdOf in src/lib/zkArtifacts.ts gives the published build
+    const circuitId = `${ceremony.circuit_name}@${ceremony.vkey_sha256!.slice(0, 16)}`;
+
+    const { data: existing } = await supabase
+      .from('circuits')
+      .select('id')
+      .eq('id', circuitId)
+      .maybeSingle();
+
+    if (!existing) {
+      // Only one active build per circuit
+      const { error: deprecateError } = await supabase
+        .from('circuits')
+        .update({ status: 'deprecated', updated_at: new Date().toISOString() })
+        .eq('name', ceremony.circuit_name)
+        .eq('status', 'active');
+
+      if (deprecateError) {
+        console.error('Database error:', deprecateError);
+        return jsonResponse({ error: 'Failed to deprecate the current build' }, 500);
+      }
+
+      const { error: insertError } = await supabase.from('circuits').insert({
+        id: circuitId,
+        name: ceremony.circuit_name,
+        version: ceremony.r1cs_sha256,
+        vkey: JSON.parse(new TextDecoder().decode(vkeyBytes)),
+        wasm_sha256: ceremony.wasm_sha256,
+        zkey_sha256: ceremony.final_zkey_sha256,
+        vkey_sha256: ceremony.vkey_sha256,
+        status: 'active',
+      });
+
+      if (insertError) {
+        console.error('Database error:', insertError);
+        return jsonResponse({ error: 'Failed to register the circuit build' }, 500);
+      }
+    }
+
+    const { error: activateError } = await supabase
+      .from('setup_ceremonies')
+      .update({ status: 'activated', circuit_id: circuitId })
+      .eq('id', ceremony.id);
+
+    if (activateError) {
+      console.error('Database error:', activateError);
+      return jsonResponse({ error: 'Failed to update ceremony' }, 500);
+    }
+
+    console.log(`✅ Ceremony ${ceremony.id} activated as ${circuitId}`);
+
+    return jsonResponse({ success: true, circuitId });
+  } catch (error) {
+    console.error('Error handling ceremony:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
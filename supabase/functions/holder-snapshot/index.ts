@@ -0,0 +1,143 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { verifyWalletSignature } from '../_shared/wallet.ts';
+import {
+  HOLDER_SNAPSHOT_BUCKET,
+  buildHolderSnapshot,
+  fetchHolderBalances,
+} from '../_shared/holderSnapshot.ts';
+import { getIdentityCommitments } from '../_shared/anonymous.ts';
+import { evaluateTokenRule, getTokenRequirement, ruleMintSet } from '../_shared/tokenGating.ts';
+import { rotateRoomsWithLapsedHolders } from '../_shared/roomKeys.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-snapshot-secret',
+};
+
+const SOLANA_RPC = 'https://api.mainnet-beta.solana.com';
+
+// Sent by an admin from the dashboard; a scheduled job sends x-snapshot-secret instead
+interface SnapshotRequest {
+  walletAddress?: string;
+  signature?: string;
+  timestamp?: number;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Snapshots every holder of the token rule's mints into a Poseidon Merkle tree,
+ * publishes the leaves to the holder-snapshots bucket and records the root.
+ * Clients prove inclusion of their own leaf, so no balance lookup is needed
+ * when they send a message.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const snapshotSecret = Deno.env.get('HOLDER_SNAPSHOT_SECRET');
+    const scheduled = !!snapshotSecret && req.headers.get('x-snapshot-secret') === snapshotSecret;
+    let createdBy = 'scheduled';
+
+    if (!scheduled) {
+      const { walletAddress, signature, timestamp } = await req.json() as SnapshotRequest;
+
+      if (!walletAddress || !signature || !timestamp) {
+        return jsonResponse({ error: 'Missing required fields' }, 400);
+      }
+
+      // Check timestamp to prevent replay attacks (within 5 minutes)
+      if (Math.abs(Date.now() - timestamp) > 5 * 60 * 1000) {
+        return jsonResponse({ error: 'Signature expired - please try again' }, 401);
+      }
+
+      const authMessage = `SNARK:holder-snapshot:${timestamp}`;
+      if (!verifyWalletSignature(authMessage, signature, walletAddress)) {
+        return jsonResponse({ error: 'Invalid wallet signature - authentication failed' }, 401);
+      }
+
+      const { data: isAdmin } = await supabase.rpc('is_admin', { wallet_addr: walletAddress });
+      if (!isAdmin) {
+        return jsonResponse({ error: 'Admin privileges required' }, 403);
+      }
+
+      createdBy = walletAddress;
+    }
+
+    const requirements = await getTokenRequirement(supabase);
+    if (!requirements) {
+      return jsonResponse({ error: 'Token requirements not configured' }, 400);
+    }
+
+    const tokenMintAddress = requirements.token_mint_address;
+    const balancesByMint: Map<string, bigint>[] = [];
+    for (const mint of requirements.mints) {
+      balancesByMint.push(await fetchHolderBalances(Deno.env.get('SOLANA_RPC_URL') ?? SOLANA_RPC, mint.token_mint_address));
+    }
+    const identityCommitments = await getIdentityCommitments(supabase);
+    const snapshot = await buildHolderSnapshot(requirements, balancesByMint, identityCommitments);
+
+    const snapshotId = crypto.randomUUID();
+    const dumpPath = `${tokenMintAddress}/${snapshotId}.json`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(HOLDER_SNAPSHOT_BUCKET)
+      .upload(dumpPath, new Blob([JSON.stringify(snapshot)], { type: 'application/json' }), {
+        contentType: 'application/json',
+      });
+
+    if (uploadError) {
+      console.error('Storage error:', uploadError);
+      return jsonResponse({ error: 'Failed to publish holder snapshot' }, 500);
+    }
+
+    const { error } = await supabase.from('holder_snapshots').insert({
+      id: snapshotId,
+      token_mint_address: tokenMintAddress,
+      mint_set: ruleMintSet(requirements),
+      merkle_root: snapshot.merkleRoot,
+      tree_depth: snapshot.treeDepth,
+      leaf_count: snapshot.leaves.length,
+      dump_path: dumpPath,
+      created_by: createdBy,
+    });
+
+    if (error) {
+      console.error('Database error:', error);
+      return jsonResponse({ error: 'Failed to record holder snapshot' }, 500);
+    }
+
+    console.log(`🌳 Holder snapshot ${snapshotId}: ${snapshot.leaves.length} holders, root ${snapshot.merkleRoot}`);
+
+    // Wallets that hold a current room key but fell below the rule lose it now
+    const rotatedRooms = await rotateRoomsWithLapsedHolders(
+      supabase,
+      wallet => evaluateTokenRule(requirements, balancesByMint.map(balances => balances.get(wallet) ?? 0n)).allowed,
+      createdBy
+    );
+
+    return jsonResponse({
+      success: true,
+      snapshotId,
+      merkleRoot: snapshot.merkleRoot,
+      leafCount: snapshot.leaves.length,
+      dumpPath,
+      rotatedRooms,
+    });
+  } catch (error) {
+    console.error('Error building holder snapshot:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
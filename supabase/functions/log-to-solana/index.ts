@@ -1,16 +1,53 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+import { messageMemo } from '../_shared/commitment.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const MEMO_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr'
+
 interface SolanaLogRequest {
   messageId: string
-  messageHash: string
   transactionSignature: string
 }
 
+// The parts of a `jsonParsed` getTransaction result we check
+interface ParsedInstruction {
+  program?: string
+  programId: string
+  parsed?: unknown
+}
+
+interface ParsedTransaction {
+  meta: { err: unknown } | null
+  transaction: {
+    message: {
+      accountKeys: { pubkey: string; signer: boolean }[]
+      instructions: ParsedInstruction[]
+    }
+  }
+}
+
+interface RpcResponse {
+  result?: ParsedTransaction | null
+  error?: unknown
+}
+
+function findMemos(tx: ParsedTransaction): string[] {
+  return tx.transaction.message.instructions
+    .filter(ix => ix.programId === MEMO_PROGRAM_ID && typeof ix.parsed === 'string')
+    .map(ix => ix.parsed as string)
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -23,18 +60,35 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    const { messageId, messageHash, transactionSignature }: SolanaLogRequest = await req.json()
+    const { messageId, transactionSignature }: SolanaLogRequest = await req.json()
 
     console.log('Logging to Solana - Message ID:', messageId)
-    console.log('Message Hash:', messageHash)
     console.log('Transaction signature:', transactionSignature)
 
+    const { data: message } = await supabase
+      .from('messages')
+      .select('id, wallet_address, message_commitment, blockchain_tx_hash')
+      .eq('id', messageId)
+      .maybeSingle()
+
+    if (!message) {
+      return jsonResponse({ error: 'Message not found' }, 404)
+    }
+
+    if (!message.message_commitment) {
+      return jsonResponse({ error: 'Message has no commitment and cannot be logged on-chain' }, 409)
+    }
+
+    if (message.blockchain_tx_hash && message.blockchain_tx_hash !== transactionSignature) {
+      return jsonResponse({ error: 'Message is already logged by another transaction' }, 409)
+    }
+
     // Verify transaction on Solana Mainnet with retries
     const SOLANA_RPC = 'https://api.mainnet-beta.solana.com'
     
     console.log('Verifying transaction on Solana:', transactionSignature)
     
-    let txData: any = null
+    let txData: RpcResponse | null = null
     let attempts = 0
     const maxAttempts = 3
     
@@ -52,12 +106,12 @@ Deno.serve(async (req) => {
           method: 'getTransaction',
           params: [
             transactionSignature,
-            { encoding: 'json', maxSupportedTransactionVersion: 0 }
+            { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0, commitment: 'confirmed' }
           ],
         }),
       })
 
-      txData = await verifyResponse.json()
+      txData = await verifyResponse.json() as RpcResponse
       
       if (txData.error) {
         console.error(`Attempt ${attempts} - Transaction verification failed:`, txData.error)
@@ -91,6 +145,29 @@ Deno.serve(async (req) => {
       )
     }
 
+    const tx = txData.result
+
+    // Only a successful tx, paid by the sender, carrying this message's memo counts
+    if (tx.meta?.err !== null) {
+      console.error('Transaction failed on-chain:', tx.meta?.err)
+      return jsonResponse({ error: 'Transaction failed on-chain', details: tx.meta?.err ?? 'missing meta' }, 422)
+    }
+
+    const feePayer = tx.transaction.message.accountKeys[0]?.pubkey
+    if (feePayer !== message.wallet_address) {
+      console.error('Fee payer mismatch:', feePayer, 'expected', message.wallet_address)
+      return jsonResponse({ error: 'Transaction was not paid by the message sender' }, 422)
+    }
+
+    const expectedMemo = messageMemo(message.message_commitment, message.id)
+    const memos = findMemos(tx)
+    if (!memos.includes(expectedMemo)) {
+      console.error('Memo mismatch:', memos, 'expected', expectedMemo)
+      return jsonResponse({ error: 'Transaction memo does not match the message commitment' }, 422)
+    }
+
+    console.log('✅ Memo, fee payer and status verified')
+
     // Update message with blockchain transaction hash
     const { error } = await supabase
       .from('messages')
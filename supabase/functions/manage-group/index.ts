@@ -0,0 +1,227 @@
+import { SupabaseClient, createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { verifyWalletSignature } from '../_shared/wallet.ts';
+import { hashHex } from '../_shared/messageSignature.ts';
+import { MAX_GROUP_MEMBERS, getActiveGroupMembers } from '../_shared/privateGroups.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface SignedRequest {
+  walletAddress: string;
+  signature: string;
+  timestamp: number;
+}
+
+interface CreateGroupRequest extends SignedRequest {
+  action: 'create';
+  name: string;
+  members: string[];
+}
+
+interface MembershipRequest extends SignedRequest {
+  action: 'add' | 'remove';
+  groupId: string;
+  member: string;
+}
+
+type GroupRequest = CreateGroupRequest | MembershipRequest;
+
+// Must match the messages signed in src/lib/privateGroups.ts
+function actionMessage(body: GroupRequest): string {
+  if (body.action === 'create') {
+    return `SNARK:group:create:${body.name}:${[...body.members].sort().join(',')}:${body.timestamp}`;
+  }
+  return `SNARK:group:${body.action}:${body.groupId}:${body.member}:${body.timestamp}`;
+}
+
+const SIGNATURE_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Record a signed request as used. Returns false if it already was, so each
+ * signed message changes membership at most once.
+ */
+async function recordRequestUse(supabase: SupabaseClient, body: GroupRequest): Promise<boolean> {
+  // Older requests are refused by the timestamp check anyway
+  await supabase
+    .from('used_group_requests')
+    .delete()
+    .lt('created_at', new Date(Date.now() - 2 * SIGNATURE_WINDOW_MS).toISOString());
+
+  const { error } = await supabase.from('used_group_requests').insert({
+    request_hash: await hashHex(`${body.walletAddress}:${actionMessage(body)}`),
+    wallet_address: body.walletAddress,
+    action: body.action,
+  });
+
+  if (error) {
+    if (error.code === '23505') return false;
+    throw new Error(`Failed to record group request: ${error.message}`);
+  }
+
+  return true;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Create private groups and change their membership. The owner adds and
+ * removes members; any member may remove themselves.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json() as GroupRequest;
+    const { walletAddress, signature, timestamp } = body;
+
+    if (!['create', 'add', 'remove'].includes(body.action)) {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    // Check timestamp to prevent replay attacks (within 5 minutes)
+    if (Math.abs(Date.now() - timestamp) > SIGNATURE_WINDOW_MS) {
+      return jsonResponse({ error: 'Signature expired - please try again' }, 401);
+    }
+
+    if (!verifyWalletSignature(actionMessage(body), signature, walletAddress)) {
+      return jsonResponse({ error: 'Invalid wallet signature - authentication failed' }, 401);
+    }
+
+    if (!await recordRequestUse(supabase, body)) {
+      return jsonResponse({ error: 'This request was already processed - please try again' }, 409);
+    }
+
+    if (body.action === 'create') {
+      const name = body.name?.trim();
+      const members = Array.from(new Set([walletAddress, ...(body.members ?? [])]));
+
+      if (!name) {
+        return jsonResponse({ error: 'Group name is required' }, 400);
+      }
+      if (members.length > MAX_GROUP_MEMBERS) {
+        return jsonResponse({ error: `Groups are limited to ${MAX_GROUP_MEMBERS} members` }, 400);
+      }
+
+      // Every member needs a published key, or nobody could wrap messages to them
+      const { data: keys } = await supabase
+        .from('member_keys')
+        .select('wallet_address')
+        .in('wallet_address', members);
+      const withKeys = new Set((keys || []).map((k: { wallet_address: string }) => k.wallet_address));
+      const missing = members.filter(member => !withKeys.has(member));
+      if (missing.length > 0) {
+        return jsonResponse({ error: 'Some members have not registered an encryption key', missing }, 400);
+      }
+
+      const { data: group, error: groupError } = await supabase
+        .from('private_groups')
+        .insert({ name, owner_wallet: walletAddress })
+        .select()
+        .single();
+
+      if (groupError) {
+        console.error('Database error:', groupError);
+        return jsonResponse({ error: 'Failed to create group' }, 500);
+      }
+
+      const { error: membersError } = await supabase.from('private_group_members').insert(
+        members.map(member => ({ group_id: group.id, wallet_address: member, added_by: walletAddress }))
+      );
+
+      if (membersError) {
+        console.error('Database error:', membersError);
+        await supabase.from('private_groups').delete().eq('id', group.id);
+        return jsonResponse({ error: 'Failed to add group members' }, 500);
+      }
+
+      return jsonResponse({ success: true, group, members });
+    }
+
+    const { groupId, member } = body;
+
+    const { data: group } = await supabase
+      .from('private_groups')
+      .select('id, owner_wallet')
+      .eq('id', groupId)
+      .maybeSingle();
+
+    if (!group) {
+      return jsonResponse({ error: 'Group not found' }, 404);
+    }
+
+    const activeMembers = await getActiveGroupMembers(supabase, groupId);
+
+    if (body.action === 'add') {
+      if (group.owner_wallet !== walletAddress) {
+        return jsonResponse({ error: 'Only the group owner can add members' }, 403);
+      }
+      if (activeMembers.includes(member)) {
+        return jsonResponse({ success: true, members: activeMembers });
+      }
+      if (activeMembers.length >= MAX_GROUP_MEMBERS) {
+        return jsonResponse({ error: `Groups are limited to ${MAX_GROUP_MEMBERS} members` }, 400);
+      }
+
+      const { data: key } = await supabase
+        .from('member_keys')
+        .select('wallet_address')
+        .eq('wallet_address', member)
+        .limit(1)
+        .maybeSingle();
+      if (!key) {
+        return jsonResponse({ error: 'This wallet has not registered an encryption key yet' }, 400);
+      }
+
+      const { error } = await supabase
+        .from('private_group_members')
+        .insert({ group_id: groupId, wallet_address: member, added_by: walletAddress });
+
+      if (error) {
+        console.error('Database error:', error);
+        return jsonResponse({ error: 'Failed to add member' }, 500);
+      }
+
+      return jsonResponse({ success: true, members: [...activeMembers, member] });
+    }
+
+    if (group.owner_wallet !== walletAddress && member !== walletAddress) {
+      return jsonResponse({ error: 'Only the group owner can remove other members' }, 403);
+    }
+    if (member === group.owner_wallet) {
+      return jsonResponse({ error: 'The group owner cannot be removed' }, 400);
+    }
+
+    // From here on senders stop wrapping content keys to this wallet, and
+    // send-message rejects envelopes that still include it
+    const { error } = await supabase
+      .from('private_group_members')
+      .update({ removed_at: new Date().toISOString() })
+      .eq('group_id', groupId)
+      .eq('wallet_address', member)
+      .is('removed_at', null);
+
+    if (error) {
+      console.error('Database error:', error);
+      return jsonResponse({ error: 'Failed to remove member' }, 500);
+    }
+
+    return jsonResponse({ success: true, members: activeMembers.filter(m => m !== member) });
+  } catch (error) {
+    console.error('Error managing group:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,57 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { PROOF_NONCE_TTL_MS, generateProofNonce } from '../_shared/proofBinding.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Issues a single-use nonce for the next token balance proof of a wallet.
+ * send-message only accepts a proof whose nonce public input was issued
+ * here to the sending wallet and hasn't been used yet.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { walletAddress } = await req.json() as { walletAddress?: string };
+
+    if (!walletAddress) {
+      return jsonResponse({ error: 'walletAddress is required' }, 400);
+    }
+
+    const nonce = generateProofNonce();
+    const expiresAt = Date.now() + PROOF_NONCE_TTL_MS;
+
+    const { error } = await supabase.from('proof_nonces').insert({
+      nonce,
+      wallet_address: walletAddress,
+      expires_at: new Date(expiresAt).toISOString(),
+    });
+
+    if (error) {
+      console.error('Database error:', error);
+      return jsonResponse({ error: 'Failed to issue proof nonce' }, 500);
+    }
+
+    return jsonResponse({ nonce, expiresAt });
+  } catch (error) {
+    console.error('Error issuing proof nonce:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,215 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { checkTokenGating } from '../_shared/tokenGating.ts';
+import { base64ToBytes, verifyWalletSignature } from '../_shared/wallet.ts';
+import {
+  createEscrowedRoomKey,
+  rotateIfMemberLostAccess,
+  unsealRoomKey,
+  wrapKey,
+} from '../_shared/roomKeys.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+interface ChallengeRequest {
+  action: 'challenge';
+  walletAddress: string;
+  roomId: string;
+}
+
+interface ReleaseRequest {
+  action: 'release';
+  walletAddress: string;
+  roomId: string;
+  nonce: string;
+  signature: string;
+}
+
+function challengeMessage(walletAddress: string, roomId: string, nonce: string): string {
+  return `SNARK:key-release:${walletAddress}:${roomId}:${nonce}`;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json() as ChallengeRequest | ReleaseRequest;
+    const { walletAddress, roomId } = body;
+
+    if (!walletAddress || !roomId) {
+      return jsonResponse({ error: 'walletAddress and roomId are required' }, 400);
+    }
+
+    // Step 1: issue a single-use challenge for the wallet to sign
+    if (body.action === 'challenge') {
+      const nonce = Array.from(crypto.getRandomValues(new Uint8Array(16)))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+
+      const { error } = await supabase.from('key_release_challenges').insert({
+        wallet_address: walletAddress,
+        room_id: roomId,
+        nonce,
+        expires_at: new Date(Date.now() + CHALLENGE_TTL_MS).toISOString(),
+      });
+
+      if (error) {
+        console.error('Database error:', error);
+        return jsonResponse({ error: 'Failed to create challenge' }, 500);
+      }
+
+      return jsonResponse({ nonce, message: challengeMessage(walletAddress, roomId, nonce) });
+    }
+
+    if (body.action !== 'release') {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    // Step 2: consume the challenge and check the wallet signed it
+    const { nonce, signature } = body;
+
+    const { data: challenge } = await supabase
+      .from('key_release_challenges')
+      .update({ used_at: new Date().toISOString() })
+      .eq('nonce', nonce)
+      .eq('wallet_address', walletAddress)
+      .eq('room_id', roomId)
+      .is('used_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .select()
+      .maybeSingle();
+
+    if (!challenge) {
+      return jsonResponse({ error: 'Challenge expired or already used - please try again' }, 401);
+    }
+
+    if (!verifyWalletSignature(challengeMessage(walletAddress, roomId, nonce), signature, walletAddress)) {
+      return jsonResponse({ error: 'Invalid wallet signature - authentication failed' }, 401);
+    }
+
+    // Step 3: find the member's published X25519 key
+    const { data: memberKeys } = await supabase
+      .from('member_keys')
+      .select('x25519_public_key, signature')
+      .eq('wallet_address', walletAddress)
+      .order('created_at', { ascending: false });
+
+    const memberKey = (memberKeys || []).find(record =>
+      verifyWalletSignature(
+        `SNARK:x25519:${walletAddress}:${record.x25519_public_key}`,
+        record.signature,
+        walletAddress
+      )
+    );
+
+    if (!memberKey) {
+      return jsonResponse({ error: 'No verified encryption key registered for this wallet' }, 400);
+    }
+
+    // Step 4: the same token gate that protects sending protects reading
+    const gating = await checkTokenGating(supabase, walletAddress);
+    console.log(`Token gating for ${walletAddress}: ${gating.balance} / ${gating.required}`);
+
+    if (!gating.allowed) {
+      // If this wallet still holds a current epoch key, cut it off
+      await rotateIfMemberLostAccess(supabase, walletAddress);
+      return jsonResponse(
+        {
+          error: 'Insufficient token balance',
+          balance: gating.balance,
+          required: gating.required,
+        },
+        403
+      );
+    }
+
+    // Step 5: release the current epoch, plus older epochs this wallet already held.
+    // A wallet never gains access to epochs from before it joined or while it was out.
+    const { data: escrowed, error: escrowError } = await supabase
+      .from('room_keys')
+      .select('key_id, epoch, created_at, room_key_escrow!inner(sealed_key)')
+      .eq('room_id', roomId)
+      .order('epoch', { ascending: true });
+
+    if (escrowError) {
+      console.error('Database error:', escrowError);
+      return jsonResponse({ error: 'Failed to load room keys' }, 500);
+    }
+
+    const { data: existingGrants } = await supabase
+      .from('room_key_grants')
+      .select('key_id')
+      .eq('wallet_address', walletAddress);
+
+    const heldKeyIds = new Set((existingGrants || []).map(grant => grant.key_id));
+    const currentEpoch = escrowed?.length ? escrowed[escrowed.length - 1].epoch : null;
+
+    const roomKeys: { keyId: string; rawKey: Uint8Array; epoch: number; createdAt: string }[] = [];
+    for (const row of escrowed || []) {
+      if (row.epoch !== currentEpoch && !heldKeyIds.has(row.key_id)) continue;
+      const escrow = Array.isArray(row.room_key_escrow) ? row.room_key_escrow[0] : row.room_key_escrow;
+      roomKeys.push({
+        keyId: row.key_id,
+        rawKey: await unsealRoomKey(escrow.sealed_key),
+        epoch: row.epoch,
+        createdAt: row.created_at,
+      });
+    }
+
+    if (roomKeys.length === 0) {
+      console.log('No escrowed key for room, creating one:', roomId);
+      const { keyId, rawKey, epoch } = await createEscrowedRoomKey(supabase, roomId, walletAddress);
+      roomKeys.push({ keyId, rawKey, epoch, createdAt: new Date().toISOString() });
+    }
+
+    const recipientPublicKey = base64ToBytes(memberKey.x25519_public_key);
+    const grants = roomKeys.map(key => ({
+      key_id: key.keyId,
+      wallet_address: walletAddress,
+      wrapped_key: wrapKey(key.rawKey, recipientPublicKey),
+    }));
+
+    const { error: grantError } = await supabase
+      .from('room_key_grants')
+      .upsert(grants, { onConflict: 'key_id,wallet_address' });
+
+    if (grantError) {
+      console.error('Database error:', grantError);
+      return jsonResponse({ error: 'Failed to record key grants' }, 500);
+    }
+
+    console.log(`Released ${grants.length} room key(s) for ${roomId} to ${walletAddress}`);
+
+    return jsonResponse({
+      success: true,
+      keys: grants.map((grant, i) => ({
+        key_id: grant.key_id,
+        wrapped_key: grant.wrapped_key,
+        epoch: roomKeys[i].epoch,
+        created_at: roomKeys[i].createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error releasing room key:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
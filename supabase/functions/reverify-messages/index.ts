@@ -0,0 +1,305 @@
+import { SupabaseClient, createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { verifyWalletSignature } from '../_shared/wallet.ts';
+import { CircuitRecord, getCircuit } from '../_shared/circuits.ts';
+import { GROTH16_VERIFIER_VERSION } from '../_shared/groth16.ts';
+import { REVERIFY_PAGE_SIZE, reverifyProof, verifiedAfter } from '../_shared/reverification.ts';
+import { hashHex } from '../_shared/messageSignature.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// An admin signs once to start or resume a run; the continuation token
+// returned with it then continues the run page by page
+interface ReverifyRequest {
+  walletAddress?: string;
+  signature?: string;
+  timestamp?: number;
+  runId?: string;
+  continuationToken?: string;
+}
+
+interface ReverificationRun {
+  id: string;
+  started_by: string;
+  status: 'running' | 'completed';
+  total: number;
+  checked: number;
+  flipped_to_verified: number;
+  flipped_to_failed: number;
+  skipped: number;
+  cursor_id: string | null;
+}
+
+// Everything but continuation_token_hash, which never leaves the server
+const RUN_COLUMNS =
+  'id, started_by, status, verifier_version, total, checked, flipped_to_verified, flipped_to_failed, skipped, cursor_id, started_at, finished_at';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function isAdminWallet(supabase: SupabaseClient, walletAddress: string): Promise<boolean> {
+  const { data } = await supabase.rpc('is_admin', { wallet_addr: walletAddress });
+  return !!data;
+}
+
+/**
+ * Check the next page of messages after the run's cursor, record a
+ * message_verifications row for each, update messages.verified where the
+ * result changed it and advance the run. Quarantined messages are checked
+ * and recorded but left as they are, and counted as skipped: releasing one
+ * is an admin decision. Resolves with null if another call advanced the
+ * run from the same cursor first.
+ */
+async function reverifyPage(supabase: SupabaseClient, run: ReverificationRun): Promise<ReverificationRun | null> {
+  let query = supabase
+    .from('messages')
+    .select('id, proof_data, verified, quarantined')
+    .order('id', { ascending: true })
+    .limit(REVERIFY_PAGE_SIZE);
+  if (run.cursor_id) {
+    query = query.gt('id', run.cursor_id);
+  }
+
+  const { data: messages, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load messages: ${error.message}`);
+  }
+
+  const circuits = new Map<string, CircuitRecord | null>();
+  const history = [];
+  let flippedToVerified = 0;
+  let flippedToFailed = 0;
+  let skipped = 0;
+
+  for (const message of messages ?? []) {
+    const circuitId: string | null = message.proof_data?.circuit_id ?? null;
+    if (circuitId && !circuits.has(circuitId)) {
+      circuits.set(circuitId, await getCircuit(supabase, circuitId));
+    }
+
+    const result = await reverifyProof(message.proof_data, circuitId ? circuits.get(circuitId) ?? null : null);
+    const verified = message.quarantined ? message.verified : verifiedAfter(result) ?? message.verified;
+
+    if (message.quarantined || verifiedAfter(result) === null) {
+      skipped++;
+    } else if (verified !== message.verified) {
+      const { error: updateError } = await supabase
+        .from('messages')
+        .update({ verified, verification_method: 'native' })
+        .eq('id', message.id);
+      if (updateError) {
+        throw new Error(`Failed to update message ${message.id}: ${updateError.message}`);
+      }
+
+      if (verified) flippedToVerified++;
+      else flippedToFailed++;
+      console.log(`🔁 Message ${message.id}: ${message.verified} -> ${verified} (${result})`);
+    }
+
+    history.push({
+      message_id: message.id,
+      run_id: run.id,
+      circuit_id: circuitId,
+      verifier_version: GROTH16_VERIFIER_VERSION,
+      result,
+      verified_before: message.verified,
+      verified_after: verified,
+    });
+  }
+
+  // A call that lost the race below may already have recorded this page
+  if (history.length > 0) {
+    const { error: historyError } = await supabase
+      .from('message_verifications')
+      .upsert(history, { onConflict: 'run_id,message_id', ignoreDuplicates: true });
+    if (historyError) {
+      throw new Error(`Failed to record verification history: ${historyError.message}`);
+    }
+  }
+
+  const done = (messages?.length ?? 0) < REVERIFY_PAGE_SIZE;
+  let update = supabase
+    .from('reverification_runs')
+    .update({
+      checked: run.checked + history.length,
+      flipped_to_verified: run.flipped_to_verified + flippedToVerified,
+      flipped_to_failed: run.flipped_to_failed + flippedToFailed,
+      skipped: run.skipped + skipped,
+      cursor_id: history.length > 0 ? history[history.length - 1].message_id : run.cursor_id,
+      ...(done && { status: 'completed', finished_at: new Date().toISOString() }),
+    })
+    .eq('id', run.id)
+    .eq('status', 'running');
+  // Only advance from the cursor this page started at, so overlapping calls count it once
+  update = run.cursor_id ? update.eq('cursor_id', run.cursor_id) : update.is('cursor_id', null);
+
+  const { data: updated, error: runError } = await update.select(RUN_COLUMNS).maybeSingle();
+
+  if (runError) {
+    throw new Error(`Failed to update the run: ${runError.message}`);
+  }
+
+  return updated as ReverificationRun | null;
+}
+
+/**
+ * Give the run a new continuation token, replacing any earlier one
+ */
+async function issueContinuationToken(supabase: SupabaseClient, runId: string): Promise<string> {
+  const token = Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+  const { error } = await supabase
+    .from('reverification_runs')
+    .update({ continuation_token_hash: await hashHex(token) })
+    .eq('id', runId);
+
+  if (error) {
+    throw new Error(`Failed to issue a continuation token: ${error.message}`);
+  }
+
+  return token;
+}
+
+/**
+ * Re-verifies every stored message's proof against the circuit build it
+ * names, one page per call, so a run survives the function's time limit.
+ * The admin dashboard starts (or resumes) a run with a signed request and
+ * keeps calling with the continuation token it got back until the run
+ * completes. Overlapping calls for one run get a 409 for any page another
+ * call already checked.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { walletAddress, signature, timestamp, runId, continuationToken } = await req.json() as ReverifyRequest;
+    let run: ReverificationRun;
+    let issuedToken: string | undefined;
+
+    if (runId && continuationToken) {
+      const { data, error } = await supabase
+        .from('reverification_runs')
+        .select(`${RUN_COLUMNS}, continuation_token_hash`)
+        .eq('id', runId)
+        .maybeSingle();
+
+      if (error || !data) {
+        return jsonResponse({ error: 'Unknown re-verification run' }, 404);
+      }
+
+      const { continuation_token_hash: tokenHash, ...stored } = data;
+      if (!tokenHash || tokenHash !== await hashHex(continuationToken)) {
+        return jsonResponse({ error: 'Invalid continuation token - resume the run again' }, 401);
+      }
+
+      if (!await isAdminWallet(supabase, stored.started_by)) {
+        return jsonResponse({ error: 'Admin privileges required' }, 403);
+      }
+
+      if (stored.status === 'completed') {
+        return jsonResponse({ success: true, run: stored });
+      }
+
+      run = stored as ReverificationRun;
+    } else {
+      if (!walletAddress || !signature || !timestamp) {
+        return jsonResponse({ error: 'Missing required fields' }, 400);
+      }
+
+      // Check timestamp to prevent replay attacks (within 5 minutes)
+      if (Math.abs(Date.now() - timestamp) > 5 * 60 * 1000) {
+        return jsonResponse({ error: 'Signature expired - please try again' }, 401);
+      }
+
+      const authMessage = runId
+        ? `SNARK:reverify-messages:${runId}:${timestamp}`
+        : `SNARK:reverify-messages:${timestamp}`;
+      if (!verifyWalletSignature(authMessage, signature, walletAddress)) {
+        return jsonResponse({ error: 'Invalid wallet signature - authentication failed' }, 401);
+      }
+
+      if (!await isAdminWallet(supabase, walletAddress)) {
+        return jsonResponse({ error: 'Admin privileges required' }, 403);
+      }
+
+      if (runId) {
+        const { data, error } = await supabase
+          .from('reverification_runs')
+          .select(RUN_COLUMNS)
+          .eq('id', runId)
+          .maybeSingle();
+
+        if (error || !data) {
+          return jsonResponse({ error: 'Unknown re-verification run' }, 404);
+        }
+
+        if (data.status === 'completed') {
+          return jsonResponse({ success: true, run: data });
+        }
+
+        console.log(`🔎 Re-verification run ${data.id} resumed by ${walletAddress}`);
+        run = data as ReverificationRun;
+      } else {
+        const { count, error: countError } = await supabase
+          .from('messages')
+          .select('id', { count: 'exact', head: true });
+        if (countError) {
+          throw new Error(`Failed to count messages: ${countError.message}`);
+        }
+
+        const { data, error } = await supabase
+          .from('reverification_runs')
+          .insert({
+            started_by: walletAddress,
+            verifier_version: GROTH16_VERIFIER_VERSION,
+            total: count ?? 0,
+          })
+          .select(RUN_COLUMNS)
+          .single();
+
+        if (error) {
+          console.error('Database error:', error);
+          return jsonResponse({ error: 'Failed to start the re-verification run' }, 500);
+        }
+
+        console.log(`🔎 Re-verification run ${data.id} started by ${walletAddress}: ${count} messages`);
+        run = data as ReverificationRun;
+      }
+
+      issuedToken = await issueContinuationToken(supabase, run.id);
+    }
+
+    const next = await reverifyPage(supabase, run);
+    if (!next) {
+      return jsonResponse({ error: 'This page of the run was already checked by another request' }, 409);
+    }
+    run = next;
+
+    if (run.status === 'completed') {
+      console.log(
+        `✅ Re-verification run ${run.id} completed: ${run.checked} checked, ` +
+        `${run.flipped_to_verified} now verified, ${run.flipped_to_failed} now failed, ${run.skipped} skipped`
+      );
+    }
+
+    return jsonResponse({ success: true, run, continuationToken: issuedToken });
+  } catch (error) {
+    console.error('Error re-verifying messages:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
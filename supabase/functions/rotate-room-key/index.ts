@@ -0,0 +1,84 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { checkTokenGating } from '../_shared/tokenGating.ts';
+import { verifyWalletSignature } from '../_shared/wallet.ts';
+import { rotateIfMemberLostAccess, rotateRoomKey } from '../_shared/roomKeys.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface AdminRotationRequest {
+  action: 'admin';
+  walletAddress: string;
+  roomId: string;
+  signature: string;
+  timestamp: number;
+}
+
+// Anyone may ask for a wallet to be re-checked; rotation only happens if
+// that wallet really fails the gate while holding the current epoch key
+interface MembershipRotationRequest {
+  action: 'membership';
+  walletAddress: string;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json() as AdminRotationRequest | MembershipRotationRequest;
+
+    if (body.action === 'membership') {
+      const gating = await checkTokenGating(supabase, body.walletAddress);
+      if (gating.allowed) {
+        return jsonResponse({ rotated: [], note: 'Wallet still passes token gating' });
+      }
+
+      const rotated = await rotateIfMemberLostAccess(supabase, body.walletAddress);
+      return jsonResponse({ rotated });
+    }
+
+    if (body.action !== 'admin') {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    const { walletAddress, roomId, signature, timestamp } = body;
+
+    // Check timestamp to prevent replay attacks (within 5 minutes)
+    if (Math.abs(Date.now() - timestamp) > 5 * 60 * 1000) {
+      return jsonResponse({ error: 'Signature expired - please try again' }, 401);
+    }
+
+    const authMessage = `SNARK:rotate-room-key:${roomId}:${timestamp}`;
+    if (!verifyWalletSignature(authMessage, signature, walletAddress)) {
+      return jsonResponse({ error: 'Invalid wallet signature - authentication failed' }, 401);
+    }
+
+    const { data: isAdmin } = await supabase.rpc('is_admin', { wallet_addr: walletAddress });
+    if (!isAdmin) {
+      return jsonResponse({ error: 'Admin privileges required' }, 403);
+    }
+
+    const { keyId, epoch } = await rotateRoomKey(supabase, roomId, walletAddress, 'admin');
+
+    return jsonResponse({ success: true, roomId, keyId, epoch });
+  } catch (error) {
+    console.error('Error rotating room key:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -1,5 +1,63 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+import { SupabaseClient, createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
 import nacl from 'https://esm.sh/tweetnacl@1.0.3'
+import { getTokenRequirement } from '../_shared/tokenGating.ts'
+import { getActiveGroupMembers, getEnvelopeRecipients, parseGroupRoomId } from '../_shared/privateGroups.ts'
+import { parseMessageEnvelope } from '../_shared/envelope.ts'
+import { computeMessageCommitment, generateCommitmentSalt } from '../_shared/commitment.ts'
+import { messageSigningPayload } from '../_shared/messageSignature.ts'
+import { findUnavailableAttachments } from '../_shared/attachments.ts'
+import {
+  HOLDER_INCLUSION_CIRCUIT,
+  NONCE_SIGNAL,
+  PUBLIC_SIGNAL_COUNT,
+  THRESHOLD_SIGNAL,
+  VALID_SIGNAL,
+  WALLET_HASH_SIGNAL,
+  consumeProofNonce,
+  walletHashField,
+} from '../_shared/proofBinding.ts'
+import { MERKLE_ROOT_SIGNAL, isRecentSnapshotRoot } from '../_shared/holderSnapshot.ts'
+import {
+  MULTI_MINT_CIRCUIT,
+  MULTI_MINT_NONCE_SIGNAL,
+  MULTI_MINT_PUBLIC_SIGNAL_COUNT,
+  MULTI_MINT_ROOT_SIGNAL,
+  MULTI_MINT_WALLET_HASH_SIGNAL,
+  isMultiMintRule,
+  multiMintRuleSignals,
+} from '../_shared/multiMint.ts'
+import {
+  TIER_BOUNDS_SIGNAL,
+  TIER_CIRCUIT,
+  TIER_PUBLIC_SIGNAL_COUNT,
+  TIER_SIGNAL,
+  getHolderTiers,
+  tierBoundSignals,
+  tierName,
+} from '../_shared/holderTiers.ts'
+import {
+  ANON_MESSAGE_LIMIT,
+  ANON_PUBLIC_SIGNAL_COUNT,
+  ANON_ROOT_SIGNAL,
+  ANON_THRESHOLD_SIGNAL,
+  EXTERNAL_NULLIFIER_SIGNAL,
+  MESSAGE_LIMIT_SIGNAL,
+  NULLIFIER_SIGNAL,
+  RLN_CIRCUIT,
+  RLN_NULLIFIER_SIGNAL,
+  SHARE_Y_SIGNAL,
+  SIGNAL_HASH_SIGNAL,
+  externalNullifierField,
+  isAcceptedAnonEpoch,
+  isAnonRoomId,
+  signalHashField,
+} from '../_shared/anonymous.ts'
+import { isBannedNullifier, recordRlnShare } from '../_shared/rln.ts'
+import { getCircuit, isAcceptedCircuit } from '../_shared/circuits.ts'
+import { applyVerificationPolicy, getVerificationPolicy, verifyMessageProof } from '../_shared/verificationPolicy.ts'
+import { proofCommitment, recordProofUse } from '../_shared/usedCommitments.ts'
+import { ProofErrorCode } from '../_shared/proofErrors.ts'
+import { Groth16Proof } from '../_shared/groth16.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,14 +66,17 @@ const corsHeaders = {
 
 interface MessageRequest {
   walletAddress: string
+  roomId?: string
   encryptedContent: string
   proofData: {
-    proof: string
-    publicInputs: any
-    publicSignals?: string[]  // Add optional publicSignals array
+    proof: Groth16Proof
+    publicInputs?: Record<string, unknown>
+    publicSignals?: string[]  // [valid, threshold, root, walletHash, nonce], or see _shared/multiMint.ts and _shared/holderTiers.ts
+    circuit_id?: string  // circuit build the proof was made with, see _shared/circuits.ts
   }
   signature: string
   timestamp: number
+  epoch?: number  // anonymous rooms only
 }
 
 Deno.serve(async (req) => {
@@ -30,14 +91,20 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    const { walletAddress, encryptedContent, proofData, signature, timestamp }: MessageRequest = await req.json()
+    const { walletAddress, roomId = 'lobby', encryptedContent, proofData, signature, timestamp, epoch }: MessageRequest = await req.json()
+
+    // Anonymous rooms carry a membership proof and a nullifier instead of a wallet
+    if (isAnonRoomId(roomId)) {
+      return await storeAnonymousMessage(supabase, roomId, encryptedContent, proofData, epoch)
+    }
 
     console.log('Received message from wallet:', walletAddress)
     console.log('Proof data:', proofData)
     console.log('Signature:', signature)
 
-    // Verify signature to authenticate wallet ownership
-    const authMessage = `SNARK:${walletAddress}:${timestamp}`
+    // Verify the author signature: it covers the ciphertext, room, timestamp
+    // and proof, so it can't be attached to any other message
+    const authMessage = await messageSigningPayload(walletAddress, roomId, timestamp, encryptedContent, proofData)
     const messageBytes = new TextEncoder().encode(authMessage)
     
     // Convert hex signature to Uint8Array
@@ -78,106 +145,197 @@ Deno.serve(async (req) => {
       )
     }
 
-    // Verify token gating requirement using edge function
-    console.log('Checking token balance via verify-token-balance edge function...')
-    
-    const { data: tokenRequirements, error: tokenError } = await supabase
-      .from('token_requirements')
-      .select('token_mint_address, threshold_amount')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle()
-
-    console.log('Token requirements:', tokenRequirements, 'Error:', tokenError)
-
-    if (tokenRequirements) {
-      const { data: balanceCheck, error: balanceError } = await supabase.functions.invoke(
-        'verify-token-balance',
-        {
-          body: {
-            walletAddress,
-            tokenMintAddress: tokenRequirements.token_mint_address,
-          },
+    // Only accept ciphertexts in the current envelope format
+    const envelope = parseMessageEnvelope(encryptedContent)
+    if (!envelope) {
+      return new Response(
+        JSON.stringify({ error: 'Unsupported message envelope - please update your client' }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Attachments must be finished uploads by the sender
+    const unavailable = await findUnavailableAttachments(supabase, envelope.attachments ?? [], walletAddress)
+    if (unavailable.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Attachment upload not found', attachments: unavailable }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       )
+    }
 
-      if (balanceError) {
-        console.error('Token balance check error:', balanceError)
+    // Private groups: only current members may post, and only to current members
+    const groupId = parseGroupRoomId(roomId)
+    if (groupId) {
+      const members = await getActiveGroupMembers(supabase, groupId)
+      const recipients = getEnvelopeRecipients(encryptedContent)
+
+      if (!members.includes(walletAddress)) {
         return new Response(
-          JSON.stringify({ 
-            error: 'Failed to verify token balance',
-            details: balanceError.message
-          }),
+          JSON.stringify({ error: 'You are not a member of this group' }),
           { 
-            status: 500,
+            status: 403,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' }
           }
         )
       }
 
-      console.log(`Token balance check: ${balanceCheck.balance} / ${balanceCheck.required} required`)
+      if (!recipients || recipients.some(recipient => !members.includes(recipient))) {
+        return new Response(
+          JSON.stringify({ error: 'Group messages must be encrypted to current members only' }),
+          { 
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+    }
+
+    // The snapshot proof below is the token gate, so nobody looks up this wallet's balance.
+    // Multi-mint rules are proven with multiMintInclusion, whose signals are laid out differently.
+    // Single-mint proofs may come from holderTier, which keeps holderInclusion's first five signals.
+    const requirement = await getTokenRequirement(supabase)
+    const multiMint = isMultiMintRule(requirement)
+    const publicSignals = proofData.publicSignals
+    const tierProof = !multiMint && Array.isArray(publicSignals) && publicSignals.length === TIER_PUBLIC_SIGNAL_COUNT
+    const signalCount = multiMint ? MULTI_MINT_PUBLIC_SIGNAL_COUNT : tierProof ? TIER_PUBLIC_SIGNAL_COUNT : PUBLIC_SIGNAL_COUNT
+    const rootSignal = multiMint ? MULTI_MINT_ROOT_SIGNAL : MERKLE_ROOT_SIGNAL
+    const walletHashSignal = multiMint ? MULTI_MINT_WALLET_HASH_SIGNAL : WALLET_HASH_SIGNAL
+    const nonceSignal = multiMint ? MULTI_MINT_NONCE_SIGNAL : NONCE_SIGNAL
+
+    // The proof must be bound to this wallet and to an unused nonce issued to it
+    if (!Array.isArray(publicSignals) || publicSignals.length !== signalCount) {
+      return new Response(
+        JSON.stringify({ error: 'Proof is not bound to a wallet and nonce - please update your client', code: 'PROOF_UNBOUND' }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (publicSignals[VALID_SIGNAL] !== '1') {
+      return new Response(
+        JSON.stringify({ error: 'Proof does not claim a valid result', code: 'SIGNAL_INVALID' }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (publicSignals[walletHashSignal] !== await walletHashField(walletAddress)) {
+      return new Response(
+        JSON.stringify({ error: 'Proof was generated for a different wallet', code: 'WALLET_MISMATCH' }),
+        { 
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // A multi-mint proof states the rule it was made for; it must be the current one
+    if (
+      multiMint &&
+      publicSignals.slice(1, MULTI_MINT_ROOT_SIGNAL).join(',') !== multiMintRuleSignals(requirement).join(',')
+    ) {
+      return new Response(
+        JSON.stringify({ error: 'Proof was made for a different token rule - please try again', code: 'RULE_MISMATCH' }),
+        { 
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // A single-mint proof must be against the current threshold, not any lower one
+    if (
+      requirement &&
+      !multiMint &&
+      publicSignals[THRESHOLD_SIGNAL] !== requirement.threshold_base_units
+    ) {
+      return new Response(
+        JSON.stringify({ error: 'Proof threshold does not match the current token requirement - please try again', code: 'THRESHOLD_MISMATCH' }),
+        { 
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
 
-      if (!balanceCheck.hasAccess) {
+    // The threshold and root shown with the message must be the proven ones
+    if (!publicInputsMatch(proofData.publicInputs, {
+      threshold: multiMint ? undefined : publicSignals[THRESHOLD_SIGNAL],
+      root: publicSignals[rootSignal],
+      walletHash: publicSignals[walletHashSignal],
+      nonce: publicSignals[nonceSignal],
+    })) {
+      return new Response(
+        JSON.stringify({ error: 'Proof labels do not match its public signals', code: 'LABEL_MISMATCH' }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // A tier proof's boundaries must be the configured ones, or its tier means nothing
+    let holderTier: string | null = null
+    if (tierProof) {
+      let tiers
+      try {
+        tiers = await getHolderTiers(supabase)
+      } catch (tierError) {
+        console.error('Holder tier lookup error:', tierError)
         return new Response(
-          JSON.stringify({ 
-            error: 'Insufficient token balance',
-            balance: balanceCheck.balance,
-            required: balanceCheck.required
-          }),
+          JSON.stringify({ error: 'Failed to load holder tiers' }),
+          { 
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      if (publicSignals.slice(TIER_BOUNDS_SIGNAL).join(',') !== tierBoundSignals(tiers).join(',')) {
+        return new Response(
+          JSON.stringify({ error: 'Proof was made for different holder tiers - please try again', code: 'TIER_MISMATCH' }),
           { 
             status: 403,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' }
           }
         )
       }
+
+      holderTier = tierName(tiers, publicSignals[TIER_SIGNAL])
     }
 
-    // Verify zero-knowledge proof using Supabase function invoke
-    console.log('Verifying ZK proof...')
-    
-    // Fetch verification key from storage
-    const { data: vkeyData } = await supabase.storage
-      .from('zkp')
-      .download('verification_key.json')
-    
-    let vkey = null
-    if (vkeyData) {
-      const vkeyText = await vkeyData.text()
-      vkey = JSON.parse(vkeyText)
-      console.log('✅ Loaded verification key from storage')
+    // The proof must be against a recent holder snapshot of the rule's mints
+    if (
+      requirement &&
+      !await isRecentSnapshotRoot(supabase, publicSignals[rootSignal], requirement)
+    ) {
+      return new Response(
+        JSON.stringify({ error: 'Proof uses an unknown or outdated holder snapshot - please try again', code: 'SNAPSHOT_STALE' }),
+        { 
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
     }
-    
-    // Get Vercel verifier URL from environment
-    const verifierUrl = Deno.env.get('VERCEL_ZK_VERIFIER_URL')
-    
-    // Use the full publicSignals array from the proof, not just threshold/commitment
-    // The circuit outputs 3 public signals: [threshold, commitment, valid]
-    const publicSignals = proofData.publicSignals || [
-      proofData.publicInputs.threshold,
-      proofData.publicInputs.commitment,
-    ];
-    
-    console.log('Using public signals:', publicSignals);
-    
-    const { data: zkResult, error: zkError } = await supabase.functions.invoke(
-      'verify-zk-proof',
-      {
-        body: {
-          proof: proofData.proof,
-          publicSignals: publicSignals,
-          vkey: vkey,
-          verifierUrl: verifierUrl,
-        },
-      }
-    )
 
-    if (zkError) {
-      console.error('ZK proof verification error:', zkError)
+    // The proof must come from the active build of the circuit its layout calls for
+    let circuit
+    try {
+      circuit = await getCircuit(supabase, proofData.circuit_id ?? '')
+    } catch (circuitError) {
+      console.error('Circuit lookup error:', circuitError)
       return new Response(
-        JSON.stringify({ 
-          error: 'Failed to verify zero-knowledge proof',
-          details: zkError.message
-        }),
+        JSON.stringify({ error: 'Failed to look up the proof circuit' }),
         { 
           status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -185,30 +343,83 @@ Deno.serve(async (req) => {
       )
     }
 
-    const cryptographicVerification = zkResult?.verified ?? false
+    if (!isAcceptedCircuit(circuit, multiMint ? MULTI_MINT_CIRCUIT : tierProof ? TIER_CIRCUIT : HOLDER_INCLUSION_CIRCUIT)) {
+      return new Response(
+        JSON.stringify({ error: 'Proof was made with an unknown or retired circuit - please reload the app', code: 'CIRCUIT_RETIRED' }),
+        { 
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
 
-    console.log('ZK proof verification result:', cryptographicVerification ? 'VALID' : 'INVALID')
+    // Verify the proof with verify-zk-proof, which looks up the circuit's
+    // verification key in the registry itself
+    console.log('Verifying ZK proof with circuit', circuit.id)
+    console.log('Using public signals:', publicSignals)
 
-    // Determine if we should accept the message:
-    // - If external verifier exists and succeeded: full verification ✓
-    // - If external verifier exists but failed: accept with structural validation warning ⚠️
-    // - If no external verifier: structural validation only ⚠️
-    let isValidProof = true // Accept by default with structural validation
-    
-    if (!cryptographicVerification && verifierUrl) {
-      console.warn('⚠️ External verifier rejected proof, accepting with structural validation only')
-    } else if (!cryptographicVerification && !verifierUrl) {
-      console.warn('⚠️ No external verifier configured, using structural validation only')
+    const verification = await verifyMessageProof(supabase, proofData.proof, publicSignals, circuit.id)
+    console.log(`ZK proof verification (${verification.method}):`, verification.verified ? 'VALID' : 'INVALID')
+
+    const decision = applyVerificationPolicy(getVerificationPolicy(), verification)
+    if (decision.action === 'reject') {
+      return new Response(
+        JSON.stringify({ error: decision.error, code: decision.code }),
+        { 
+          status: decision.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+    if (!decision.verified) {
+      console.warn(`⚠️ Storing unverified message${decision.quarantined ? ' in quarantine' : ''}`)
     }
 
+    // Spend the proof and its nonce only once it is going to be stored, so a
+    // rejected proof doesn't burn the sender's nonce
+    if (!await recordProofUse(supabase, await proofCommitment(proofData.proof), circuit.id, null)) {
+      return new Response(
+        JSON.stringify({ error: 'This proof has already been used', code: 'PROOF_REPLAYED' }),
+        { 
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (!await consumeProofNonce(supabase, publicSignals[nonceSignal], walletAddress)) {
+      return new Response(
+        JSON.stringify({ error: 'Proof nonce expired or already used - please try again', code: 'NONCE_USED' }),
+        { 
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Commit to the ciphertext under the final message id; the client puts
+    // this commitment in its Solana memo and log-to-solana checks it
+    const messageId = crypto.randomUUID()
+    const commitmentSalt = generateCommitmentSalt()
+    const messageCommitment = await computeMessageCommitment(encryptedContent, messageId, commitmentSalt)
+
     // Insert message into database
     const { data: messageData, error } = await supabase
       .from('messages')
       .insert({
+        id: messageId,
         wallet_address: walletAddress,
+        room_id: roomId,
         encrypted_content: encryptedContent,
         proof_data: proofData,
-        verified: isValidProof && isValidSignature,
+        verified: decision.verified && isValidSignature,
+        verification_method: verification.method,
+        quarantined: decision.quarantined,
+        message_commitment: messageCommitment,
+        commitment_salt: commitmentSalt,
+        author_signature: signature,
+        signed_at: timestamp,
+        holder_tier: holderTier,
       })
       .select()
       .single()
@@ -248,6 +459,193 @@ Deno.serve(async (req) => {
   }
 })
 
+function errorResponse(error: string, status: number, code?: ProofErrorCode): Response {
+  return new Response(
+    JSON.stringify({ error, code }),
+    { 
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  )
+}
+
+/**
+ * proof_data.publicInputs labels the signals for display; each label that is
+ * set must be the signal it names. Undefined expected values aren't checked.
+ */
+function publicInputsMatch(publicInputs: Record<string, unknown> | undefined, expected: Record<string, string | undefined>): boolean {
+  return Object.entries(expected).every(([label, signal]) =>
+    signal === undefined || publicInputs?.[label] === undefined || String(publicInputs[label]) === signal
+  )
+}
+
+/**
+ * Store a message for an anonymous room. The proof shows that some holder in
+ * a recent snapshot sent it; the nullifier is the only sender information kept.
+ * Its RLN share is stored first, so going over the per-epoch message limit
+ * bans the sender instead of storing the message.
+ * publicSignals: [nullifier, shareY, rlnNullifier, threshold, root,
+ *                 externalNullifier, signalHash, messageLimit]
+ */
+async function storeAnonymousMessage(
+  supabase: SupabaseClient,
+  roomId: string,
+  encryptedContent: string,
+  proofData: MessageRequest['proofData'],
+  epoch: number | undefined
+): Promise<Response> {
+  // Anonymous messages use the room key; attachments would reveal the uploader
+  const envelope = parseMessageEnvelope(encryptedContent)
+  if (!envelope || !envelope.kid || envelope.recipients) {
+    return errorResponse('Unsupported message envelope - please update your client', 400)
+  }
+  if (envelope.attachments?.length) {
+    return errorResponse('Attachments are not supported in anonymous rooms', 400)
+  }
+
+  const publicSignals = proofData?.publicSignals
+  if (!Array.isArray(publicSignals) || publicSignals.length !== ANON_PUBLIC_SIGNAL_COUNT) {
+    return errorResponse('Anonymous messages need a membership proof', 400, 'PROOF_UNBOUND')
+  }
+
+  // The proof's epoch may have just ended while it was generated
+  if (epoch === undefined || !isAcceptedAnonEpoch(epoch)) {
+    return errorResponse('Anonymous epoch expired - please try again', 400, 'EPOCH_EXPIRED')
+  }
+
+  const externalNullifier = await externalNullifierField(roomId, epoch)
+  if (publicSignals[EXTERNAL_NULLIFIER_SIGNAL] !== externalNullifier) {
+    return errorResponse('Proof was generated for a different room or epoch', 400, 'SCOPE_MISMATCH')
+  }
+
+  if (publicSignals[SIGNAL_HASH_SIGNAL] !== await signalHashField(encryptedContent)) {
+    return errorResponse('Proof does not cover this message', 400, 'SCOPE_MISMATCH')
+  }
+
+  if (publicSignals[MESSAGE_LIMIT_SIGNAL] !== String(ANON_MESSAGE_LIMIT)) {
+    return errorResponse('Proof uses a different message limit - please update your client', 400, 'SIGNAL_INVALID')
+  }
+
+  const requirement = await getTokenRequirement(supabase)
+  if (requirement) {
+    // rln.circom proves a single balance; there is no multi-mint variant yet
+    if (isMultiMintRule(requirement)) {
+      return errorResponse('Anonymous rooms are not available while the token rule spans several mints', 403)
+    }
+
+    if (publicSignals[ANON_THRESHOLD_SIGNAL] !== requirement.threshold_base_units) {
+      return errorResponse('Proof threshold does not match the current token requirement - please try again', 403, 'THRESHOLD_MISMATCH')
+    }
+
+    if (!await isRecentSnapshotRoot(supabase, publicSignals[ANON_ROOT_SIGNAL], requirement)) {
+      return errorResponse('Proof uses an unknown or outdated holder snapshot - please try again', 403, 'SNAPSHOT_STALE')
+    }
+  }
+
+  if (!publicInputsMatch(proofData.publicInputs, {
+    threshold: publicSignals[ANON_THRESHOLD_SIGNAL],
+    root: publicSignals[ANON_ROOT_SIGNAL],
+    nullifier: publicSignals[NULLIFIER_SIGNAL],
+  })) {
+    return errorResponse('Proof labels do not match its public signals', 400, 'LABEL_MISMATCH')
+  }
+
+  const nullifier = publicSignals[NULLIFIER_SIGNAL]
+  if (await isBannedNullifier(supabase, nullifier, roomId, epoch, externalNullifier)) {
+    return errorResponse('This anonymous identity has been banned for exceeding the message limit', 403)
+  }
+
+  let circuit
+  try {
+    circuit = await getCircuit(supabase, proofData.circuit_id ?? '')
+  } catch (circuitError) {
+    console.error('Circuit lookup error:', circuitError)
+    return errorResponse('Failed to look up the proof circuit', 500)
+  }
+  if (!isAcceptedCircuit(circuit, RLN_CIRCUIT)) {
+    return errorResponse('Proof was made with an unknown or retired circuit - please reload the app', 403, 'CIRCUIT_RETIRED')
+  }
+
+  // Same verification policy as wallet messages
+  const verification = await verifyMessageProof(supabase, proofData.proof, publicSignals, circuit.id)
+  const decision = applyVerificationPolicy(getVerificationPolicy(), verification)
+  if (decision.action === 'reject') {
+    return errorResponse(decision.error, decision.status, decision.code)
+  }
+  if (!decision.verified) {
+    console.warn(`⚠️ Storing unverified anonymous message${decision.quarantined ? ' in quarantine' : ''}`)
+  }
+
+  if (!await recordProofUse(supabase, await proofCommitment(proofData.proof), circuit.id, epoch)) {
+    return errorResponse('This proof has already been used', 409, 'PROOF_REPLAYED')
+  }
+
+  const messageId = crypto.randomUUID()
+
+  const share = await recordRlnShare(supabase, {
+    rlnNullifier: publicSignals[RLN_NULLIFIER_SIGNAL],
+    nullifier,
+    externalNullifier,
+    roomId,
+    epoch,
+    x: publicSignals[SIGNAL_HASH_SIGNAL],
+    y: publicSignals[SHARE_Y_SIGNAL],
+    messageId,
+  })
+
+  if (share.status === 'duplicate') {
+    return errorResponse('This message was already posted', 409)
+  }
+  if (share.status === 'invalid') {
+    return errorResponse('Proof reuses a message slot with an inconsistent share', 400)
+  }
+  if (share.status === 'slashed') {
+    return errorResponse('Message limit exceeded - this anonymous identity has been banned', 429)
+  }
+
+  const commitmentSalt = generateCommitmentSalt()
+  const messageCommitment = await computeMessageCommitment(encryptedContent, messageId, commitmentSalt)
+
+  const { data: messageData, error } = await supabase
+    .from('messages')
+    .insert({
+      id: messageId,
+      wallet_address: null,
+      nullifier,
+      room_id: roomId,
+      encrypted_content: encryptedContent,
+      proof_data: proofData,
+      verified: decision.verified,
+      verification_method: verification.method,
+      quarantined: decision.quarantined,
+      message_commitment: messageCommitment,
+      commitment_salt: commitmentSalt,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // Unique (nullifier, ciphertext): the same proof was submitted again
+    if (error.code === '23505') {
+      return errorResponse('This message was already posted', 409)
+    }
+    console.error('Database error:', error)
+    return errorResponse('Failed to store message', 500)
+  }
+
+  console.log('Anonymous message stored:', messageData.id, 'nullifier:', nullifier)
+
+  return new Response(
+    JSON.stringify({ 
+      success: true,
+      message: messageData,
+    }),
+    { 
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  )
+}
+
 // Helper function to decode base58 (Solana public key format)
 function decodeBase58(str: string): Uint8Array {
   const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
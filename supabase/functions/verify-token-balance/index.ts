@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { evaluateTokenRule, getTokenRequirement } from '../_shared/tokenGating.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +14,43 @@ interface TokenBalanceRequest {
   tokenMintAddress: string;
 }
 
+// Base-unit balance of `tokenMintAddress`, summed over the wallet's token accounts
+async function fetchWalletBalance(walletAddress: string, tokenMintAddress: string): Promise<bigint> {
+  const response = await fetch(SOLANA_RPC, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'getTokenAccountsByOwner',
+      params: [
+        walletAddress,
+        {
+          mint: tokenMintAddress,
+        },
+        {
+          encoding: 'jsonParsed',
+        },
+      ],
+    }),
+  });
+
+  const data = await response.json();
+  
+  if (data.error) {
+    throw new Error(`Solana RPC error: ${data.error.message}`);
+  }
+
+  // Sum the raw base-unit amounts; uiAmount is a float and loses precision
+  let totalBalance = 0n;
+  if (data.result && data.result.value) {
+    for (const account of data.result.value) {
+      totalBalance += BigInt(account.account.data.parsed.info.tokenAmount.amount);
+    }
+  }
+  return totalBalance;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -26,62 +64,30 @@ serve(async (req) => {
 
     const { walletAddress, tokenMintAddress } = await req.json() as TokenBalanceRequest;
 
-    // Get token balance from Solana
-    const response = await fetch(SOLANA_RPC, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: 1,
-        method: 'getTokenAccountsByOwner',
-        params: [
-          walletAddress,
-          {
-            mint: tokenMintAddress,
-          },
-          {
-            encoding: 'jsonParsed',
-          },
-        ],
-      }),
-    });
-
-    const data = await response.json();
-    
-    if (data.error) {
-      throw new Error(`Solana RPC error: ${data.error.message}`);
+    // The rule decides which mints count; without one, report the requested mint
+    const requirements = await getTokenRequirement(supabase);
+    if (!requirements) {
+      const balance = await fetchWalletBalance(walletAddress, tokenMintAddress);
+      return new Response(
+        JSON.stringify({ balance: balance.toString(), required: '0', decimals: 0, balances: [balance.toString()], hasAccess: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Calculate total balance from all token accounts
-    let totalBalance = 0;
-    if (data.result && data.result.value) {
-      for (const account of data.result.value) {
-        const amount = account.account.data.parsed.info.tokenAmount.uiAmount || 0;
-        totalBalance += amount;
-      }
-    }
-
-    // Get latest token requirements
-    const { data: requirements, error: reqError } = await supabase
-      .from('token_requirements')
-      .select('threshold_amount')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (reqError) {
-      throw new Error(`Failed to fetch token requirements: ${reqError.message}`);
-    }
-
-    const requiredThreshold = (requirements?.threshold_amount ?? 0) as number;
-
-    const hasAccess = totalBalance >= requiredThreshold;
+    const balances = await Promise.all(
+      requirements.mints.map(mint => fetchWalletBalance(walletAddress, mint.token_mint_address))
+    );
+    const result = evaluateTokenRule(requirements, balances);
 
     return new Response(
       JSON.stringify({
-        balance: totalBalance,
-        required: requiredThreshold,
-        hasAccess,
+        // Base units, as strings so JSON keeps them exact
+        balance: result.balance.toString(),
+        required: result.required.toString(),
+        decimals: result.decimals,
+        // Per mint, in rule order
+        balances: balances.map(balance => balance.toString()),
+        hasAccess: result.allowed,
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
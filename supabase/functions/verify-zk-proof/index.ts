@@ -1,10 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { getCircuit } from '../_shared/circuits.ts';
+import { Groth16InputError, Groth16TimeoutError, verifyGroth16 } from '../_shared/groth16.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Native verification takes well under a second; past this, fall back to the external verifier
+const NATIVE_VERIFY_TIMEOUT_MS = 5_000;
+
 interface ZKProofVerificationRequest {
   proof: {
     pi_a: string[];
@@ -14,10 +20,9 @@ interface ZKProofVerificationRequest {
     curve: string;
   };
   publicSignals: string[];
-  // Optional: full verification key JSON (as shipped in public/zkp/verification_key.json)
-  vkey?: unknown;
-  // Optional: full URL to a verifier service (e.g., Vercel function)
-  verifierUrl?: string;
+  // Registry id of the circuit build the proof was made with; the
+  // verification key is looked up here, never taken from the caller
+  circuitId: string;
 }
 
 serve(async (req) => {
@@ -26,7 +31,7 @@ serve(async (req) => {
   }
 
   try {
-    const { proof, publicSignals, vkey, verifierUrl } = await req.json() as ZKProofVerificationRequest;
+    const { proof, publicSignals, circuitId } = await req.json() as ZKProofVerificationRequest;
 
     console.log('📥 Received ZK proof verification request');
     console.log('Public signals:', publicSignals);
@@ -58,71 +63,140 @@ serve(async (req) => {
       );
     }
 
-    // Extract public signals
-    const threshold = publicSignals[0];
-    const commitment = publicSignals[1];
+    if (!circuitId) {
+      return new Response(
+        JSON.stringify({ 
+          verified: false, 
+          error: 'Missing circuit id' 
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
 
-console.log(`✅ Proof structure valid! Threshold: ${threshold}, Commitment: ${commitment}`);
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
 
-// If an external verifier URL and vkey are provided, forward for full cryptographic verification
-if (verifierUrl && vkey) {
-  try {
-    console.log('🔗 Forwarding to external verifier:', verifierUrl);
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10_000);
-
-    const resp = await fetch(verifierUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ proof, publicSignals, vkey }),
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-
-    const data = await resp.json().catch(() => ({} as any));
-
-    if (!resp.ok) {
-      console.error('❌ External verifier error:', data?.error || resp.statusText);
+    const circuit = await getCircuit(supabase, circuitId);
+    if (!circuit) {
+      return new Response(
+        JSON.stringify({ 
+          verified: false, 
+          error: 'Unknown circuit' 
+        }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const circuitInfo = { id: circuit.id, name: circuit.name, status: circuit.status };
+
+    // A revoked build's proofs can't be trusted, whatever they verify to
+    if (circuit.status === 'revoked') {
+      return new Response(
+        JSON.stringify({ 
+          verified: false, 
+          circuit: circuitInfo,
+          error: 'Circuit has been revoked' 
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 1. Pairing check right here, with the registered verification key
+    try {
+      const verified = await verifyGroth16(circuit.vkey, publicSignals, proof, NATIVE_VERIFY_TIMEOUT_MS);
+      console.log(`✅ Native Groth16 verification (${circuit.id}):`, verified);
+      return new Response(
+        JSON.stringify({
+          verified,
+          verifier: 'native',
+          timestamp: new Date().toISOString(),
+          circuit: circuitInfo,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    } catch (err) {
+      if (err instanceof Groth16InputError) {
+        return new Response(
+          JSON.stringify({
+            verified: false,
+            circuit: circuitInfo,
+            error: err.message,
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (!(err instanceof Groth16TimeoutError)) throw err;
+      console.warn('⏱️ Native verification timed out');
+    }
+
+    // 2. Only if that couldn't finish: the external verifier, when one is configured
+    const verifierUrl = Deno.env.get('VERCEL_ZK_VERIFIER_URL');
+    if (!verifierUrl) {
       return new Response(
         JSON.stringify({
           verified: false,
-          error: data?.error || 'External verifier failed',
-          status: resp.status,
+          circuit: circuitInfo,
+          error: 'Proof verification timed out - please try again',
         }),
-        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log('✅ External verifier result:', data?.verified);
-    return new Response(
-      JSON.stringify({
-        verified: Boolean(data?.verified),
-        timestamp: data?.timestamp || new Date().toISOString(),
-        publicSignals: { threshold, commitment },
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-  } catch (err) {
-    console.error('❌ Error calling external verifier:', err);
-    return new Response(
-      JSON.stringify({
-        verified: false,
-        error: err instanceof Error ? err.message : 'External verifier unreachable',
-      }),
-      { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-  }
-}
+    try {
+      console.log('🔗 Forwarding to external verifier:', verifierUrl);
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 10_000);
 
-// Fallback: structural validation only (no cryptographic verification)
-return new Response(
-  JSON.stringify({
-    verified: true,
-    publicSignals: { threshold, commitment },
-    note: 'Structural validation only; provide verifierUrl and vkey for full verification.'
-  }),
-  { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-);
+      const resp = await fetch(verifierUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ proof, publicSignals, vkey: circuit.vkey }),
+        signal: controller.signal,
+      });
+      clearTimeout(timeoutId);
+
+      const data = await resp.json().catch(() => ({} as any));
+
+      if (!resp.ok) {
+        console.error('❌ External verifier error:', data?.error || resp.statusText);
+        return new Response(
+          JSON.stringify({
+            verified: false,
+            error: data?.error || 'External verifier failed',
+            status: resp.status,
+          }),
+          { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      console.log('✅ External verifier result:', data?.verified);
+      return new Response(
+        JSON.stringify({
+          verified: Boolean(data?.verified),
+          verifier: 'external',
+          timestamp: data?.timestamp || new Date().toISOString(),
+          circuit: circuitInfo,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    } catch (err) {
+      console.error('❌ Error calling external verifier:', err);
+      return new Response(
+        JSON.stringify({
+          verified: false,
+          error: err instanceof Error ? err.message : 'External verifier unreachable',
+        }),
+        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
   } catch (error) {
     console.error('❌ Error verifying ZK proof:', error);
     return new Response(
@@ -0,0 +1,144 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { create, getNumericDate } from 'https://deno.land/x/djwt@v2.8/mod.ts';
+import { checkTokenGating } from '../_shared/tokenGating.ts';
+import { verifyWalletSignature } from '../_shared/wallet.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const SESSION_TTL_SECONDS = 60 * 60;
+
+interface ChallengeRequest {
+  action: 'challenge';
+  walletAddress: string;
+}
+
+interface SessionRequest {
+  action: 'session';
+  walletAddress: string;
+  nonce: string;
+  signature: string;
+}
+
+function challengeMessage(walletAddress: string, nonce: string): string {
+  return `SNARK:session:${walletAddress}:${nonce}`;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Issues short-lived Postgres JWTs carrying a `wallet_address` claim, which
+ * the RLS policies read via request.jwt.claims. Requires a signed challenge
+ * and a passing token gate.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json() as ChallengeRequest | SessionRequest;
+    const { walletAddress } = body;
+
+    if (!walletAddress) {
+      return jsonResponse({ error: 'walletAddress is required' }, 400);
+    }
+
+    if (body.action === 'challenge') {
+      const nonce = Array.from(crypto.getRandomValues(new Uint8Array(16)))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+
+      const { error } = await supabase.from('wallet_session_challenges').insert({
+        wallet_address: walletAddress,
+        nonce,
+        expires_at: new Date(Date.now() + CHALLENGE_TTL_MS).toISOString(),
+      });
+
+      if (error) {
+        console.error('Database error:', error);
+        return jsonResponse({ error: 'Failed to create challenge' }, 500);
+      }
+
+      return jsonResponse({ nonce, message: challengeMessage(walletAddress, nonce) });
+    }
+
+    if (body.action !== 'session') {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    const { nonce, signature } = body;
+
+    const { data: challenge } = await supabase
+      .from('wallet_session_challenges')
+      .update({ used_at: new Date().toISOString() })
+      .eq('nonce', nonce)
+      .eq('wallet_address', walletAddress)
+      .is('used_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .select()
+      .maybeSingle();
+
+    if (!challenge) {
+      return jsonResponse({ error: 'Challenge expired or already used - please try again' }, 401);
+    }
+
+    if (!verifyWalletSignature(challengeMessage(walletAddress, nonce), signature, walletAddress)) {
+      return jsonResponse({ error: 'Invalid wallet signature - authentication failed' }, 401);
+    }
+
+    const gating = await checkTokenGating(supabase, walletAddress);
+    if (!gating.allowed) {
+      return jsonResponse(
+        { error: 'Insufficient token balance', balance: gating.balance, required: gating.required },
+        403
+      );
+    }
+
+    const jwtSecret = Deno.env.get('WALLET_JWT_SECRET');
+    if (!jwtSecret) {
+      throw new Error('WALLET_JWT_SECRET is not configured');
+    }
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(jwtSecret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+
+    const expiresAt = getNumericDate(SESSION_TTL_SECONDS);
+    const token = await create(
+      { alg: 'HS256', typ: 'JWT' },
+      {
+        sub: walletAddress,
+        // PostgREST needs a database role; policies must check wallet_address, never the role alone
+        role: 'authenticated',
+        aud: 'authenticated',
+        wallet_address: walletAddress,
+        iat: getNumericDate(0),
+        exp: expiresAt,
+      },
+      key
+    );
+
+    return jsonResponse({ token, expiresAt: expiresAt * 1000 });
+  } catch (error) {
+    console.error('Error creating wallet session:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
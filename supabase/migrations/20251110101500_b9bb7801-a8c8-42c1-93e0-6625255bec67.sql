@@ -0,0 +1,81 @@
+-- Per-room group keys: rooms get a random AES key that is wrapped to each
+-- member's X25519 public key instead of being derived from a shared constant
+
+-- Messages belong to a room; existing rows live in the default lobby
+ALTER TABLE public.messages
+  ADD COLUMN room_id TEXT NOT NULL DEFAULT 'lobby';
+
+CREATE INDEX idx_messages_room_created_at ON public.messages(room_id, created_at DESC);
+
+-- Member X25519 public keys, bound to the wallet by an ed25519 signature
+-- over 'SNARK:x25519:<wallet>:<x25519_public_key>'. Clients verify the
+-- signature before wrapping anything to a key, so rows are append-only.
+CREATE TABLE public.member_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_address TEXT NOT NULL,
+  x25519_public_key TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (wallet_address, x25519_public_key)
+);
+
+CREATE INDEX idx_member_keys_wallet ON public.member_keys(wallet_address);
+
+-- Room keys, identified by a truncated hash of the key material
+CREATE TABLE public.room_keys (
+  key_id TEXT PRIMARY KEY,
+  room_id TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_room_keys_room ON public.room_keys(room_id, created_at DESC);
+
+-- A room key wrapped to one member's X25519 key
+CREATE TABLE public.room_key_grants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key_id TEXT NOT NULL REFERENCES public.room_keys(key_id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL,
+  wrapped_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (key_id, wallet_address)
+);
+
+CREATE INDEX idx_room_key_grants_wallet ON public.room_key_grants(wallet_address);
+
+-- Enable RLS
+ALTER TABLE public.member_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.room_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.room_key_grants ENABLE ROW LEVEL SECURITY;
+
+-- Public keys and wrapped keys are safe to publish: only the holder of the
+-- matching X25519 secret can unwrap a grant
+CREATE POLICY "Anyone can view member keys"
+ON public.member_keys
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can publish a member key"
+ON public.member_keys
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can view room keys"
+ON public.room_keys
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can create room keys"
+ON public.room_keys
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can view room key grants"
+ON public.room_key_grants
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can grant room keys"
+ON public.room_key_grants
+FOR INSERT
+WITH CHECK (true);
@@ -0,0 +1,33 @@
+-- Gated key release: room keys are escrowed server-side and only handed out
+-- (re-wrapped to the member's X25519 key) by the release-room-key function,
+-- after a signed challenge and the same token gate used for sending
+
+-- Sealed copies of room keys; no policies, so only the service role can read them
+CREATE TABLE public.room_key_escrow (
+  key_id TEXT PRIMARY KEY REFERENCES public.room_keys(key_id) ON DELETE CASCADE,
+  sealed_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.room_key_escrow ENABLE ROW LEVEL SECURITY;
+
+-- Single-use challenges signed by the wallet requesting a key
+CREATE TABLE public.key_release_challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_address TEXT NOT NULL,
+  room_id TEXT NOT NULL,
+  nonce TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_key_release_challenges_expires ON public.key_release_challenges(expires_at);
+
+ALTER TABLE public.key_release_challenges ENABLE ROW LEVEL SECURITY;
+
+-- Room keys and grants are now written by the release function only.
+-- Keys created client-side before this migration have no escrowed copy,
+-- so the function starts a fresh key for those rooms.
+DROP POLICY IF EXISTS "Anyone can create room keys" ON public.room_keys;
+DROP POLICY IF EXISTS "Anyone can grant room keys" ON public.room_key_grants;
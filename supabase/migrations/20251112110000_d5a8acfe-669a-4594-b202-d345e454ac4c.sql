@@ -0,0 +1,21 @@
+-- Key epochs: every room key belongs to a numbered epoch. A new epoch starts
+-- when a member drops below the token threshold or an admin rotates the key.
+
+ALTER TABLE public.room_keys
+  ADD COLUMN epoch INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN reason TEXT NOT NULL DEFAULT 'initial';
+
+-- Number existing keys per room in creation order
+UPDATE public.room_keys rk
+SET epoch = numbered.epoch
+FROM (
+  SELECT key_id, row_number() OVER (PARTITION BY room_id ORDER BY created_at) AS epoch
+  FROM public.room_keys
+) numbered
+WHERE rk.key_id = numbered.key_id;
+
+ALTER TABLE public.room_keys
+  ADD CONSTRAINT room_keys_room_epoch_key UNIQUE (room_id, epoch);
+
+-- Clients listen for new epochs so they can fetch the new key
+ALTER PUBLICATION supabase_realtime ADD TABLE public.room_keys;
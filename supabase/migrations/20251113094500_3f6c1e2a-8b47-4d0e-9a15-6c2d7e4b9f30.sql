@@ -0,0 +1,52 @@
+-- Direct messages between wallets. Ciphertexts come from the clients' Double
+-- Ratchet sessions; the server only stores them. Reads and writes go through
+-- wallet-session JWTs, whose `wallet_address` claim the policies below check.
+
+-- Single-use challenges signed by a wallet asking for a session token
+CREATE TABLE public.wallet_session_challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_address TEXT NOT NULL,
+  nonce TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_wallet_session_challenges_expires ON public.wallet_session_challenges(expires_at);
+
+ALTER TABLE public.wallet_session_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.jwt_wallet_address()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(current_setting('request.jwt.claims', true), '')::jsonb ->> 'wallet_address'
+$$;
+
+CREATE TABLE public.direct_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id TEXT NOT NULL,
+  sender_wallet TEXT NOT NULL,
+  recipient_wallet TEXT NOT NULL,
+  header JSONB NOT NULL,
+  ciphertext TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT direct_messages_distinct_wallets CHECK (sender_wallet <> recipient_wallet)
+);
+
+CREATE INDEX idx_direct_messages_conversation ON public.direct_messages(conversation_id, created_at);
+
+ALTER TABLE public.direct_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can read their direct messages"
+ON public.direct_messages
+FOR SELECT
+USING (public.jwt_wallet_address() IN (sender_wallet, recipient_wallet));
+
+CREATE POLICY "Wallets can send direct messages as themselves"
+ON public.direct_messages
+FOR INSERT
+WITH CHECK (sender_wallet = public.jwt_wallet_address());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.direct_messages;
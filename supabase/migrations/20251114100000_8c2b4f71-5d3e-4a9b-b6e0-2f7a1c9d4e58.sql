@@ -0,0 +1,45 @@
+-- Private groups: small ad-hoc chats whose messages wrap a fresh content key
+-- to every current member. Groups are changed only by the manage-group
+-- function, which checks a wallet signature for every action.
+
+CREATE TABLE public.private_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  owner_wallet TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Membership history. A removed member keeps its row with removed_at set,
+-- so it's still known who could read which messages.
+CREATE TABLE public.private_group_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES public.private_groups(id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL,
+  added_by TEXT NOT NULL,
+  added_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  removed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- At most one active membership per wallet and group
+CREATE UNIQUE INDEX idx_private_group_members_active
+  ON public.private_group_members(group_id, wallet_address)
+  WHERE removed_at IS NULL;
+
+CREATE INDEX idx_private_group_members_wallet ON public.private_group_members(wallet_address);
+
+ALTER TABLE public.private_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.private_group_members ENABLE ROW LEVEL SECURITY;
+
+-- Group names and member lists are readable so clients can wrap to the
+-- current members; message contents stay encrypted to those members only
+CREATE POLICY "Anyone can view private groups"
+ON public.private_groups
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can view private group members"
+ON public.private_group_members
+FOR SELECT
+USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.private_group_members;
@@ -0,0 +1,35 @@
+-- Versioned ciphertext envelopes: every messages.encrypted_content becomes a
+-- v2 envelope { v, alg, pad, kid | recipients, epoch?, data }.
+-- Existing ciphertexts are left untouched and only relabelled: they were
+-- never padded, so they get pad = 'none'.
+DO $$
+DECLARE
+  row RECORD;
+  envelope JSONB;
+BEGIN
+  FOR row IN SELECT id, encrypted_content FROM public.messages LOOP
+    IF left(row.encrypted_content, 1) <> '{' THEN
+      -- Pre-envelope rows: base64(IV || ciphertext) under the legacy shared key
+      UPDATE public.messages
+      SET encrypted_content = jsonb_build_object(
+        'v', 2, 'alg', 'A256GCM', 'pad', 'none', 'kid', 'legacy', 'data', row.encrypted_content
+      )::text
+      WHERE id = row.id;
+      CONTINUE;
+    END IF;
+
+    BEGIN
+      envelope := row.encrypted_content::jsonb;
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'Skipping message % with unparseable encrypted_content', row.id;
+      CONTINUE;
+    END;
+
+    IF envelope ->> 'v' = '1' THEN
+      UPDATE public.messages
+      SET encrypted_content = (envelope || jsonb_build_object('v', 2, 'alg', 'A256GCM', 'pad', 'none'))::text
+      WHERE id = row.id;
+    END IF;
+  END LOOP;
+END;
+$$;
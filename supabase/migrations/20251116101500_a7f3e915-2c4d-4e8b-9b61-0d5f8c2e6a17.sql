@@ -0,0 +1,8 @@
+-- Message commitments: send-message stores a salted SHA-256 over the message
+-- id and ciphertext, and the on-chain memo must carry exactly that value.
+-- Rows written before this have no commitment and can't be logged on-chain.
+ALTER TABLE public.messages
+  ADD COLUMN message_commitment TEXT,
+  ADD COLUMN commitment_salt TEXT;
+
+CREATE INDEX idx_messages_commitment ON public.messages(message_commitment);
@@ -0,0 +1,7 @@
+-- Author signatures: the wallet's ed25519 signature over
+-- 'SNARK:msg:v1:<wallet>:<room>:<signed_at>:<sha256(ciphertext)>:<sha256(proof)>',
+-- stored so every client can re-verify the message it displays.
+-- Older rows have neither column and show up as unsigned.
+ALTER TABLE public.messages
+  ADD COLUMN author_signature TEXT,
+  ADD COLUMN signed_at BIGINT;
@@ -0,0 +1,46 @@
+-- Encrypted attachments. Files are encrypted in the browser and stored in a
+-- private bucket under the SHA-256 of their ciphertext. Uploads and download
+-- URLs only come from the attachments function, which applies the same token
+-- gate as send-message and the limits below.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false);
+
+-- No storage policies: the function hands out signed upload/download URLs
+
+-- One row per uploaded ciphertext; a message may only reference 'ready' rows
+CREATE TABLE public.attachments (
+  content_hash TEXT PRIMARY KEY,
+  uploader_wallet TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL,
+  mime_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'ready')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_attachments_uploader ON public.attachments(uploader_wallet);
+
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+
+-- Admin-set limits; the latest row applies
+CREATE TABLE public.attachment_limits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  max_size_bytes BIGINT NOT NULL CHECK (max_size_bytes > 0),
+  allowed_mime_types TEXT[] NOT NULL,
+  updated_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.attachment_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view attachment limits"
+ON public.attachment_limits
+FOR SELECT
+USING (true);
+
+INSERT INTO public.attachment_limits (max_size_bytes, allowed_mime_types)
+VALUES (
+  10485760,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf', 'text/plain']
+);
@@ -0,0 +1,15 @@
+-- Single-use nonces for token balance proofs. The client asks proof-nonce for
+-- one, proves with it as a public input, and send-message consumes it, so a
+-- proof can't be replayed or submitted for another wallet.
+CREATE TABLE public.proof_nonces (
+  nonce TEXT PRIMARY KEY,
+  wallet_address TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_proof_nonces_wallet ON public.proof_nonces(wallet_address);
+CREATE INDEX idx_proof_nonces_expires ON public.proof_nonces(expires_at);
+
+ALTER TABLE public.proof_nonces ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,33 @@
+-- Holder snapshots. The holder-snapshot function builds a Poseidon Merkle tree
+-- of (walletHash, balance) leaves for the gated mint, stores the full leaf
+-- list in a public bucket and records the root here. Members prove inclusion
+-- of their leaf locally; send-message only accepts roots of recent snapshots.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('holder-snapshots', 'holder-snapshots', true);
+
+CREATE POLICY "Anyone can read holder snapshot dumps"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'holder-snapshots');
+
+CREATE TABLE public.holder_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_mint_address TEXT NOT NULL,
+  merkle_root TEXT NOT NULL,
+  tree_depth INTEGER NOT NULL,
+  leaf_count INTEGER NOT NULL,
+  dump_path TEXT NOT NULL,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_holder_snapshots_mint_created ON public.holder_snapshots(token_mint_address, created_at DESC);
+CREATE INDEX idx_holder_snapshots_root ON public.holder_snapshots(merkle_root);
+
+ALTER TABLE public.holder_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view holder snapshots"
+ON public.holder_snapshots
+FOR SELECT
+USING (true);
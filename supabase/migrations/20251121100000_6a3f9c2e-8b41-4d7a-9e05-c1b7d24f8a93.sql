@@ -0,0 +1,30 @@
+-- Anonymous rooms. Holders register a commitment to an identity secret, the
+-- holder snapshot puts it in their leaf, and messages in 'anon:' rooms carry
+-- a membership proof and a per-room, per-epoch nullifier instead of a wallet.
+
+CREATE TABLE public.anonymous_identities (
+  wallet_address TEXT PRIMARY KEY,
+  identity_commitment TEXT NOT NULL UNIQUE,
+  signature TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.anonymous_identities ENABLE ROW LEVEL SECURITY;
+
+-- Commitments are published in the snapshot dumps anyway
+CREATE POLICY "Anyone can view anonymous identities"
+ON public.anonymous_identities
+FOR SELECT
+USING (true);
+
+-- Anonymous messages have a nullifier and no wallet
+ALTER TABLE public.messages ALTER COLUMN wallet_address DROP NOT NULL;
+ALTER TABLE public.messages ADD COLUMN nullifier TEXT;
+ALTER TABLE public.messages ADD CONSTRAINT messages_author_check
+  CHECK (wallet_address IS NOT NULL OR nullifier IS NOT NULL);
+
+-- The proof covers the ciphertext, so the same proof can't store it twice
+CREATE UNIQUE INDEX idx_messages_nullifier_content
+ON public.messages (nullifier, md5(encrypted_content))
+WHERE nullifier IS NOT NULL;
@@ -0,0 +1,43 @@
+-- Rate-limiting nullifiers for anonymous rooms. Every anonymous message
+-- reveals one Shamir share of its sender's identity secret. A second share
+-- for the same rln_nullifier (same sender, room, epoch and message slot)
+-- recovers the secret, and send-message bans that identity.
+
+CREATE TABLE public.rln_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rln_nullifier TEXT NOT NULL UNIQUE,
+  nullifier TEXT NOT NULL,
+  room_id TEXT NOT NULL,
+  epoch BIGINT NOT NULL,
+  share_x TEXT NOT NULL,
+  share_y TEXT NOT NULL,
+  message_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_rln_shares_room_epoch ON public.rln_shares(room_id, epoch);
+
+ALTER TABLE public.rln_shares ENABLE ROW LEVEL SECURITY;
+
+-- Shares are in every message's public signals anyway; clients read them to
+-- find which of their message slots are already used
+CREATE POLICY "Anyone can view RLN shares"
+ON public.rln_shares
+FOR SELECT
+USING (true);
+
+-- Identities whose secret was recovered. Only the service role reads this:
+-- it holds the recovered secrets.
+CREATE TABLE public.anon_bans (
+  identity_commitment TEXT PRIMARY KEY,
+  identity_secret TEXT NOT NULL,
+  wallet_address TEXT,
+  room_id TEXT NOT NULL,
+  epoch BIGINT NOT NULL,
+  rln_nullifier TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_anon_bans_wallet ON public.anon_bans(wallet_address);
+
+ALTER TABLE public.anon_bans ENABLE ROW LEVEL SECURITY;
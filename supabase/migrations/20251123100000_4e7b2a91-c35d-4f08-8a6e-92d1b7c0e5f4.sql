@@ -0,0 +1,18 @@
+-- Token thresholds in the mint's base units, so balances are compared
+-- exactly instead of as rounded whole tokens. threshold_amount (whole
+-- tokens) is kept for rows saved before this; readers convert it with the
+-- mint's decimals until an admin saves the requirement again.
+
+ALTER TABLE public.token_requirements
+  ADD COLUMN token_decimals SMALLINT CHECK (token_decimals BETWEEN 0 AND 255),
+  -- Decimal string like the field elements elsewhere: PostgREST returns
+  -- NUMERIC as a JSON number, which loses precision above 2^53. A mint's
+  -- supply is a u64, so anything longer can't be met.
+  ADD COLUMN threshold_base_units TEXT CHECK (threshold_base_units ~ '^[1-9][0-9]{0,19}$');
+
+ALTER TABLE public.token_requirements
+  ALTER COLUMN threshold_amount DROP NOT NULL;
+
+ALTER TABLE public.token_requirements
+  ADD CONSTRAINT token_requirements_threshold_present
+  CHECK (threshold_base_units IS NOT NULL OR threshold_amount IS NOT NULL);
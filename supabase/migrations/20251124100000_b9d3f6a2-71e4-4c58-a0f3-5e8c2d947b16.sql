@@ -0,0 +1,54 @@
+-- Token rules over several mints. A requirement is either 'single' (the
+-- token_requirements row alone, as before), 'weighted' (the weighted sum of
+-- the listed mints' base-unit balances must reach threshold_base_units) or
+-- 'any_of' (one listed mint must reach its own threshold). The first listed
+-- mint is also kept in token_requirements.token_mint_address and
+-- token_decimals.
+
+ALTER TABLE public.token_requirements
+  ADD COLUMN rule_mode TEXT NOT NULL DEFAULT 'single'
+  CHECK (rule_mode IN ('single', 'weighted', 'any_of'));
+
+CREATE TABLE public.token_requirement_mints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  requirement_id UUID NOT NULL REFERENCES public.token_requirements(id) ON DELETE CASCADE,
+  -- Slot in circuits/multiMintInclusion.circom, which has four
+  position SMALLINT NOT NULL CHECK (position BETWEEN 0 AND 3),
+  token_mint_address TEXT NOT NULL,
+  token_decimals SMALLINT NOT NULL CHECK (token_decimals BETWEEN 0 AND 255),
+  -- Multiplier on this mint's base units in 'weighted' rules; the circuit
+  -- range-checks it to 32 bits
+  weight BIGINT NOT NULL DEFAULT 1 CHECK (weight BETWEEN 0 AND 4294967295),
+  -- This mint's own threshold in 'any_of' rules
+  threshold_base_units TEXT CHECK (threshold_base_units ~ '^[1-9][0-9]{0,19}$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (requirement_id, position),
+  UNIQUE (requirement_id, token_mint_address)
+);
+
+ALTER TABLE public.token_requirement_mints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view token requirement mints"
+ON public.token_requirement_mints
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage token requirement mints"
+ON public.token_requirement_mints
+AS PERMISSIVE
+FOR ALL
+TO public
+USING (
+  public.is_admin(((current_setting('request.jwt.claims', true))::json ->> 'wallet_address')::text)
+)
+WITH CHECK (
+  public.is_admin(((current_setting('request.jwt.claims', true))::json ->> 'wallet_address')::text)
+);
+
+-- Snapshots are taken of a rule's mints together: the comma-separated mint
+-- addresses in rule order. For single-mint rules it is just the mint.
+ALTER TABLE public.holder_snapshots ADD COLUMN mint_set TEXT;
+UPDATE public.holder_snapshots SET mint_set = token_mint_address;
+ALTER TABLE public.holder_snapshots ALTER COLUMN mint_set SET NOT NULL;
+
+CREATE INDEX idx_holder_snapshots_mint_set_created ON public.holder_snapshots(mint_set, created_at DESC);
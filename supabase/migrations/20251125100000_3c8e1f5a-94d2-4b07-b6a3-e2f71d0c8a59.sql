@@ -0,0 +1,36 @@
+-- Holder tiers (e.g. bronze, silver, gold). A sender can prove with
+-- circuits/holderTier.circom which tier their snapshot balance falls in
+-- without revealing it; send-message checks the proof's tier boundaries
+-- against this table and stores the tier's name on the message.
+
+CREATE TABLE public.holder_tiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- 1 is the lowest tier; the circuit has three slots
+  position SMALLINT NOT NULL UNIQUE CHECK (position BETWEEN 1 AND 3),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 24),
+  -- Lowest balance in the tier, in the gated mint's base units
+  min_base_units TEXT NOT NULL CHECK (min_base_units ~ '^[1-9][0-9]{0,19}$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.holder_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view holder tiers"
+ON public.holder_tiers
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage holder tiers"
+ON public.holder_tiers
+AS PERMISSIVE
+FOR ALL
+TO public
+USING (
+  public.is_admin(((current_setting('request.jwt.claims', true))::json ->> 'wallet_address')::text)
+)
+WITH CHECK (
+  public.is_admin(((current_setting('request.jwt.claims', true))::json ->> 'wallet_address')::text)
+);
+
+-- Name of the tier the sender proved, as configured when the message was sent
+ALTER TABLE public.messages ADD COLUMN holder_tier TEXT;
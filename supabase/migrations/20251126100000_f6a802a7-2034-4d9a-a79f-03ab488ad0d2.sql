@@ -0,0 +1,43 @@
+-- Registry of circuit builds. Every proof names the build it was made with
+-- (proof_data.circuit_id) and verify-zk-proof verifies it with that build's
+-- verification key, so rebuilding a circuit doesn't break old messages.
+--
+--   active     - the build clients currently prove with; one per circuit
+--   deprecated - superseded; its proofs still verify, new messages are refused
+--   revoked    - never verifies again, e.g. after a leaked setup
+
+CREATE TABLE public.circuits (
+  -- '<name>@<first 16 hex digits of the vkey SHA-256>', see src/lib/zkArtifacts.ts
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- SHA-256 of the compiled r1cs, as in public/zkp/manifest.json
+  version TEXT NOT NULL,
+  vkey JSONB NOT NULL,
+  wasm_sha256 TEXT NOT NULL,
+  zkey_sha256 TEXT NOT NULL,
+  vkey_sha256 TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'deprecated', 'revoked')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX circuits_one_active_per_name ON public.circuits (name) WHERE status = 'active';
+
+ALTER TABLE public.circuits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view circuits"
+ON public.circuits
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage circuits"
+ON public.circuits
+AS PERMISSIVE
+FOR ALL
+TO public
+USING (
+  public.is_admin(((current_setting('request.jwt.claims', true))::json ->> 'wallet_address')::text)
+)
+WITH CHECK (
+  public.is_admin(((current_setting('request.jwt.claims', true))::json ->> 'wallet_address')::text)
+);
@@ -0,0 +1,46 @@
+-- How send-message checked each message's proof and whether it is held for
+-- review, see supabase/functions/_shared/verificationPolicy.ts. Messages
+-- stored before this have no verification_method.
+ALTER TABLE public.messages
+ADD COLUMN verification_method TEXT CHECK (verification_method IN ('native', 'external', 'structural')),
+ADD COLUMN quarantined BOOLEAN NOT NULL DEFAULT false;
+
+-- Messages are only written by send-message with the service role; a direct
+-- insert could claim verified = true without any proof
+DROP POLICY IF EXISTS "Users can insert their own messages" ON public.messages;
+
+-- Quarantined messages are hidden until an admin releases them
+DROP POLICY IF EXISTS "Anyone can view messages" ON public.messages;
+
+CREATE POLICY "Anyone can view released messages"
+ON public.messages
+FOR SELECT
+USING (
+  NOT quarantined
+  OR public.is_admin(((current_setting('request.jwt.claims', true))::json ->> 'wallet_address')::text)
+);
+
+CREATE POLICY "Admins can release quarantined messages"
+ON public.messages
+AS PERMISSIVE
+FOR UPDATE
+TO public
+USING (
+  quarantined
+  AND public.is_admin(((current_setting('request.jwt.claims', true))::json ->> 'wallet_address')::text)
+)
+WITH CHECK (
+  public.is_admin(((current_setting('request.jwt.claims', true))::json ->> 'wallet_address')::text)
+);
+
+CREATE POLICY "Admins can delete quarantined messages"
+ON public.messages
+AS PERMISSIVE
+FOR DELETE
+TO public
+USING (
+  quarantined
+  AND public.is_admin(((current_setting('request.jwt.claims', true))::json ->> 'wallet_address')::text)
+);
+
+CREATE INDEX idx_messages_quarantined ON public.messages(created_at DESC) WHERE quarantined;
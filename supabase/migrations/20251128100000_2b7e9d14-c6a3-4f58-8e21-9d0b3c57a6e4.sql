@@ -0,0 +1,15 @@
+-- Every proof send-message has accepted, under the SHA-256 of its canonical
+-- (pi_a, pi_b, pi_c), so the same proof can't be submitted twice. See
+-- supabase/functions/_shared/usedCommitments.ts. Written by send-message
+-- with the service role only.
+CREATE TABLE public.used_commitments (
+  commitment TEXT PRIMARY KEY CHECK (commitment ~ '^[0-9a-f]{64}$'),
+  circuit_id TEXT NOT NULL REFERENCES public.circuits(id),
+  -- Anonymous epoch the proof was made for; null for wallet proofs
+  epoch BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_used_commitments_created ON public.used_commitments(created_at);
+
+ALTER TABLE public.used_commitments ENABLE ROW LEVEL SECURITY;
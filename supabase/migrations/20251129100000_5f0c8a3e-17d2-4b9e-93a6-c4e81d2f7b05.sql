@@ -0,0 +1,58 @@
+-- Bulk re-verification of stored messages, run by an admin through the
+-- reverify-messages function after a verification key is rotated or a
+-- verifier bug is found. A run walks messages in id order, one page per
+-- call, and records one message_verifications row per message it checks.
+
+CREATE TABLE public.reverification_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  started_by TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed')),
+  verifier_version TEXT NOT NULL,
+  -- Messages when the run started; ones sent since may be checked too
+  total INTEGER NOT NULL,
+  checked INTEGER NOT NULL DEFAULT 0,
+  flipped_to_verified INTEGER NOT NULL DEFAULT 0,
+  flipped_to_failed INTEGER NOT NULL DEFAULT 0,
+  -- Messages whose proof couldn't be checked: no registered circuit, or a timeout
+  skipped INTEGER NOT NULL DEFAULT 0,
+  -- Last message id checked; the next page starts after it
+  cursor_id UUID,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_reverification_runs_started ON public.reverification_runs(started_at DESC);
+
+CREATE TABLE public.message_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  run_id UUID REFERENCES public.reverification_runs(id) ON DELETE SET NULL,
+  circuit_id TEXT,
+  verifier_version TEXT NOT NULL,
+  result TEXT NOT NULL CHECK (result IN ('valid', 'invalid', 'revoked', 'malformed', 'unknown_circuit', 'timeout')),
+  verified_before BOOLEAN NOT NULL,
+  verified_after BOOLEAN NOT NULL,
+  flipped BOOLEAN GENERATED ALWAYS AS (verified_before <> verified_after) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_verifications_message ON public.message_verifications(message_id, created_at DESC);
+CREATE INDEX idx_message_verifications_run_flipped ON public.message_verifications(run_id) WHERE flipped;
+
+-- Written by reverify-messages with the service role; only admins read them
+ALTER TABLE public.reverification_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reverification runs"
+ON public.reverification_runs
+FOR SELECT
+USING (
+  public.is_admin(((current_setting('request.jwt.claims', true))::json ->> 'wallet_address')::text)
+);
+
+CREATE POLICY "Admins can view message verifications"
+ON public.message_verifications
+FOR SELECT
+USING (
+  public.is_admin(((current_setting('request.jwt.claims', true))::json ->> 'wallet_address')::text)
+);
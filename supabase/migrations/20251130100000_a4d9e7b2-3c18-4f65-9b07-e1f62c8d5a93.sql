@@ -0,0 +1,88 @@
+-- Multi-party Phase 2 trusted setup ceremonies. circuits/setup.sh --ceremony
+-- stops at the initial zkey; an admin opens a ceremony with it, contributors
+-- each add entropy in the browser, and the ceremony function has every
+-- upload verified from the r1cs and the Powers of Tau before accepting it.
+-- An admin closes it with a public random beacon and activates the result
+-- in the circuit registry. Everything here and in the ceremony bucket is
+-- public, so anyone can re-check the transcript.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('ceremony', 'ceremony', true);
+
+CREATE POLICY "Anyone can read ceremony files"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'ceremony');
+
+CREATE TABLE public.setup_ceremonies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  circuit_name TEXT NOT NULL,
+  --   open       - taking contributions
+  --   finalized  - beacon applied; the final zkey and vkey are published
+  --   activated  - registered as the circuit's active build
+  --   cancelled  - abandoned by an admin
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'finalized', 'activated', 'cancelled')),
+  r1cs_sha256 TEXT NOT NULL,
+  wasm_sha256 TEXT NOT NULL,
+  ptau_url TEXT NOT NULL,
+  r1cs_path TEXT NOT NULL,
+  -- Contributions accepted so far, not counting the initial zkey
+  contribution_count INTEGER NOT NULL DEFAULT 0,
+  -- One upload at a time: whoever holds the claim uploads the next zkey
+  claimed_by TEXT,
+  claim_position INTEGER,
+  claim_expires_at TIMESTAMP WITH TIME ZONE,
+  beacon_hash TEXT,
+  beacon_iterations_exp INTEGER,
+  -- Solana slot whose finalized blockhash is the beacon, picked by the server
+  beacon_slot BIGINT,
+  final_zkey_path TEXT,
+  final_zkey_sha256 TEXT,
+  vkey_path TEXT,
+  vkey_sha256 TEXT,
+  circuit_id TEXT REFERENCES public.circuits(id),
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finalized_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX setup_ceremonies_one_open_per_circuit ON public.setup_ceremonies (circuit_name) WHERE status = 'open';
+
+-- Position 0 is the initial zkey; the beacon is the position after the last contribution
+CREATE TABLE public.ceremony_contributions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ceremony_id UUID NOT NULL REFERENCES public.setup_ceremonies(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position >= 0),
+  kind TEXT NOT NULL CHECK (kind IN ('initial', 'contribution', 'beacon')),
+  wallet_address TEXT NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 64),
+  zkey_path TEXT NOT NULL,
+  zkey_sha256 TEXT NOT NULL,
+  -- BLAKE2b-512 of the contribution's public key, as snarkjs prints it; empty for the initial zkey
+  contribution_hash TEXT NOT NULL,
+  -- Wallet signature of SNARK:ceremony-submit:<ceremony>:<position>:<zkey_sha256>:<signed_at>
+  signature TEXT NOT NULL,
+  signed_at BIGINT NOT NULL,
+  -- snarkjs' verification output for the zkey after this contribution
+  verification_log TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (ceremony_id, position)
+);
+
+-- One contribution per wallet and ceremony; admins also upload the initial zkey and the beacon
+CREATE UNIQUE INDEX ceremony_contributions_one_per_wallet
+ON public.ceremony_contributions (ceremony_id, wallet_address)
+WHERE kind = 'contribution';
+
+ALTER TABLE public.setup_ceremonies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ceremony_contributions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view setup ceremonies"
+ON public.setup_ceremonies
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can view ceremony contributions"
+ON public.ceremony_contributions
+FOR SELECT
+USING (true);
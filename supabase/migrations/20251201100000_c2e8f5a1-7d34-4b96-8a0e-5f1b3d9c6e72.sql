@@ -0,0 +1,18 @@
+-- A direct message must be filed under its own participants. The insert
+-- policy only checked the sender, so any wallet could add rows to someone
+-- else's conversation or pick an unrelated recipient. conversation_id is the
+-- two wallets sorted and joined with ':' (conversationId in
+-- src/lib/directMessages.ts); COLLATE "C" sorts like JavaScript does.
+
+DROP POLICY "Wallets can send direct messages as themselves" ON public.direct_messages;
+
+CREATE POLICY "Wallets can send direct messages as themselves"
+ON public.direct_messages
+FOR INSERT
+WITH CHECK (
+  sender_wallet = public.jwt_wallet_address()
+  AND conversation_id = CASE
+    WHEN sender_wallet COLLATE "C" < recipient_wallet COLLATE "C" THEN sender_wallet || ':' || recipient_wallet
+    ELSE recipient_wallet || ':' || sender_wallet
+  END
+);
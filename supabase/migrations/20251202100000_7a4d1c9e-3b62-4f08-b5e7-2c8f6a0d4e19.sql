@@ -0,0 +1,6 @@
+-- Wallet-session JWTs carry role 'authenticated', which also satisfied this
+-- policy from the first setup, letting every wallet upload into the public
+-- zkp bucket. Nothing has used the bucket since verification keys moved to
+-- the circuit registry, so uploads are no longer allowed at all.
+
+DROP POLICY "Authenticated users can upload verification keys" ON storage.objects;
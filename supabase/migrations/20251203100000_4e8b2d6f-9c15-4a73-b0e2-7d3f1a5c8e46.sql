@@ -0,0 +1,48 @@
+-- Saving a token rule used to be three requests from the admin panel
+-- (update the requirement, delete its mints, insert the new ones), so a
+-- failure part-way left a half-written rule that every proof was checked
+-- against. save_token_rule does all three in one transaction. It runs as
+-- the caller, so the admin-only policies on both tables still apply.
+
+CREATE OR REPLACE FUNCTION public.save_token_rule(
+  requirement_id UUID,
+  token_mint_address TEXT,
+  token_decimals SMALLINT,
+  threshold_base_units TEXT,
+  rule_mode TEXT,
+  mints JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.token_requirements AS r
+  SET token_mint_address = save_token_rule.token_mint_address,
+      token_decimals = save_token_rule.token_decimals,
+      threshold_base_units = save_token_rule.threshold_base_units,
+      threshold_amount = NULL,
+      rule_mode = save_token_rule.rule_mode,
+      updated_at = now()
+  WHERE r.id = save_token_rule.requirement_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Token requirement % not found', save_token_rule.requirement_id;
+  END IF;
+
+  DELETE FROM public.token_requirement_mints AS m
+  WHERE m.requirement_id = save_token_rule.requirement_id;
+
+  -- `mints` is empty for single-mint rules
+  INSERT INTO public.token_requirement_mints
+    (requirement_id, position, token_mint_address, token_decimals, weight, threshold_base_units)
+  SELECT save_token_rule.requirement_id,
+         (mint.ordinality - 1)::SMALLINT,
+         mint.value ->> 'token_mint_address',
+         (mint.value ->> 'token_decimals')::SMALLINT,
+         (mint.value ->> 'weight')::BIGINT,
+         mint.value ->> 'threshold_base_units'
+  FROM jsonb_array_elements(save_token_rule.mints) WITH ORDINALITY AS mint(value, ordinality);
+END;
+$$;
@@ -0,0 +1,27 @@
+-- send-message used to load every ban and hash each recovered secret for
+-- every anonymous message. Banned nullifiers are now kept per room and
+-- epoch (scope): the bans are hashed once, when a scope is first checked,
+-- and each message is one indexed lookup. anon_ban_scopes records which
+-- scopes are complete. Only the service role reads either table.
+
+CREATE TABLE public.anon_ban_scopes (
+  external_nullifier TEXT PRIMARY KEY,
+  room_id TEXT NOT NULL,
+  epoch BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_anon_ban_scopes_epoch ON public.anon_ban_scopes(epoch);
+
+CREATE TABLE public.anon_banned_nullifiers (
+  external_nullifier TEXT NOT NULL,
+  nullifier TEXT NOT NULL,
+  epoch BIGINT NOT NULL,
+  identity_commitment TEXT NOT NULL REFERENCES public.anon_bans(identity_commitment) ON DELETE CASCADE,
+  PRIMARY KEY (external_nullifier, nullifier)
+);
+
+CREATE INDEX idx_anon_banned_nullifiers_epoch ON public.anon_banned_nullifiers(epoch);
+
+ALTER TABLE public.anon_ban_scopes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.anon_banned_nullifiers ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,26 @@
+-- 20251115090000 relabelled messages from before room keys as v2 envelopes
+-- with kid 'legacy', but they are still encrypted under the key derived
+-- from the public LEGACY_PASSPHRASE in src/lib/encryption.ts, so anyone can
+-- read them. Put them back as v1 envelopes so they can't pass for current
+-- ones; clients show them as unprotected and send-message refuses new
+-- messages with kid 'legacy'.
+DO $$
+DECLARE
+  row RECORD;
+  envelope JSONB;
+BEGIN
+  FOR row IN SELECT id, encrypted_content FROM public.messages WHERE left(encrypted_content, 1) = '{' LOOP
+    BEGIN
+      envelope := row.encrypted_content::jsonb;
+    EXCEPTION WHEN others THEN
+      CONTINUE;
+    END;
+
+    IF envelope ->> 'kid' = 'legacy' AND envelope ->> 'v' = '2' THEN
+      UPDATE public.messages
+      SET encrypted_content = jsonb_build_object('v', 1, 'kid', 'legacy', 'data', envelope ->> 'data')::text
+      WHERE id = row.id;
+    END IF;
+  END LOOP;
+END;
+$$;
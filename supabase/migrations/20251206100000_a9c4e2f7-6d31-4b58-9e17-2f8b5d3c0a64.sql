@@ -0,0 +1,5 @@
+-- A re-verification run used to continue for anyone who knew its id. Each
+-- signed start or resume now issues a continuation token that is returned
+-- only to that caller; the run keeps its SHA-256, and page calls must
+-- present the token.
+ALTER TABLE public.reverification_runs ADD COLUMN continuation_token_hash TEXT;
@@ -0,0 +1,18 @@
+-- manage-group accepted a signed add or remove as often as it was sent
+-- within its five-minute window, so an add could be replayed after the
+-- member was removed. Every accepted request is recorded here first, under
+-- the SHA-256 of its wallet and signed message (which includes the
+-- timestamp), and a request that is already present is refused. Keying on
+-- the message rather than the signature bytes means re-encoding the
+-- signature doesn't get around it. Rows older than the window are pruned
+-- by manage-group. Service role only.
+CREATE TABLE public.used_group_requests (
+  request_hash TEXT PRIMARY KEY CHECK (request_hash ~ '^[0-9a-f]{64}$'),
+  wallet_address TEXT NOT NULL,
+  action TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_used_group_requests_created ON public.used_group_requests(created_at);
+
+ALTER TABLE public.used_group_requests ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,9 @@
+-- Signed upload URLs for attachments used to allow overwriting, so a token
+-- that was still valid after `complete` could replace a ready ciphertext with
+-- anything. The attachments function now issues them without upsert; this
+-- adds a hard size ceiling on the bucket as well, since the admin limits are
+-- only checked when an upload is prepared and completed. The function refuses
+-- admin limits whose ciphertext would not fit under it.
+UPDATE storage.buckets
+SET file_size_limit = 104857600
+WHERE id = 'attachments';
@@ -0,0 +1,28 @@
+-- The "Admins can release quarantined messages" policy let an admin session
+-- rewrite any column of a quarantined message, including verified,
+-- verification_method, encrypted_content and wallet_address. Releasing now
+-- goes through release_quarantined_message, which only clears the
+-- quarantined flag, so a released message keeps what send-message stored.
+DROP POLICY IF EXISTS "Admins can release quarantined messages" ON public.messages;
+
+-- Runs as the owner since messages have no UPDATE policy left. Returns false
+-- if the message doesn't exist or was already released.
+CREATE OR REPLACE FUNCTION public.release_quarantined_message(message_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(public.jwt_wallet_address()) THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  UPDATE public.messages AS m
+  SET quarantined = false
+  WHERE m.id = release_quarantined_message.message_id
+    AND m.quarantined;
+
+  RETURN FOUND;
+END;
+$$;
@@ -0,0 +1,13 @@
+-- Two overlapping calls for one re-verification run could both check the
+-- same page and each record it. reverify-messages now only advances a run
+-- from the cursor the page started at, and records history with ON CONFLICT
+-- DO NOTHING against this index, so a page is recorded once per run.
+-- Duplicates from before are dropped, keeping the earliest row.
+DELETE FROM public.message_verifications AS v
+USING public.message_verifications AS earlier
+WHERE v.run_id = earlier.run_id
+  AND v.message_id = earlier.message_id
+  AND (v.created_at, v.id) > (earlier.created_at, earlier.id);
+
+CREATE UNIQUE INDEX idx_message_verifications_run_message
+ON public.message_verifications(run_id, message_id);
@@ -0,0 +1,43 @@
+const { verifyContribution } = require('../lib/verifyContribution');
+
+/**
+ * Vercel Serverless Function for trusted setup ceremony contributions
+ * Verifies a Phase 2 zkey from its r1cs and Powers of Tau
+ */
+module.exports = async (req, res) => {
+  // Enable CORS for Supabase edge functions
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { r1csUrl, ptauUrl, zkeyUrl } = req.body || {};
+
+    if (!r1csUrl || !ptauUrl || !zkeyUrl) {
+      return res.status(400).json({
+        error: 'Missing required fields: r1csUrl, ptauUrl, or zkeyUrl'
+      });
+    }
+
+    console.log('🕯️ Verifying ceremony zkey:', zkeyUrl);
+    const result = await verifyContribution({ r1csUrl, ptauUrl, zkeyUrl });
+    console.log('Verification result:', result.valid ? '✅ VALID' : '❌ INVALID');
+
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('❌ Ceremony verification error:', error);
+    return res.status(500).json({
+      valid: false,
+      error: error.message || 'Verification failed'
+    });
+  }
+};
@@ -55,11 +55,7 @@ module.exports = async (req, res) => {
 
     return res.status(200).json({
       verified: isValid,
-      timestamp: new Date().toISOString(),
-      publicSignals: {
-        threshold: publicSignals[0],
-        commitment: publicSignals[1]
-      }
+      timestamp: new Date().toISOString()
     });
 
   } catch (error) {
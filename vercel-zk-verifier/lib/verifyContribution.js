@@ -0,0 +1,94 @@
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+const snarkjs = require('snarkjs');
+
+/**
+ * Verification of a Phase 2 ceremony zkey, for the app's `ceremony` edge
+ * function. snarkjs re-derives the zkey's starting point from the r1cs and
+ * the Powers of Tau and checks every contribution since; its log is the
+ * only place it reports them, so a logger collects them as it goes.
+ */
+
+async function download(url, file) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status}`);
+  }
+  await fs.writeFile(file, Buffer.from(await response.arrayBuffer()));
+}
+
+function createTranscriptLogger() {
+  const lines = [];
+  const contributions = [];
+  let current = null;
+
+  const record = level => message => {
+    const text = String(message);
+    lines.push(level === 'info' ? text : `[${level}] ${text}`);
+
+    // snarkjs prints "contribution #N name:" and the hash in four indented rows
+    const contribution = text.match(/^contribution #(\d+) ?(.*):\n([\s\S]*)$/);
+    if (contribution) {
+      current = {
+        index: Number(contribution[1]),
+        name: contribution[2],
+        hash: contribution[3].replace(/\s+/g, ''),
+        beaconHash: null,
+        beaconIterationsExp: null,
+      };
+      contributions.push(current);
+      return;
+    }
+
+    const beacon = text.match(/^Beacon generator: ([0-9a-f]+)$/);
+    if (beacon && current) current.beaconHash = beacon[1];
+
+    const iterations = text.match(/^Beacon iterations Exp: (\d+)$/);
+    if (iterations && current) current.beaconIterationsExp = Number(iterations[1]);
+  };
+
+  return {
+    logger: { info: record('info'), warn: record('warn'), error: record('error'), debug: () => {} },
+    lines,
+    // Logged newest first
+    contributions: () => contributions
+      .sort((a, b) => a.index - b.index)
+      .map(({ index, ...rest }) => rest),
+  };
+}
+
+/**
+ * Check the zkey at `zkeyUrl` against the r1cs and Powers of Tau. Returns
+ * the verification log, its contributions oldest first and, when valid,
+ * the verification key it produces.
+ */
+async function verifyContribution({ r1csUrl, ptauUrl, zkeyUrl }) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ceremony-'));
+  const r1csFile = path.join(dir, 'circuit.r1cs');
+  const ptauFile = path.join(dir, 'pot.ptau');
+  const zkeyFile = path.join(dir, 'circuit.zkey');
+
+  try {
+    await Promise.all([
+      download(r1csUrl, r1csFile),
+      download(ptauUrl, ptauFile),
+      download(zkeyUrl, zkeyFile),
+    ]);
+
+    const transcript = createTranscriptLogger();
+    const valid = await snarkjs.zKey.verifyFromR1cs(r1csFile, ptauFile, zkeyFile, transcript.logger);
+    const vkey = valid ? await snarkjs.zKey.exportVerificationKey(zkeyFile) : null;
+
+    return {
+      valid: valid === true,
+      log: transcript.lines.join('\n'),
+      contributions: transcript.contributions(),
+      vkey,
+    };
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+module.exports = { verifyContribution };
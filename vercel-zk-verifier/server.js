@@ -1,5 +1,6 @@
 const express = require('express');
 const snarkjs = require('snarkjs');
+const { verifyContribution } = require('./lib/verifyContribution');
 
 const app = express();
 
@@ -37,10 +38,6 @@ app.post('/api/verify', async (req, res) => {
     return res.status(200).json({
       verified: Boolean(isValid),
       timestamp: new Date().toISOString(),
-      publicSignals: {
-        threshold: publicSignals[0],
-        commitment: publicSignals[1],
-      },
     });
   } catch (error) {
     console.error('❌ [Express] Verification error:', error);
@@ -48,6 +45,26 @@ app.post('/api/verify', async (req, res) => {
   }
 });
 
+// Ceremony contribution endpoint
+app.post('/api/verify-contribution', async (req, res) => {
+  try {
+    const { r1csUrl, ptauUrl, zkeyUrl } = req.body || {};
+
+    if (!r1csUrl || !ptauUrl || !zkeyUrl) {
+      return res.status(400).json({ error: 'Missing required fields: r1csUrl, ptauUrl, or zkeyUrl' });
+    }
+
+    console.log('🕯️ [Express] Verifying ceremony zkey:', zkeyUrl);
+    const result = await verifyContribution({ r1csUrl, ptauUrl, zkeyUrl });
+    console.log('Verification result:', result.valid ? '✅ VALID' : '❌ INVALID');
+
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('❌ [Express] Ceremony verification error:', error);
+    return res.status(500).json({ valid: false, error: error.message || 'Verification failed' });
+  }
+});
+
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
   console.log(`✅ Verifier listening on port ${PORT}`);